@@ -2,6 +2,22 @@
 
 import { query } from "@/lib/db"
 import { revalidatePath } from "next/cache"
+import { hardDeleteFile, purgeExpiredTrash, getTrashRetentionDays, TrashItemType } from "@/lib/trash"
+import { notifyChange } from "@/lib/realtime"
+import { SAVED_SEARCH_SCHEMA_STATEMENTS } from "@/lib/search-schema"
+import { ensureSearchSchema, buildNoteSearchConditions, toLikePattern, toSearchPlainText } from "@/lib/search"
+import { NOTE_TAGS_COLUMN } from "@/lib/tag-schema"
+import { ensureTagSchema, normalizeTagName, extractInlineTags } from "@/lib/tags"
+import { NOTE_LINK_SCHEMA_STATEMENTS } from "@/lib/note-link-schema"
+import { OUTBOX_SCHEMA_STATEMENTS } from "@/lib/outbox-schema"
+import { extractWikiLinks, normalizeWikiLinkTitle } from "@/lib/wiki-links"
+import {
+  parseSearchQuery,
+  buildSearchCriteria,
+  searchIncludesKind,
+  isSavedSearchGroupId,
+  parseSavedSearchGroupId,
+} from "@/lib/search-query"
 
 // 数据库行类型定义
 interface NoteRow {
@@ -12,12 +28,19 @@ interface NoteRow {
   group_id: number | null
   created_at: string
   updated_at: string
+  version: number
+  pinned: boolean
+  starred: boolean
+  remind_at: string | null
+  tags?: NoteTag[]
 }
 
 interface GroupRow {
   id: number
   user_id: string
   name: string
+  parent_id: number | null
+  sort_order: number
   created_at: string
   updated_at: string
 }
@@ -27,6 +50,7 @@ interface LinkRow {
   user_id: string
   url: string
   title: string
+  group_id: number | null
   created_at: string
 }
 
@@ -41,12 +65,33 @@ interface FileRow {
   uploaded_at: string
 }
 
+interface NoteRevisionRow {
+  id: number
+  note_id: number
+  user_id: string
+  content: string
+  title: string
+  created_at: string
+  updated_at: string
+}
+
+interface TagRow {
+  id: number
+  user_id: string
+  name: string
+  note_count: number
+  created_at: string
+  updated_at: string
+}
+
 interface UserSettingsRow {
   id: number
   user_id: string
   font_family: string
   font_size: string
   sync_interval: number
+  note_render_mode: string
+  editor_view: string
   updated_at: string
 }
 
@@ -59,12 +104,52 @@ export type Note = {
   group_id: number | null
   created_at: Date
   updated_at: Date
+  version: number // 内容版本号，保存时用于检测并发编辑冲突
+  pinned: boolean // 置顶，列表中排在时间线之前
+  starred: boolean // 收藏
+  remind_at: Date | null // 提醒时间，NULL 表示未设置提醒
+  tags?: NoteTag[] // 查询便签列表和单条便签时附带
+}
+
+export type NoteTag = {
+  id: number
+  name: string
+  source: "manual" | "inline" // 手动添加 / 正文中的 #标签
+}
+
+export type Tag = {
+  id: number
+  user_id: string
+  name: string
+  note_count: number // 未删除的便签数量
+  created_at: Date
+  updated_at: Date
+}
+
+// 带版本号检查的更新结果：conflict 时 note 为服务器上的当前便签
+// 链接到某条便签的其他便签
+export type NoteBacklink = {
+  id: number
+  title: string
+  snippet: string // 正文开头的纯文本
+  updated_at: Date
 }
 
+export type NoteTitleMatch = {
+  id: number
+  title: string
+}
+
+export type NoteUpdateResult =
+  | { status: "updated"; note: Note }
+  | { status: "conflict"; note: Note }
+
 export type Group = {
   id: number
   user_id: string
   name: string
+  parent_id: number | null // 上级分组，null 为顶层
+  sort_order: number // 同级分组中的显示顺序
   created_at: Date
   updated_at: Date
 }
@@ -74,6 +159,7 @@ export type Link = {
   user_id: string
   url: string
   title: string
+  group_id: number | null
   created_at: Date
 }
 
@@ -90,12 +176,52 @@ export type File = {
   uploaded_at: Date
 }
 
+export type NoteRevision = {
+  id: number
+  note_id: number
+  user_id: string
+  content: string
+  title: string
+  created_at: Date // 编辑会话开始时间
+  updated_at: Date // 编辑会话最后一次保存时间
+}
+
+// 历史版本列表项（不含正文，正文通过 getNoteRevision 单独获取）
+export type NoteRevisionSummary = Omit<NoteRevision, "content"> & {
+  content_length: number
+}
+
+export type TrashItems = {
+  notes: (Note & { deleted_at: Date })[]
+  links: (Link & { deleted_at: Date })[]
+  files: (File & { deleted_at: Date })[]
+  retention_days: number
+}
+
+export type SavedSearch = {
+  id: number
+  user_id: string
+  name: string
+  query: string
+  pinned: boolean // 固定到便签分组列表
+  created_at: Date
+  updated_at: Date
+}
+
+export type SearchHistoryEntry = {
+  id: number
+  query: string
+  searched_at: Date
+}
+
 export type UserSettings = {
   id: number
   user_id: string
   font_family: string
   font_size: string
   sync_interval: number
+  note_render_mode: string // plain 纯文本 / markdown 渲染 Markdown
+  editor_view: string // edit 仅编辑 / split 分屏预览 / preview 仅预览
   updated_at: Date
 }
 
@@ -105,27 +231,26 @@ export async function getNotes(
   limit?: number,
   offset: number = 0,
   groupId: string = "all",
+  tagId: string | null = null,
+  includeDescendants: boolean = false,
 ): Promise<Note[]> {
   // 如果没有传递limit参数或limit为-1，则加载所有数据
   const isLoadAll = limit === undefined || limit === -1
-  console.log("⚡ 加载便签:", { userId, limit: isLoadAll ? '全部' : limit, offset, groupId })
+  console.log("⚡ 加载便签:", { userId, limit: isLoadAll ? '全部' : limit, offset, groupId, tagId, includeDescendants })
 
   try {
-    const queryParams: (string | number)[] = [userId]
-    let whereClause = "WHERE user_id = $1"
-
-    if (groupId === "ungrouped") {
-      whereClause += " AND group_id IS NULL"
-    } else if (groupId !== "all") {
-      const parsedGroupId = parseInt(groupId, 10)
-      if (Number.isNaN(parsedGroupId)) {
-        throw new Error("无效的分组ID")
-      }
-      queryParams.push(parsedGroupId)
-      whereClause += ` AND group_id = $${queryParams.length}`
+    await ensureTagSchema()
+    const queryParams: unknown[] = [userId]
+    let whereClause = "WHERE user_id = $1 AND deleted_at IS NULL"
+
+    const groupConditions = await getGroupNoteConditions(groupId, includeDescendants, userId, queryParams)
+    whereClause += groupConditions.map((condition) => ` AND ${condition}`).join("")
+
+    if (tagId) {
+      whereClause += ` AND ${tagFilterCondition(tagId, queryParams)}`
     }
 
-    let queryText = `SELECT id, user_id, content, title, group_id, created_at, updated_at FROM notes ${whereClause} ORDER BY created_at DESC`
+    let queryText = `SELECT id, user_id, content, title, group_id, created_at, updated_at, version, pinned, starred, remind_at, ${NOTE_TAGS_COLUMN} FROM notes ${whereClause} ORDER BY pinned DESC, created_at DESC, id DESC`
 
     if (isLoadAll) {
       if (offset > 0) {
@@ -148,7 +273,12 @@ export async function getNotes(
       title: row.title,
       group_id: row.group_id,
       created_at: row.created_at,
-      updated_at: row.updated_at
+      updated_at: row.updated_at,
+      version: row.version,
+      pinned: row.pinned,
+      starred: row.starred,
+      remind_at: row.remind_at ? new Date(row.remind_at) : null,
+      tags: row.tags ?? []
     })) as Note[]
   } catch (error) {
     console.error("❌ 便签加载失败:", error)
@@ -156,58 +286,165 @@ export async function getNotes(
   }
 }
 
+/**
+ * 分组视图的筛选条件，参数追加到 params（$1 须为 userId）
+ * 具体分组在 includeDescendants 为 true 时包含所有子孙分组中的便签
+ */
+async function getGroupNoteConditions(
+  groupId: string,
+  includeDescendants: boolean,
+  userId: string,
+  params: unknown[],
+): Promise<string[]> {
+  if (groupId === "all") return []
+  if (groupId === "ungrouped") return ["group_id IS NULL"]
+  if (groupId === "starred") return ["starred = TRUE"]
+  if (isSavedSearchGroupId(groupId)) {
+    return getSavedSearchNoteConditions(groupId, userId, params)
+  }
+
+  const parsedGroupId = parseInt(groupId, 10)
+  if (Number.isNaN(parsedGroupId)) {
+    throw new Error("无效的分组ID")
+  }
+  params.push(parsedGroupId)
+
+  if (!includeDescendants) {
+    return [`group_id = $${params.length}`]
+  }
+  return [`group_id IN (
+    WITH RECURSIVE subtree AS (
+      SELECT id FROM groups WHERE id = $${params.length} AND user_id = $1
+      UNION
+      SELECT g.id FROM groups g JOIN subtree s ON g.parent_id = s.id WHERE g.user_id = $1
+    )
+    SELECT id FROM subtree
+  )`]
+}
+
+// 标签筛选条件，参数追加到 params
+function tagFilterCondition(tagId: string, params: unknown[]): string {
+  const parsedTagId = parseInt(tagId, 10)
+  if (Number.isNaN(parsedTagId)) {
+    throw new Error("无效的标签ID")
+  }
+  params.push(parsedTagId)
+  return `EXISTS (SELECT 1 FROM note_tags WHERE note_tags.note_id = notes.id AND note_tags.tag_id = $${params.length})`
+}
+
+// 已保存搜索的虚拟分组：读取保存的查询并生成 notes 的筛选条件，参数追加到 params（$1 须为 userId）
+async function getSavedSearchNoteConditions(groupId: string, userId: string, params: unknown[]): Promise<string[]> {
+  const savedSearchId = parseSavedSearchGroupId(groupId)
+  if (savedSearchId === null) {
+    throw new Error("无效的分组ID")
+  }
+
+  await ensureSavedSearchTablesExist()
+  const result = await query(
+    "SELECT query FROM saved_searches WHERE id = $1 AND user_id = $2",
+    [savedSearchId, userId],
+  )
+  const row = result.rows[0] as { query: string } | undefined
+  if (!row) {
+    throw new Error("已保存的搜索不存在")
+  }
+
+  const criteria = buildSearchCriteria(parseSearchQuery(row.query))
+  if (!searchIncludesKind(criteria, "note")) {
+    return ["FALSE"]
+  }
+
+  await ensureSearchSchema()
+  const add = (value: unknown) => {
+    params.push(value)
+    return `$${params.length}`
+  }
+  return buildNoteSearchConditions(criteria, add).conditions
+}
+
+// 游标位置：列表按 (pinned, created_at, id) 降序排列，三者共同确定唯一位置
+type NotesCursorPosition = {
+  pinned: boolean
+  createdAt: string // 微秒精度的本地时间字符串，避免 JS Date 截断到毫秒后跳过或重复便签
+  id: number
+}
+
+function encodeNotesCursor(position: NotesCursorPosition): string {
+  return Buffer.from(JSON.stringify({ p: position.pinned, c: position.createdAt, i: position.id })).toString("base64url")
+}
+
+function decodeNotesCursor(cursor: string): NotesCursorPosition {
+  try {
+    const data = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"))
+    if (
+      typeof data?.p === "boolean" &&
+      typeof data.c === "string" &&
+      !Number.isNaN(Date.parse(data.c)) &&
+      Number.isInteger(data.i)
+    ) {
+      return { pinned: data.p, createdAt: data.c, id: data.i }
+    }
+  } catch {
+    // 格式错误统一在下方报错
+  }
+  throw new Error("无效的分页游标")
+}
+
 // 高性能游标分页查询（适用于大数据量场景）
 export async function getNotesCursor(
   userId: string,
   limit: number = 20,
   cursor?: string,
   groupId: string = "all",
+  tagId: string | null = null,
+  includeDescendants: boolean = false,
 ): Promise<{ notes: Note[], nextCursor?: string, hasMore: boolean }> {
-  console.log("🚀 游标分页加载便签:", { userId, limit, cursor, groupId })
+  console.log("🚀 游标分页加载便签:", { userId, limit, cursor, groupId, tagId, includeDescendants })
 
   try {
+    await ensureTagSchema()
     let queryText: string
-    let queryParams: (string | number)[]
+    let queryParams: unknown[]
 
-    const whereParts: string[] = ["user_id = $1"]
-    const baseParams: (string | number)[] = [userId]
+    const whereParts: string[] = ["user_id = $1", "deleted_at IS NULL"]
+    const baseParams: unknown[] = [userId]
 
-    if (groupId === "ungrouped") {
-      whereParts.push("group_id IS NULL")
-    } else if (groupId !== "all") {
-      const parsedGroupId = parseInt(groupId, 10)
-      if (Number.isNaN(parsedGroupId)) {
-        throw new Error("无效的分组ID")
-      }
-      baseParams.push(parsedGroupId)
-      whereParts.push(`group_id = $${baseParams.length}`)
+    whereParts.push(...await getGroupNoteConditions(groupId, includeDescendants, userId, baseParams))
+
+    if (tagId) {
+      whereParts.push(tagFilterCondition(tagId, baseParams))
     }
 
     if (cursor) {
-      baseParams.push(cursor)
-      whereParts.push(`created_at < $${baseParams.length}`)
+      const position = decodeNotesCursor(cursor)
+      baseParams.push(position.pinned, position.createdAt, position.id)
+      const count = baseParams.length
+      whereParts.push(`(pinned, created_at, id) < ($${count - 2}::boolean, $${count - 1}::timestamp, $${count}::int)`)
     }
 
     baseParams.push(limit + 1)
     queryText = `
-      SELECT id, user_id, content, title, group_id, created_at, updated_at
+      SELECT id, user_id, content, title, group_id, created_at, updated_at, version, pinned, starred, remind_at,
+        to_char(created_at, 'YYYY-MM-DD"T"HH24:MI:SS.US') AS cursor_created_at,
+        ${NOTE_TAGS_COLUMN}
       FROM notes
       WHERE ${whereParts.join(" AND ")}
-      ORDER BY created_at DESC
+      ORDER BY pinned DESC, created_at DESC, id DESC
       LIMIT $${baseParams.length}
     `
     queryParams = baseParams
 
     const result = await query(queryText, queryParams)
-    const rows = result.rows as NoteRow[]
+    const rows = result.rows as (NoteRow & { cursor_created_at: string })[]
 
     // 判断是否还有更多数据
     const hasMore = rows.length > limit
     const notes = hasMore ? rows.slice(0, limit) : rows
 
     // 生成下一页游标
-    const nextCursor = hasMore && notes.length > 0
-      ? notes[notes.length - 1].created_at
+    const lastRow = notes[notes.length - 1]
+    const nextCursor = hasMore && lastRow
+      ? encodeNotesCursor({ pinned: lastRow.pinned, createdAt: lastRow.cursor_created_at, id: lastRow.id })
       : undefined
 
     console.log(`🚀 游标分页完成: ${notes.length} 条，hasMore: ${hasMore}`)
@@ -220,7 +457,12 @@ export async function getNotesCursor(
         title: row.title,
         group_id: row.group_id,
         created_at: new Date(row.created_at),
-        updated_at: new Date(row.updated_at)
+        updated_at: new Date(row.updated_at),
+        version: row.version,
+        pinned: row.pinned,
+        starred: row.starred,
+        remind_at: row.remind_at ? new Date(row.remind_at) : null,
+        tags: row.tags ?? []
       })) as Note[],
       nextCursor,
       hasMore
@@ -387,25 +629,78 @@ async function generateNoteTitle(content: string): Promise<string> {
   return (aiTitle && aiTitle.trim()) ? aiTitle.trim() : ""
 }
 
+let outboxSchemaReady: Promise<void> | null = null
+
+// 确保离线新建的幂等键字段存在（旧数据库可能未执行过初始化）
+function ensureOutboxSchema(): Promise<void> {
+  if (!outboxSchemaReady) {
+    outboxSchemaReady = (async () => {
+      for (const statement of OUTBOX_SCHEMA_STATEMENTS) {
+        await query(statement)
+      }
+    })().catch((error) => {
+      outboxSchemaReady = null
+      throw error
+    })
+  }
+  return outboxSchemaReady
+}
+
+// 按幂等键查找离线新建时已创建的记录（table 只能是内部传入的表名）
+async function findByClientKey(table: "notes" | "links" | "groups", userId: string, clientKey: string) {
+  const result = await query(`SELECT * FROM ${table} WHERE user_id = $1 AND client_key = $2`, [userId, clientKey])
+  return result.rows[0] ?? null
+}
+
+/**
+ * 新建便签
+ * clientKey 为离线队列条目的幂等键：同一条目已创建过时（上次请求超时后重新回放）返回已创建的便签，
+ * 创建之后同一便签的新内容合并进了这个新建操作时（clientTime 更新），把新内容写入已创建的便签
+ */
 export async function createNote(
   userId: string,
   content: string,
   clientTime?: string,
   groupId: number | null = null,
   title: string = "",
+  updatedTime?: string,
+  clientKey?: string,
 ): Promise<Note> {
-  console.log("服务器操作: createNote", { userId, contentLength: content.length, clientTime, groupId })
+  console.log("服务器操作: createNote", { userId, contentLength: content.length, clientTime, groupId, clientKey })
 
   try {
+    if (clientKey) {
+      await ensureOutboxSchema()
+      const existing = await findByClientKey("notes", userId, clientKey)
+      if (existing) {
+        console.log("createNote 幂等键已创建过便签:", { id: existing.id, clientKey })
+        return await resolveReplayedNote(existing.id, userId, content, clientTime, title)
+      }
+    }
+
     const trimmedTitle = title.trim()
     const titleToSave = trimmedTitle ? trimmedTitle : await generateNoteTitle(content)
     let result;
 
-    // 如果提供了客户端时间，使用它作为创建时间和更新时间
-    if (clientTime) {
+    if (clientKey) {
+      // 离线新建：幂等键和便签在同一条 INSERT 中写入，同一条目的并发请求由唯一索引拦下
       result = await query(
-        "INSERT INTO notes (user_id, content, title, group_id, created_at, updated_at) VALUES ($1, $2, $3, $4, $5, $5) RETURNING *",
-        [userId, content, titleToSave, groupId, new Date(clientTime)]
+        `INSERT INTO notes (user_id, content, title, group_id, created_at, updated_at, client_key)
+         VALUES ($1, $2, $3, $4, $5, $5, $6)
+         ON CONFLICT (user_id, client_key) WHERE client_key IS NOT NULL DO NOTHING
+         RETURNING *`,
+        [userId, content, titleToSave, groupId, clientTime ? new Date(clientTime) : new Date(), clientKey]
+      );
+      if (result.rows.length === 0) {
+        const existing = await findByClientKey("notes", userId, clientKey)
+        if (!existing) throw new Error("便签不存在")
+        return await resolveReplayedNote(existing.id, userId, content, clientTime, title)
+      }
+    } else if (clientTime) {
+      // 如果提供了客户端时间，使用它作为创建时间和更新时间（导入时可另外指定原来的更新时间）
+      result = await query(
+        "INSERT INTO notes (user_id, content, title, group_id, created_at, updated_at) VALUES ($1, $2, $3, $4, $5, $6) RETURNING *",
+        [userId, content, titleToSave, groupId, new Date(clientTime), new Date(updatedTime || clientTime)]
       );
     } else {
       // 没有提供客户端时间时使用默认的NOW()
@@ -413,6 +708,7 @@ export async function createNote(
     }
 
     const row = result.rows[0];
+    await syncNoteLinks(row.id, userId, row.content, row.title)
     const note: Note = {
       id: row.id,
       user_id: row.user_id,
@@ -420,10 +716,16 @@ export async function createNote(
       title: row.title,
       group_id: row.group_id,
       created_at: row.created_at,
-      updated_at: row.updated_at
+      updated_at: row.updated_at,
+      version: row.version,
+      pinned: row.pinned,
+      starred: row.starred,
+      remind_at: row.remind_at ? new Date(row.remind_at) : null,
+      tags: await syncInlineNoteTags(row.id, userId, row.content)
     };
 
     console.log("createNote 结果:", note);
+    await notifyChange({ userId, entity: "note", action: "created", id: note.id })
     revalidatePath("/")
     return note;
   } catch (error) {
@@ -432,6 +734,24 @@ export async function createNote(
   }
 }
 
+// 离线新建的便签已创建过：返回服务器上的便签，创建后又合并进来更新的内容时写入
+async function resolveReplayedNote(
+  id: number,
+  userId: string,
+  content: string,
+  clientTime: string | undefined,
+  title: string,
+): Promise<Note> {
+  const note = await getNoteById(id, userId)
+  if (!note) {
+    throw new Error("便签不存在")
+  }
+  if (clientTime && new Date(clientTime).getTime() > new Date(note.updated_at).getTime()) {
+    return updateNote(id, userId, content, clientTime, title)
+  }
+  return note
+}
+
 export async function updateNote(
   id: number,
   userId: string,
@@ -443,50 +763,13 @@ export async function updateNote(
   content = content || "";
   console.log("服务器操作: updateNote", { id, userId, contentLength: content.length, clientTime })
   try {
-    let result;
-
-    const titleToSave = typeof title === "string" ? title.trim() : undefined
-
-    // 如果提供了客户端时间，使用它作为更新时间
-    if (clientTime) {
-      if (titleToSave === undefined) {
-        result = await query(
-          "UPDATE notes SET content = $1, updated_at = $4 WHERE id = $2 AND user_id = $3 RETURNING *",
-          [content, id, userId, new Date(clientTime)],
-        );
-      } else {
-        result = await query(
-          "UPDATE notes SET content = $1, title = $2, updated_at = $5 WHERE id = $3 AND user_id = $4 RETURNING *",
-          [content, titleToSave, id, userId, new Date(clientTime)],
-        );
-      }
-    } else {
-      // 没有提供客户端时间时使用默认的NOW()
-      if (titleToSave === undefined) {
-        result = await query(
-          "UPDATE notes SET content = $1, updated_at = NOW() WHERE id = $2 AND user_id = $3 RETURNING *",
-          [content, id, userId],
-        );
-      } else {
-        result = await query(
-          "UPDATE notes SET content = $1, title = $2, updated_at = NOW() WHERE id = $3 AND user_id = $4 RETURNING *",
-          [content, titleToSave, id, userId],
-        );
-      }
+    const note = await writeNoteUpdate(id, userId, content, clientTime, title)
+    if (!note) {
+      throw new Error("便签不存在")
     }
-    
-    const row = result.rows[0];
-    const note: Note = {
-      id: row.id,
-      user_id: row.user_id,
-      content: row.content,
-      title: row.title,
-      group_id: row.group_id,
-      created_at: row.created_at,
-      updated_at: row.updated_at
-    };
-    
+
     console.log("updateNote 结果:", note);
+    await notifyChange({ userId, entity: "note", action: "updated", id })
     revalidatePath("/")
     return note;
   } catch (error) {
@@ -495,193 +778,1290 @@ export async function updateNote(
   }
 }
 
-export async function regenerateAllNoteTitles(
+/**
+ * 带版本号检查的便签更新（乐观并发控制）
+ * 只有当数据库中的版本号仍等于 expectedVersion 时才写入；
+ * 否则说明便签已在其他设备被修改，返回 conflict 和服务器上的当前便签，由客户端处理冲突
+ */
+export async function updateNoteWithVersion(
+  id: number,
   userId: string,
-): Promise<{ updated: number; titles: { id: number; title: string; updated_at: Date }[] }> {
-  const notesResult = await query("SELECT id, content FROM notes WHERE user_id = $1 ORDER BY id ASC", [userId])
-  const rows = notesResult.rows as { id: number; content: string }[]
+  content: string,
+  expectedVersion: number,
+  clientTime?: string,
+  title?: string,
+): Promise<NoteUpdateResult> {
+  content = content || ""
+  console.log("服务器操作: updateNoteWithVersion", { id, userId, contentLength: content.length, expectedVersion, clientTime })
+  try {
+    const note = await writeNoteUpdate(id, userId, content, clientTime, title, expectedVersion)
+    if (!note) {
+      const current = await getNoteById(id, userId)
+      if (!current) {
+        throw new Error("便签不存在")
+      }
+      // 服务器上已是要保存的内容（同一修改重复提交，例如离线队列条目在请求超时后重新回放），不算冲突
+      if (current.content === content && (title === undefined || current.title === title.trim())) {
+        return { status: "updated", note: current }
+      }
+      console.log("updateNoteWithVersion 版本冲突:", { id, expectedVersion, currentVersion: current.version })
+      return { status: "conflict", note: current }
+    }
 
-  if (rows.length === 0) {
-    return { updated: 0, titles: [] }
+    await notifyChange({ userId, entity: "note", action: "updated", id })
+    revalidatePath("/")
+    return { status: "updated", note }
+  } catch (error) {
+    console.error("updateNoteWithVersion 错误:", error)
+    throw error
   }
+}
 
-  const results: { id: number; title: string }[] = new Array(rows.length)
-  let nextIndex = 0
-  const concurrency = Math.min(3, rows.length)
+async function getNoteById(id: number, userId: string): Promise<Note | null> {
+  await ensureTagSchema()
+  const result = await query(
+    `SELECT id, user_id, content, title, group_id, created_at, updated_at, version, pinned, starred, remind_at, ${NOTE_TAGS_COLUMN} FROM notes WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL`,
+    [id, userId],
+  )
+  const row = result.rows[0] as NoteRow | undefined
+  if (!row) return null
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    content: row.content,
+    title: row.title,
+    group_id: row.group_id,
+    created_at: new Date(row.created_at),
+    updated_at: new Date(row.updated_at),
+    version: row.version,
+    pinned: row.pinned,
+    starred: row.starred,
+    remind_at: row.remind_at ? new Date(row.remind_at) : null,
+    tags: row.tags ?? [],
+  }
+}
 
-  await Promise.all(
-    Array.from({ length: concurrency }, async () => {
-      while (true) {
-        const index = nextIndex
-        nextIndex += 1
-        if (index >= rows.length) return
+// 获取单条便签的完整内容（搜索结果只返回片段，复制和编辑时按需加载）
+export async function getNote(id: number, userId: string): Promise<Note | null> {
+  try {
+    return await getNoteById(id, userId)
+  } catch (error) {
+    console.error("getNote 错误:", error)
+    throw error
+  }
+}
 
-        const row = rows[index]
-        const title = (await generateNoteTitle(row.content)).trim()
-        results[index] = { id: row.id, title }
-      }
-    }),
-  )
+/**
+ * 写入便签内容和标题并递增版本号
+ * 传入 expectedVersion 时只在版本号匹配时写入，不匹配或便签不存在时返回 null
+ */
+async function writeNoteUpdate(
+  id: number,
+  userId: string,
+  content: string,
+  clientTime?: string,
+  title?: string,
+  expectedVersion?: number,
+): Promise<Note | null> {
+  const titleToSave = typeof title === "string" ? title.trim() : undefined
+
+  if (expectedVersion !== undefined) {
+    // 版本已过期时不记录历史版本，直接交给调用方处理冲突
+    const versionResult = await query(
+      "SELECT version FROM notes WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL",
+      [id, userId],
+    )
+    const current = versionResult.rows[0] as Pick<NoteRow, "version"> | undefined
+    if (!current || current.version !== expectedVersion) return null
+  }
 
-  const updatedRows: { id: number; title: string; updated_at: Date }[] = []
-  const chunkSize = 50
+  // 覆盖前记录历史版本（失败不影响保存）
+  await recordNoteRevision(id, userId, content, titleToSave)
 
-  for (let start = 0; start < results.length; start += chunkSize) {
-    const chunk = results
-      .slice(start, start + chunkSize)
-      .filter((item) => item?.title?.trim())
-    if (chunk.length === 0) continue
-    const valuesSql = chunk
-      .map((_, i) => `($${2 + i * 2}::int, $${3 + i * 2})`)
-      .join(", ")
+  const params: unknown[] = [content, id, userId]
+  const assignments = ["content = $1", "version = version + 1"]
 
-    const params: any[] = [userId]
-    for (const item of chunk) {
-      params.push(item.id, item.title)
-    }
+  if (titleToSave !== undefined) {
+    params.push(titleToSave)
+    assignments.push(`title = $${params.length}`)
+  }
 
-    const updateResult = await query(
-      `
-        UPDATE notes AS n
-        SET title = v.title,
-            updated_at = NOW()
-        FROM (VALUES ${valuesSql}) AS v(id, title)
-        WHERE n.user_id = $1 AND n.id = v.id
-        RETURNING n.id, n.title, n.updated_at
-      `,
-      params,
-    )
+  // 如果提供了客户端时间，使用它作为更新时间；否则使用默认的NOW()
+  if (clientTime) {
+    params.push(new Date(clientTime))
+    assignments.push(`updated_at = $${params.length}`)
+  } else {
+    assignments.push("updated_at = NOW()")
+  }
 
-    for (const row of updateResult.rows as any[]) {
-      updatedRows.push({
-        id: row.id,
-        title: row.title,
-        updated_at: row.updated_at,
-      })
-    }
+  let whereClause = "id = $2 AND user_id = $3"
+  if (expectedVersion !== undefined) {
+    // 检查与写入之间可能有其他写入，写入时再校验一次版本号
+    params.push(expectedVersion)
+    whereClause += ` AND version = $${params.length}`
   }
 
-  revalidatePath("/")
-  return { updated: updatedRows.length, titles: updatedRows }
+  const result = await query(
+    `UPDATE notes SET ${assignments.join(", ")} WHERE ${whereClause} RETURNING *`,
+    params,
+  )
+
+  const row = result.rows[0] as NoteRow | undefined
+  if (!row) return null
+  await syncNoteLinks(row.id, userId, row.content, row.title)
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    content: row.content,
+    title: row.title,
+    group_id: row.group_id,
+    created_at: new Date(row.created_at),
+    updated_at: new Date(row.updated_at),
+    version: row.version,
+    pinned: row.pinned,
+    starred: row.starred,
+    remind_at: row.remind_at ? new Date(row.remind_at) : null,
+    tags: await syncInlineNoteTags(row.id, userId, row.content),
+  }
 }
 
-export async function deleteNote(id: number, userId: string): Promise<void> {
-  console.log("服务器操作: deleteNote", { id, userId })
-  try {
-    await query("DELETE FROM notes WHERE id = $1 AND user_id = $2", [id, userId])
-    console.log("deleteNote 成功")
-    revalidatePath("/")
-  } catch (error) {
-    console.error("deleteNote 错误:", error)
-    throw error
+// 同一编辑会话的时间窗口：窗口内的连续自动保存合并为一个历史版本
+const REVISION_SESSION_WINDOW_MS = 10 * 60 * 1000
+
+let noteRevisionsTableReady: Promise<void> | null = null
+
+// 确保历史版本表存在（旧数据库可能未执行过初始化）
+function ensureNoteRevisionsTableExists(): Promise<void> {
+  if (!noteRevisionsTableReady) {
+    noteRevisionsTableReady = (async () => {
+      await query(`
+        CREATE TABLE IF NOT EXISTS note_revisions (
+          id SERIAL PRIMARY KEY,
+          note_id INTEGER NOT NULL REFERENCES notes(id) ON DELETE CASCADE,
+          user_id VARCHAR(255) NOT NULL,
+          content TEXT NOT NULL,
+          title TEXT NOT NULL DEFAULT '',
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+        )
+      `)
+      await query("CREATE INDEX IF NOT EXISTS idx_note_revisions_note_id ON note_revisions(note_id, created_at DESC)")
+    })().catch((error) => {
+      noteRevisionsTableReady = null
+      throw error
+    })
   }
+  return noteRevisionsTableReady
 }
 
-export async function getGroups(userId: string): Promise<Group[]> {
-  console.log("服务器操作: getGroups", { userId })
+/**
+ * 在便签被覆盖前保存当前内容为历史版本
+ * 如果最近一个版本仍处于同一编辑会话内，只刷新其会话时间，不新增版本；
+ * force 为 true 时（如恢复历史版本）总是新建版本
+ */
+async function recordNoteRevision(
+  noteId: number,
+  userId: string,
+  nextContent: string,
+  nextTitle?: string,
+  force = false,
+): Promise<void> {
   try {
-    const result = await query(
-      "SELECT id, user_id, name, created_at, updated_at FROM groups WHERE user_id = $1 ORDER BY id ASC",
-      [userId]
-    )
+    await ensureNoteRevisionsTableExists()
 
-    return result.rows.map((row: GroupRow) => ({
+    const currentResult = await query(
+      "SELECT content, title FROM notes WHERE id = $1 AND user_id = $2",
+      [noteId, userId],
+    )
+    const current = currentResult.rows[0] as Pick<NoteRow, "content" | "title"> | undefined
+    if (!current) return
+
+    const currentContent = current.content || ""
+    const currentTitle = current.title || ""
+    const titleChanged = nextTitle !== undefined && nextTitle !== currentTitle
+    if (currentContent === nextContent && !titleChanged) return
+
+    if (!force) {
+      const latestResult = await query(
+        "SELECT id, updated_at FROM note_revisions WHERE note_id = $1 AND user_id = $2 ORDER BY created_at DESC, id DESC LIMIT 1",
+        [noteId, userId],
+      )
+      const latest = latestResult.rows[0] as Pick<NoteRevisionRow, "id" | "updated_at"> | undefined
+      if (latest && Date.now() - new Date(latest.updated_at).getTime() < REVISION_SESSION_WINDOW_MS) {
+        await query("UPDATE note_revisions SET updated_at = NOW() WHERE id = $1", [latest.id])
+        return
+      }
+    }
+
+    await query(
+      "INSERT INTO note_revisions (note_id, user_id, content, title) VALUES ($1, $2, $3, $4)",
+      [noteId, userId, currentContent, currentTitle],
+    )
+  } catch (error) {
+    console.warn("记录便签历史版本失败:", error)
+  }
+}
+
+export async function getNoteRevisions(noteId: number, userId: string): Promise<NoteRevisionSummary[]> {
+  try {
+    await ensureNoteRevisionsTableExists()
+    const result = await query(
+      `SELECT id, note_id, user_id, title, LENGTH(content) AS content_length, created_at, updated_at
+       FROM note_revisions
+       WHERE note_id = $1 AND user_id = $2
+       ORDER BY created_at DESC, id DESC`,
+      [noteId, userId],
+    )
+    return result.rows.map((row: Omit<NoteRevisionRow, "content"> & { content_length: number | string }) => ({
+      id: row.id,
+      note_id: row.note_id,
+      user_id: row.user_id,
+      title: row.title,
+      content_length: Number(row.content_length) || 0,
+      created_at: new Date(row.created_at),
+      updated_at: new Date(row.updated_at),
+    }))
+  } catch (error) {
+    console.error("getNoteRevisions 错误:", error)
+    throw error
+  }
+}
+
+export async function getNoteRevision(revisionId: number, userId: string): Promise<NoteRevision | null> {
+  try {
+    await ensureNoteRevisionsTableExists()
+    const result = await query(
+      "SELECT * FROM note_revisions WHERE id = $1 AND user_id = $2",
+      [revisionId, userId],
+    )
+    const row = result.rows[0] as NoteRevisionRow | undefined
+    if (!row) return null
+    return {
+      id: row.id,
+      note_id: row.note_id,
+      user_id: row.user_id,
+      content: row.content,
+      title: row.title,
+      created_at: new Date(row.created_at),
+      updated_at: new Date(row.updated_at),
+    }
+  } catch (error) {
+    console.error("getNoteRevision 错误:", error)
+    throw error
+  }
+}
+
+export async function restoreNoteRevision(noteId: number, revisionId: number, userId: string): Promise<Note> {
+  console.log("服务器操作: restoreNoteRevision", { noteId, revisionId, userId })
+  try {
+    const revision = await getNoteRevision(revisionId, userId)
+    if (!revision || revision.note_id !== noteId) {
+      throw new Error("历史版本不存在")
+    }
+
+    // 恢复前先把当前内容保存为新版本，保证恢复操作本身可撤销
+    await recordNoteRevision(noteId, userId, revision.content, revision.title, true)
+
+    const result = await query(
+      "UPDATE notes SET content = $1, title = $2, version = version + 1, updated_at = NOW() WHERE id = $3 AND user_id = $4 RETURNING *",
+      [revision.content, revision.title, noteId, userId],
+    )
+    const row = result.rows[0] as NoteRow | undefined
+    if (!row) {
+      throw new Error("便签不存在")
+    }
+    await syncNoteLinks(row.id, userId, row.content, row.title)
+
+    await notifyChange({ userId, entity: "note", action: "updated", id: noteId })
+    revalidatePath("/")
+    return {
+      id: row.id,
+      user_id: row.user_id,
+      content: row.content,
+      title: row.title,
+      group_id: row.group_id,
+      created_at: new Date(row.created_at),
+      updated_at: new Date(row.updated_at),
+      version: row.version,
+      pinned: row.pinned,
+      starred: row.starred,
+      remind_at: row.remind_at ? new Date(row.remind_at) : null,
+    }
+  } catch (error) {
+    console.error("restoreNoteRevision 错误:", error)
+    throw error
+  }
+}
+
+export async function regenerateAllNoteTitles(
+  userId: string,
+): Promise<{ updated: number; titles: { id: number; title: string; updated_at: Date; version: number }[] }> {
+  const notesResult = await query("SELECT id, content FROM notes WHERE user_id = $1 AND deleted_at IS NULL ORDER BY id ASC", [userId])
+  const rows = notesResult.rows as { id: number; content: string }[]
+
+  if (rows.length === 0) {
+    return { updated: 0, titles: [] }
+  }
+
+  const results: { id: number; title: string }[] = new Array(rows.length)
+  let nextIndex = 0
+  const concurrency = Math.min(3, rows.length)
+
+  await Promise.all(
+    Array.from({ length: concurrency }, async () => {
+      while (true) {
+        const index = nextIndex
+        nextIndex += 1
+        if (index >= rows.length) return
+
+        const row = rows[index]
+        const title = (await generateNoteTitle(row.content)).trim()
+        results[index] = { id: row.id, title }
+      }
+    }),
+  )
+
+  const updatedRows: { id: number; title: string; updated_at: Date; version: number }[] = []
+  const chunkSize = 50
+
+  for (let start = 0; start < results.length; start += chunkSize) {
+    const chunk = results
+      .slice(start, start + chunkSize)
+      .filter((item) => item?.title?.trim())
+    if (chunk.length === 0) continue
+    const valuesSql = chunk
+      .map((_, i) => `($${2 + i * 2}::int, $${3 + i * 2})`)
+      .join(", ")
+
+    const params: any[] = [userId]
+    for (const item of chunk) {
+      params.push(item.id, item.title)
+    }
+
+    const updateResult = await query(
+      `
+        UPDATE notes AS n
+        SET title = v.title,
+            version = n.version + 1,
+            updated_at = NOW()
+        FROM (VALUES ${valuesSql}) AS v(id, title)
+        WHERE n.user_id = $1 AND n.id = v.id
+        RETURNING n.id, n.title, n.updated_at, n.version
+      `,
+      params,
+    )
+
+    for (const row of updateResult.rows as any[]) {
+      updatedRows.push({
+        id: row.id,
+        title: row.title,
+        updated_at: row.updated_at,
+        version: row.version,
+      })
+    }
+  }
+
+  if (updatedRows.length > 0) {
+    await notifyChange({ userId, entity: "note", action: "updated" })
+  }
+  revalidatePath("/")
+  return { updated: updatedRows.length, titles: updatedRows }
+}
+
+// 删除便签：移入回收站，保留期后由 purgeExpiredTrash 彻底删除
+export async function deleteNote(id: number, userId: string): Promise<void> {
+  console.log("服务器操作: deleteNote", { id, userId })
+  try {
+    await query("UPDATE notes SET deleted_at = NOW() WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL", [id, userId])
+    console.log("deleteNote 成功")
+    await notifyChange({ userId, entity: "note", action: "deleted", id })
+    revalidatePath("/")
+  } catch (error) {
+    console.error("deleteNote 错误:", error)
+    throw error
+  }
+}
+
+export async function getGroups(userId: string): Promise<Group[]> {
+  console.log("服务器操作: getGroups", { userId })
+  try {
+    const result = await query(
+      "SELECT id, user_id, name, parent_id, sort_order, created_at, updated_at FROM groups WHERE user_id = $1 ORDER BY sort_order ASC, id ASC",
+      [userId]
+    )
+
+    return result.rows.map((row: GroupRow) => ({
+      id: row.id,
+      user_id: row.user_id,
+      name: row.name,
+      parent_id: row.parent_id,
+      sort_order: row.sort_order,
+      created_at: new Date(row.created_at),
+      updated_at: new Date(row.updated_at)
+    })) as Group[]
+  } catch (error) {
+    console.error("getGroups 错误:", error)
+    throw error
+  }
+}
+
+// 确认分组属于该用户（parentId 为 null 表示顶层，无需检查）
+async function assertGroupOwned(groupId: number | null, userId: string): Promise<void> {
+  if (groupId === null) return
+  const result = await query("SELECT id FROM groups WHERE id = $1 AND user_id = $2", [groupId, userId])
+  if (result.rows.length === 0) {
+    throw new Error("分组不存在")
+  }
+}
+
+// clientKey 为离线队列条目的幂等键，同一条目已创建过时返回已创建的分组
+export async function createGroup(
+  userId: string,
+  name: string,
+  parentId: number | null = null,
+  clientKey?: string,
+): Promise<Group> {
+  console.log("服务器操作: createGroup", { userId, name, parentId, clientKey })
+  try {
+    await assertGroupOwned(parentId, userId)
+    await ensureOutboxSchema()
+
+    // 新分组排在同级分组的最后；幂等键和分组在同一条 INSERT 中写入，同一条目已创建过时不再插入
+    const result = await query(
+      `INSERT INTO groups (user_id, name, parent_id, sort_order, client_key)
+       VALUES ($1, $2, $3, (
+         SELECT COALESCE(MAX(sort_order) + 1, 0) FROM groups WHERE user_id = $1 AND parent_id IS NOT DISTINCT FROM $3
+       ), $4)
+       ON CONFLICT (user_id, client_key) WHERE client_key IS NOT NULL DO NOTHING
+       RETURNING *`,
+      [userId, name, parentId, clientKey ?? null]
+    )
+
+    const row = (result.rows[0] ?? (clientKey ? await findByClientKey("groups", userId, clientKey) : null)) as GroupRow | null
+    if (!row) {
+      throw new Error("分组不存在")
+    }
+    const group: Group = {
+      id: row.id,
+      user_id: row.user_id,
+      name: row.name,
+      parent_id: row.parent_id,
+      sort_order: row.sort_order,
+      created_at: new Date(row.created_at),
+      updated_at: new Date(row.updated_at)
+    }
+
+    await notifyChange({ userId, entity: "group", action: "created", id: group.id })
+    revalidatePath("/")
+    return group
+  } catch (error) {
+    console.error("createGroup 错误:", error)
+    throw error
+  }
+}
+
+export async function renameGroup(id: number, userId: string, name: string): Promise<Group> {
+  console.log("服务器操作: renameGroup", { id, userId, name })
+  try {
+    const result = await query(
+      "UPDATE groups SET name = $1, updated_at = NOW() WHERE id = $2 AND user_id = $3 RETURNING *",
+      [name, id, userId]
+    )
+
+    const row = result.rows[0] as GroupRow
+    const group: Group = {
+      id: row.id,
+      user_id: row.user_id,
+      name: row.name,
+      parent_id: row.parent_id,
+      sort_order: row.sort_order,
+      created_at: new Date(row.created_at),
+      updated_at: new Date(row.updated_at)
+    }
+
+    await notifyChange({ userId, entity: "group", action: "updated", id })
+    revalidatePath("/")
+    return group
+  } catch (error) {
+    console.error("renameGroup 错误:", error)
+    throw error
+  }
+}
+
+/**
+ * 移动分组：改为 parentId 的子分组（null 为顶层），并放到同级分组中的第 index 位
+ * 不能移动到自身或自己的子分组中
+ */
+export async function moveGroup(id: number, userId: string, parentId: number | null, index: number): Promise<Group[]> {
+  console.log("服务器操作: moveGroup", { id, userId, parentId, index })
+  try {
+    await assertGroupOwned(id, userId)
+    await assertGroupOwned(parentId, userId)
+
+    if (parentId !== null) {
+      const cycleResult = await query(
+        `WITH RECURSIVE subtree AS (
+           SELECT id FROM groups WHERE id = $1 AND user_id = $2
+           UNION
+           SELECT g.id FROM groups g JOIN subtree s ON g.parent_id = s.id WHERE g.user_id = $2
+         )
+         SELECT 1 FROM subtree WHERE id = $3`,
+        [id, userId, parentId]
+      )
+      if (cycleResult.rows.length > 0) {
+        throw new Error("不能移动到自身或子分组中")
+      }
+    }
+
+    const siblingsResult = await query(
+      "SELECT id FROM groups WHERE user_id = $1 AND parent_id IS NOT DISTINCT FROM $2 AND id <> $3 ORDER BY sort_order ASC, id ASC",
+      [userId, parentId, id]
+    )
+    const orderedIds = (siblingsResult.rows as { id: number }[]).map((row) => row.id)
+    orderedIds.splice(Math.max(0, Math.min(index, orderedIds.length)), 0, id)
+
+    // 一条语句同时更新上级分组和同级顺序，中途失败不会留下不一致的排序
+    const result = await query(
+      `UPDATE groups AS g
+       SET parent_id = CASE WHEN g.id = $3 THEN $4::int ELSE g.parent_id END,
+           sort_order = v.position - 1,
+           updated_at = NOW()
+       FROM unnest($1::int[]) WITH ORDINALITY AS v(id, position)
+       WHERE g.id = v.id AND g.user_id = $2
+       RETURNING g.*`,
+      [orderedIds, userId, id, parentId]
+    )
+
+    await notifyChange({ userId, entity: "group", action: "updated", id })
+    revalidatePath("/")
+    return (result.rows as GroupRow[]).map((row) => ({
+      id: row.id,
+      user_id: row.user_id,
+      name: row.name,
+      parent_id: row.parent_id,
+      sort_order: row.sort_order,
+      created_at: new Date(row.created_at),
+      updated_at: new Date(row.updated_at)
+    }))
+  } catch (error) {
+    console.error("moveGroup 错误:", error)
+    throw error
+  }
+}
+
+// 删除分组：子分组移到被删除分组的上级，分组内的便签变为未分组
+export async function deleteGroup(id: number, userId: string): Promise<void> {
+  console.log("服务器操作: deleteGroup", { id, userId })
+  try {
+    await query(
+      `UPDATE groups
+       SET parent_id = (SELECT parent_id FROM groups WHERE id = $1 AND user_id = $2), updated_at = NOW()
+       WHERE parent_id = $1 AND user_id = $2`,
+      [id, userId]
+    )
+    await query("DELETE FROM groups WHERE id = $1 AND user_id = $2", [id, userId])
+    await notifyChange({ userId, entity: "group", action: "deleted", id })
+    revalidatePath("/")
+  } catch (error) {
+    console.error("deleteGroup 错误:", error)
+    throw error
+  }
+}
+
+export async function moveNoteToGroup(noteId: number, userId: string, groupId: number | null): Promise<Note> {
+  console.log("服务器操作: moveNoteToGroup", { noteId, userId, groupId })
+  try {
+    const result = await query(
+      "UPDATE notes SET group_id = $1, updated_at = NOW() WHERE id = $2 AND user_id = $3 RETURNING *",
+      [groupId, noteId, userId]
+    )
+
+    const row = result.rows[0] as NoteRow
+    const note: Note = {
+      id: row.id,
+      user_id: row.user_id,
+      content: row.content,
+      title: row.title,
+      group_id: row.group_id,
+      created_at: new Date(row.created_at),
+      updated_at: new Date(row.updated_at),
+      version: row.version,
+      pinned: row.pinned,
+      starred: row.starred,
+      remind_at: row.remind_at ? new Date(row.remind_at) : null
+    }
+
+    await notifyChange({ userId, entity: "note", action: "updated", id: noteId })
+    revalidatePath("/")
+    return note
+  } catch (error) {
+    console.error("moveNoteToGroup 错误:", error)
+    throw error
+  }
+}
+
+// 置顶或收藏不算内容修改，不更新 updated_at 和版本号
+async function setNoteFlag(noteId: number, userId: string, column: "pinned" | "starred", value: boolean): Promise<Note> {
+  const result = await query(
+    `UPDATE notes SET ${column} = $1 WHERE id = $2 AND user_id = $3 AND deleted_at IS NULL RETURNING id`,
+    [value, noteId, userId],
+  )
+  if (result.rows.length === 0) {
+    throw new Error("便签不存在")
+  }
+
+  const note = await getNoteById(noteId, userId)
+  if (!note) {
+    throw new Error("便签不存在")
+  }
+
+  await notifyChange({ userId, entity: "note", action: "updated", id: noteId })
+  revalidatePath("/")
+  return note
+}
+
+export async function setNotePinned(noteId: number, userId: string, pinned: boolean): Promise<Note> {
+  console.log("服务器操作: setNotePinned", { noteId, userId, pinned })
+  try {
+    return await setNoteFlag(noteId, userId, "pinned", pinned)
+  } catch (error) {
+    console.error("setNotePinned 错误:", error)
+    throw error
+  }
+}
+
+export async function setNoteStarred(noteId: number, userId: string, starred: boolean): Promise<Note> {
+  console.log("服务器操作: setNoteStarred", { noteId, userId, starred })
+  try {
+    return await setNoteFlag(noteId, userId, "starred", starred)
+  } catch (error) {
+    console.error("setNoteStarred 错误:", error)
+    throw error
+  }
+}
+
+// 设置或清除便签提醒，remindAt 为 null 时清除；修改后重新等待提醒（不算内容修改）
+export async function setNoteReminder(noteId: number, userId: string, remindAt: string | null): Promise<Note> {
+  console.log("服务器操作: setNoteReminder", { noteId, userId, remindAt })
+  try {
+    const remindDate = remindAt ? new Date(remindAt) : null
+    if (remindDate && Number.isNaN(remindDate.getTime())) {
+      throw new Error("无效的提醒时间")
+    }
+
+    const result = await query(
+      "UPDATE notes SET remind_at = $1, reminder_sent_at = NULL WHERE id = $2 AND user_id = $3 AND deleted_at IS NULL RETURNING id",
+      [remindDate, noteId, userId],
+    )
+    if (result.rows.length === 0) {
+      throw new Error("便签不存在")
+    }
+
+    const note = await getNoteById(noteId, userId)
+    if (!note) {
+      throw new Error("便签不存在")
+    }
+
+    await notifyChange({ userId, entity: "note", action: "updated", id: noteId })
+    revalidatePath("/")
+    return note
+  } catch (error) {
+    console.error("setNoteReminder 错误:", error)
+    throw error
+  }
+}
+
+// 即将到期：尚未提醒的便签，按提醒时间先后排列
+export async function getUpcomingReminders(userId: string, limit: number = 100): Promise<Note[]> {
+  try {
+    await ensureTagSchema()
+    const result = await query(
+      `SELECT id, user_id, content, title, group_id, created_at, updated_at, version, pinned, starred, remind_at, ${NOTE_TAGS_COLUMN}
+       FROM notes
+       WHERE user_id = $1 AND deleted_at IS NULL AND remind_at IS NOT NULL AND reminder_sent_at IS NULL
+       ORDER BY remind_at ASC, id ASC
+       LIMIT $2`,
+      [userId, limit],
+    )
+
+    return (result.rows as NoteRow[]).map((row) => ({
+      id: row.id,
+      user_id: row.user_id,
+      content: row.content,
+      title: row.title,
+      group_id: row.group_id,
+      created_at: new Date(row.created_at),
+      updated_at: new Date(row.updated_at),
+      version: row.version,
+      pinned: row.pinned,
+      starred: row.starred,
+      remind_at: row.remind_at ? new Date(row.remind_at) : null,
+      tags: row.tags ?? []
+    }))
+  } catch (error) {
+    console.error("getUpcomingReminders 错误:", error)
+    throw error
+  }
+}
+
+// 按名称创建标签（已存在时复用，名称不区分大小写），返回标签ID
+async function upsertTags(userId: string, names: string[]): Promise<number[]> {
+  const result = await query(
+    `INSERT INTO tags (user_id, name) SELECT $1, UNNEST($2::text[])
+     ON CONFLICT (user_id, (LOWER(name))) DO UPDATE SET updated_at = tags.updated_at
+     RETURNING id`,
+    [userId, names],
+  )
+  return result.rows.map((row: { id: number }) => row.id)
+}
+
+async function getNoteTags(noteId: number): Promise<NoteTag[]> {
+  const result = await query(
+    `SELECT t.id, t.name, nt.source
+     FROM note_tags nt JOIN tags t ON t.id = nt.tag_id
+     WHERE nt.note_id = $1
+     ORDER BY LOWER(t.name)`,
+    [noteId],
+  )
+  return result.rows as NoteTag[]
+}
+
+// 标签变化不修改便签内容，空更新让触发器递增 sync_version，其他设备增量同步时能拿到新的标签列表
+async function touchNotes(noteIds: number[]): Promise<void> {
+  if (noteIds.length === 0) return
+  await query("UPDATE notes SET user_id = user_id WHERE id = ANY($1::int[])", [noteIds])
+}
+
+/**
+ * 根据正文中的 #标签 更新 inline 关联，返回便签当前的全部标签
+ * 手动添加的标签不受影响；失败不影响保存，返回 undefined
+ */
+async function syncInlineNoteTags(noteId: number, userId: string, content: string): Promise<NoteTag[] | undefined> {
+  try {
+    await ensureTagSchema()
+    const names = extractInlineTags(content)
+    const tagIds = names.length > 0 ? await upsertTags(userId, names) : []
+
+    await query(
+      "DELETE FROM note_tags WHERE note_id = $1 AND source = 'inline' AND NOT (tag_id = ANY($2::int[]))",
+      [noteId, tagIds],
+    )
+    if (tagIds.length > 0) {
+      await query(
+        `INSERT INTO note_tags (note_id, tag_id, source) SELECT $1, UNNEST($2::int[]), 'inline'
+         ON CONFLICT (note_id, tag_id) DO NOTHING`,
+        [noteId, tagIds],
+      )
+    }
+    return await getNoteTags(noteId)
+  } catch (error) {
+    console.warn("更新便签标签失败:", error)
+    return undefined
+  }
+}
+
+function mapTagRow(row: TagRow): Tag {
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    name: row.name,
+    note_count: Number(row.note_count) || 0,
+    created_at: new Date(row.created_at),
+    updated_at: new Date(row.updated_at),
+  }
+}
+
+// Tags actions
+export async function getTags(userId: string): Promise<Tag[]> {
+  try {
+    await ensureTagSchema()
+    const result = await query(
+      `SELECT t.id, t.user_id, t.name, t.created_at, t.updated_at, COUNT(n.id) AS note_count
+       FROM tags t
+       LEFT JOIN note_tags nt ON nt.tag_id = t.id
+       LEFT JOIN notes n ON n.id = nt.note_id AND n.deleted_at IS NULL
+       WHERE t.user_id = $1
+       GROUP BY t.id
+       ORDER BY LOWER(t.name) ASC`,
+      [userId],
+    )
+    return result.rows.map(mapTagRow)
+  } catch (error) {
+    console.error("getTags 错误:", error)
+    throw error
+  }
+}
+
+export async function createTag(userId: string, name: string): Promise<Tag> {
+  console.log("服务器操作: createTag", { userId, name })
+  try {
+    const tagName = normalizeTagName(name)
+    if (!tagName) throw new Error("标签名称不能为空")
+
+    await ensureTagSchema()
+    const [tagId] = await upsertTags(userId, [tagName])
+    const result = await query(
+      `SELECT t.id, t.user_id, t.name, t.created_at, t.updated_at,
+         (SELECT COUNT(*) FROM note_tags nt JOIN notes n ON n.id = nt.note_id
+          WHERE nt.tag_id = t.id AND n.deleted_at IS NULL) AS note_count
+       FROM tags t WHERE t.id = $1`,
+      [tagId],
+    )
+    return mapTagRow(result.rows[0])
+  } catch (error) {
+    console.error("createTag 错误:", error)
+    throw error
+  }
+}
+
+/**
+ * 重命名标签；新名称与另一个标签相同时合并到该标签
+ * 返回重命名或合并后的标签
+ */
+export async function renameTag(id: number, userId: string, name: string): Promise<Tag> {
+  console.log("服务器操作: renameTag", { id, userId, name })
+  try {
+    const tagName = normalizeTagName(name)
+    if (!tagName) throw new Error("标签名称不能为空")
+
+    await ensureTagSchema()
+    const affected = await query(
+      "SELECT nt.note_id FROM note_tags nt JOIN tags t ON t.id = nt.tag_id WHERE t.id = $1 AND t.user_id = $2",
+      [id, userId],
+    )
+    const noteIds = affected.rows.map((row: { note_id: number }) => row.note_id)
+
+    const existing = await query(
+      "SELECT id FROM tags WHERE user_id = $1 AND LOWER(name) = LOWER($2) AND id <> $3",
+      [userId, tagName, id],
+    )
+    const targetId = existing.rows[0]?.id as number | undefined
+
+    if (targetId !== undefined) {
+      await query(
+        `INSERT INTO note_tags (note_id, tag_id, source)
+         SELECT note_id, $1, source FROM note_tags WHERE tag_id = $2
+         ON CONFLICT (note_id, tag_id) DO NOTHING`,
+        [targetId, id],
+      )
+      await query("DELETE FROM tags WHERE id = $1 AND user_id = $2", [id, userId])
+    } else {
+      const updated = await query(
+        "UPDATE tags SET name = $1, updated_at = NOW() WHERE id = $2 AND user_id = $3 RETURNING id",
+        [tagName, id, userId],
+      )
+      if (updated.rows.length === 0) throw new Error("标签不存在")
+    }
+
+    await touchNotes(noteIds)
+    if (noteIds.length > 0) {
+      await notifyChange({ userId, entity: "note", action: "updated" })
+    }
+
+    const tags = await getTags(userId)
+    const tag = tags.find((item) => item.id === (targetId ?? id))
+    if (!tag) throw new Error("标签不存在")
+    return tag
+  } catch (error) {
+    console.error("renameTag 错误:", error)
+    throw error
+  }
+}
+
+export async function deleteTag(id: number, userId: string): Promise<void> {
+  console.log("服务器操作: deleteTag", { id, userId })
+  try {
+    await ensureTagSchema()
+    const affected = await query(
+      "SELECT nt.note_id FROM note_tags nt JOIN tags t ON t.id = nt.tag_id WHERE t.id = $1 AND t.user_id = $2",
+      [id, userId],
+    )
+    await query("DELETE FROM tags WHERE id = $1 AND user_id = $2", [id, userId])
+
+    const noteIds = affected.rows.map((row: { note_id: number }) => row.note_id)
+    await touchNotes(noteIds)
+    if (noteIds.length > 0) {
+      await notifyChange({ userId, entity: "note", action: "updated" })
+    }
+  } catch (error) {
+    console.error("deleteTag 错误:", error)
+    throw error
+  }
+}
+
+// 给便签手动添加标签（标签不存在时创建），返回便签当前的全部标签
+export async function addNoteTag(noteId: number, userId: string, name: string): Promise<NoteTag[]> {
+  console.log("服务器操作: addNoteTag", { noteId, userId, name })
+  try {
+    const tagName = normalizeTagName(name)
+    if (!tagName) throw new Error("标签名称不能为空")
+
+    await ensureTagSchema()
+    const noteResult = await query(
+      "SELECT id FROM notes WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL",
+      [noteId, userId],
+    )
+    if (noteResult.rows.length === 0) throw new Error("便签不存在")
+
+    const [tagId] = await upsertTags(userId, [tagName])
+    // 已由正文识别的标签改为手动，之后删除正文中的 #标签 也会保留
+    await query(
+      `INSERT INTO note_tags (note_id, tag_id, source) VALUES ($1, $2, 'manual')
+       ON CONFLICT (note_id, tag_id) DO UPDATE SET source = 'manual'`,
+      [noteId, tagId],
+    )
+
+    await touchNotes([noteId])
+    await notifyChange({ userId, entity: "note", action: "updated", id: noteId })
+    return await getNoteTags(noteId)
+  } catch (error) {
+    console.error("addNoteTag 错误:", error)
+    throw error
+  }
+}
+
+// 移除便签的标签，返回便签当前的全部标签
+export async function removeNoteTag(noteId: number, userId: string, tagId: number): Promise<NoteTag[]> {
+  console.log("服务器操作: removeNoteTag", { noteId, userId, tagId })
+  try {
+    await ensureTagSchema()
+    await query(
+      `DELETE FROM note_tags
+       WHERE note_id = $1 AND tag_id = $2
+         AND note_id IN (SELECT id FROM notes WHERE id = $1 AND user_id = $3)`,
+      [noteId, tagId, userId],
+    )
+
+    await touchNotes([noteId])
+    await notifyChange({ userId, entity: "note", action: "updated", id: noteId })
+    return await getNoteTags(noteId)
+  } catch (error) {
+    console.error("removeNoteTag 错误:", error)
+    throw error
+  }
+}
+
+// 反向链接摘要长度
+const BACKLINK_SNIPPET_LENGTH = 80
+
+let noteLinkTablesReady: Promise<void> | null = null
+
+// 确保便签链接表存在（旧数据库可能未执行过初始化）
+function ensureNoteLinkTablesExist(): Promise<void> {
+  if (!noteLinkTablesReady) {
+    noteLinkTablesReady = (async () => {
+      for (const statement of NOTE_LINK_SCHEMA_STATEMENTS) {
+        await query(statement)
+      }
+    })().catch((error) => {
+      noteLinkTablesReady = null
+      throw error
+    })
+  }
+  return noteLinkTablesReady
+}
+
+/**
+ * 保存便签后更新链接：重新记录正文中的 [[标题]] 并按标题解析到便签，
+ * 同时把其他便签中指向该标题、尚未解析的链接指向这条便签（失败不影响保存）
+ */
+async function syncNoteLinks(noteId: number, userId: string, content: string, title: string): Promise<void> {
+  try {
+    await ensureNoteLinkTablesExist()
+    const titles = extractWikiLinks(content)
+
+    await query("DELETE FROM note_links WHERE source_note_id = $1", [noteId])
+    if (titles.length > 0) {
+      // 同名便签有多条时指向最近修改的一条
+      await query(
+        `INSERT INTO note_links (source_note_id, user_id, target_title, target_note_id)
+         SELECT $1, $2, t.title, (
+           SELECT n.id FROM notes n
+           WHERE n.user_id = $2 AND n.deleted_at IS NULL AND n.id <> $1 AND LOWER(n.title) = LOWER(t.title)
+           ORDER BY n.updated_at DESC, n.id DESC
+           LIMIT 1
+         )
+         FROM UNNEST($3::text[]) AS t(title)
+         ON CONFLICT (source_note_id, target_title) DO NOTHING`,
+        [noteId, userId, titles],
+      )
+    }
+
+    const trimmedTitle = title.trim()
+    if (trimmedTitle) {
+      await query(
+        `UPDATE note_links SET target_note_id = $1
+         WHERE user_id = $2 AND target_note_id IS NULL AND source_note_id <> $1 AND LOWER(target_title) = LOWER($3)`,
+        [noteId, userId, trimmedTitle],
+      )
+    }
+  } catch (error) {
+    console.warn("更新便签链接失败:", error)
+  }
+}
+
+// 获取链接到该便签的其他便签（反向链接）
+export async function getNoteBacklinks(noteId: number, userId: string): Promise<NoteBacklink[]> {
+  try {
+    await ensureNoteLinkTablesExist()
+    const result = await query(
+      `SELECT n.id, n.title, n.content, n.updated_at
+       FROM note_links l JOIN notes n ON n.id = l.source_note_id
+       WHERE l.target_note_id = $1 AND l.user_id = $2 AND n.user_id = $2 AND n.deleted_at IS NULL
+       GROUP BY n.id
+       ORDER BY n.updated_at DESC`,
+      [noteId, userId],
+    )
+
+    return (result.rows as { id: number; title: string; content: string; updated_at: string }[]).map((row) => ({
       id: row.id,
-      user_id: row.user_id,
-      name: row.name,
-      created_at: new Date(row.created_at),
-      updated_at: new Date(row.updated_at)
-    })) as Group[]
+      title: row.title,
+      snippet: Array.from(toSearchPlainText(row.content)).slice(0, BACKLINK_SNIPPET_LENGTH).join(""),
+      updated_at: new Date(row.updated_at),
+    }))
   } catch (error) {
-    console.error("getGroups 错误:", error)
+    console.error("getNoteBacklinks 错误:", error)
+    throw error
+  }
+}
+
+/**
+ * 打开便签中的 [[标题]] 链接：优先使用保存时解析到的便签，
+ * 没有记录（如尚未保存的编辑内容）时按标题查找
+ */
+export async function resolveNoteLink(sourceNoteId: number | null, userId: string, title: string): Promise<Note | null> {
+  try {
+    const normalized = normalizeWikiLinkTitle(title)
+    if (!normalized) return null
+
+    if (sourceNoteId !== null) {
+      await ensureNoteLinkTablesExist()
+      const linkResult = await query(
+        `SELECT target_note_id FROM note_links
+         WHERE source_note_id = $1 AND user_id = $2 AND LOWER(target_title) = LOWER($3) AND target_note_id IS NOT NULL
+         LIMIT 1`,
+        [sourceNoteId, userId, normalized],
+      )
+      const targetId = (linkResult.rows[0] as { target_note_id: number } | undefined)?.target_note_id
+      if (targetId !== undefined) {
+        const target = await getNoteById(targetId, userId)
+        if (target) return target
+      }
+    }
+
+    const titleResult = await query(
+      `SELECT id FROM notes WHERE user_id = $1 AND deleted_at IS NULL AND LOWER(title) = LOWER($2)
+       ORDER BY updated_at DESC, id DESC LIMIT 1`,
+      [userId, normalized],
+    )
+    const row = titleResult.rows[0] as { id: number } | undefined
+    return row ? await getNoteById(row.id, userId) : null
+  } catch (error) {
+    console.error("resolveNoteLink 错误:", error)
     throw error
   }
 }
 
-export async function createGroup(userId: string, name: string): Promise<Group> {
-  console.log("服务器操作: createGroup", { userId, name })
+// 按标题搜索便签，用于编辑器中 [[ 链接的自动补全
+export async function searchNoteTitles(userId: string, keyword: string, limit: number = 8): Promise<NoteTitleMatch[]> {
   try {
+    const normalized = normalizeWikiLinkTitle(keyword)
     const result = await query(
-      "INSERT INTO groups (user_id, name) VALUES ($1, $2) RETURNING *",
-      [userId, name]
+      `SELECT id, title FROM notes
+       WHERE user_id = $1 AND deleted_at IS NULL AND title <> '' AND title ILIKE $2
+       ORDER BY (LOWER(title) = LOWER($3)) DESC, (STRPOS(LOWER(title), LOWER($3)) = 1) DESC, updated_at DESC
+       LIMIT $4`,
+      [userId, toLikePattern(normalized), normalized, limit],
     )
+    return (result.rows as { id: number; title: string }[]).map((row) => ({ id: row.id, title: row.title }))
+  } catch (error) {
+    console.error("searchNoteTitles 错误:", error)
+    throw error
+  }
+}
 
-    const row = result.rows[0] as GroupRow
-    const group: Group = {
-      id: row.id,
-      user_id: row.user_id,
-      name: row.name,
-      created_at: new Date(row.created_at),
-      updated_at: new Date(row.updated_at)
-    }
+let savedSearchTablesReady: Promise<void> | null = null
 
-    revalidatePath("/")
-    return group
+// 确保已保存搜索和搜索记录表存在（旧数据库可能未执行过初始化）
+function ensureSavedSearchTablesExist(): Promise<void> {
+  if (!savedSearchTablesReady) {
+    savedSearchTablesReady = (async () => {
+      for (const statement of SAVED_SEARCH_SCHEMA_STATEMENTS) {
+        await query(statement)
+      }
+    })().catch((error) => {
+      savedSearchTablesReady = null
+      throw error
+    })
+  }
+  return savedSearchTablesReady
+}
+
+// 每个用户保留的最近搜索条数
+const SEARCH_HISTORY_LIMIT = 20
+
+function mapSavedSearchRow(row: any): SavedSearch {
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    name: row.name,
+    query: row.query,
+    pinned: row.pinned,
+    created_at: new Date(row.created_at),
+    updated_at: new Date(row.updated_at),
+  }
+}
+
+// Saved searches actions
+export async function getSavedSearches(userId: string): Promise<SavedSearch[]> {
+  try {
+    await ensureSavedSearchTablesExist()
+    const result = await query(
+      "SELECT * FROM saved_searches WHERE user_id = $1 ORDER BY pinned DESC, name ASC, id ASC",
+      [userId],
+    )
+    return result.rows.map(mapSavedSearchRow)
   } catch (error) {
-    console.error("createGroup 错误:", error)
+    console.error("getSavedSearches 错误:", error)
     throw error
   }
 }
 
-export async function renameGroup(id: number, userId: string, name: string): Promise<Group> {
-  console.log("服务器操作: renameGroup", { id, userId, name })
+export async function createSavedSearch(
+  userId: string,
+  name: string,
+  searchQuery: string,
+  pinned: boolean = false,
+): Promise<SavedSearch> {
+  console.log("服务器操作: createSavedSearch", { userId, name, searchQuery, pinned })
   try {
+    const trimmedName = name.trim()
+    const trimmedQuery = searchQuery.trim()
+    if (!trimmedName) throw new Error("名称不能为空")
+    if (!trimmedQuery) throw new Error("搜索条件不能为空")
+
+    await ensureSavedSearchTablesExist()
     const result = await query(
-      "UPDATE groups SET name = $1, updated_at = NOW() WHERE id = $2 AND user_id = $3 RETURNING *",
-      [name, id, userId]
+      "INSERT INTO saved_searches (user_id, name, query, pinned) VALUES ($1, $2, $3, $4) RETURNING *",
+      [userId, trimmedName, trimmedQuery, pinned],
     )
+    return mapSavedSearchRow(result.rows[0])
+  } catch (error) {
+    console.error("createSavedSearch 错误:", error)
+    throw error
+  }
+}
 
-    const row = result.rows[0] as GroupRow
-    const group: Group = {
-      id: row.id,
-      user_id: row.user_id,
-      name: row.name,
-      created_at: new Date(row.created_at),
-      updated_at: new Date(row.updated_at)
+export async function updateSavedSearch(
+  id: number,
+  userId: string,
+  changes: { name?: string; query?: string; pinned?: boolean },
+): Promise<SavedSearch> {
+  console.log("服务器操作: updateSavedSearch", { id, userId, changes })
+  try {
+    await ensureSavedSearchTablesExist()
+    const params: unknown[] = [id, userId]
+    const sets: string[] = ["updated_at = NOW()"]
+
+    if (changes.name !== undefined) {
+      if (!changes.name.trim()) throw new Error("名称不能为空")
+      params.push(changes.name.trim())
+      sets.push(`name = $${params.length}`)
+    }
+    if (changes.query !== undefined) {
+      if (!changes.query.trim()) throw new Error("搜索条件不能为空")
+      params.push(changes.query.trim())
+      sets.push(`query = $${params.length}`)
+    }
+    if (changes.pinned !== undefined) {
+      params.push(changes.pinned)
+      sets.push(`pinned = $${params.length}`)
     }
 
-    revalidatePath("/")
-    return group
+    const result = await query(
+      `UPDATE saved_searches SET ${sets.join(", ")} WHERE id = $1 AND user_id = $2 RETURNING *`,
+      params,
+    )
+    if (result.rows.length === 0) throw new Error("已保存的搜索不存在")
+    return mapSavedSearchRow(result.rows[0])
   } catch (error) {
-    console.error("renameGroup 错误:", error)
+    console.error("updateSavedSearch 错误:", error)
     throw error
   }
 }
 
-export async function deleteGroup(id: number, userId: string): Promise<void> {
-  console.log("服务器操作: deleteGroup", { id, userId })
+export async function deleteSavedSearch(id: number, userId: string): Promise<void> {
+  console.log("服务器操作: deleteSavedSearch", { id, userId })
   try {
-    await query("DELETE FROM groups WHERE id = $1 AND user_id = $2", [id, userId])
-    revalidatePath("/")
+    await ensureSavedSearchTablesExist()
+    await query("DELETE FROM saved_searches WHERE id = $1 AND user_id = $2", [id, userId])
   } catch (error) {
-    console.error("deleteGroup 错误:", error)
+    console.error("deleteSavedSearch 错误:", error)
     throw error
   }
 }
 
-export async function moveNoteToGroup(noteId: number, userId: string, groupId: number | null): Promise<Note> {
-  console.log("服务器操作: moveNoteToGroup", { noteId, userId, groupId })
+// Search history actions
+export async function getSearchHistory(userId: string, limit: number = 10): Promise<SearchHistoryEntry[]> {
   try {
+    await ensureSavedSearchTablesExist()
     const result = await query(
-      "UPDATE notes SET group_id = $1, updated_at = NOW() WHERE id = $2 AND user_id = $3 RETURNING *",
-      [groupId, noteId, userId]
+      "SELECT id, query, searched_at FROM search_history WHERE user_id = $1 ORDER BY searched_at DESC LIMIT $2",
+      [userId, Math.min(Math.max(limit, 1), SEARCH_HISTORY_LIMIT)],
     )
-
-    const row = result.rows[0] as NoteRow
-    const note: Note = {
+    return result.rows.map((row: any) => ({
       id: row.id,
-      user_id: row.user_id,
-      content: row.content,
-      title: row.title,
-      group_id: row.group_id,
-      created_at: new Date(row.created_at),
-      updated_at: new Date(row.updated_at)
-    }
+      query: row.query,
+      searched_at: new Date(row.searched_at),
+    }))
+  } catch (error) {
+    console.error("getSearchHistory 错误:", error)
+    throw error
+  }
+}
 
-    revalidatePath("/")
-    return note
+// 记录一次搜索：相同查询只更新时间，超出上限的旧记录删除
+export async function recordSearchHistory(userId: string, searchQuery: string): Promise<void> {
+  try {
+    const trimmedQuery = searchQuery.trim()
+    if (!trimmedQuery) return
+
+    await ensureSavedSearchTablesExist()
+    await query(
+      `INSERT INTO search_history (user_id, query, searched_at) VALUES ($1, $2, NOW())
+       ON CONFLICT (user_id, query) DO UPDATE SET searched_at = NOW()`,
+      [userId, trimmedQuery],
+    )
+    await query(
+      `DELETE FROM search_history
+       WHERE user_id = $1
+         AND id NOT IN (
+           SELECT id FROM search_history WHERE user_id = $1 ORDER BY searched_at DESC LIMIT $2
+         )`,
+      [userId, SEARCH_HISTORY_LIMIT],
+    )
   } catch (error) {
-    console.error("moveNoteToGroup 错误:", error)
+    console.error("recordSearchHistory 错误:", error)
+    throw error
+  }
+}
+
+export async function deleteSearchHistoryEntry(id: number, userId: string): Promise<void> {
+  try {
+    await ensureSavedSearchTablesExist()
+    await query("DELETE FROM search_history WHERE id = $1 AND user_id = $2", [id, userId])
+  } catch (error) {
+    console.error("deleteSearchHistoryEntry 错误:", error)
+    throw error
+  }
+}
+
+export async function clearSearchHistory(userId: string): Promise<void> {
+  try {
+    await ensureSavedSearchTablesExist()
+    await query("DELETE FROM search_history WHERE user_id = $1", [userId])
+  } catch (error) {
+    console.error("clearSearchHistory 错误:", error)
     throw error
   }
 }
@@ -690,7 +2070,7 @@ export async function moveNoteToGroup(noteId: number, userId: string, groupId: n
 export async function getNotesCount(userId: string): Promise<number> {
   console.log("服务器操作: getNotesCount", { userId })
   try {
-    const result = await query("SELECT COUNT(*) as count FROM notes WHERE user_id = $1", [userId])
+    const result = await query("SELECT COUNT(*) as count FROM notes WHERE user_id = $1 AND deleted_at IS NULL", [userId])
     const count = parseInt(result.rows[0].count, 10)
     console.log(`getNotesCount 结果: ${count} 条便签`)
     return count
@@ -704,13 +2084,14 @@ export async function getNotesCount(userId: string): Promise<number> {
 export async function getLinks(userId: string): Promise<Link[]> {
   console.log("服务器操作: getLinks", { userId })
   try {
-    const result = await query("SELECT * FROM links WHERE user_id = $1 ORDER BY created_at DESC", [userId])
+    const result = await query("SELECT * FROM links WHERE user_id = $1 AND deleted_at IS NULL ORDER BY created_at DESC", [userId])
     console.log("getLinks 结果:", result.rows)
     return result.rows.map((row: LinkRow) => ({
       id: row.id,
       user_id: row.user_id,
       url: row.url,
       title: row.title,
+      group_id: row.group_id ?? null,
       created_at: row.created_at
     })) as Link[]
   } catch (error) {
@@ -719,36 +2100,37 @@ export async function getLinks(userId: string): Promise<Link[]> {
   }
 }
 
-export async function createLink(userId: string, url: string, title: string, clientTime?: string): Promise<Link> {
-  console.log("服务器操作: createLink", { userId, url, title, clientTime })
+// clientKey 为离线队列条目的幂等键，同一条目已创建过时返回已创建的链接
+export async function createLink(userId: string, url: string, title: string, clientTime?: string, clientKey?: string): Promise<Link> {
+  console.log("服务器操作: createLink", { userId, url, title, clientTime, clientKey })
   try {
-    let result;
-    
-    // 如果提供了客户端时间，使用它作为创建时间
-    if (clientTime) {
-      result = await query(
-        "INSERT INTO links (user_id, url, title, created_at) VALUES ($1, $2, $3, $4) RETURNING *", 
-        [userId, url, title, new Date(clientTime)]
-      );
-    } else {
-      // 没有提供客户端时间时使用默认的NOW()
-      result = await query("INSERT INTO links (user_id, url, title) VALUES ($1, $2, $3) RETURNING *", [
-        userId,
-        url,
-        title,
-      ]);
+    await ensureOutboxSchema()
+
+    // 如果提供了客户端时间，使用它作为创建时间，否则使用默认的NOW()；
+    // 幂等键和链接在同一条 INSERT 中写入，同一条目已创建过时不再插入
+    const result = await query(
+      `INSERT INTO links (user_id, url, title, created_at, client_key)
+       VALUES ($1, $2, $3, COALESCE($4::timestamp, NOW()), $5)
+       ON CONFLICT (user_id, client_key) WHERE client_key IS NOT NULL DO NOTHING
+       RETURNING *`,
+      [userId, url, title, clientTime ? new Date(clientTime) : null, clientKey ?? null]
+    );
+
+    const row = result.rows[0] ?? (clientKey ? await findByClientKey("links", userId, clientKey) : null);
+    if (!row) {
+      throw new Error("链接不存在")
     }
-    
-    const row = result.rows[0];
     const link: Link = {
       id: row.id,
       user_id: row.user_id,
       url: row.url,
       title: row.title,
+      group_id: row.group_id ?? null,
       created_at: row.created_at
     };
     
     console.log("createLink 结果:", link);
+    await notifyChange({ userId, entity: "link", action: "created", id: link.id })
     revalidatePath("/")
     return link;
   } catch (error) {
@@ -757,11 +2139,13 @@ export async function createLink(userId: string, url: string, title: string, cli
   }
 }
 
+// 删除链接：移入回收站
 export async function deleteLink(id: number, userId: string): Promise<void> {
   console.log("服务器操作: deleteLink", { id, userId })
   try {
-    await query("DELETE FROM links WHERE id = $1 AND user_id = $2", [id, userId])
+    await query("UPDATE links SET deleted_at = NOW() WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL", [id, userId])
     console.log("deleteLink 成功")
+    await notifyChange({ userId, entity: "link", action: "deleted", id })
     revalidatePath("/")
   } catch (error) {
     console.error("deleteLink 错误:", error)
@@ -774,7 +2158,7 @@ export async function getFiles(userId: string): Promise<File[]> {
   console.log("服务器操作: getFiles (MinIO only)", { userId })
   try {
     const result = await query(
-      "SELECT id, user_id, name, type, size, minio_url, thumbnail_url, uploaded_at FROM files WHERE user_id = $1 ORDER BY uploaded_at DESC",
+      "SELECT id, user_id, name, type, size, minio_url, thumbnail_url, uploaded_at FROM files WHERE user_id = $1 AND deleted_at IS NULL ORDER BY uploaded_at DESC",
       [userId]
     )
     console.log(`getFiles 结果: ${result.rows.length} 个文件`)
@@ -848,6 +2232,7 @@ export async function createFile(
     };
 
     console.log("createFile 结果:", file);
+    await notifyChange({ userId, entity: "file", action: "created", id: file.id })
     revalidatePath("/")
     return file;
   } catch (error) {
@@ -898,6 +2283,7 @@ export async function createFileAction(
     };
 
     console.log("createFileAction 结果:", file);
+    await notifyChange({ userId, entity: "file", action: "created", id: file.id })
     revalidatePath("/")
     return file;
   } catch (error) {
@@ -949,6 +2335,7 @@ export async function updateFileName(id: number, userId: string, newName: string
     }
 
     console.log("updateFileName 结果:", file)
+    await notifyChange({ userId, entity: "file", action: "updated", id })
     revalidatePath("/")
     return file
   } catch (error) {
@@ -957,40 +2344,22 @@ export async function updateFileName(id: number, userId: string, newName: string
   }
 }
 
+// 删除文件：移入回收站，MinIO 对象保留到彻底删除时再移除
 export async function deleteFile(id: number, userId: string): Promise<void> {
   console.log("服务器操作: deleteFile", { id, userId })
   try {
-    // 获取文件信息以便删除 MinIO 存储的文件
-    const fileResult = await query("SELECT minio_url, thumbnail_url FROM files WHERE id = $1 AND user_id = $2", [id, userId])
+    const result = await query(
+      "UPDATE files SET deleted_at = NOW() WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL RETURNING id",
+      [id, userId]
+    )
 
-    if (fileResult.rows.length === 0) {
+    if (result.rows.length === 0) {
       console.log("文件不存在或无权限")
       return
     }
 
-    const file = fileResult.rows[0]
-    const { deleteFileFromMinio } = await import('@/lib/minio-utils')
-
-    // 先删除 MinIO 存储的主文件（必须成功才继续）
-    if (file.minio_url) {
-      await deleteFileFromMinio(file.minio_url)
-      console.log("MinIO 文件删除成功")
-    }
-
-    // 删除数据库记录（主文件删除成功后才执行）
-    await query("DELETE FROM files WHERE id = $1 AND user_id = $2", [id, userId])
-    console.log("数据库记录删除成功")
-
-    // 最后删除缩略图（非关键，失败不影响）
-    if (file.thumbnail_url) {
-      try {
-        await deleteFileFromMinio(file.thumbnail_url)
-        console.log("MinIO 缩略图删除成功")
-      } catch (error) {
-        console.warn("删除 MinIO 缩略图失败（非关键）:", error)
-      }
-    }
-
+    console.log("文件已移入回收站")
+    await notifyChange({ userId, entity: "file", action: "deleted", id })
     revalidatePath("/")
   } catch (error) {
     console.error("deleteFile 错误:", error)
@@ -1003,7 +2372,7 @@ export async function getFileWithMinio(id: number, userId: string): Promise<File
   console.log("服务器操作: getFileWithMinio", { id, userId })
   try {
     const result = await query(
-      "SELECT * FROM files WHERE id = $1 AND user_id = $2",
+      "SELECT * FROM files WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL",
       [id, userId]
     )
 
@@ -1034,6 +2403,221 @@ export async function getFileWithMinio(id: number, userId: string): Promise<File
 export const getFileWithBase64 = getFileWithMinio
 export const getFileWithBlob = getFileWithMinio
 
+// Trash actions
+export async function getTrashItems(userId: string): Promise<TrashItems> {
+  console.log("服务器操作: getTrashItems", { userId })
+  try {
+    // 顺带清理该用户已过期的项目（失败不影响列表）
+    try {
+      await purgeExpiredTrash(userId)
+    } catch (error) {
+      console.warn("清理过期回收站项目失败:", error)
+    }
+
+    const [notesResult, linksResult, filesResult] = await Promise.all([
+      query(
+        "SELECT id, user_id, content, title, group_id, created_at, updated_at, version, pinned, starred, remind_at, deleted_at FROM notes WHERE user_id = $1 AND deleted_at IS NOT NULL ORDER BY deleted_at DESC",
+        [userId]
+      ),
+      query(
+        "SELECT id, user_id, url, title, group_id, created_at, deleted_at FROM links WHERE user_id = $1 AND deleted_at IS NOT NULL ORDER BY deleted_at DESC",
+        [userId]
+      ),
+      query(
+        "SELECT id, user_id, name, type, size, minio_url, thumbnail_url, uploaded_at, deleted_at FROM files WHERE user_id = $1 AND deleted_at IS NOT NULL ORDER BY deleted_at DESC",
+        [userId]
+      ),
+    ])
+
+    return {
+      notes: notesResult.rows.map((row: NoteRow & { deleted_at: string }) => ({
+        id: row.id,
+        user_id: row.user_id,
+        content: row.content,
+        title: row.title,
+        group_id: row.group_id,
+        created_at: new Date(row.created_at),
+        updated_at: new Date(row.updated_at),
+        version: row.version,
+        pinned: row.pinned,
+        starred: row.starred,
+        remind_at: row.remind_at ? new Date(row.remind_at) : null,
+        deleted_at: new Date(row.deleted_at),
+      })),
+      links: linksResult.rows.map((row: LinkRow & { deleted_at: string }) => ({
+        id: row.id,
+        user_id: row.user_id,
+        url: row.url,
+        title: row.title,
+        group_id: row.group_id ?? null,
+        created_at: new Date(row.created_at),
+        deleted_at: new Date(row.deleted_at),
+      })),
+      files: filesResult.rows.map((row: FileRow & { deleted_at: string }) => ({
+        id: row.id,
+        user_id: row.user_id,
+        name: row.name,
+        type: row.type,
+        url: row.minio_url,
+        thumbnail: row.thumbnail_url,
+        minio_url: row.minio_url,
+        thumbnail_url: row.thumbnail_url,
+        size: row.size,
+        uploaded_at: new Date(row.uploaded_at),
+        deleted_at: new Date(row.deleted_at),
+      })),
+      retention_days: getTrashRetentionDays(),
+    }
+  } catch (error) {
+    console.error("getTrashItems 错误:", error)
+    throw error
+  }
+}
+
+export async function restoreNote(id: number, userId: string): Promise<Note> {
+  console.log("服务器操作: restoreNote", { id, userId })
+  try {
+    const result = await query(
+      "UPDATE notes SET deleted_at = NULL WHERE id = $1 AND user_id = $2 AND deleted_at IS NOT NULL RETURNING *",
+      [id, userId]
+    )
+    const row = result.rows[0] as NoteRow | undefined
+    if (!row) {
+      throw new Error("回收站中不存在该便签")
+    }
+
+    await notifyChange({ userId, entity: "note", action: "restored", id })
+    revalidatePath("/")
+    return {
+      id: row.id,
+      user_id: row.user_id,
+      content: row.content,
+      title: row.title,
+      group_id: row.group_id,
+      created_at: new Date(row.created_at),
+      updated_at: new Date(row.updated_at),
+      version: row.version,
+      pinned: row.pinned,
+      starred: row.starred,
+      remind_at: row.remind_at ? new Date(row.remind_at) : null,
+    }
+  } catch (error) {
+    console.error("restoreNote 错误:", error)
+    throw error
+  }
+}
+
+export async function restoreLink(id: number, userId: string): Promise<Link> {
+  console.log("服务器操作: restoreLink", { id, userId })
+  try {
+    const result = await query(
+      "UPDATE links SET deleted_at = NULL WHERE id = $1 AND user_id = $2 AND deleted_at IS NOT NULL RETURNING *",
+      [id, userId]
+    )
+    const row = result.rows[0] as LinkRow | undefined
+    if (!row) {
+      throw new Error("回收站中不存在该链接")
+    }
+
+    await notifyChange({ userId, entity: "link", action: "restored", id })
+    revalidatePath("/")
+    return {
+      id: row.id,
+      user_id: row.user_id,
+      url: row.url,
+      title: row.title,
+      group_id: row.group_id ?? null,
+      created_at: new Date(row.created_at),
+    }
+  } catch (error) {
+    console.error("restoreLink 错误:", error)
+    throw error
+  }
+}
+
+export async function restoreFile(id: number, userId: string): Promise<File> {
+  console.log("服务器操作: restoreFile", { id, userId })
+  try {
+    const result = await query(
+      "UPDATE files SET deleted_at = NULL WHERE id = $1 AND user_id = $2 AND deleted_at IS NOT NULL RETURNING *",
+      [id, userId]
+    )
+    const row = result.rows[0] as FileRow | undefined
+    if (!row) {
+      throw new Error("回收站中不存在该文件")
+    }
+
+    await notifyChange({ userId, entity: "file", action: "restored", id })
+    revalidatePath("/")
+    return {
+      id: row.id,
+      user_id: row.user_id,
+      name: row.name,
+      type: row.type,
+      url: row.minio_url,
+      thumbnail: row.thumbnail_url,
+      minio_url: row.minio_url,
+      thumbnail_url: row.thumbnail_url,
+      size: row.size,
+      uploaded_at: new Date(row.uploaded_at),
+    }
+  } catch (error) {
+    console.error("restoreFile 错误:", error)
+    throw error
+  }
+}
+
+// 彻底删除回收站中的项目（只允许删除已在回收站中的项目）
+export async function permanentlyDeleteTrashItem(type: TrashItemType, id: number, userId: string): Promise<void> {
+  console.log("服务器操作: permanentlyDeleteTrashItem", { type, id, userId })
+  try {
+    if (type === "note") {
+      await query("DELETE FROM notes WHERE id = $1 AND user_id = $2 AND deleted_at IS NOT NULL", [id, userId])
+    } else if (type === "link") {
+      await query("DELETE FROM links WHERE id = $1 AND user_id = $2 AND deleted_at IS NOT NULL", [id, userId])
+    } else if (type === "file") {
+      const trashed = await query("SELECT id FROM files WHERE id = $1 AND user_id = $2 AND deleted_at IS NOT NULL", [id, userId])
+      if (trashed.rows.length > 0) {
+        await hardDeleteFile(id, userId)
+      }
+    } else {
+      throw new Error("无效的回收站项目类型")
+    }
+
+    revalidatePath("/")
+  } catch (error) {
+    console.error("permanentlyDeleteTrashItem 错误:", error)
+    throw error
+  }
+}
+
+// 清空回收站
+export async function emptyTrash(userId: string): Promise<{ notes: number; links: number; files: number }> {
+  console.log("服务器操作: emptyTrash", { userId })
+  try {
+    const notesResult = await query("DELETE FROM notes WHERE user_id = $1 AND deleted_at IS NOT NULL RETURNING id", [userId])
+    const linksResult = await query("DELETE FROM links WHERE user_id = $1 AND deleted_at IS NOT NULL RETURNING id", [userId])
+
+    const trashedFiles = await query("SELECT id FROM files WHERE user_id = $1 AND deleted_at IS NOT NULL", [userId])
+    let files = 0
+    for (const row of trashedFiles.rows as { id: number }[]) {
+      try {
+        if (await hardDeleteFile(row.id, userId)) {
+          files++
+        }
+      } catch (error) {
+        console.error(`彻底删除文件 ${row.id} 失败:`, error)
+      }
+    }
+
+    revalidatePath("/")
+    return { notes: notesResult.rows.length, links: linksResult.rows.length, files }
+  } catch (error) {
+    console.error("emptyTrash 错误:", error)
+    throw error
+  }
+}
+
 
 
 // User settings actions
@@ -1085,6 +2669,8 @@ export async function getUserSettings(userId: string): Promise<UserSettings | nu
       font_family: row.font_family,
       font_size: row.font_size,
       sync_interval: row.sync_interval,
+      note_render_mode: row.note_render_mode,
+      editor_view: row.editor_view,
       updated_at: row.updated_at
     };
     
@@ -1102,6 +2688,8 @@ export async function updateUserSettings(
     font_family: string;
     font_size: string;
     sync_interval: number;
+    note_render_mode: string;
+    editor_view: string;
   }
 ): Promise<UserSettings> {
   console.log("服务器操作: updateUserSettings", { userId, settings })
@@ -1118,18 +2706,18 @@ export async function updateUserSettings(
         // 更新现有设置
         result = await query(
           `UPDATE user_settings 
-           SET font_family = $1, font_size = $2, sync_interval = $3, updated_at = NOW() 
-           WHERE user_id = $4
+           SET font_family = $1, font_size = $2, sync_interval = $3, note_render_mode = $4, editor_view = $5, updated_at = NOW() 
+           WHERE user_id = $6
            RETURNING *`,
-          [settings.font_family, settings.font_size, settings.sync_interval, userId]
+          [settings.font_family, settings.font_size, settings.sync_interval, settings.note_render_mode, settings.editor_view, userId]
         )
       } else {
         // 创建新设置
         result = await query(
-          `INSERT INTO user_settings (user_id, font_family, font_size, sync_interval) 
-           VALUES ($1, $2, $3, $4) 
+          `INSERT INTO user_settings (user_id, font_family, font_size, sync_interval, note_render_mode, editor_view) 
+           VALUES ($1, $2, $3, $4, $5, $6) 
            RETURNING *`,
-          [userId, settings.font_family, settings.font_size, settings.sync_interval]
+          [userId, settings.font_family, settings.font_size, settings.sync_interval, settings.note_render_mode, settings.editor_view]
         )
       }
     } catch (error: unknown) {
@@ -1152,17 +2740,17 @@ export async function updateUserSettings(
           if (existingSettings) {
             result = await query(
               `UPDATE user_settings 
-               SET font_family = $1, font_size = $2, sync_interval = $3, updated_at = NOW() 
-               WHERE user_id = $4
+               SET font_family = $1, font_size = $2, sync_interval = $3, note_render_mode = $4, editor_view = $5, updated_at = NOW() 
+               WHERE user_id = $6
                RETURNING *`,
-              [settings.font_family, settings.font_size, settings.sync_interval, userId]
+              [settings.font_family, settings.font_size, settings.sync_interval, settings.note_render_mode, settings.editor_view, userId]
             )
           } else {
             result = await query(
-              `INSERT INTO user_settings (user_id, font_family, font_size, sync_interval) 
-               VALUES ($1, $2, $3, $4) 
+              `INSERT INTO user_settings (user_id, font_family, font_size, sync_interval, note_render_mode, editor_view) 
+               VALUES ($1, $2, $3, $4, $5, $6) 
                RETURNING *`,
-              [userId, settings.font_family, settings.font_size, settings.sync_interval]
+              [userId, settings.font_family, settings.font_size, settings.sync_interval, settings.note_render_mode, settings.editor_view]
             )
           }
         } catch (alterError) {
@@ -1182,6 +2770,8 @@ export async function updateUserSettings(
       font_family: row.font_family,
       font_size: row.font_size,
       sync_interval: row.sync_interval,
+      note_render_mode: row.note_render_mode,
+      editor_view: row.editor_view,
       updated_at: row.updated_at
     };
     
@@ -1208,6 +2798,9 @@ async function ensureUserSettingsTableExists() {
     
     const exists = tableExists.rows[0]?.exists;
     if (exists) {
+      // 旧表补充便签显示方式字段
+      await query(`ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS note_render_mode TEXT NOT NULL DEFAULT 'plain'`);
+      await query(`ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS editor_view TEXT NOT NULL DEFAULT 'edit'`);
       console.log("用户设置表已存在，无需创建");
       return;
     }
@@ -1221,6 +2814,8 @@ async function ensureUserSettingsTableExists() {
         font_family TEXT NOT NULL DEFAULT 'zcool-xiaowei',
         font_size TEXT NOT NULL DEFAULT 'medium',
         sync_interval INTEGER NOT NULL DEFAULT 5,
+        note_render_mode TEXT NOT NULL DEFAULT 'plain',
+        editor_view TEXT NOT NULL DEFAULT 'edit',
         updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
       )
     `);
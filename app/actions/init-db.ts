@@ -1,6 +1,12 @@
 "use server"
 
-import { sql } from "@/lib/db"
+import { sql, query } from "@/lib/db"
+import { SYNC_SCHEMA_STATEMENTS } from "@/lib/sync-schema"
+import { SEARCH_SCHEMA_STATEMENTS, SAVED_SEARCH_SCHEMA_STATEMENTS } from "@/lib/search-schema"
+import { TAG_SCHEMA_STATEMENTS } from "@/lib/tag-schema"
+import { NOTE_LINK_SCHEMA_STATEMENTS } from "@/lib/note-link-schema"
+import { PUSH_SCHEMA_STATEMENTS } from "@/lib/push-schema"
+import { OUTBOX_SCHEMA_STATEMENTS } from "@/lib/outbox-schema"
 
 export async function initializeDatabase() {
   console.log("初始化数据库...")
@@ -17,6 +23,24 @@ export async function initializeDatabase() {
     `
     console.log("groups 表已创建或已存在")
 
+    // 嵌套分组：上级分组和同级排序
+    await sql`ALTER TABLE groups ADD COLUMN IF NOT EXISTS parent_id INTEGER`
+    await sql`ALTER TABLE groups ADD COLUMN IF NOT EXISTS sort_order INTEGER NOT NULL DEFAULT 0`
+    await sql`
+      DO $$
+      BEGIN
+        IF NOT EXISTS (
+          SELECT 1
+          FROM pg_constraint
+          WHERE conname = 'groups_parent_id_fkey'
+        ) THEN
+          ALTER TABLE groups
+            ADD CONSTRAINT groups_parent_id_fkey
+            FOREIGN KEY (parent_id) REFERENCES groups(id) ON DELETE SET NULL;
+        END IF;
+      END $$;
+    `
+
     // 创建 notes 表
     await sql`
       CREATE TABLE IF NOT EXISTS notes (
@@ -49,6 +73,20 @@ export async function initializeDatabase() {
       END $$;
     `
 
+    // 创建 note_revisions 表（便签历史版本）
+    await sql`
+      CREATE TABLE IF NOT EXISTS note_revisions (
+        id SERIAL PRIMARY KEY,
+        note_id INTEGER NOT NULL REFERENCES notes(id) ON DELETE CASCADE,
+        user_id VARCHAR(255) NOT NULL,
+        content TEXT NOT NULL,
+        title TEXT NOT NULL DEFAULT '',
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `
+    console.log("note_revisions 表已创建或已存在")
+
     // 创建 links 表
     await sql`
       CREATE TABLE IF NOT EXISTS links (
@@ -56,11 +94,29 @@ export async function initializeDatabase() {
         user_id VARCHAR(255) NOT NULL,
         url TEXT NOT NULL,
         title TEXT NOT NULL,
+        group_id INTEGER,
         created_at TIMESTAMP NOT NULL DEFAULT NOW()
       )
     `
     console.log("links 表已创建或已存在")
 
+    // 链接分组：导入书签时按文件夹对应分组
+    await sql`ALTER TABLE links ADD COLUMN IF NOT EXISTS group_id INTEGER`
+    await sql`
+      DO $$
+      BEGIN
+        IF NOT EXISTS (
+          SELECT 1
+          FROM pg_constraint
+          WHERE conname = 'links_group_id_fkey'
+        ) THEN
+          ALTER TABLE links
+            ADD CONSTRAINT links_group_id_fkey
+            FOREIGN KEY (group_id) REFERENCES groups(id) ON DELETE SET NULL;
+        END IF;
+      END $$;
+    `
+
     // 创建 files 表（使用 MinIO 对象存储）
     await sql`
       CREATE TABLE IF NOT EXISTS files (
@@ -81,13 +137,78 @@ export async function initializeDatabase() {
     console.log("🔍 检查并添加缺失的字段...")
     await ensureTableFields()
 
+    // 回收站：软删除字段
+    await sql`ALTER TABLE notes ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP`
+    await sql`ALTER TABLE links ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP`
+    await sql`ALTER TABLE files ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP`
+
+    // 并发编辑：便签内容版本号
+    await sql`ALTER TABLE notes ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1`
+
+    // 置顶和收藏
+    await sql`ALTER TABLE notes ADD COLUMN IF NOT EXISTS pinned BOOLEAN NOT NULL DEFAULT FALSE`
+    await sql`ALTER TABLE notes ADD COLUMN IF NOT EXISTS starred BOOLEAN NOT NULL DEFAULT FALSE`
+
+    // 提醒：提醒时间和实际发出提醒的时间
+    await sql`ALTER TABLE notes ADD COLUMN IF NOT EXISTS remind_at TIMESTAMP`
+    await sql`ALTER TABLE notes ADD COLUMN IF NOT EXISTS reminder_sent_at TIMESTAMP`
+
+    // 增量同步：sync_version 字段、删除墓碑表和触发器
+    for (const statement of SYNC_SCHEMA_STATEMENTS) {
+      await query(statement)
+    }
+    console.log("增量同步结构已创建或已存在")
+
+    // 全文搜索：search_vector 字段、触发器、全文索引和三元组索引
+    for (const statement of SEARCH_SCHEMA_STATEMENTS) {
+      await query(statement)
+    }
+    console.log("全文搜索结构已创建或已存在")
+
+    // 已保存的搜索和最近搜索记录
+    for (const statement of SAVED_SEARCH_SCHEMA_STATEMENTS) {
+      await query(statement)
+    }
+    console.log("saved_searches / search_history 表已创建或已存在")
+
+    // 便签标签
+    for (const statement of TAG_SCHEMA_STATEMENTS) {
+      await query(statement)
+    }
+    console.log("tags / note_tags 表已创建或已存在")
+
+    // 便签之间的 [[标题]] 链接
+    for (const statement of NOTE_LINK_SCHEMA_STATEMENTS) {
+      await query(statement)
+    }
+    console.log("note_links 表已创建或已存在")
+
+    // Web Push 推送订阅和 VAPID 密钥
+    for (const statement of PUSH_SCHEMA_STATEMENTS) {
+      await query(statement)
+    }
+    console.log("push_subscriptions / push_vapid_keys 表已创建或已存在")
+
+    // 离线队列回放的幂等键
+    for (const statement of OUTBOX_SCHEMA_STATEMENTS) {
+      await query(statement)
+    }
+    console.log("离线新建幂等键字段已添加或已存在")
+
     // 创建索引以提升查询性能
     console.log("📊 创建数据库索引...")
     await sql`CREATE INDEX IF NOT EXISTS idx_notes_user_id ON notes(user_id)`
     await sql`CREATE INDEX IF NOT EXISTS idx_notes_created_at ON notes(created_at DESC)`
+    await sql`CREATE INDEX IF NOT EXISTS idx_notes_user_pinned_created ON notes(user_id, pinned DESC, created_at DESC, id DESC) WHERE deleted_at IS NULL`
+    await sql`CREATE INDEX IF NOT EXISTS idx_notes_pending_reminders ON notes(remind_at) WHERE remind_at IS NOT NULL AND reminder_sent_at IS NULL AND deleted_at IS NULL`
     await sql`CREATE INDEX IF NOT EXISTS idx_files_user_id ON files(user_id)`
     await sql`CREATE INDEX IF NOT EXISTS idx_links_user_id ON links(user_id)`
     await sql`CREATE INDEX IF NOT EXISTS idx_groups_user_id ON groups(user_id)`
+    await sql`CREATE INDEX IF NOT EXISTS idx_groups_parent_id ON groups(parent_id, sort_order)`
+    await sql`CREATE INDEX IF NOT EXISTS idx_note_revisions_note_id ON note_revisions(note_id, created_at DESC)`
+    await sql`CREATE INDEX IF NOT EXISTS idx_notes_deleted_at ON notes(deleted_at) WHERE deleted_at IS NOT NULL`
+    await sql`CREATE INDEX IF NOT EXISTS idx_links_deleted_at ON links(deleted_at) WHERE deleted_at IS NOT NULL`
+    await sql`CREATE INDEX IF NOT EXISTS idx_files_deleted_at ON files(deleted_at) WHERE deleted_at IS NOT NULL`
     console.log("✅ 数据库索引创建完成")
 
     return {
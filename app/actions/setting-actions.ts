@@ -55,6 +55,18 @@ async function createUserSettingsTableIfNeeded() {
     } catch (error) {
       console.log("【设置同步】密码字段可能已存在:", error)
     }
+
+    // 为现有表添加便签显示方式字段（如果不存在）
+    try {
+      await query(`
+        ALTER TABLE user_settings
+        ADD COLUMN IF NOT EXISTS note_render_mode TEXT NOT NULL DEFAULT 'plain',
+        ADD COLUMN IF NOT EXISTS editor_view TEXT NOT NULL DEFAULT 'edit'
+      `)
+      console.log("【设置同步】便签显示方式字段添加成功或已存在")
+    } catch (error) {
+      console.log("【设置同步】便签显示方式字段可能已存在:", error)
+    }
     console.log("【设置同步】用户设置表创建成功或已存在")
     return true
   } catch (error) {
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { verifyApiAuth, createAuthErrorResponse } from '@/lib/auth'
+import { backupSchema, restoreBackup } from '@/lib/backup'
+
+export const runtime = 'nodejs'
+
+const RestoreRequestSchema = z.object({
+  userId: z.string(),
+  backup: backupSchema,
+  mode: z.enum(['merge', 'replace']).default('merge'),
+  dryRun: z.boolean().default(true),
+})
+
+// 校验失败时最多返回的问题条数
+const MAX_REPORTED_ISSUES = 5
+
+/**
+ * 从 JSON 备份恢复
+ * POST /api/backup/restore
+ * Body: { userId: string, backup: Backup, mode?: 'merge' | 'replace', dryRun?: boolean }
+ *
+ * dryRun 默认为 true：在事务中执行恢复后回滚，返回统计结果供用户确认；
+ * 确认后以 dryRun: false 再次提交才会真正写入
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+
+    // 认证验证
+    const authResult = await verifyApiAuth(typeof body?.userId === 'string' ? body.userId : null)
+    if (!authResult.success) {
+      return createAuthErrorResponse(authResult)
+    }
+
+    const parsed = RestoreRequestSchema.safeParse(body)
+    if (!parsed.success) {
+      const issues = parsed.error.issues
+        .slice(0, MAX_REPORTED_ISSUES)
+        .map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+      return NextResponse.json(
+        { success: false, error: '备份文件格式无效', issues },
+        { status: 400 }
+      )
+    }
+
+    const { userId, backup, mode, dryRun } = parsed.data
+    const summary = await restoreBackup(userId, backup, { mode, dryRun })
+
+    return NextResponse.json({
+      success: true,
+      summary
+    })
+  } catch (error) {
+    console.error('❌ 恢复备份API错误:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : '恢复备份失败'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyApiAuth, createAuthErrorResponse } from '@/lib/auth'
+import { createBackup } from '@/lib/backup'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * 下载 JSON 备份，用于迁移到其他部署（格式见 lib/backup.ts）
+ * GET /api/backup?userId=xxx
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const userId = searchParams.get('userId')
+
+    // 认证验证
+    const authResult = await verifyApiAuth(userId)
+    if (!authResult.success) {
+      return createAuthErrorResponse(authResult)
+    }
+
+    const backup = await createBackup(userId as string)
+    const fileName = `pwa-note-backup-${backup.exported_at.slice(0, 10)}.json`
+
+    return new NextResponse(JSON.stringify(backup), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error) {
+    console.error('❌ 下载备份API错误:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : '生成备份失败'
+      },
+      { status: 500 }
+    )
+  }
+}
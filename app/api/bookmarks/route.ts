@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyApiAuth, createAuthErrorResponse } from '@/lib/auth'
+import { exportBookmarks, importBookmarks } from '@/lib/bookmarks'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// 书签文件大小上限（20MB）
+const MAX_BOOKMARKS_FILE_SIZE = 20 * 1024 * 1024
+
+/**
+ * 导出所有链接为浏览器书签文件
+ * GET /api/bookmarks?userId=xxx
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const userId = searchParams.get('userId')
+
+    // 认证验证
+    const authResult = await verifyApiAuth(userId)
+    if (!authResult.success) {
+      return createAuthErrorResponse(authResult)
+    }
+
+    const html = await exportBookmarks(userId as string)
+    const fileName = `pwa-note-bookmarks-${new Date().toISOString().slice(0, 10)}.html`
+
+    return new NextResponse(html, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error) {
+    console.error('❌ 导出书签API错误:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : '导出书签失败'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * 从浏览器书签文件导入链接
+ * POST /api/bookmarks（multipart/form-data）
+ * - userId：用户ID
+ * - file：Chrome / Firefox 等导出的书签 HTML 文件
+ *
+ * 返回 summary：新增、重复、无效的书签数和新建的分组数
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData()
+    const userId = formData.get('userId') as string | null
+    const file = formData.get('file')
+
+    // 认证验证
+    const authResult = await verifyApiAuth(userId)
+    if (!authResult.success) {
+      return createAuthErrorResponse(authResult)
+    }
+
+    if (!file || typeof file === 'string' || file.size === 0) {
+      return NextResponse.json(
+        { success: false, error: '缺少书签文件' },
+        { status: 400 }
+      )
+    }
+
+    if (file.size > MAX_BOOKMARKS_FILE_SIZE) {
+      return NextResponse.json(
+        { success: false, error: `书签文件不能超过 ${MAX_BOOKMARKS_FILE_SIZE / 1024 / 1024}MB` },
+        { status: 400 }
+      )
+    }
+
+    const summary = await importBookmarks(userId as string, await file.text())
+
+    return NextResponse.json({
+      success: true,
+      summary
+    })
+  } catch (error) {
+    console.error('❌ 导入书签API错误:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : '导入书签失败'
+      },
+      { status: 500 }
+    )
+  }
+}
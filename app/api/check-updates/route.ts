@@ -36,7 +36,7 @@ export async function POST(request: Request) {
         query(`
           SELECT EXISTS(
             SELECT 1 FROM notes
-            WHERE user_id = $1 AND (created_at > $2 OR updated_at > $2)
+            WHERE user_id = $1 AND (created_at > $2 OR updated_at > $2 OR deleted_at > $2)
             LIMIT 1
           ) as has_updates
         `, [userId, lastUpdateDate]),
@@ -45,7 +45,7 @@ export async function POST(request: Request) {
         query(`
           SELECT EXISTS(
             SELECT 1 FROM links
-            WHERE user_id = $1 AND created_at > $2
+            WHERE user_id = $1 AND (created_at > $2 OR deleted_at > $2)
             LIMIT 1
           ) as has_updates
         `, [userId, lastUpdateDate]),
@@ -54,7 +54,7 @@ export async function POST(request: Request) {
         query(`
           SELECT EXISTS(
             SELECT 1 FROM files
-            WHERE user_id = $1 AND uploaded_at > $2
+            WHERE user_id = $1 AND (uploaded_at > $2 OR deleted_at > $2)
             LIMIT 1
           ) as has_updates
         `, [userId, lastUpdateDate])
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyApiAuth, createAuthErrorResponse } from '@/lib/auth'
+import { createAccountExport } from '@/lib/account-export'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * 导出账户的全部数据（ZIP 压缩包，流式下载）
+ * GET /api/export?userId=xxx
+ *
+ * 压缩包内容见 lib/account-export.ts；
+ * 响应头 X-Export-Estimated-Size 为导出内容的原始大小，客户端据此估算下载进度
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const userId = searchParams.get('userId')
+
+    // 认证验证
+    const authResult = await verifyApiAuth(userId)
+    if (!authResult.success) {
+      return createAuthErrorResponse(authResult)
+    }
+
+    const { stream, fileName, estimatedSize } = await createAccountExport(userId as string)
+
+    return new NextResponse(stream, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'no-store',
+        'X-Export-Estimated-Size': String(estimatedSize),
+      },
+    })
+  } catch (error) {
+    console.error('❌ 导出数据API错误:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : '导出数据失败'
+      },
+      { status: 500 }
+    )
+  }
+}
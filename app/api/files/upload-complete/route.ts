@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { Client } from 'minio'
 import { sql } from '@/lib/db'
 import { verifyApiAuth, createAuthErrorResponse } from '@/lib/auth'
+import { notifyChange } from '@/lib/realtime'
 
 /**
  * MinIO 上传完成通知 API
@@ -186,6 +187,8 @@ export async function POST(request: NextRequest) {
       if (insertResult.length === 0) {
         throw new Error('数据库插入失败')
       }
+
+      await notifyChange({ userId: userId as string, entity: 'file', action: 'created', id: insertResult[0].id })
     } catch (dbError) {
       console.error('❌ 数据库插入失败:', dbError)
       console.error('插入数据详情:', {
@@ -7,6 +7,7 @@ import {
 } from '@/lib/minio-utils'
 import { sql } from '@/lib/db'
 import { verifyApiAuth, createAuthErrorResponse } from '@/lib/auth'
+import { notifyChange } from '@/lib/realtime'
 
 /**
  * MinIO 文件上传 API
@@ -128,6 +129,8 @@ export async function POST(request: NextRequest) {
       if (insertResult.length === 0) {
         throw new Error('数据库插入失败')
       }
+
+      await notifyChange({ userId, entity: 'file', action: 'created', id: insertResult[0].id })
     } catch (dbError) {
       console.error('❌ 数据库插入失败:', dbError)
       console.error('插入数据详情:', {
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyApiAuth, createAuthErrorResponse } from '@/lib/auth'
+import { IMPORT_SOURCES, type ImportSource } from '@/lib/import-formats'
+import { importNotes } from '@/lib/note-import'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// 导入文件大小上限（200MB）
+const MAX_IMPORT_FILE_SIZE = 200 * 1024 * 1024
+
+/**
+ * 从其他笔记应用导入
+ * POST /api/import（multipart/form-data）
+ * - userId：用户ID
+ * - source：keep（Google Takeout ZIP）/ evernote（.enex）/ obsidian（仓库 ZIP）
+ * - file：导出文件
+ *
+ * 返回 summary：导入的便签、新建的分组、上传的附件数量和警告（见 lib/note-import.ts）
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData()
+    const userId = formData.get('userId') as string | null
+    const source = formData.get('source')
+    const file = formData.get('file')
+
+    // 认证验证
+    const authResult = await verifyApiAuth(userId)
+    if (!authResult.success) {
+      return createAuthErrorResponse(authResult)
+    }
+
+    if (typeof source !== 'string' || !IMPORT_SOURCES.includes(source as ImportSource)) {
+      return NextResponse.json(
+        { success: false, error: `source 必须是 ${IMPORT_SOURCES.join(' / ')} 之一` },
+        { status: 400 }
+      )
+    }
+
+    if (!file || typeof file === 'string' || file.size === 0) {
+      return NextResponse.json(
+        { success: false, error: '缺少导入文件' },
+        { status: 400 }
+      )
+    }
+
+    if (file.size > MAX_IMPORT_FILE_SIZE) {
+      return NextResponse.json(
+        { success: false, error: `导入文件不能超过 ${MAX_IMPORT_FILE_SIZE / 1024 / 1024}MB` },
+        { status: 400 }
+      )
+    }
+
+    const summary = await importNotes(
+      userId as string,
+      source as ImportSource,
+      new Uint8Array(await file.arrayBuffer()),
+      file.name
+    )
+
+    return NextResponse.json({
+      success: true,
+      summary
+    })
+  } catch (error) {
+    console.error('❌ 导入API错误:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : '导入失败'
+      },
+      { status: 500 }
+    )
+  }
+}
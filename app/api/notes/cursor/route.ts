@@ -4,7 +4,8 @@ import { verifyApiAuth, createAuthErrorResponse } from '@/lib/auth'
 
 /**
  * 游标分页便签API - 高性能大数据量查询
- * GET /api/notes/cursor?userId=xxx&limit=20&cursor=2024-01-01T00:00:00.000Z
+ * GET /api/notes/cursor?userId=xxx&limit=20&cursor=<上一页返回的 nextCursor>&groupId=all&tagId=1&includeDescendants=true
+ * 置顶便签排在最前，cursor 为不透明字符串，原样传回即可；includeDescendants 为 true 时包含子孙分组中的便签
  */
 export async function GET(request: NextRequest) {
   try {
@@ -13,6 +14,8 @@ export async function GET(request: NextRequest) {
     const limit = parseInt(searchParams.get('limit') || '20', 10)
     const cursor = searchParams.get('cursor') || undefined
     const groupId = searchParams.get('groupId') || 'all'
+    const tagId = searchParams.get('tagId') || null
+    const includeDescendants = searchParams.get('includeDescendants') === 'true'
 
     // 认证验证
     const authResult = await verifyApiAuth(userId)
@@ -37,7 +40,7 @@ export async function GET(request: NextRequest) {
     console.log('🚀 游标分页API调用:', { userId: validUserId, limit, cursor })
 
     // 执行游标分页查询
-    const result = await getNotesCursor(validUserId, limit, cursor, groupId)
+    const result = await getNotesCursor(validUserId, limit, cursor, groupId, tagId, includeDescendants)
 
     console.log('✅ 游标分页API完成:', {
       count: result.notes.length,
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyApiAuth, createAuthErrorResponse } from '@/lib/auth'
+import { isAllowedPushEndpoint, savePushSubscription } from '@/lib/push-notifications'
+
+export const runtime = 'nodejs'
+
+/**
+ * 保存当前设备的推送订阅
+ * POST /api/push/subscribe
+ * Body: {
+ *   userId: string,
+ *   deviceId: string,
+ *   subscription: { endpoint: string, keys: { p256dh: string, auth: string } }  // PushSubscription.toJSON()
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { userId, deviceId, subscription } = body
+
+    // 认证验证
+    const authResult = await verifyApiAuth(typeof userId === 'string' ? userId : null)
+    if (!authResult.success) {
+      return createAuthErrorResponse(authResult)
+    }
+
+    const endpoint = subscription?.endpoint
+    const p256dh = subscription?.keys?.p256dh
+    const auth = subscription?.keys?.auth
+    if (
+      typeof deviceId !== 'string' || !deviceId || deviceId.length > 64 ||
+      typeof endpoint !== 'string' || typeof p256dh !== 'string' || typeof auth !== 'string'
+    ) {
+      return NextResponse.json(
+        { success: false, error: '缺少必需参数：deviceId, subscription.endpoint, subscription.keys' },
+        { status: 400 }
+      )
+    }
+
+    if (!isAllowedPushEndpoint(endpoint)) {
+      return NextResponse.json(
+        { success: false, error: '不支持的推送地址' },
+        { status: 400 }
+      )
+    }
+
+    await savePushSubscription(
+      userId,
+      deviceId,
+      { endpoint, keys: { p256dh, auth } },
+      request.headers.get('user-agent')
+    )
+    console.log(`🔔 已保存推送订阅: 用户 ${userId}, 设备 ${deviceId}`)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('❌ 保存推送订阅失败:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : '保存推送订阅失败'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyApiAuth, createAuthErrorResponse } from '@/lib/auth'
+import { sendPushToUser } from '@/lib/push-notifications'
+
+export const runtime = 'nodejs'
+
+/**
+ * 向当前用户的所有设备发送一条测试通知
+ * POST /api/push/test
+ * Body: { userId: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { userId } = body
+
+    // 认证验证
+    const authResult = await verifyApiAuth(typeof userId === 'string' ? userId : null)
+    if (!authResult.success) {
+      return createAuthErrorResponse(authResult)
+    }
+
+    const result = await sendPushToUser(userId, {
+      title: '测试通知',
+      body: '推送通知已开启，便签提醒会出现在这里',
+      tag: 'push-test',
+    })
+
+    return NextResponse.json({ success: true, data: result })
+  } catch (error) {
+    console.error('❌ 发送测试通知失败:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : '发送测试通知失败'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyApiAuth, createAuthErrorResponse } from '@/lib/auth'
+import { removePushSubscription } from '@/lib/push-notifications'
+
+export const runtime = 'nodejs'
+
+/**
+ * 删除当前设备的推送订阅
+ * POST /api/push/unsubscribe
+ * Body: { userId: string, deviceId: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { userId, deviceId } = body
+
+    // 认证验证
+    const authResult = await verifyApiAuth(typeof userId === 'string' ? userId : null)
+    if (!authResult.success) {
+      return createAuthErrorResponse(authResult)
+    }
+
+    if (typeof deviceId !== 'string' || !deviceId) {
+      return NextResponse.json(
+        { success: false, error: '缺少必需参数：deviceId' },
+        { status: 400 }
+      )
+    }
+
+    const removed = await removePushSubscription(userId, deviceId)
+
+    return NextResponse.json({ success: true, removed })
+  } catch (error) {
+    console.error('❌ 删除推送订阅失败:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : '删除推送订阅失败'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+import { getVapidKeys } from '@/lib/push-notifications'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * 获取 VAPID 公钥（浏览器订阅推送时作为 applicationServerKey）
+ * GET /api/push/vapid-public-key
+ */
+export async function GET() {
+  try {
+    const { publicKey } = await getVapidKeys()
+    return NextResponse.json({ success: true, publicKey })
+  } catch (error) {
+    console.error('❌ 获取 VAPID 公钥失败:', error)
+    return NextResponse.json(
+      { success: false, error: '推送服务未配置' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server'
+import { dispatchDueReminders } from '@/lib/reminders'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * 发出到期的便签提醒（供定时任务调用）
+ * GET /api/reminders/dispatch
+ *
+ * 长期运行的服务端进程已在启动时开启调度，无需调用；
+ * 无服务器部署时由定时任务每分钟调用一次，请求头需带 Authorization: Bearer <CRON_SECRET>
+ */
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const dispatched = await dispatchDueReminders()
+    return NextResponse.json({ success: true, dispatched })
+  } catch (error) {
+    console.error('❌ 发出到期提醒失败:', error)
+    return NextResponse.json({ error: '发出到期提醒失败' }, { status: 500 })
+  }
+}
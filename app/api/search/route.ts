@@ -1,6 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { query } from '@/lib/db'
 import { verifyApiAuth, createAuthErrorResponse } from '@/lib/auth'
+import {
+  ensureSearchSchema,
+  toLikePattern,
+  buildSearchSnippet,
+  createSqlParams,
+  buildNoteSearchConditions,
+  buildGroupConditions,
+  dateConditions,
+  MAX_SEARCH_TERMS
+} from '@/lib/search'
+import { ensureTagSchema } from '@/lib/tags'
+import {
+  parseSearchQuery,
+  buildSearchCriteria,
+  hasSearchCriteria,
+  searchIncludesKind,
+  SearchCriteria,
+  SearchType
+} from '@/lib/search-query'
 
 const isDev = process.env.NODE_ENV !== 'production'
 const debugLog = isDev ? console.log.bind(console) : () => {}
@@ -8,6 +27,7 @@ const debugLog = isDev ? console.log.bind(console) : () => {}
 /**
  * 全局搜索API - 支持搜索便签、文件、链接
  * GET /api/search?userId=xxx&q=搜索关键词&limit=20
+ * 查询语法见 lib/search-query.ts：关键词、"短语"、-排除、group:/tag:/type:/before:/after:/has: 筛选
  */
 export async function GET(request: NextRequest) {
   try {
@@ -26,7 +46,12 @@ export async function GET(request: NextRequest) {
     // userId已通过认证验证，此处安全使用
     const validUserId = userId as string
 
-    if (!searchQuery || !searchQuery.trim()) {
+    const query_text = (searchQuery || '').trim()
+    const criteria = buildSearchCriteria(parseSearchQuery(query_text))
+    criteria.terms = criteria.terms.slice(0, MAX_SEARCH_TERMS)
+    criteria.excludes = criteria.excludes.slice(0, MAX_SEARCH_TERMS)
+
+    if (!hasSearchCriteria(criteria)) {
       return NextResponse.json({
         success: true,
         data: {
@@ -34,18 +59,23 @@ export async function GET(request: NextRequest) {
           files: [],
           links: []
         },
-        total: 0
+        total: 0,
+        warnings: criteria.errors
       })
     }
 
-    const query_text = searchQuery.trim()
-    debugLog('🔍 搜索API调用:', { userId: validUserId, query: query_text, limit })
+    debugLog('🔍 搜索API调用:', { userId: validUserId, query: query_text, criteria, limit })
+
+    await ensureSearchSchema()
+    if (criteria.tags.include.length + criteria.tags.exclude.length > 0) {
+      await ensureTagSchema()
+    }
 
     // 先查看用户有多少数据
     const [totalNotes, totalFiles, totalLinks] = await Promise.all([
-      query('SELECT COUNT(*) as count FROM notes WHERE user_id = $1', [validUserId]),
-      query('SELECT COUNT(*) as count FROM files WHERE user_id = $1', [validUserId]),
-      query('SELECT COUNT(*) as count FROM links WHERE user_id = $1', [validUserId])
+      query('SELECT COUNT(*) as count FROM notes WHERE user_id = $1 AND deleted_at IS NULL', [validUserId]),
+      query('SELECT COUNT(*) as count FROM files WHERE user_id = $1 AND deleted_at IS NULL', [validUserId]),
+      query('SELECT COUNT(*) as count FROM links WHERE user_id = $1 AND deleted_at IS NULL', [validUserId])
     ])
 
     debugLog('📊 用户数据统计:', {
@@ -54,11 +84,11 @@ export async function GET(request: NextRequest) {
       links: totalLinks.rows[0]?.count || 0
     })
 
-    // 并行搜索所有类型的数据
+    // 并行搜索类型条件允许的数据
     const [notesResult, filesResult, linksResult] = await Promise.all([
-      searchNotes(validUserId, query_text, limit),
-      searchFiles(validUserId, query_text, limit),
-      searchLinks(validUserId, query_text, limit)
+      searchIncludesKind(criteria, 'note') ? searchNotes(validUserId, criteria, limit) : [],
+      searchIncludesKind(criteria, 'file') ? searchFiles(validUserId, criteria, limit) : [],
+      searchIncludesKind(criteria, 'link') ? searchLinks(validUserId, criteria, limit) : []
     ])
 
     const totalResults = notesResult.length + filesResult.length + linksResult.length
@@ -78,7 +108,9 @@ export async function GET(request: NextRequest) {
         links: linksResult
       },
       total: totalResults,
-      query: query_text
+      query: query_text,
+      terms: criteria.terms,
+      warnings: criteria.errors
     })
 
   } catch (error) {
@@ -94,17 +126,26 @@ export async function GET(request: NextRequest) {
   }
 }
 
+// 文件类型条件对应的 MIME 匹配
+const FILE_TYPE_CONDITIONS: Partial<Record<SearchType, string>> = {
+  image: `type ILIKE 'image/%'`,
+  video: `type ILIKE 'video/%'`,
+  audio: `type ILIKE 'audio/%'`,
+  document: `NOT (type ILIKE 'image/%' OR type ILIKE 'video/%' OR type ILIKE 'audio/%')`,
+}
+
 /**
- * 搜索便签 - 支持模糊搜索和内容匹配
+ * 搜索便签 - 全文索引（中文按二字词切分）加三元组索引兜底，所有关键词都需匹配
+ * 只返回匹配位置附近的片段和高亮区间，不返回完整内容
  */
-async function searchNotes(userId: string, searchQuery: string, limit: number) {
+async function searchNotes(userId: string, criteria: SearchCriteria, limit: number) {
   try {
-    debugLog('🔍 搜索便签:', { userId, searchQuery, limit })
+    debugLog('🔍 搜索便签:', { userId, criteria, limit })
 
-    // 使用多种搜索策略提高中文搜索效果
-    const searchPattern = `%${searchQuery}%`
+    const { params, add } = createSqlParams(userId)
+    const { conditions, scores } = buildNoteSearchConditions(criteria, add)
 
-    debugLog('🔍 便签搜索参数:', { userId, searchQuery, searchPattern, limit })
+    const limitParam = add(limit)
 
     const result = await query(`
       SELECT
@@ -112,35 +153,18 @@ async function searchNotes(userId: string, searchQuery: string, limit: number) {
         user_id,
         title,
         content,
+        group_id,
         created_at,
         updated_at,
-        -- 计算相关度分数（修复除零错误，优化中文搜索）
-        (
-          (CASE WHEN title ILIKE $2 THEN 20 ELSE 0 END) +
-          (CASE WHEN title LIKE $2 THEN 10 ELSE 0 END) +
-          (CASE WHEN content ILIKE $2 THEN 10 ELSE 0 END) +
-          (CASE WHEN content LIKE $2 THEN 5 ELSE 0 END) +
-          CASE
-            WHEN LENGTH($3) > 0 THEN
-              (LENGTH(title) - LENGTH(REPLACE(title, $3, ''))) / LENGTH($3) * 2 +
-              (LENGTH(content) - LENGTH(REPLACE(content, $3, ''))) / LENGTH($3)
-            ELSE 0
-          END
-        ) as relevance_score
+        version,
+        (${scores.length > 0 ? scores.join(' + ') : '0'}) AS relevance_score
       FROM notes
       WHERE user_id = $1
-        AND (title ILIKE $2 OR title LIKE $2 OR content ILIKE $2 OR content LIKE $2)
+        AND deleted_at IS NULL
+        ${conditions.map((condition) => `AND ${condition}`).join('\n        ')}
       ORDER BY relevance_score DESC, created_at DESC
-      LIMIT $4
-    `, [userId, searchPattern, searchQuery, limit])
-
-    debugLog('📝 便签SQL执行结果:', {
-      rowCount: result.rows.length,
-      sampleContent: result.rows.slice(0, 2).map((row: any) => ({
-        id: row.id,
-        content: row.content.substring(0, 50) + '...'
-      }))
-    })
+      LIMIT ${limitParam}
+    `, params)
 
     debugLog('📝 便签搜索结果:', result.rows.length, '条')
 
@@ -148,10 +172,12 @@ async function searchNotes(userId: string, searchQuery: string, limit: number) {
       id: row.id,
       user_id: row.user_id,
       title: row.title,
-      content: row.content,
+      group_id: row.group_id,
       created_at: row.created_at,
       updated_at: row.updated_at,
-      relevance_score: row.relevance_score
+      version: row.version,
+      ...buildSearchSnippet(row.content, criteria.terms),
+      relevance_score: Number(row.relevance_score) || 0
     }))
 
   } catch (error) {
@@ -160,12 +186,40 @@ async function searchNotes(userId: string, searchQuery: string, limit: number) {
   }
 }
 
+// 关键词在文本中的字符占比，用于文件和链接排序
+function termCoverage(text: string, terms: string[]) {
+  if (!text) return 0
+  const lower = text.toLowerCase()
+  const matched = terms.reduce((sum, term) => sum + (lower.includes(term.toLowerCase()) ? term.length : 0), 0)
+  return matched / text.length
+}
+
 /**
- * 搜索文件 - 按文件名搜索
+ * 搜索文件 - 按文件名搜索，所有关键词都需匹配，支持按文件类型筛选
  */
-async function searchFiles(userId: string, searchQuery: string, limit: number) {
+async function searchFiles(userId: string, criteria: SearchCriteria, limit: number) {
   try {
-    debugLog('📁 搜索文件:', { userId, searchQuery, limit })
+    debugLog('📁 搜索文件:', { userId, criteria, limit })
+
+    const { params, add } = createSqlParams(userId)
+    const conditions: string[] = [
+      ...criteria.terms.map((term) => `name ILIKE ${add(toLikePattern(term))}`),
+      ...criteria.excludes.map((term) => `name NOT ILIKE ${add(toLikePattern(term))}`),
+      ...dateConditions('uploaded_at', criteria, add)
+    ]
+
+    // type:file 表示所有文件，其余类型按 MIME 匹配
+    const includeTypes = criteria.types.include.filter((type) => FILE_TYPE_CONDITIONS[type])
+    if (!criteria.types.include.includes('file') && includeTypes.length > 0) {
+      conditions.push(`(${includeTypes.map((type) => FILE_TYPE_CONDITIONS[type]).join(' OR ')})`)
+    }
+    for (const type of criteria.types.exclude) {
+      if (FILE_TYPE_CONDITIONS[type]) {
+        conditions.push(`NOT (${FILE_TYPE_CONDITIONS[type]})`)
+      }
+    }
+
+    const limitParam = add(limit)
 
     const result = await query(`
       SELECT
@@ -176,38 +230,32 @@ async function searchFiles(userId: string, searchQuery: string, limit: number) {
         size,
         minio_url,
         thumbnail_url,
-        uploaded_at,
-        -- 计算文件名相关度（修复除零错误）
-        (
-          (CASE WHEN name ILIKE $2 THEN 10 ELSE 0 END) +
-          CASE
-            WHEN LENGTH($3) > 0 THEN
-              (LENGTH(name) - LENGTH(REPLACE(LOWER(name), LOWER($3), ''))) / LENGTH($3)
-            ELSE 0
-          END
-        ) as relevance_score
+        uploaded_at
       FROM files
       WHERE user_id = $1
-        AND name ILIKE $2
-      ORDER BY relevance_score DESC, uploaded_at DESC
-      LIMIT $4
-    `, [userId, `%${searchQuery}%`, searchQuery, limit])
+        AND deleted_at IS NULL
+        ${conditions.map((condition) => `AND ${condition}`).join('\n        ')}
+      ORDER BY uploaded_at DESC
+      LIMIT ${limitParam}
+    `, params)
 
     debugLog('📁 文件搜索结果:', result.rows.length, '条')
 
-    return result.rows.map((row: any) => ({
-      id: row.id,
-      user_id: row.user_id,
-      name: row.name,
-      type: row.type,
-      size: row.size,
-      url: row.minio_url, // 使用正确的字段名
-      minio_url: row.minio_url,
-      thumbnail: row.thumbnail_url,
-      thumbnail_url: row.thumbnail_url,
-      uploaded_at: row.uploaded_at,
-      relevance_score: row.relevance_score
-    }))
+    return result.rows
+      .map((row: any) => ({
+        id: row.id,
+        user_id: row.user_id,
+        name: row.name,
+        type: row.type,
+        size: row.size,
+        url: row.minio_url, // 使用正确的字段名
+        minio_url: row.minio_url,
+        thumbnail: row.thumbnail_url,
+        thumbnail_url: row.thumbnail_url,
+        uploaded_at: row.uploaded_at,
+        relevance_score: termCoverage(row.name, criteria.terms)
+      }))
+      .sort((a: any, b: any) => b.relevance_score - a.relevance_score)
 
   } catch (error) {
     console.error('❌ 搜索文件失败:', error)
@@ -216,11 +264,25 @@ async function searchFiles(userId: string, searchQuery: string, limit: number) {
 }
 
 /**
- * 搜索链接 - 按标题和URL搜索
+ * 搜索链接 - 按标题和URL搜索，每个关键词需出现在标题或URL中
  */
-async function searchLinks(userId: string, searchQuery: string, limit: number) {
+async function searchLinks(userId: string, criteria: SearchCriteria, limit: number) {
   try {
-    debugLog('🔗 搜索链接:', { userId, searchQuery, limit })
+    debugLog('🔗 搜索链接:', { userId, criteria, limit })
+
+    const { params, add } = createSqlParams(userId)
+    const linkMatch = (term: string) => {
+      const pattern = add(toLikePattern(term))
+      return `(title ILIKE ${pattern} OR url ILIKE ${pattern})`
+    }
+    const conditions: string[] = [
+      ...criteria.terms.map(linkMatch),
+      ...criteria.excludes.map((term) => `NOT ${linkMatch(term)}`),
+      ...buildGroupConditions(criteria, add),
+      ...dateConditions('created_at', criteria, add)
+    ]
+
+    const limitParam = add(limit)
 
     const result = await query(`
       SELECT
@@ -228,35 +290,30 @@ async function searchLinks(userId: string, searchQuery: string, limit: number) {
         user_id,
         url,
         title,
-        created_at,
-        -- 计算链接相关度（标题权重更高，修复除零错误）
-        (
-          (CASE WHEN title ILIKE $2 THEN 15 ELSE 0 END) +
-          (CASE WHEN url ILIKE $2 THEN 5 ELSE 0 END) +
-          CASE
-            WHEN LENGTH($3) > 0 THEN
-              (LENGTH(title) - LENGTH(REPLACE(LOWER(title), LOWER($3), ''))) / LENGTH($3) * 2 +
-              (LENGTH(url) - LENGTH(REPLACE(LOWER(url), LOWER($3), ''))) / LENGTH($3)
-            ELSE 0
-          END
-        ) as relevance_score
+        group_id,
+        created_at
       FROM links
       WHERE user_id = $1
-        AND (title ILIKE $2 OR url ILIKE $2)
-      ORDER BY relevance_score DESC, created_at DESC
-      LIMIT $4
-    `, [userId, `%${searchQuery}%`, searchQuery, limit])
+        AND deleted_at IS NULL
+        ${conditions.map((condition) => `AND ${condition}`).join('\n        ')}
+      ORDER BY created_at DESC
+      LIMIT ${limitParam}
+    `, params)
 
     debugLog('🔗 链接搜索结果:', result.rows.length, '条')
 
-    return result.rows.map((row: any) => ({
-      id: row.id,
-      user_id: row.user_id,
-      url: row.url,
-      title: row.title,
-      created_at: row.created_at,
-      relevance_score: row.relevance_score
-    }))
+    return result.rows
+      .map((row: any) => ({
+        id: row.id,
+        user_id: row.user_id,
+        url: row.url,
+        title: row.title,
+        group_id: row.group_id,
+        created_at: row.created_at,
+        // 标题命中权重更高
+        relevance_score: termCoverage(row.title, criteria.terms) * 2 + termCoverage(row.url, criteria.terms)
+      }))
+      .sort((a: any, b: any) => b.relevance_score - a.relevance_score)
 
   } catch (error) {
     console.error('❌ 搜索链接失败:', error)
@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthPayloadFromCookies } from '@/lib/auth'
+import { isFileTypeSupported, uploadFileToMinio, validateFileSize } from '@/lib/minio-utils'
+import { createFile, createLink, createNote } from '@/app/actions/db-actions'
+
+export const runtime = 'nodejs'
+
+/**
+ * Web Share Target：接收其他应用分享的内容（见 app/manifest.ts 中的 share_target）
+ * POST /api/share-target（multipart/form-data）
+ * - title / text / url：网址保存为链接，其余文字保存为便签
+ * - files：上传到 MinIO 并保存为文件
+ *
+ * 处理完成后重定向回应用，查询参数 share 表示结果，由 ShareTargetNotifier 显示提示：
+ * /?share=done&notes=1&links=1&files=2&failed=0；没有可保存的内容时为 share=empty，未登录时为 share=login
+ */
+
+// 单次分享最多处理的文件数
+const MAX_SHARED_FILES = 10
+
+const URL_PATTERN = /https?:\/\/[^\s<>"]+/i
+
+const basePath = process.env.NEXT_PUBLIC_BASE_PATH || ''
+
+function redirectToApp(request: NextRequest, params: Record<string, string | number>) {
+  const target = new URL(`${basePath}/`, request.url)
+  for (const [key, value] of Object.entries(params)) {
+    target.searchParams.set(key, String(value))
+  }
+  // 303：分享是 POST 提交，重定向后以 GET 打开应用
+  return NextResponse.redirect(target, 303)
+}
+
+function getString(formData: FormData, name: string): string {
+  const value = formData.get(name)
+  return typeof value === 'string' ? value.trim() : ''
+}
+
+/**
+ * 拆分分享内容：很多 Android 应用把网址放在 text 中（常见为「标题 网址」），
+ * 网址保存为链接；文字除网址外只有标题时不再另存便签，否则完整保存为便签
+ */
+function splitSharedContent(title: string, text: string, url: string): { linkUrl: string; noteText: string } {
+  const linkUrl = url || text.match(URL_PATTERN)?.[0] || ''
+  if (!linkUrl) return { linkUrl, noteText: text }
+
+  const rest = text.replace(linkUrl, '').trim()
+  return { linkUrl, noteText: !rest || rest === title ? '' : text }
+}
+
+function getLinkTitle(title: string, url: string): string {
+  if (title) return title
+  try {
+    return new URL(url).hostname
+  } catch {
+    return url
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const payload = await getAuthPayloadFromCookies()
+  if (!payload) {
+    return redirectToApp(request, { share: 'login' })
+  }
+  const userId = payload.userId
+
+  let formData: FormData
+  try {
+    formData = await request.formData()
+  } catch (error) {
+    console.error('❌ 解析分享内容失败:', error)
+    return redirectToApp(request, { share: 'error' })
+  }
+
+  const title = getString(formData, 'title')
+  const { linkUrl, noteText } = splitSharedContent(title, getString(formData, 'text'), getString(formData, 'url'))
+  const files = formData
+    .getAll('files')
+    .filter((item): item is File => typeof item !== 'string' && item.size > 0)
+
+  console.log(`📥 收到分享: 用户 ${userId}, 链接 ${linkUrl ? 1 : 0}, 文字 ${noteText.length} 字, 文件 ${files.length} 个`)
+
+  const result = { notes: 0, links: 0, files: 0, failed: 0 }
+
+  if (linkUrl) {
+    try {
+      await createLink(userId, linkUrl, getLinkTitle(title, linkUrl))
+      result.links++
+    } catch (error) {
+      console.error('❌ 分享的链接保存失败:', error)
+      result.failed++
+    }
+  }
+
+  if (noteText) {
+    try {
+      // 同时分享了网址时，标题属于链接
+      await createNote(userId, noteText, undefined, null, linkUrl ? '' : title)
+      result.notes++
+    } catch (error) {
+      console.error('❌ 分享的文字保存失败:', error)
+      result.failed++
+    }
+  }
+
+  result.failed += Math.max(0, files.length - MAX_SHARED_FILES)
+  for (const file of files.slice(0, MAX_SHARED_FILES)) {
+    try {
+      if (!isFileTypeSupported(file.type)) {
+        throw new Error(`不支持的文件类型: ${file.type}`)
+      }
+      const sizeValidation = validateFileSize(file)
+      if (!sizeValidation.valid) {
+        throw new Error(sizeValidation.error)
+      }
+
+      const uploaded = await uploadFileToMinio(file, userId, 'files')
+      await createFile(userId, {
+        name: file.name,
+        type: file.type,
+        minio_url: uploaded.url,
+        size: file.size,
+      })
+      result.files++
+    } catch (error) {
+      console.error(`❌ 分享的文件保存失败: ${file.name}`, error)
+      result.failed++
+    }
+  }
+
+  const saved = result.notes + result.links + result.files
+  const share = saved > 0 ? 'done' : result.failed > 0 ? 'error' : 'empty'
+  return redirectToApp(request, { share, ...result })
+}
+
+/**
+ * 直接打开分享地址时返回应用首页
+ */
+export async function GET(request: NextRequest) {
+  return redirectToApp(request, {})
+}
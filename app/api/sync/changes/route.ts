@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyApiAuth, createAuthErrorResponse } from '@/lib/auth'
+import { getChangesSince } from '@/lib/sync-changes'
+
+/**
+ * 增量同步API - 返回某个同步令牌之后变更的便签、分组、链接和文件
+ * GET /api/sync/changes?userId=xxx&since=<token>
+ *
+ * 返回：
+ * - reset: true 时客户端应执行完整同步，并保存返回的 token
+ * - changes.<type>.upserted / changes.<type>.deleted：新建或更新的记录、已删除记录ID
+ * - token: 下次请求使用的同步令牌
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const userId = searchParams.get('userId')
+    const since = searchParams.get('since')
+
+    // 认证验证
+    const authResult = await verifyApiAuth(userId)
+    if (!authResult.success) {
+      return createAuthErrorResponse(authResult)
+    }
+
+    // userId已通过认证验证，此处安全使用
+    const validUserId = userId as string
+
+    const result = await getChangesSince(validUserId, since)
+
+    return NextResponse.json({
+      success: true,
+      ...result
+    })
+  } catch (error) {
+    console.error('❌ 增量同步API错误:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : '增量同步失败'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest } from 'next/server'
+import { verifyApiAuth, createAuthErrorResponse } from '@/lib/auth'
+import { subscribeToChanges } from '@/lib/realtime'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// 心跳间隔，防止代理因空闲关闭连接
+const HEARTBEAT_INTERVAL_MS = 25 * 1000
+
+/**
+ * 变更推送（Server-Sent Events）
+ * GET /api/sync/events?userId=xxx
+ *
+ * 事件：
+ * - ready：连接建立
+ * - change：数据变更，data 为 { entity, action, id }，客户端收到后拉取增量变更
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const userId = searchParams.get('userId')
+
+  // 认证验证
+  const authResult = await verifyApiAuth(userId)
+  if (!authResult.success) {
+    return createAuthErrorResponse(authResult)
+  }
+
+  // userId已通过认证验证，此处安全使用
+  const validUserId = userId as string
+  const encoder = new TextEncoder()
+
+  let cleanup: (() => void) | null = null
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false
+      let unsubscribe: (() => void) | null = null
+      let heartbeat: ReturnType<typeof setInterval> | null = null
+
+      const send = (chunk: string) => {
+        if (closed) return
+        try {
+          controller.enqueue(encoder.encode(chunk))
+        } catch {
+          close()
+        }
+      }
+
+      const close = () => {
+        if (closed) return
+        closed = true
+        if (heartbeat) clearInterval(heartbeat)
+        unsubscribe?.()
+        try {
+          controller.close()
+        } catch {
+          // 流已关闭
+        }
+      }
+      cleanup = close
+
+      request.signal.addEventListener('abort', close)
+
+      try {
+        unsubscribe = await subscribeToChanges(
+          validUserId,
+          ({ entity, action, id }) => {
+            send(`event: change\ndata: ${JSON.stringify({ entity, action, id })}\n\n`)
+          },
+          // 监听连接断开时关闭流，让客户端重连
+          close,
+        )
+      } catch (error) {
+        console.error('❌ 订阅变更通知失败:', error)
+        close()
+        return
+      }
+
+      if (closed) {
+        unsubscribe()
+        return
+      }
+
+      send(`retry: 5000\nevent: ready\ndata: {}\n\n`)
+      heartbeat = setInterval(() => send(`: heartbeat\n\n`), HEARTBEAT_INTERVAL_MS)
+    },
+    cancel() {
+      cleanup?.()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  })
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyApiAuth, createAuthErrorResponse } from '@/lib/auth'
+import { isOutboxReplayEntry, replayOutboxEntries } from '@/lib/outbox-replay'
+
+export const runtime = 'nodejs'
+
+// 单次请求最多回放的队列条目数
+const MAX_OUTBOX_ENTRIES = 500
+
+/**
+ * 回放离线队列 - Service Worker 后台同步时调用（见 public/sw.js 的 sync 事件）
+ * POST /api/sync/outbox
+ * Body: { userId: string, entries: [{ id: number, key?: string, status: 'pending' | 'failed', operation: OutboxOperation }] }
+ * key 为入队时生成的幂等键，已执行过的条目直接返回 done，不会重复创建
+ *
+ * 返回 results：每个条目的回放结果（done / conflict / failed / skipped），
+ * 未完成的条目附带替换临时ID后的 operation，由 Service Worker 写回 IndexedDB
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { userId, entries } = body
+
+    // 认证验证
+    const authResult = await verifyApiAuth(typeof userId === 'string' ? userId : null)
+    if (!authResult.success) {
+      return createAuthErrorResponse(authResult)
+    }
+
+    if (!Array.isArray(entries) || entries.length > MAX_OUTBOX_ENTRIES || !entries.every(isOutboxReplayEntry)) {
+      return NextResponse.json(
+        { success: false, error: `entries 必须是不超过 ${MAX_OUTBOX_ENTRIES} 项的离线队列条目数组` },
+        { status: 400 }
+      )
+    }
+
+    console.log(`📤 后台同步回放离线队列: 用户 ${userId}, ${entries.length} 项`)
+    const results = await replayOutboxEntries(userId, entries)
+
+    return NextResponse.json({
+      success: true,
+      results
+    })
+  } catch (error) {
+    console.error('❌ 回放离线队列API错误:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : '回放离线队列失败'
+      },
+      { status: 500 }
+    )
+  }
+}
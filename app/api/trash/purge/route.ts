@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyApiAuth, createAuthErrorResponse } from '@/lib/auth'
+import { purgeExpiredTrash, getTrashRetentionDays } from '@/lib/trash'
+
+/**
+ * 清理回收站中超过保留期（TRASH_RETENTION_DAYS，默认30天）的项目
+ * POST /api/trash/purge
+ *
+ * - 携带 Authorization: Bearer <TRASH_PURGE_SECRET> 时清理所有用户（供定时任务调用）
+ * - 否则需要登录，仅清理当前用户：body { userId }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const purgeSecret = process.env.TRASH_PURGE_SECRET
+    const authorization = request.headers.get('authorization')
+    const isScheduledPurge = !!purgeSecret && authorization === `Bearer ${purgeSecret}`
+
+    let targetUserId: string | undefined
+    if (!isScheduledPurge) {
+      const body = await request.json().catch(() => ({}))
+      const { userId } = body
+
+      // 认证验证
+      const authResult = await verifyApiAuth(userId)
+      if (!authResult.success) {
+        return createAuthErrorResponse(authResult)
+      }
+      targetUserId = userId as string
+    }
+
+    const purged = await purgeExpiredTrash(targetUserId)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        purged,
+        retentionDays: getTrashRetentionDays()
+      }
+    })
+  } catch (error) {
+    console.error('❌ 回收站清理失败:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : '回收站清理失败'
+      },
+      { status: 500 }
+    )
+  }
+}
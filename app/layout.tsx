@@ -6,6 +6,8 @@ import { AuthProvider } from "@/components/auth-provider"
 import { SyncProvider } from "@/components/sync-provider"
 import { SettingsProvider } from "@/components/settings-provider"
 import { SilentDbInitializer } from "@/components/silent-db-initializer"
+import { ReminderNotifier } from "@/components/reminder-notifier"
+import { ShareTargetNotifier } from "@/components/share-target-notifier"
 import {
   Noto_Sans_SC,
   Noto_Serif_SC,
@@ -213,6 +215,8 @@ export default function RootLayout({
                 <SyncProvider>
                   <ThemeHandler />
                   <SilentDbInitializer />
+                  <ReminderNotifier />
+                  <ShareTargetNotifier />
                   {children}
                   <Toaster />
                 </SyncProvider>
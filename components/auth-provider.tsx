@@ -7,6 +7,8 @@ import { useToast } from "@/hooks/use-toast"
 import { getOrCreateUserAvatarConfig, getUserAvatarUrl, getUserAvatarConfigFromDB, cleanExpiredAvatarCache, type AvatarConfig } from "@/lib/avatar-utils"
 import { hasUserPassword, verifyUserPassword } from "@/app/actions/setting-actions"
 import { apiUrl } from "@/lib/api-utils"
+import { isOfflineDbSupported } from "@/lib/offline-db"
+import { clearOfflineCache } from "@/lib/offline-cache"
 
 // 认证状态枚举
 export enum AuthStatus {
@@ -504,6 +506,13 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     localStorage.removeItem("refreshToken")
     localStorage.removeItem("userData")
 
+    // 清除离线缓存的便签和链接，同一设备上的下一个用户无法读取
+    if (isOfflineDbSupported()) {
+      clearOfflineCache().catch((error) => {
+        console.error("[AuthProvider] 清除离线缓存失败:", error)
+      })
+    }
+
     // 原子化状态更新
     setUser(null)
     setAuthStatus(AuthStatus.UNAUTHENTICATED)
@@ -0,0 +1,206 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { ArchiveRestore, FileJson, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { useAuth } from "@/hooks/use-auth"
+import { useSync } from "@/hooks/use-sync"
+import { useSettings } from "@/hooks/use-settings"
+import { useMobile } from "@/hooks/use-mobile"
+import { useToast } from "@/hooks/use-toast"
+import { readBackupFile, restoreBackup } from "@/lib/backup-client"
+import type { RestoreMode, RestoreSummary } from "@/lib/backup"
+import { cn } from "@/lib/utils"
+
+interface BackupRestoreDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+const SUMMARY_ROWS: { key: "groups" | "notes" | "links" | "files"; label: string }[] = [
+  { key: "groups", label: "分组" },
+  { key: "notes", label: "便签" },
+  { key: "links", label: "链接" },
+  { key: "files", label: "文件" },
+]
+
+/**
+ * BackupRestoreDialog - 从 JSON 备份恢复
+ *
+ * 选择备份文件和恢复方式后先预览（服务器执行后回滚），确认统计无误再真正恢复
+ */
+export function BackupRestoreDialog({ open, onOpenChange }: BackupRestoreDialogProps) {
+  const { user } = useAuth()
+  const { sync } = useSync()
+  const { syncSettings } = useSettings()
+  const { toast } = useToast()
+  const isMobile = useMobile()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [fileName, setFileName] = useState("")
+  const [backup, setBackup] = useState<unknown>(null)
+  const [mode, setMode] = useState<RestoreMode>("merge")
+  const [preview, setPreview] = useState<RestoreSummary | null>(null)
+  const [isWorking, setIsWorking] = useState(false)
+
+  // 关闭时清空选择
+  useEffect(() => {
+    if (open) return
+    setFileName("")
+    setBackup(null)
+    setMode("merge")
+    setPreview(null)
+  }, [open])
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ""
+    if (!file) return
+
+    setPreview(null)
+    try {
+      setBackup(await readBackupFile(file))
+      setFileName(file.name)
+    } catch (error) {
+      setBackup(null)
+      setFileName("")
+      toast({ title: "读取失败", description: error instanceof Error ? error.message : String(error), variant: "destructive" })
+    }
+  }
+
+  const handleModeChange = (value: string) => {
+    setMode(value as RestoreMode)
+    setPreview(null)
+  }
+
+  const run = async (dryRun: boolean) => {
+    if (!user || !backup) return
+    setIsWorking(true)
+    try {
+      const summary = await restoreBackup(user.id, backup, { mode, dryRun })
+      if (dryRun) {
+        setPreview(summary)
+        return
+      }
+
+      await sync(true)
+      if (summary.settings) await syncSettings()
+      toast({
+        title: "已从备份恢复",
+        description: `新增 ${summary.notes.created} 条便签、${summary.links.created} 个链接、${summary.files.created} 个文件`,
+      })
+      onOpenChange(false)
+    } catch (error) {
+      console.error("恢复备份失败:", error)
+      toast({
+        title: dryRun ? "无法恢复该备份" : "恢复失败",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      })
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !isWorking && onOpenChange(value)}>
+      <DialogContent
+        className={cn(
+          "sm:max-w-[440px] mx-auto",
+          isMobile && "w-[calc(100%-2rem)] p-4 rounded-2xl",
+        )}
+      >
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ArchiveRestore className="h-4 w-4" />
+            从备份恢复
+          </DialogTitle>
+          <DialogDescription>选择“下载备份”得到的 JSON 文件，可以来自其他部署</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" disabled={isWorking} onClick={() => fileInputRef.current?.click()}>
+              <FileJson className="h-4 w-4 mr-2" />
+              选择备份文件
+            </Button>
+            <span className="text-xs text-muted-foreground truncate">{fileName || "未选择"}</span>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => void handleFileChange(e)}
+            />
+          </div>
+
+          <RadioGroup value={mode} onValueChange={handleModeChange} disabled={isWorking} className="gap-3">
+            <div className="flex items-start gap-2">
+              <RadioGroupItem value="merge" id="restore-mode-merge" className="mt-0.5" />
+              <Label htmlFor="restore-mode-merge" className="font-normal leading-snug">
+                合并
+                <span className="block text-xs text-muted-foreground">保留现有数据，已存在的便签、链接和文件会跳过</span>
+              </Label>
+            </div>
+            <div className="flex items-start gap-2">
+              <RadioGroupItem value="replace" id="restore-mode-replace" className="mt-0.5" />
+              <Label htmlFor="restore-mode-replace" className="font-normal leading-snug">
+                替换
+                <span className="block text-xs text-muted-foreground">现有便签、链接和文件移入回收站，分组全部删除</span>
+              </Label>
+            </div>
+          </RadioGroup>
+
+          {preview && (
+            <div className="rounded-md border p-3 text-xs space-y-1">
+              <p className="font-medium">恢复后将会：</p>
+              {preview.mode === "replace" && (
+                <p className="text-muted-foreground">
+                  移入回收站 {preview.removed.notes} 条便签、{preview.removed.links} 个链接、{preview.removed.files} 个文件，删除{" "}
+                  {preview.removed.groups} 个分组
+                </p>
+              )}
+              {SUMMARY_ROWS.map(({ key, label }) => (
+                <p key={key} className="text-muted-foreground">
+                  {label}：新增 {preview[key].created}
+                  {preview[key].skipped > 0 && `，${key === "groups" ? "合并" : "跳过"} ${preview[key].skipped}`}
+                </p>
+              ))}
+              {preview.settings && <p className="text-muted-foreground">恢复设置和头像</p>}
+              {preview.warnings.map((warning) => (
+                <p key={warning} className="text-amber-600 dark:text-amber-500">{warning}</p>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          {preview ? (
+            <Button
+              variant={mode === "replace" ? "destructive" : "default"}
+              disabled={isWorking}
+              onClick={() => void run(false)}
+            >
+              {isWorking && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              确认恢复
+            </Button>
+          ) : (
+            <Button disabled={isWorking || !backup} onClick={() => void run(true)}>
+              {isWorking && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              预览
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
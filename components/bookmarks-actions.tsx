@@ -0,0 +1,103 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { BookmarkPlus, Download, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { useAuth } from "@/hooks/use-auth"
+import { useSync } from "@/hooks/use-sync"
+import { useToast } from "@/hooks/use-toast"
+import { downloadBookmarks, importBookmarksFile } from "@/lib/bookmarks-client"
+
+/**
+ * BookmarksActions - 链接页的书签导入 / 导出按钮
+ *
+ * 导入浏览器导出的书签 HTML 文件（文件夹对应分组，已保存的网址跳过），导出为同样格式的文件
+ */
+export function BookmarksActions() {
+  const { user } = useAuth()
+  const { sync } = useSync()
+  const { toast } = useToast()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [isImporting, setIsImporting] = useState(false)
+  const [isExporting, setIsExporting] = useState(false)
+
+  const handleImport = async (file: File) => {
+    if (!user) return
+    setIsImporting(true)
+    try {
+      const summary = await importBookmarksFile(user.id, file)
+      await sync(true)
+      const details = [
+        summary.duplicates > 0 && `跳过 ${summary.duplicates} 个已保存的网址`,
+        summary.invalid > 0 && `忽略 ${summary.invalid} 个无效书签`,
+        summary.groups > 0 && `新建 ${summary.groups} 个分组`,
+      ].filter(Boolean)
+      toast({
+        title: `已导入 ${summary.created} 个链接`,
+        description: details.length > 0 ? details.join("，") : undefined,
+      })
+    } catch (error) {
+      console.error("导入书签失败:", error)
+      toast({
+        title: "导入书签失败",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      })
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  const handleExport = async () => {
+    if (!user) return
+    setIsExporting(true)
+    try {
+      await downloadBookmarks(user.id)
+    } catch (error) {
+      console.error("导出书签失败:", error)
+      toast({
+        title: "导出书签失败",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      })
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-2 mb-4">
+      <Button
+        variant="outline"
+        size="sm"
+        className="flex-1 h-8 text-xs"
+        disabled={isImporting}
+        onClick={() => fileInputRef.current?.click()}
+      >
+        {isImporting ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <BookmarkPlus className="h-3 w-3 mr-1" />}
+        <span className="font-apply-target">导入书签</span>
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        className="flex-1 h-8 text-xs"
+        disabled={isExporting}
+        onClick={() => void handleExport()}
+      >
+        {isExporting ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Download className="h-3 w-3 mr-1" />}
+        <span className="font-apply-target">导出书签</span>
+      </Button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".html,.htm,text/html"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0]
+          e.target.value = ""
+          if (file) void handleImport(file)
+        }}
+      />
+    </div>
+  )
+}
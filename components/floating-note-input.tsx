@@ -1,15 +1,23 @@
 "use client"
 
-import { useEffect } from "react"
-import { SimpleTextEditor } from "@/components/simple-text-editor"
+import { useCallback, useEffect } from "react"
+import { SimpleTextEditor, type LinkTargetSuggestion } from "@/components/simple-text-editor"
+import { MarkdownContent } from "@/components/markdown-content"
+import { toggleChecklistLine } from "@/lib/checklists"
 import { useSettings } from "@/hooks/use-settings"
+import { useAuth } from "@/hooks/use-auth"
+import { useSync } from "@/hooks/use-sync"
+import { useToast } from "@/hooks/use-toast"
+import { searchNoteTitles } from "@/app/actions/db-actions"
 import { useNoteEditorState } from "@/components/note-editor/NoteEditorState"
 import { AutoSaveManager } from "@/components/note-editor/AutoSaveManager"
 import { NoteEditorToolbar } from "@/components/note-editor/NoteEditorToolbar"
 import { MobileNoteToolbar } from "@/components/note-editor/MobileNoteToolbar"
 import { NoteEditorLayout } from "@/components/note-editor/NoteEditorLayout"
 import { UploadDialogs } from "@/components/note-editor/UploadDialogs"
+import { NoteConflictDialog } from "@/components/note-conflict-dialog"
 import { useMobile } from "@/hooks/use-mobile"
+import type { EditorView } from "@/components/settings-provider"
 
 /**
  * FloatingNoteInput - 浮动笔记输入组件
@@ -18,6 +26,7 @@ import { useMobile } from "@/hooks/use-mobile"
  * - 协调各个子组件的工作
  * - 管理编辑器的整体状态和生命周期
  * - 提供统一的笔记编辑体验
+ * - 按设置显示编辑器、Markdown 分屏预览或仅预览
  */
 export function FloatingNoteInput() {
   // 使用自定义Hook管理状态
@@ -30,6 +39,7 @@ export function FloatingNoteInput() {
     uploadType,
     isErrorDialogOpen,
     editingNoteId,
+    noteConflict,
     lastEditRef,
     lastContentRef,
     autoSaveTimerRef,
@@ -41,12 +51,60 @@ export function FloatingNoteInput() {
     setIsErrorDialogOpen,
     loadDraft,
     handleSaveNote,
+    handleResolveConflict,
     handleUploadSuccess,
     openUploadDialog,
   } = useNoteEditorState()
 
-  const { settings, applyFontSettings } = useSettings()
+  const { settings, updateSettings, applyFontSettings } = useSettings()
   const isMobile = useMobile()
+  const { user } = useAuth()
+  const { resolveNoteLink } = useSync()
+  const { toast } = useToast()
+
+  // [[ 链接自动补全：按标题搜索已有便签（排除正在编辑的便签）
+  const handleSearchLinkTargets = useCallback(async (query: string): Promise<LinkTargetSuggestion[]> => {
+    if (!user) return []
+    const matches = await searchNoteTitles(user.id, query)
+    return matches.filter((match) => String(match.id) !== editingNoteId)
+  }, [user, editingNoteId])
+
+  const handleEditorViewChange = useCallback((view: EditorView) => {
+    updateSettings({ editorView: view })
+  }, [updateSettings])
+
+  // 预览中点击 [[标题]] 链接，在编辑器中打开对应便签
+  const handleOpenNoteLink = useCallback(async (title: string) => {
+    const target = await resolveNoteLink(editingNoteId ?? "", title)
+    if (target) {
+      window.dispatchEvent(new CustomEvent("pwa-note:edit-note", { detail: target }))
+    } else {
+      toast({ title: `未找到便签“${title}”`, duration: 2000 })
+    }
+  }, [resolveNoteLink, editingNoteId, toast])
+
+  const textEditor = (
+    <SimpleTextEditor
+      value={content}
+      onChange={setContent}
+      onSave={handleSaveNote}
+      placeholder="点击此处开始输入"
+      onSearchLinkTargets={handleSearchLinkTargets}
+    />
+  )
+
+  const preview = (
+    <MarkdownContent
+      content={content}
+      className="p-4 min-h-[200px] font-apply-target"
+      onOpenNoteLink={(title) => void handleOpenNoteLink(title)}
+      // 预览中勾选待办只修改编辑器内容，随便签一起保存
+      onToggleChecklistItem={(line) => setContent(toggleChecklistLine(content, line))}
+    />
+  )
+
+  // 移动端不提供分屏，已保存的分屏设置按编辑显示
+  const editorView: EditorView = isMobile && settings.editorView === "split" ? "edit" : settings.editorView
 
   // 加载草稿内容
   useEffect(() => {
@@ -79,6 +137,7 @@ export function FloatingNoteInput() {
 
       {/* 主要布局 */}
       <NoteEditorLayout
+        className={editorView === "split" ? "max-w-6xl" : undefined}
         toolbar={
           isMobile ? (
             <MobileNoteToolbar
@@ -86,6 +145,8 @@ export function FloatingNoteInput() {
               onSave={handleSaveNote}
               onUploadImage={() => openUploadDialog("image")}
               onUploadFile={() => openUploadDialog("file")}
+              editorView={editorView}
+              onEditorViewChange={handleEditorViewChange}
             />
           ) : (
             <NoteEditorToolbar
@@ -94,16 +155,24 @@ export function FloatingNoteInput() {
               onUploadImage={() => openUploadDialog("image")}
               onUploadFile={() => openUploadDialog("file")}
               lastAutoSaveTime={lastAutoSaveTime}
+              editorView={editorView}
+              onEditorViewChange={handleEditorViewChange}
             />
           )
         }
         editor={
-          <SimpleTextEditor
-            value={content}
-            onChange={setContent}
-            onSave={handleSaveNote}
-            placeholder="点击此处开始输入"
-          />
+          editorView === "preview" ? (
+            content.trim() ? preview : (
+              <div className="p-4 text-muted-foreground font-apply-target">没有可预览的内容</div>
+            )
+          ) : editorView === "split" ? (
+            <div className="grid grid-cols-2 gap-4 items-start">
+              {textEditor}
+              <div className="border-l min-w-0">{preview}</div>
+            </div>
+          ) : (
+            textEditor
+          )
         }
       />
 
@@ -117,6 +186,9 @@ export function FloatingNoteInput() {
         onUploadSuccess={handleUploadSuccess}
         onErrorDialogClose={() => setIsErrorDialogOpen(false)}
       />
+
+      {/* 编辑冲突对话框（编辑器和列表内编辑的冲突都在此处理） */}
+      <NoteConflictDialog conflict={noteConflict} onResolve={handleResolveConflict} />
     </>
   )
 }
@@ -0,0 +1,449 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import type { DragEvent } from "react"
+import { ChevronRight, Folder, FolderOpen, FolderPlus, Inbox, MoreHorizontal, Pencil, Star, StickyNote, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { useToast } from "@/hooks/use-toast"
+import { cn } from "@/lib/utils"
+import {
+  buildGroupTree,
+  getGroupSubtreeIds,
+  GROUP_DRAG_TYPE,
+  NOTE_DRAG_TYPE,
+  type GroupTreeItem,
+  type GroupTreeNode,
+} from "@/lib/group-tree"
+
+type DropPosition = "before" | "inside" | "after"
+
+interface GroupTreeSidebarProps {
+  groups: GroupTreeItem[]
+  selectedGroupId: string
+  onSelectGroup: (groupId: string) => void
+  onCreateGroup: (name: string, parentId: string | null) => Promise<GroupTreeItem | null>
+  onRenameGroup: (id: string, name: string) => Promise<boolean>
+  onDeleteGroup: (id: string) => Promise<boolean>
+  onMoveGroup: (id: string, parentId: string | null, index: number) => Promise<boolean>
+  onMoveNoteToGroup: (noteId: string, groupId: string) => Promise<boolean>
+  className?: string
+}
+
+// 按鼠标在行内的位置决定放到目标之前、之后还是作为子分组
+function getDropPosition(e: DragEvent<HTMLElement>): DropPosition {
+  const rect = e.currentTarget.getBoundingClientRect()
+  const offset = (e.clientY - rect.top) / rect.height
+  if (offset < 0.25) return "before"
+  if (offset > 0.75) return "after"
+  return "inside"
+}
+
+/**
+ * GroupTreeSidebar - 分组树
+ *
+ * 以树形显示嵌套分组，点击筛选便签；拖动分组调整层级和顺序，把便签拖到分组上移动便签。
+ * 分组菜单支持新建子分组、重命名和删除（子分组移到上一级）
+ */
+export function GroupTreeSidebar({
+  groups,
+  selectedGroupId,
+  onSelectGroup,
+  onCreateGroup,
+  onRenameGroup,
+  onDeleteGroup,
+  onMoveGroup,
+  onMoveNoteToGroup,
+  className,
+}: GroupTreeSidebarProps) {
+  const { toast } = useToast()
+  const tree = useMemo(() => buildGroupTree(groups), [groups])
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set())
+  const [draggingGroupId, setDraggingGroupId] = useState<string | null>(null)
+  const [dropTarget, setDropTarget] = useState<{ id: string; position: DropPosition } | null>(null)
+  const [creatingParentId, setCreatingParentId] = useState<string | null | undefined>(undefined)
+  const [createName, setCreateName] = useState("")
+  const [renamingGroup, setRenamingGroup] = useState<GroupTreeItem | null>(null)
+  const [renameValue, setRenameValue] = useState("")
+  const [deletingGroup, setDeletingGroup] = useState<GroupTreeItem | null>(null)
+
+  // 正在拖动的分组不能放到自身或其子分组中
+  const blockedIds = useMemo(
+    () => (draggingGroupId ? getGroupSubtreeIds(groups, draggingGroupId) : new Set<string>()),
+    [groups, draggingGroupId],
+  )
+
+  const toggleCollapsed = (id: string) => {
+    setCollapsedIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
+  const findSiblings = (parentId: string | null): GroupTreeNode<GroupTreeItem>[] => {
+    if (parentId === null) return tree
+    const search = (nodes: GroupTreeNode<GroupTreeItem>[]): GroupTreeNode<GroupTreeItem>[] | null => {
+      for (const node of nodes) {
+        if (node.id === parentId) return node.children
+        const found = search(node.children)
+        if (found) return found
+      }
+      return null
+    }
+    return search(tree) ?? []
+  }
+
+  const moveGroupTo = async (groupId: string, parentId: string | null, index: number) => {
+    const moved = await onMoveGroup(groupId, parentId, index)
+    if (!moved) {
+      toast({ title: "移动分组失败", description: "请稍后再试", variant: "destructive" })
+    }
+  }
+
+  const moveNoteTo = async (noteId: string, groupId: string) => {
+    const moved = await onMoveNoteToGroup(noteId, groupId)
+    if (!moved) {
+      toast({ title: "移动便签失败", description: "请确认网络连接后再试", variant: "destructive" })
+    }
+  }
+
+  const handleNodeDragOver = (e: DragEvent<HTMLElement>, node: GroupTreeNode<GroupTreeItem>) => {
+    const types = e.dataTransfer.types
+    if (types.includes(NOTE_DRAG_TYPE)) {
+      e.preventDefault()
+      e.dataTransfer.dropEffect = "move"
+      setDropTarget({ id: node.id, position: "inside" })
+    } else if (types.includes(GROUP_DRAG_TYPE) && draggingGroupId) {
+      const position = getDropPosition(e)
+      // 放到目标之前或之后时新的上级是目标的上级，作为子分组时是目标本身
+      const newParentId = position === "inside" ? node.id : node.parent_id
+      if (blockedIds.has(node.id) || (newParentId !== null && blockedIds.has(newParentId))) {
+        e.dataTransfer.dropEffect = "none"
+        setDropTarget(null)
+        return
+      }
+      e.preventDefault()
+      e.dataTransfer.dropEffect = "move"
+      setDropTarget({ id: node.id, position })
+    }
+  }
+
+  const handleNodeDrop = (e: DragEvent<HTMLElement>, node: GroupTreeNode<GroupTreeItem>) => {
+    e.preventDefault()
+    const target = dropTarget
+    setDropTarget(null)
+
+    const noteId = e.dataTransfer.getData(NOTE_DRAG_TYPE)
+    if (noteId) {
+      void moveNoteTo(noteId, node.id)
+      return
+    }
+
+    const groupId = e.dataTransfer.getData(GROUP_DRAG_TYPE)
+    if (!groupId || !target || target.id !== node.id) return
+
+    if (target.position === "inside") {
+      const children = node.children.filter((child) => child.id !== groupId)
+      setCollapsedIds((prev) => {
+        const next = new Set(prev)
+        next.delete(node.id)
+        return next
+      })
+      void moveGroupTo(groupId, node.id, children.length)
+      return
+    }
+
+    const siblings = findSiblings(node.parent_id).filter((sibling) => sibling.id !== groupId)
+    const targetIndex = siblings.findIndex((sibling) => sibling.id === node.id)
+    void moveGroupTo(groupId, node.parent_id, target.position === "before" ? targetIndex : targetIndex + 1)
+  }
+
+  // “全部便签”接收分组时移到顶层末尾；“未分组”同时接收便签
+  const handleRootDragOver = (e: DragEvent<HTMLElement>, acceptsNotes: boolean) => {
+    const types = e.dataTransfer.types
+    if ((acceptsNotes && types.includes(NOTE_DRAG_TYPE)) || (types.includes(GROUP_DRAG_TYPE) && draggingGroupId)) {
+      e.preventDefault()
+      e.dataTransfer.dropEffect = "move"
+    }
+  }
+
+  const handleRootDrop = (e: DragEvent<HTMLElement>, acceptsNotes: boolean) => {
+    e.preventDefault()
+    setDropTarget(null)
+    const noteId = e.dataTransfer.getData(NOTE_DRAG_TYPE)
+    if (noteId) {
+      if (acceptsNotes) void moveNoteTo(noteId, "ungrouped")
+      return
+    }
+    const groupId = e.dataTransfer.getData(GROUP_DRAG_TYPE)
+    if (groupId) {
+      void moveGroupTo(groupId, null, tree.filter((node) => node.id !== groupId).length)
+    }
+  }
+
+  const handleCreate = async () => {
+    if (creatingParentId === undefined || !createName.trim()) return
+    const created = await onCreateGroup(createName, creatingParentId)
+    if (created) {
+      if (creatingParentId !== null) {
+        setCollapsedIds((prev) => {
+          const next = new Set(prev)
+          next.delete(creatingParentId)
+          return next
+        })
+      }
+      setCreatingParentId(undefined)
+      setCreateName("")
+    } else {
+      toast({ title: "创建分组失败", description: "请稍后再试", variant: "destructive" })
+    }
+  }
+
+  const handleRename = async () => {
+    if (!renamingGroup || !renameValue.trim()) return
+    const renamed = await onRenameGroup(renamingGroup.id, renameValue)
+    if (renamed) {
+      setRenamingGroup(null)
+    } else {
+      toast({ title: "重命名失败", description: "请稍后再试", variant: "destructive" })
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!deletingGroup) return
+    const deleted = await onDeleteGroup(deletingGroup.id)
+    setDeletingGroup(null)
+    if (!deleted) {
+      toast({ title: "删除失败", description: "请稍后再试", variant: "destructive" })
+    }
+  }
+
+  const rowClassName = (active: boolean) => cn(
+    "group relative flex w-full items-center gap-1.5 rounded-md px-2 py-1.5 text-left text-sm transition-colors",
+    active ? "bg-accent text-accent-foreground" : "text-muted-foreground hover:bg-accent/50 hover:text-foreground",
+  )
+
+  const renderNode = (node: GroupTreeNode<GroupTreeItem>) => {
+    const isCollapsed = collapsedIds.has(node.id)
+    const hasChildren = node.children.length > 0
+    const isDropTarget = dropTarget?.id === node.id
+
+    return (
+      <div key={node.id}>
+        <div
+          className={cn(
+            rowClassName(selectedGroupId === node.id),
+            draggingGroupId === node.id && "opacity-50",
+            isDropTarget && dropTarget.position === "inside" && "ring-1 ring-primary",
+          )}
+          style={{ paddingLeft: `${node.depth * 12 + 4}px` }}
+          draggable
+          onDragStart={(e) => {
+            e.dataTransfer.setData(GROUP_DRAG_TYPE, node.id)
+            e.dataTransfer.effectAllowed = "move"
+            setDraggingGroupId(node.id)
+          }}
+          onDragEnd={() => {
+            setDraggingGroupId(null)
+            setDropTarget(null)
+          }}
+          onDragOver={(e) => handleNodeDragOver(e, node)}
+          onDragLeave={() => setDropTarget((prev) => (prev?.id === node.id ? null : prev))}
+          onDrop={(e) => handleNodeDrop(e, node)}
+        >
+          {isDropTarget && dropTarget.position === "before" && (
+            <span className="pointer-events-none absolute inset-x-1 top-0 h-0.5 rounded bg-primary" />
+          )}
+          {isDropTarget && dropTarget.position === "after" && (
+            <span className="pointer-events-none absolute inset-x-1 bottom-0 h-0.5 rounded bg-primary" />
+          )}
+          <button
+            type="button"
+            className={cn("h-4 w-4 shrink-0 rounded-sm", !hasChildren && "invisible")}
+            onClick={() => toggleCollapsed(node.id)}
+            aria-label={isCollapsed ? "展开" : "折叠"}
+          >
+            <ChevronRight className={cn("h-3 w-3 transition-transform", !isCollapsed && "rotate-90")} />
+          </button>
+          <button
+            type="button"
+            className="flex min-w-0 flex-1 items-center gap-1.5"
+            onClick={() => onSelectGroup(node.id)}
+            title={node.name}
+          >
+            {selectedGroupId === node.id
+              ? <FolderOpen className="h-3.5 w-3.5 shrink-0 opacity-70" />
+              : <Folder className="h-3.5 w-3.5 shrink-0 opacity-70" />}
+            <span className="flex-1 truncate">{node.name}</span>
+          </button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-5 w-5 opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100"
+                aria-label="分组操作"
+              >
+                <MoreHorizontal className="h-3 w-3" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem
+                onSelect={() => {
+                  setCreatingParentId(node.id)
+                  setCreateName("")
+                }}
+              >
+                <FolderPlus className="mr-2 h-4 w-4" />
+                新建子分组
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onSelect={() => {
+                  setRenamingGroup(node)
+                  setRenameValue(node.name)
+                }}
+              >
+                <Pencil className="mr-2 h-4 w-4" />
+                重命名
+              </DropdownMenuItem>
+              <DropdownMenuItem className="text-destructive" onSelect={() => setDeletingGroup(node)}>
+                <Trash2 className="mr-2 h-4 w-4" />
+                删除
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+        {hasChildren && !isCollapsed && node.children.map(renderNode)}
+      </div>
+    )
+  }
+
+  return (
+    <div className={cn("flex flex-col gap-0.5 overflow-y-auto", className)}>
+      <button
+        type="button"
+        className={rowClassName(selectedGroupId === "all")}
+        onClick={() => onSelectGroup("all")}
+        onDragOver={(e) => handleRootDragOver(e, false)}
+        onDrop={(e) => handleRootDrop(e, false)}
+      >
+        <StickyNote className="h-3.5 w-3.5 shrink-0 opacity-70" />
+        <span className="flex-1 truncate">全部便签</span>
+      </button>
+      <button
+        type="button"
+        className={rowClassName(selectedGroupId === "ungrouped")}
+        onClick={() => onSelectGroup("ungrouped")}
+        onDragOver={(e) => handleRootDragOver(e, true)}
+        onDrop={(e) => handleRootDrop(e, true)}
+      >
+        <Inbox className="h-3.5 w-3.5 shrink-0 opacity-70" />
+        <span className="flex-1 truncate">未分组</span>
+      </button>
+      <button
+        type="button"
+        className={rowClassName(selectedGroupId === "starred")}
+        onClick={() => onSelectGroup("starred")}
+      >
+        <Star className="h-3.5 w-3.5 shrink-0 opacity-70" />
+        <span className="flex-1 truncate">已收藏</span>
+      </button>
+
+      <div className="my-1 border-t" />
+
+      {tree.map(renderNode)}
+
+      <button
+        type="button"
+        className={cn(rowClassName(false), "text-xs")}
+        onClick={() => {
+          setCreatingParentId(null)
+          setCreateName("")
+        }}
+      >
+        <FolderPlus className="h-3.5 w-3.5 shrink-0 opacity-70" />
+        <span className="flex-1 truncate">新建分组</span>
+      </button>
+
+      <Dialog open={creatingParentId !== undefined} onOpenChange={(open) => !open && setCreatingParentId(undefined)}>
+        <DialogContent className="sm:max-w-[380px]">
+          <DialogHeader>
+            <DialogTitle>{creatingParentId ? "新建子分组" : "新建分组"}</DialogTitle>
+          </DialogHeader>
+          <Input
+            value={createName}
+            onChange={(e) => setCreateName(e.target.value)}
+            placeholder="分组名称"
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault()
+                handleCreate()
+              }
+            }}
+          />
+          <DialogFooter>
+            <Button onClick={handleCreate} disabled={!createName.trim()}>
+              创建
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={renamingGroup !== null} onOpenChange={(open) => !open && setRenamingGroup(null)}>
+        <DialogContent className="sm:max-w-[380px]">
+          <DialogHeader>
+            <DialogTitle>重命名分组</DialogTitle>
+          </DialogHeader>
+          <Input
+            value={renameValue}
+            onChange={(e) => setRenameValue(e.target.value)}
+            placeholder="分组名称"
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault()
+                handleRename()
+              }
+            }}
+          />
+          <DialogFooter>
+            <Button onClick={handleRename} disabled={!renameValue.trim()}>
+              保存
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deletingGroup !== null} onOpenChange={(open) => !open && setDeletingGroup(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>删除分组“{deletingGroup?.name}”？</AlertDialogTitle>
+            <AlertDialogDescription>
+              分组中的便签会变为未分组，子分组会移到上一级。
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>取消</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>删除</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
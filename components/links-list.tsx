@@ -1,6 +1,6 @@
 "use client"
 
-import { useState } from "react"
+import { useMemo } from "react"
 import { Card, CardContent } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { useSync } from "@/hooks/use-sync"
@@ -13,9 +13,12 @@ interface LinksListProps {
 }
 
 export function LinksList({ onAddClick }: LinksListProps) {
-  const { links, deleteLink } = useSync()
+  const { links, groups, deleteLink } = useSync()
   const { getRelativeTime } = useTime()
 
+  // 导入书签时按文件夹设置的分组名称
+  const groupNames = useMemo(() => new Map(groups.map((group) => [group.id, group.name])), [groups])
+
   const handleDeleteClick = (id: string) => {
     deleteLink(id)
   }
@@ -50,6 +53,7 @@ export function LinksList({ onAddClick }: LinksListProps) {
                     <div className="text-xs text-muted-foreground truncate mt-1 font-apply-target">{link.url}</div>
                     <div className="text-xs text-muted-foreground mt-1 font-apply-target">
                       {getRelativeTime(link.created_at)}
+                      {link.group_id != null && groupNames.has(String(link.group_id)) && ` · ${groupNames.get(String(link.group_id))}`}
                     </div>
                   </div>
 
@@ -0,0 +1,151 @@
+"use client"
+
+import { memo, useMemo } from "react"
+import ReactMarkdown, { type Components, type Options } from "react-markdown"
+import remarkGfm from "remark-gfm"
+import rehypeSanitize from "rehype-sanitize"
+import rehypeHighlight from "rehype-highlight"
+import { cn } from "@/lib/utils"
+import { splitWikiLinks } from "@/lib/wiki-links"
+
+// [[标题]] 链接在 Markdown 中转换为带此前缀的锚点，渲染时再还原为便签链接
+const NOTE_LINK_HREF_PREFIX = "#note-link/"
+
+// Markdown 语法树节点（只用到的字段）
+interface MarkdownNode {
+  type: string
+  value?: string
+  url?: string
+  children?: MarkdownNode[]
+}
+
+// 把文本节点中的 [[标题]] 转换为链接节点；代码和已有链接中的内容保持原样
+function transformWikiLinks(node: MarkdownNode) {
+  if (!node.children) return
+
+  node.children = node.children.flatMap((child): MarkdownNode[] => {
+    if (child.type === "text" && child.value) {
+      return splitWikiLinks(child.value).map((segment) =>
+        segment.type === "link"
+          ? {
+              type: "link",
+              url: NOTE_LINK_HREF_PREFIX + encodeURIComponent(segment.title),
+              children: [{ type: "text", value: segment.text }],
+            }
+          : { type: "text", value: segment.text },
+      )
+    }
+    if (child.type !== "link" && child.type !== "linkReference") {
+      transformWikiLinks(child)
+    }
+    return [child]
+  })
+}
+
+function remarkWikiLinks() {
+  return (tree: MarkdownNode) => transformWikiLinks(tree)
+}
+
+// HTML 语法树节点（只用到的字段）
+interface HtmlNode {
+  type: string
+  tagName?: string
+  properties?: Record<string, unknown>
+  position?: { start: { line: number } }
+  children?: HtmlNode[]
+}
+
+// 给任务列表的复选框记录所在行号，点击时按行切换源文本中的 [ ] / [x]
+function markChecklistLines(node: HtmlNode) {
+  for (const child of node.children ?? []) {
+    if (child.tagName === "li" && child.position) {
+      const checkbox = child.children?.find((item) => item.tagName === "input" && item.properties?.type === "checkbox")
+      if (checkbox?.properties) checkbox.properties.dataLine = child.position.start.line
+    }
+    markChecklistLines(child)
+  }
+}
+
+function rehypeChecklistLines() {
+  return (tree: HtmlNode) => markChecklistLines(tree)
+}
+
+const remarkPlugins: Options["remarkPlugins"] = [remarkGfm, remarkWikiLinks]
+// 先清理不安全的 HTML，再添加代码高亮的类名和待办行号
+const rehypePlugins: Options["rehypePlugins"] = [rehypeSanitize, [rehypeHighlight, { detect: false }], rehypeChecklistLines]
+
+interface MarkdownContentProps {
+  content: string
+  className?: string
+  onOpenNoteLink?: (title: string) => void
+  onToggleChecklistItem?: (line: number) => void // 提供时任务列表的复选框可以点击
+}
+
+/**
+ * MarkdownContent - Markdown 渲染组件
+ *
+ * 支持 GFM（表格、任务列表、删除线、自动链接）和代码块语法高亮，
+ * 原始 HTML 经过清理后才渲染；[[标题]] 渲染为便签链接
+ */
+export const MarkdownContent = memo(function MarkdownContent({
+  content,
+  className,
+  onOpenNoteLink,
+  onToggleChecklistItem
+}: MarkdownContentProps) {
+  const components = useMemo<Components>(() => ({
+    a: ({ href, children }) => {
+      if (href?.startsWith(NOTE_LINK_HREF_PREFIX)) {
+        const title = decodeURIComponent(href.slice(NOTE_LINK_HREF_PREFIX.length))
+        if (!onOpenNoteLink) return <span>{children}</span>
+        return (
+          <button
+            type="button"
+            className="text-primary underline-offset-2 hover:underline"
+            onClick={(e) => {
+              e.stopPropagation()
+              onOpenNoteLink(title)
+            }}
+            onDoubleClick={(e) => e.stopPropagation()}
+          >
+            {children}
+          </button>
+        )
+      }
+      return (
+        <a href={href} target="_blank" rel="noopener noreferrer" onClick={(e) => e.stopPropagation()}>
+          {children}
+        </a>
+      )
+    },
+    input: ({ node, type, checked }) => {
+      const line = Number(node?.properties?.dataLine)
+      if (type !== "checkbox") return null
+      return (
+        <input
+          type="checkbox"
+          checked={Boolean(checked)}
+          disabled={!onToggleChecklistItem || !line}
+          className="cursor-pointer disabled:cursor-default"
+          onClick={(e) => e.stopPropagation()}
+          onDoubleClick={(e) => e.stopPropagation()}
+          onChange={() => {
+            if (line) onToggleChecklistItem?.(line)
+          }}
+        />
+      )
+    },
+  }), [onOpenNoteLink, onToggleChecklistItem])
+
+  return (
+    <div className={cn("markdown-body", className)}>
+      <ReactMarkdown
+        remarkPlugins={remarkPlugins}
+        rehypePlugins={rehypePlugins}
+        components={components}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  )
+})
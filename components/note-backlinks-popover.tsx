@@ -0,0 +1,129 @@
+"use client"
+
+import { useState } from "react"
+import { FileText, Link2, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { useAuth } from "@/hooks/use-auth"
+import { useToast } from "@/hooks/use-toast"
+import { useTime } from "@/hooks/use-time"
+import { getNote, getNoteBacklinks, type NoteBacklink } from "@/app/actions/db-actions"
+import { isTempId } from "@/lib/offline-queue"
+
+interface NoteBacklinksPopoverProps {
+  noteId: string
+}
+
+/**
+ * NoteBacklinksPopover - 便签反向链接列表
+ *
+ * 打开时加载正文中用 [[标题]] 链接到该便签的其他便签，点击条目在编辑器中打开
+ */
+export function NoteBacklinksPopover({ noteId }: NoteBacklinksPopoverProps) {
+  const { user } = useAuth()
+  const { toast } = useToast()
+  const { getRelativeTime } = useTime()
+  const [open, setOpen] = useState(false)
+  const [backlinks, setBacklinks] = useState<NoteBacklink[] | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const loadBacklinks = async () => {
+    if (!user || isTempId(noteId)) {
+      setBacklinks([])
+      return
+    }
+
+    setIsLoading(true)
+    try {
+      setBacklinks(await getNoteBacklinks(Number(noteId), user.id))
+    } catch (error) {
+      console.error("加载反向链接失败:", error)
+      setBacklinks(null)
+      toast({
+        title: "加载失败",
+        description: "网络错误，请稍后再试",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const openBacklink = async (backlink: NoteBacklink) => {
+    if (!user) return
+    try {
+      const note = await getNote(backlink.id, user.id)
+      if (!note) {
+        toast({
+          title: "便签不存在",
+          description: "该便签可能已被删除",
+          variant: "destructive",
+        })
+        return
+      }
+      setOpen(false)
+      window.dispatchEvent(new CustomEvent("pwa-note:edit-note", { detail: { ...note, id: String(note.id) } }))
+    } catch (error) {
+      console.error("打开便签失败:", error)
+      toast({
+        title: "打开失败",
+        description: "网络错误，请稍后再试",
+        variant: "destructive",
+      })
+    }
+  }
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next)
+        if (next) void loadBacklinks()
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 text-muted-foreground hover:text-primary"
+          aria-label="反向链接"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <Link2 className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 p-1">
+        <div className="px-2 py-1.5 text-xs font-medium text-muted-foreground">链接到此便签</div>
+        {isLoading && !backlinks ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : backlinks && backlinks.length > 0 ? (
+          <div className="max-h-64 overflow-y-auto">
+            {backlinks.map((backlink) => (
+              <button
+                key={backlink.id}
+                type="button"
+                className="flex w-full items-start gap-2 rounded-sm px-2 py-1.5 text-left hover:bg-accent"
+                onClick={() => void openBacklink(backlink)}
+              >
+                <FileText className="mt-0.5 h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                <div className="min-w-0 flex-1">
+                  <div className="truncate text-sm">{backlink.title || "无标题"}</div>
+                  {backlink.snippet && (
+                    <div className="line-clamp-2 text-xs text-muted-foreground">{backlink.snippet}</div>
+                  )}
+                  <div className="text-xs text-muted-foreground">{getRelativeTime(backlink.updated_at)}</div>
+                </div>
+              </button>
+            ))}
+          </div>
+        ) : (
+          <div className="px-2 py-4 text-center text-sm text-muted-foreground">
+            {backlinks ? "没有便签链接到这里" : "加载失败"}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,156 @@
+"use client"
+
+import { useState, useEffect, useMemo, useCallback } from "react"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { AlertTriangle, Loader2 } from "lucide-react"
+import { useTime } from "@/hooks/use-time"
+import { useMobile } from "@/hooks/use-mobile"
+import { cn } from "@/lib/utils"
+import { mergeText, hasMergeMarkers } from "@/lib/text-merge"
+import { htmlToText, isActualHtml } from "@/components/note-editor/NoteEditorState"
+
+interface ConflictNote {
+  noteId: string
+  base: { content: string }
+  mine: { content: string }
+  server: { content: string; title?: string; updated_at: Date }
+}
+
+interface NoteConflictDialogProps {
+  conflict: ConflictNote | null
+  // content 为 null 表示放弃本机修改、保留服务器版本
+  onResolve: (content: string | null) => Promise<unknown>
+}
+
+type ConflictView = "merge" | "mine" | "server"
+
+const toPlainText = (content: string) => (isActualHtml(content) ? htmlToText(content) : content)
+
+/**
+ * NoteConflictDialog - 便签编辑冲突面板
+ *
+ * 保存时便签已在其他设备被修改：可保留本机版本、保留服务器版本，
+ * 或以编辑开始时的内容为共同祖先做三方合并，手动处理剩余冲突后保存
+ */
+export function NoteConflictDialog({ conflict, onResolve }: NoteConflictDialogProps) {
+  const { getRelativeTime } = useTime()
+  const isMobile = useMobile()
+
+  const [view, setView] = useState<ConflictView>("merge")
+  const [mergedContent, setMergedContent] = useState("")
+  const [isResolving, setIsResolving] = useState(false)
+
+  const mine = conflict ? toPlainText(conflict.mine.content) : ""
+  const server = conflict ? toPlainText(conflict.server.content) : ""
+
+  const mergeResult = useMemo(() => {
+    if (!conflict) return null
+    return mergeText(toPlainText(conflict.base.content), mine, server)
+  }, [conflict, mine, server])
+
+  // 每次出现新的冲突时重置为自动合并结果
+  useEffect(() => {
+    if (!mergeResult) return
+    setMergedContent(mergeResult.merged)
+    setView("merge")
+  }, [mergeResult])
+
+  const hasMarkers = useMemo(() => hasMergeMarkers(mergedContent), [mergedContent])
+
+  const resolve = useCallback(async (content: string | null) => {
+    setIsResolving(true)
+    try {
+      await onResolve(content)
+    } finally {
+      setIsResolving(false)
+    }
+  }, [onResolve])
+
+  const textBlockClassName = cn(
+    "overflow-auto rounded-md border bg-muted/30 p-2 font-mono text-xs whitespace-pre-wrap break-words",
+    isMobile ? "h-[240px]" : "h-[320px]",
+  )
+
+  return (
+    // 冲突必须明确选择处理方式，不允许点击遮罩关闭
+    <Dialog open={!!conflict}>
+      <DialogContent
+        className={cn(
+          "sm:max-w-[760px] mx-auto [&>button]:hidden",
+          isMobile && "w-[calc(100%-2rem)] p-4 rounded-2xl",
+        )}
+        onEscapeKeyDown={(e) => e.preventDefault()}
+        onPointerDownOutside={(e) => e.preventDefault()}
+      >
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-4 w-4 text-amber-500" />
+            编辑冲突
+          </DialogTitle>
+          <DialogDescription>
+            {conflict
+              ? `该便签在你编辑期间已于${getRelativeTime(conflict.server.updated_at)}在其他设备上修改`
+              : "该便签在你编辑期间已在其他设备上修改"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={view} onValueChange={(value) => setView(value as ConflictView)}>
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="merge">
+              合并{mergeResult && mergeResult.conflicts > 0 ? `（${mergeResult.conflicts} 处冲突）` : ""}
+            </TabsTrigger>
+            <TabsTrigger value="mine">本机版本</TabsTrigger>
+            <TabsTrigger value="server">服务器版本</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="merge" className="space-y-2">
+            <Textarea
+              value={mergedContent}
+              onChange={(e) => setMergedContent(e.target.value)}
+              className={cn("resize-none font-mono text-xs", isMobile ? "h-[240px]" : "h-[320px]")}
+            />
+            <p className={cn("text-xs", hasMarkers ? "text-amber-600 dark:text-amber-400" : "text-muted-foreground")}>
+              {hasMarkers
+                ? "请编辑 <<<<<<< 本机 与 >>>>>>> 服务器 之间的内容，删除冲突标记后保存"
+                : "已合并双方的修改，可继续编辑后保存"}
+            </p>
+          </TabsContent>
+
+          <TabsContent value="mine">
+            <div className={textBlockClassName}>{mine || "（空）"}</div>
+          </TabsContent>
+
+          <TabsContent value="server">
+            <div className={textBlockClassName}>{server || "（空）"}</div>
+          </TabsContent>
+        </Tabs>
+
+        <div className={cn("flex gap-2", isMobile ? "flex-col" : "justify-end")}>
+          <Button variant="outline" size="sm" disabled={isResolving} onClick={() => resolve(null)}>
+            保留服务器版本
+          </Button>
+          <Button variant="outline" size="sm" disabled={isResolving} onClick={() => resolve(mine)}>
+            保留本机版本
+          </Button>
+          <Button
+            size="sm"
+            disabled={isResolving || hasMarkers || !mergedContent.trim()}
+            onClick={() => resolve(mergedContent)}
+          >
+            {isResolving && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            保存合并结果
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
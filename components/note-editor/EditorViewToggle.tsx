@@ -0,0 +1,51 @@
+"use client"
+
+import { Columns2, Eye, PenLine } from "lucide-react"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import type { EditorView } from "@/components/settings-provider"
+import { cn } from "@/lib/utils"
+
+interface EditorViewToggleProps {
+  value: EditorView
+  onChange: (view: EditorView) => void
+  showSplit?: boolean // 移动端屏幕较窄，不提供分屏
+  className?: string
+}
+
+const VIEW_OPTIONS: { value: EditorView; label: string; icon: typeof PenLine }[] = [
+  { value: "edit", label: "编辑", icon: PenLine },
+  { value: "split", label: "分屏预览", icon: Columns2 },
+  { value: "preview", label: "Markdown 预览", icon: Eye },
+]
+
+/**
+ * EditorViewToggle - 编辑器视图切换
+ *
+ * 在仅编辑、编辑与 Markdown 预览分屏、仅预览之间切换
+ */
+export function EditorViewToggle({ value, onChange, showSplit = true, className }: EditorViewToggleProps) {
+  return (
+    <ToggleGroup
+      type="single"
+      size="sm"
+      value={value}
+      onValueChange={(next) => {
+        // 再次点击当前项时 Radix 会传空字符串，保持当前视图
+        if (next) onChange(next as EditorView)
+      }}
+      className={cn("gap-0.5", className)}
+    >
+      {VIEW_OPTIONS.filter((option) => showSplit || option.value !== "split").map((option) => (
+        <ToggleGroupItem
+          key={option.value}
+          value={option.value}
+          aria-label={option.label}
+          title={option.label}
+          className="h-8 w-8 p-0"
+        >
+          <option.icon className="h-4 w-4" />
+        </ToggleGroupItem>
+      ))}
+    </ToggleGroup>
+  )
+}
@@ -3,12 +3,16 @@
 import { Button } from "@/components/ui/button"
 import { Save, FileUp, Paperclip, Loader2 } from "lucide-react"
 import { cn } from "@/lib/utils"
+import { EditorViewToggle } from "@/components/note-editor/EditorViewToggle"
+import type { EditorView } from "@/components/settings-provider"
 
 interface MobileNoteToolbarProps {
   isSaving: boolean
   onSave: () => void
   onUploadImage: () => void
   onUploadFile: () => void
+  editorView: EditorView
+  onEditorViewChange: (view: EditorView) => void
   className?: string
 }
 
@@ -19,12 +23,15 @@ interface MobileNoteToolbarProps {
  * - 提供移动端优化的工具栏布局
  * - 简化的按钮设计，适合触摸操作
  * - 紧凑的空间利用
+ * - 切换编辑和 Markdown 预览
  */
 export function MobileNoteToolbar({
   isSaving,
   onSave,
   onUploadImage,
   onUploadFile,
+  editorView,
+  onEditorViewChange,
   className
 }: MobileNoteToolbarProps) {
   return (
@@ -32,6 +39,8 @@ export function MobileNoteToolbar({
       "w-full flex justify-around items-center px-2 py-2 bg-background/95 border-b",
       className
     )}>
+      <EditorViewToggle value={editorView} onChange={onEditorViewChange} showSplit={false} />
+
       <Button
         variant="ghost"
         size="sm"
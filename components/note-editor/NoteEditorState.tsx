@@ -82,7 +82,7 @@ export function useNoteEditorState() {
   const editorRef = useRef<HTMLDivElement>(null)
 
   // Hooks
-  const { saveNote, notes } = useSync()
+  const { saveNote, notes, noteConflict, resolveNoteConflict } = useSync()
   const { user } = useAuth()
   const { toast } = useToast()
 
@@ -90,6 +90,8 @@ export function useNoteEditorState() {
   // 加载草稿内容
   const contentRef = useRef("")
   const editingNoteIdRef = useRef<string | null>(null)
+  // 开始编辑已有便签时的版本和内容，保存时用于检测并发修改
+  const editBaseRef = useRef<{ version: number; content: string; title: string } | null>(null)
   const notesRef = useRef(notes)
   const userRef = useRef(user)
 
@@ -147,6 +149,11 @@ export function useNoteEditorState() {
         }
 
         const nextText = toText(String(note.content ?? ""))
+        const latest = notesRef.current.find((n) => n.id === String(note.id))
+        const version = latest?.version ?? note.version
+        editBaseRef.current = typeof version === "number"
+          ? { version, content: nextText, title: String(latest?.title ?? note.title ?? "") }
+          : null
         setContent(nextText)
         setEditingNoteId(String(note.id))
         lastContentRef.current = nextText
@@ -171,6 +178,7 @@ export function useNoteEditorState() {
   const clearEditor = useCallback(() => {
     setContent("")
     setEditingNoteId(null)
+    editBaseRef.current = null
     localStorage.removeItem("noteDraft")
     lastContentRef.current = ""
   }, [])
@@ -205,10 +213,27 @@ export function useNoteEditorState() {
       isSubmittingRef.current = true
       localStorage.setItem("noteDraft", trimmedContent)
 
+      // 编辑已有便签：带版本号更新，冲突时保留编辑器内容并由冲突对话框处理
+      const editBase = editBaseRef.current
+      if (editingNoteId && editBase) {
+        const result = await saveNote(editingNoteId, trimmedContent, editBase.title, editBase)
+        if (result) {
+          setContent("")
+          setEditingNoteId(null)
+          editBaseRef.current = null
+          lastContentRef.current = ""
+          localStorage.removeItem("noteDraft")
+          toast({ title: "保存成功", description: "便签已更新" })
+        }
+        isSubmittingRef.current = false
+        return
+      }
+
       const savePromise = saveNote("new", trimmedContent)
 
       setContent("")
       setEditingNoteId(null)
+      editBaseRef.current = null
       lastContentRef.current = ""
 
       setTimeout(() => setIsSaving(false), 250)
@@ -259,7 +284,21 @@ export function useNoteEditorState() {
     } finally {
       if (!isSubmittingRef.current) setIsSaving(false)
     }
-  }, [content, user, saveNote, toast])
+  }, [content, user, saveNote, toast, editingNoteId])
+
+  // 处理编辑冲突：冲突的便签正在编辑器中时，处理完成后清空编辑器
+  const handleResolveConflict = useCallback(async (resolution: string | null) => {
+    const conflictNoteId = noteConflict?.noteId
+    const saved = await resolveNoteConflict(resolution)
+    if (saved && conflictNoteId && conflictNoteId === editingNoteIdRef.current) {
+      setContent("")
+      setEditingNoteId(null)
+      editBaseRef.current = null
+      lastContentRef.current = ""
+      localStorage.removeItem("noteDraft")
+    }
+    return saved
+  }, [noteConflict, resolveNoteConflict])
 
   // 上传处理函数 - 修改为不插入编辑器，只上传到文件列表
   const handleUploadSuccess = useCallback((url: string, type: "image" | "file") => {
@@ -286,6 +325,7 @@ export function useNoteEditorState() {
     uploadType,
     isErrorDialogOpen,
     editingNoteId,
+    noteConflict,
     
     // Refs
     lastEditRef,
@@ -306,6 +346,7 @@ export function useNoteEditorState() {
     loadDraft,
     clearEditor,
     handleSaveNote,
+    handleResolveConflict,
     handleUploadSuccess,
     openUploadDialog,
   }
@@ -4,6 +4,8 @@ import { useState, useEffect } from "react"
 import { Button } from "@/components/ui/button"
 import { Save, FileUp, Paperclip, Loader2 } from "lucide-react"
 import { cn } from "@/lib/utils"
+import { EditorViewToggle } from "@/components/note-editor/EditorViewToggle"
+import type { EditorView } from "@/components/settings-provider"
 import { useMobile } from "@/hooks/use-mobile"
 
 interface NoteEditorToolbarProps {
@@ -11,6 +13,8 @@ interface NoteEditorToolbarProps {
   onSave: () => void
   onUploadImage: () => void
   onUploadFile: () => void
+  editorView: EditorView
+  onEditorViewChange: (view: EditorView) => void
   lastAutoSaveTime: Date | null
   className?: string
 }
@@ -22,6 +26,7 @@ interface NoteEditorToolbarProps {
  * - 显示当前时间和日期信息
  * - 显示自动保存状态
  * - 提供保存、上传等操作按钮
+ * - 切换编辑、分屏预览和 Markdown 预览视图
  * - 响应式设计适配移动端和桌面端
  */
 export function NoteEditorToolbar({
@@ -29,6 +34,8 @@ export function NoteEditorToolbar({
   onSave,
   onUploadImage,
   onUploadFile,
+  editorView,
+  onEditorViewChange,
   lastAutoSaveTime,
   className
 }: NoteEditorToolbarProps) {
@@ -87,6 +94,7 @@ export function NoteEditorToolbar({
 
       {/* 右侧：操作按钮 */}
       <div className="flex items-center gap-2">
+        <EditorViewToggle value={editorView} onChange={onEditorViewChange} />
         <Button
           variant="ghost"
           size="sm"
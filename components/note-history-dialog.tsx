@@ -0,0 +1,261 @@
+"use client"
+
+import { useState, useEffect, useMemo, useCallback } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { History, Loader2, RotateCcw } from "lucide-react"
+import { useAuth } from "@/hooks/use-auth"
+import { useTime } from "@/hooks/use-time"
+import { useMobile } from "@/hooks/use-mobile"
+import { useToast } from "@/hooks/use-toast"
+import { cn } from "@/lib/utils"
+import { diffLines, summarizeDiff } from "@/lib/text-diff"
+import { htmlToText, isActualHtml } from "@/components/note-editor/NoteEditorState"
+import {
+  getNoteRevisions,
+  getNoteRevision,
+  NoteRevision,
+  NoteRevisionSummary,
+} from "@/app/actions/db-actions"
+
+interface HistoryNote {
+  id: string
+  content: string
+  title?: string
+}
+
+interface NoteHistoryDialogProps {
+  note: HistoryNote | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onRestore: (noteId: string, revisionId: number) => Promise<unknown>
+}
+
+const toPlainText = (content: string) => (isActualHtml(content) ? htmlToText(content) : content)
+
+/**
+ * NoteHistoryDialog - 便签历史版本面板
+ *
+ * 左侧列出历史版本，右侧显示所选版本与当前内容的逐行差异，并支持恢复
+ */
+export function NoteHistoryDialog({ note, open, onOpenChange, onRestore }: NoteHistoryDialogProps) {
+  const { user } = useAuth()
+  const { getRelativeTime } = useTime()
+  const { toast } = useToast()
+  const isMobile = useMobile()
+
+  const [revisions, setRevisions] = useState<NoteRevisionSummary[]>([])
+  const [isLoadingList, setIsLoadingList] = useState(false)
+  const [selectedId, setSelectedId] = useState<number | null>(null)
+  const [selectedRevision, setSelectedRevision] = useState<NoteRevision | null>(null)
+  const [isLoadingRevision, setIsLoadingRevision] = useState(false)
+  const [isRestoring, setIsRestoring] = useState(false)
+
+  const noteId = note?.id
+
+  // 打开时加载版本列表
+  useEffect(() => {
+    if (!open || !noteId || !user?.id) return
+
+    const numId = parseInt(noteId, 10)
+    if (isNaN(numId)) return
+
+    let cancelled = false
+    setIsLoadingList(true)
+    setRevisions([])
+    setSelectedId(null)
+    setSelectedRevision(null)
+
+    getNoteRevisions(numId, user.id)
+      .then((list) => {
+        if (cancelled) return
+        setRevisions(list)
+        if (list.length > 0) setSelectedId(list[0].id)
+      })
+      .catch((error) => {
+        console.error("加载历史版本失败:", error)
+        if (!cancelled) {
+          toast({ variant: "destructive", title: "加载失败", description: "未能加载历史版本" })
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingList(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [open, noteId, user?.id, toast])
+
+  // 选中版本后加载完整内容
+  useEffect(() => {
+    if (!open || selectedId === null || !user?.id) return
+
+    let cancelled = false
+    setIsLoadingRevision(true)
+
+    getNoteRevision(selectedId, user.id)
+      .then((revision) => {
+        if (!cancelled) setSelectedRevision(revision)
+      })
+      .catch((error) => {
+        console.error("加载历史版本内容失败:", error)
+        if (!cancelled) setSelectedRevision(null)
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingRevision(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [open, selectedId, user?.id])
+
+  const diff = useMemo(() => {
+    if (!selectedRevision || !note) return []
+    return diffLines(toPlainText(selectedRevision.content), toPlainText(note.content))
+  }, [selectedRevision, note])
+
+  const diffSummary = useMemo(() => summarizeDiff(diff), [diff])
+
+  const handleRestore = useCallback(async () => {
+    if (!note || !selectedRevision) return
+
+    setIsRestoring(true)
+    try {
+      const restored = await onRestore(note.id, selectedRevision.id)
+      if (restored) {
+        toast({ title: "已恢复", description: "便签已恢复到所选版本", duration: 2000 })
+        onOpenChange(false)
+      }
+    } finally {
+      setIsRestoring(false)
+    }
+  }, [note, selectedRevision, onRestore, onOpenChange, toast])
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className={cn(
+          "sm:max-w-[760px] mx-auto",
+          isMobile && "w-[calc(100%-2rem)] p-4 rounded-2xl",
+        )}
+      >
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-4 w-4" />
+            历史版本
+          </DialogTitle>
+          <DialogDescription className="truncate">
+            {note?.title?.trim() ? note.title : "对比历史版本与当前内容，可恢复到任意版本"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoadingList ? (
+          <div className="flex items-center justify-center py-10 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            加载中...
+          </div>
+        ) : revisions.length === 0 ? (
+          <div className="py-10 text-center text-sm text-muted-foreground">暂无历史版本</div>
+        ) : (
+          <div className={cn("flex gap-3", isMobile ? "flex-col" : "h-[420px]")}>
+            <div
+              className={cn(
+                "shrink-0 overflow-auto rounded-md border",
+                isMobile ? "max-h-[140px]" : "w-[200px]",
+              )}
+            >
+              {revisions.map((revision) => (
+                <button
+                  key={revision.id}
+                  type="button"
+                  onClick={() => setSelectedId(revision.id)}
+                  className={cn(
+                    "w-full px-3 py-2 text-left text-xs border-b last:border-b-0 transition-colors",
+                    "hover:bg-accent/50",
+                    selectedId === revision.id && "bg-accent",
+                  )}
+                >
+                  <div className="font-medium">{getRelativeTime(revision.updated_at)}</div>
+                  <div className="text-muted-foreground truncate">
+                    {revision.title?.trim() ? revision.title : `${revision.content_length} 字`}
+                  </div>
+                </button>
+              ))}
+            </div>
+
+            <div className="flex-1 min-w-0 flex flex-col gap-2">
+              <div className="flex items-center justify-between text-xs text-muted-foreground">
+                <span>
+                  <span className="text-red-600 dark:text-red-400">历史版本</span>
+                  {" → "}
+                  <span className="text-green-600 dark:text-green-400">当前内容</span>
+                </span>
+                {selectedRevision && (
+                  <span>
+                    +{diffSummary.added} / -{diffSummary.removed}
+                  </span>
+                )}
+              </div>
+
+              <div
+                className={cn(
+                  "flex-1 overflow-auto rounded-md border bg-muted/30 font-mono text-xs",
+                  isMobile && "max-h-[280px]",
+                )}
+              >
+                {isLoadingRevision ? (
+                  <div className="flex items-center justify-center py-10 text-muted-foreground">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  </div>
+                ) : diff.length === 0 ? (
+                  <div className="py-10 text-center text-muted-foreground">内容为空</div>
+                ) : diffSummary.added === 0 && diffSummary.removed === 0 ? (
+                  <div className="py-10 text-center text-muted-foreground">与当前内容相同</div>
+                ) : (
+                  diff.map((line, index) => (
+                    <div
+                      key={index}
+                      className={cn(
+                        "flex whitespace-pre-wrap break-words px-2",
+                        line.type === "add" && "bg-green-500/15 text-green-700 dark:text-green-300",
+                        line.type === "remove" && "bg-red-500/15 text-red-700 dark:text-red-300",
+                      )}
+                    >
+                      <span className="w-4 shrink-0 select-none opacity-60">
+                        {line.type === "add" ? "+" : line.type === "remove" ? "-" : " "}
+                      </span>
+                      <span className="flex-1 min-w-0">{line.text || " "}</span>
+                    </div>
+                  ))
+                )}
+              </div>
+
+              <div className="flex justify-end">
+                <Button
+                  size="sm"
+                  onClick={handleRestore}
+                  disabled={!selectedRevision || isRestoring || isLoadingRevision}
+                >
+                  {isRestoring ? (
+                    <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                  ) : (
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                  )}
+                  恢复此版本
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
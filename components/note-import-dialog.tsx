@@ -0,0 +1,160 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { FileUp, Loader2, Upload } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { useAuth } from "@/hooks/use-auth"
+import { useSync } from "@/hooks/use-sync"
+import { useMobile } from "@/hooks/use-mobile"
+import { useToast } from "@/hooks/use-toast"
+import { importNotesFile } from "@/lib/note-import-client"
+import type { ImportSource } from "@/lib/import-formats"
+import type { ImportSummary } from "@/lib/note-import"
+import { cn } from "@/lib/utils"
+
+interface NoteImportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+const SOURCES: { value: ImportSource; label: string; hint: string; accept: string }[] = [
+  { value: "keep", label: "Google Keep", hint: "Google Takeout 导出的 ZIP，标签对应分组", accept: ".zip,application/zip" },
+  { value: "evernote", label: "Evernote", hint: "笔记本导出的 .enex 文件，笔记本对应分组", accept: ".enex" },
+  { value: "obsidian", label: "Obsidian", hint: "仓库文件夹打包的 ZIP，文件夹对应分组", accept: ".zip,application/zip" },
+]
+
+/**
+ * NoteImportDialog - 从其他笔记应用导入
+ *
+ * 选择来源和导出文件后上传到服务器转换，附件一并上传；完成后显示导入结果并同步
+ */
+export function NoteImportDialog({ open, onOpenChange }: NoteImportDialogProps) {
+  const { user } = useAuth()
+  const { sync } = useSync()
+  const { toast } = useToast()
+  const isMobile = useMobile()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [source, setSource] = useState<ImportSource>("keep")
+  const [file, setFile] = useState<File | null>(null)
+  const [result, setResult] = useState<ImportSummary | null>(null)
+  const [isImporting, setIsImporting] = useState(false)
+
+  // 关闭时清空选择
+  useEffect(() => {
+    if (open) return
+    setSource("keep")
+    setFile(null)
+    setResult(null)
+  }, [open])
+
+  const currentSource = SOURCES.find((item) => item.value === source) ?? SOURCES[0]
+
+  const handleSourceChange = (value: string) => {
+    setSource(value as ImportSource)
+    setFile(null)
+    setResult(null)
+  }
+
+  const handleImport = async () => {
+    if (!user || !file) return
+    setIsImporting(true)
+    try {
+      const summary = await importNotesFile(user.id, source, file)
+      setResult(summary)
+      setFile(null)
+      await sync(true)
+      toast({ title: "导入完成", description: `已导入 ${summary.notes} 条便签`, duration: 2000 })
+    } catch (error) {
+      console.error("导入失败:", error)
+      toast({
+        title: "导入失败",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      })
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !isImporting && onOpenChange(value)}>
+      <DialogContent
+        className={cn(
+          "sm:max-w-[440px] mx-auto",
+          isMobile && "w-[calc(100%-2rem)] p-4 rounded-2xl",
+        )}
+      >
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileUp className="h-4 w-4" />
+            导入笔记
+          </DialogTitle>
+          <DialogDescription>保留原来的创建和修改时间，附件上传为文件</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup value={source} onValueChange={handleSourceChange} disabled={isImporting} className="gap-3">
+            {SOURCES.map((item) => (
+              <div key={item.value} className="flex items-start gap-2">
+                <RadioGroupItem value={item.value} id={`import-source-${item.value}`} className="mt-0.5" />
+                <Label htmlFor={`import-source-${item.value}`} className="font-normal leading-snug">
+                  {item.label}
+                  <span className="block text-xs text-muted-foreground">{item.hint}</span>
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" disabled={isImporting} onClick={() => fileInputRef.current?.click()}>
+              <Upload className="h-4 w-4 mr-2" />
+              选择文件
+            </Button>
+            <span className="text-xs text-muted-foreground truncate">{file?.name || "未选择"}</span>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={currentSource.accept}
+              className="hidden"
+              onChange={(e) => {
+                setFile(e.target.files?.[0] ?? null)
+                setResult(null)
+                e.target.value = ""
+              }}
+            />
+          </div>
+
+          {result && (
+            <div className="rounded-md border p-3 text-xs space-y-1">
+              <p className="font-medium">
+                导入 {result.notes} 条便签，新建 {result.groups} 个分组，上传 {result.attachments} 个附件
+              </p>
+              {result.skipped > 0 && <p className="text-muted-foreground">跳过 {result.skipped} 条空白笔记</p>}
+              {result.failed > 0 && <p className="text-destructive">{result.failed} 条导入失败</p>}
+              {result.warnings.map((warning, index) => (
+                <p key={index} className="text-amber-600 dark:text-amber-500">{warning}</p>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button disabled={isImporting || !file} onClick={() => void handleImport()}>
+            {isImporting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {isImporting ? "正在导入" : "开始导入"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,211 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Bell, BellOff, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { useMobile } from "@/hooks/use-mobile"
+import { useToast } from "@/hooks/use-toast"
+import { cn } from "@/lib/utils"
+
+interface ReminderNote {
+  id: string
+  title?: string
+  remind_at?: Date | string | null
+}
+
+interface NoteReminderDialogProps {
+  note: ReminderNote | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSetReminder: (noteId: string, remindAt: Date | null) => Promise<boolean>
+}
+
+// 转换为 datetime-local 输入框的值（本地时间，精确到分钟）
+function toDateTimeLocalValue(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, "0")
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`
+}
+
+// 快捷选项
+const PRESETS: { label: string; getDate: () => Date }[] = [
+  {
+    label: "1小时后",
+    getDate: () => {
+      const date = new Date(Date.now() + 60 * 60 * 1000)
+      date.setSeconds(0, 0)
+      return date
+    },
+  },
+  {
+    label: "今晚20:00",
+    getDate: () => {
+      const date = new Date()
+      date.setHours(20, 0, 0, 0)
+      // 已经过了今晚 20 点则顺延到明晚
+      if (date.getTime() <= Date.now()) date.setDate(date.getDate() + 1)
+      return date
+    },
+  },
+  {
+    label: "明天9:00",
+    getDate: () => {
+      const date = new Date()
+      date.setDate(date.getDate() + 1)
+      date.setHours(9, 0, 0, 0)
+      return date
+    },
+  },
+]
+
+/**
+ * 显示提醒时间：今天、明天只显示时刻，今年内省略年份
+ */
+export function formatReminderTime(value: Date | string): string {
+  const date = new Date(value)
+  const now = new Date()
+  const time = date.toLocaleTimeString("zh-CN", { hour: "2-digit", minute: "2-digit" })
+
+  const startOfDay = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime()
+  const dayDiff = Math.round((startOfDay(date) - startOfDay(now)) / (24 * 60 * 60 * 1000))
+  if (dayDiff === 0) return `今天 ${time}`
+  if (dayDiff === 1) return `明天 ${time}`
+
+  const day = date.getFullYear() === now.getFullYear()
+    ? `${date.getMonth() + 1}月${date.getDate()}日`
+    : `${date.getFullYear()}年${date.getMonth() + 1}月${date.getDate()}日`
+  return `${day} ${time}`
+}
+
+/**
+ * NoteReminderDialog - 便签提醒设置
+ *
+ * 选择提醒时间或清除提醒；设置提醒时请求通知权限，以便页面在后台时显示系统通知
+ */
+export function NoteReminderDialog({ note, open, onOpenChange, onSetReminder }: NoteReminderDialogProps) {
+  const { toast } = useToast()
+  const isMobile = useMobile()
+  const [value, setValue] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+
+  // 打开时填入当前提醒时间，没有则默认 1 小时后
+  useEffect(() => {
+    if (!open || !note) return
+    setValue(toDateTimeLocalValue(note.remind_at ? new Date(note.remind_at) : PRESETS[0].getDate()))
+  }, [open, note])
+
+  const save = async (remindAt: Date | null) => {
+    if (!note) return
+
+    if (remindAt && remindAt.getTime() <= Date.now()) {
+      toast({ title: "提醒时间已过", description: "请选择一个将来的时间", variant: "destructive" })
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      // 首次设置提醒时请求通知权限；拒绝后仍会在应用内提示
+      if (remindAt && "Notification" in window && Notification.permission === "default") {
+        await Notification.requestPermission().catch(() => undefined)
+      }
+
+      const success = await onSetReminder(note.id, remindAt)
+      if (!success) {
+        toast({ title: remindAt ? "设置提醒失败" : "清除提醒失败", description: "请确认网络连接后再试", variant: "destructive" })
+        return
+      }
+
+      toast({
+        title: remindAt ? "已设置提醒" : "已清除提醒",
+        description: remindAt ? `将在 ${formatReminderTime(remindAt)} 提醒` : undefined,
+        duration: 2000,
+      })
+      onOpenChange(false)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const date = new Date(value)
+    if (!value || isNaN(date.getTime())) {
+      toast({ title: "请选择提醒时间", variant: "destructive" })
+      return
+    }
+    void save(date)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className={cn(
+          "sm:max-w-[400px] mx-auto",
+          isMobile && "w-[calc(100%-2rem)] p-4 rounded-2xl",
+        )}
+      >
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Bell className="h-4 w-4" />
+            设置提醒
+          </DialogTitle>
+          <DialogDescription className="truncate">
+            {note?.title?.trim() ? note.title : "到时间后通过通知提醒你"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {PRESETS.map((preset) => (
+              <Button
+                key={preset.label}
+                type="button"
+                variant="outline"
+                size="sm"
+                disabled={isSaving}
+                onClick={() => setValue(toDateTimeLocalValue(preset.getDate()))}
+              >
+                {preset.label}
+              </Button>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="note-remind-at">提醒时间</Label>
+            <Input
+              id="note-remind-at"
+              type="datetime-local"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              disabled={isSaving}
+            />
+          </div>
+
+          <DialogFooter className="gap-2 sm:justify-between">
+            {note?.remind_at ? (
+              <Button type="button" variant="ghost" disabled={isSaving} onClick={() => void save(null)}>
+                <BellOff className="h-4 w-4 mr-2" />
+                清除提醒
+              </Button>
+            ) : (
+              <span />
+            )}
+            <Button type="submit" disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              保存
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
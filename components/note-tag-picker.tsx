@@ -0,0 +1,124 @@
+"use client"
+
+import { useState } from "react"
+import { Check, Plus, Tag as TagIcon } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command"
+import { cn } from "@/lib/utils"
+
+interface NoteTagPickerProps {
+  noteTags: { id: number; name: string; source: "manual" | "inline" }[]
+  allTags: { id: string; name: string }[]
+  onAddTag: (name: string) => Promise<boolean>
+  onRemoveTag: (tagId: string) => Promise<boolean>
+}
+
+/**
+ * NoteTagPicker - 便签标签选择器
+ *
+ * 勾选或取消已有标签，输入新名称直接创建；
+ * 正文中的 #标签 由内容决定，这里只显示为已选中，需要修改正文才能移除
+ */
+export function NoteTagPicker({ noteTags, allTags, onAddTag, onRemoveTag }: NoteTagPickerProps) {
+  const [open, setOpen] = useState(false)
+  const [input, setInput] = useState("")
+  const [pending, setPending] = useState(false)
+
+  const inputName = input.trim().replace(/^#+/, "").trim()
+  const hasExactMatch = allTags.some((tag) => tag.name.toLowerCase() === inputName.toLowerCase())
+
+  const run = async (action: () => Promise<boolean>) => {
+    if (pending) return
+    setPending(true)
+    try {
+      await action()
+    } finally {
+      setPending(false)
+    }
+  }
+
+  const toggleTag = (tag: { id: string; name: string }) => {
+    const current = noteTags.find((item) => String(item.id) === tag.id)
+    if (current?.source === "inline") return
+    void run(() => (current ? onRemoveTag(tag.id) : onAddTag(tag.name)))
+  }
+
+  const createTag = () => {
+    if (!inputName) return
+    void run(async () => {
+      const added = await onAddTag(inputName)
+      if (added) setInput("")
+      return added
+    })
+  }
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next)
+        if (!next) setInput("")
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 text-muted-foreground hover:text-primary"
+          aria-label="标签"
+        >
+          <TagIcon className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-56 p-0">
+        <Command>
+          <CommandInput
+            value={input}
+            onValueChange={setInput}
+            placeholder="搜索或新建标签..."
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && inputName && !hasExactMatch) {
+                e.preventDefault()
+                createTag()
+              }
+            }}
+          />
+          <CommandList className="max-h-60">
+            <CommandEmpty>{inputName ? "没有匹配的标签" : "还没有标签"}</CommandEmpty>
+            {allTags.length > 0 && (
+              <CommandGroup>
+                {allTags.map((tag) => {
+                  const current = noteTags.find((item) => String(item.id) === tag.id)
+                  const isInline = current?.source === "inline"
+                  return (
+                    <CommandItem
+                      key={tag.id}
+                      value={tag.name}
+                      disabled={pending}
+                      onSelect={() => toggleTag(tag)}
+                      className={cn(isInline && "cursor-default")}
+                      title={isInline ? "来自正文中的 #标签，修改正文后才能移除" : undefined}
+                    >
+                      <Check className={cn("mr-2 h-4 w-4", current ? "opacity-100" : "opacity-0")} />
+                      <span className="flex-1 truncate">{tag.name}</span>
+                      {isInline && <span className="text-xs text-muted-foreground">正文</span>}
+                    </CommandItem>
+                  )
+                })}
+              </CommandGroup>
+            )}
+            {inputName && !hasExactMatch && (
+              <CommandGroup>
+                <CommandItem value={`create-${inputName}`} disabled={pending} onSelect={createTag}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  新建标签“{inputName}”
+                </CommandItem>
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  )
+}
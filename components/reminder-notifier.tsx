@@ -0,0 +1,138 @@
+"use client"
+
+import { useCallback, useEffect } from "react"
+import { useAuth } from "@/hooks/use-auth"
+import { useToast } from "@/hooks/use-toast"
+import { ToastAction } from "@/components/ui/toast"
+import { getNote } from "@/app/actions/db-actions"
+import { htmlToText, isActualHtml } from "@/components/note-editor/NoteEditorState"
+import { getCurrentPushSubscription, isPushEnabledLocally, syncPushSubscription } from "@/lib/push-client"
+
+// 通知正文的最大长度
+const REMINDER_BODY_LENGTH = 80
+
+/**
+ * ReminderNotifier - 便签提醒通知
+ *
+ * 职责：
+ * - 收到到期提醒（pwa-note:reminder 事件）时，页面在前台显示应用内提示；
+ *   页面在后台时由 Web Push 推送系统通知，本设备未开启推送但已授权时通过 Service Worker 显示
+ * - 点击系统通知（Service Worker 发来 OPEN_NOTE 消息或 ?note= 参数）时在编辑器中打开便签
+ * - 登录后及浏览器更换推送订阅时向服务器同步本设备的订阅
+ */
+export function ReminderNotifier() {
+  const { user } = useAuth()
+  const { toast } = useToast()
+  const userId = user?.id
+
+  const openNote = useCallback(async (noteId: string) => {
+    if (!user) return
+    try {
+      const note = await getNote(Number(noteId), user.id)
+      if (!note) {
+        toast({ title: "便签不存在", description: "该便签可能已被删除", variant: "destructive" })
+        return
+      }
+      window.dispatchEvent(new CustomEvent("pwa-note:edit-note", { detail: { ...note, id: String(note.id) } }))
+    } catch (error) {
+      console.error("打开提醒便签失败:", error)
+    }
+  }, [user, toast])
+
+  // 显示到期提醒
+  useEffect(() => {
+    if (!user) return
+
+    const handleReminder = async (event: Event) => {
+      const { noteId } = (event as CustomEvent<{ noteId: string }>).detail
+      let title = "便签提醒"
+      let body = ""
+      try {
+        const note = await getNote(Number(noteId), user.id)
+        if (!note) return
+        const text = isActualHtml(note.content) ? htmlToText(note.content) : note.content
+        title = note.title?.trim() || title
+        body = Array.from(text.trim()).slice(0, REMINDER_BODY_LENGTH).join("")
+      } catch (error) {
+        console.warn("加载提醒便签失败:", error)
+      }
+
+      const canNotify =
+        document.visibilityState === "hidden" &&
+        "Notification" in window &&
+        Notification.permission === "granted" &&
+        "serviceWorker" in navigator
+      if (canNotify) {
+        try {
+          // 本设备已开启推送时服务器会推送同一条提醒
+          if (isPushEnabledLocally() && (await getCurrentPushSubscription())) return
+          const registration = await navigator.serviceWorker.ready
+          await registration.showNotification(title, {
+            body,
+            tag: `reminder-${noteId}`,
+            icon: `${process.env.NEXT_PUBLIC_BASE_PATH || ""}/icons/icon-192x192.png`,
+            data: { noteId },
+          })
+          return
+        } catch (error) {
+          console.warn("显示系统通知失败，改为应用内提示:", error)
+        }
+      }
+
+      toast({
+        title: `⏰ ${title}`,
+        description: body || undefined,
+        duration: 10000,
+        action: (
+          <ToastAction altText="查看便签" onClick={() => void openNote(noteId)}>
+            查看
+          </ToastAction>
+        ),
+      })
+    }
+
+    window.addEventListener("pwa-note:reminder", handleReminder)
+    return () => window.removeEventListener("pwa-note:reminder", handleReminder)
+  }, [user, toast, openNote])
+
+  // 点击系统通知后打开便签
+  useEffect(() => {
+    if (!user) return
+
+    const params = new URLSearchParams(window.location.search)
+    const noteId = params.get("note")
+    if (noteId) {
+      params.delete("note")
+      const query = params.toString()
+      window.history.replaceState(null, "", `${window.location.pathname}${query ? `?${query}` : ""}${window.location.hash}`)
+      void openNote(noteId)
+    }
+
+    if (!("serviceWorker" in navigator)) return
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === "OPEN_NOTE" && event.data.noteId) {
+        void openNote(String(event.data.noteId))
+      }
+    }
+    navigator.serviceWorker.addEventListener("message", handleMessage)
+    return () => navigator.serviceWorker.removeEventListener("message", handleMessage)
+  }, [user, openNote])
+
+  // 同步本设备的推送订阅
+  useEffect(() => {
+    if (!userId || !("serviceWorker" in navigator)) return
+
+    const sync = () => {
+      syncPushSubscription(userId).catch((error) => console.warn("同步推送订阅失败:", error))
+    }
+    sync()
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === "PUSH_SUBSCRIPTION_CHANGED") sync()
+    }
+    navigator.serviceWorker.addEventListener("message", handleMessage)
+    return () => navigator.serviceWorker.removeEventListener("message", handleMessage)
+  }, [userId])
+
+  return null
+}
@@ -2,10 +2,26 @@
 
 import * as React from "react"
 import { useContext, useState, useMemo, useEffect, useCallback, useRef } from "react"
-import { Search, FileText, Link as LinkIcon, File, Loader2 } from "lucide-react"
+import { Search, FileText, Link as LinkIcon, File, Loader2, BookmarkPlus } from "lucide-react"
 import { SyncContext } from "@/components/sync-provider"
 import { useAuth } from "@/hooks/use-auth"
 import { SearchResultNoteItem } from "@/components/search-result-note-item"
+import { SearchFilterBar } from "@/components/search-filter-bar"
+import { SearchSuggestions } from "@/components/search-suggestions"
+import { parseSearchQuery, buildSearchCriteria } from "@/lib/search-query"
+import {
+  getSearchHistory,
+  recordSearchHistory,
+  deleteSearchHistoryEntry,
+  clearSearchHistory,
+  SearchHistoryEntry,
+} from "@/app/actions/db-actions"
+import { useToast } from "@/hooks/use-toast"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import {
   CommandDialog,
   CommandEmpty,
@@ -32,6 +48,13 @@ export function SearchDialog({ open, onOpenChange }: SearchDialogProps) {
   }>({ notes: [], files: [], links: [] })
   const abortControllerRef = useRef<AbortController | null>(null)
   const isRestoringFromCache = useRef(false)
+  const { toast } = useToast()
+  const [searchHistory, setSearchHistory] = useState<SearchHistoryEntry[]>([])
+  const [isSaveDialogOpen, setIsSaveDialogOpen] = useState(false)
+  const [saveName, setSaveName] = useState("")
+  const [savePinned, setSavePinned] = useState(false)
+  // 关闭对话框时记录最后一次搜索
+  const lastQueryRef = useRef("")
 
   // 搜索缓存工具函数 - 移到条件语句之前
   const saveSearchToCache = useCallback((query: string, results: any) => {
@@ -179,14 +202,34 @@ export function SearchDialog({ open, onOpenChange }: SearchDialogProps) {
     }
   }, [])
 
-  // 对话框关闭时重置搜索状态
+  useEffect(() => {
+    lastQueryRef.current = searchQuery
+  }, [searchQuery])
+
+  // 打开对话框时加载最近搜索和已保存的搜索（其他设备可能有更新）
+  const refreshSavedSearches = syncContext?.refreshSavedSearches
+  useEffect(() => {
+    if (!open || !isAuthenticated || !user) return
+
+    getSearchHistory(user.id)
+      .then(setSearchHistory)
+      .catch((error) => console.error('加载搜索记录失败:', error))
+    refreshSavedSearches?.()
+  }, [open, isAuthenticated, user, refreshSavedSearches])
+
+  // 对话框关闭时记录搜索并重置搜索状态
   useEffect(() => {
     if (!open) {
+      const lastQuery = lastQueryRef.current.trim()
+      if (lastQuery && user) {
+        recordSearchHistory(user.id, lastQuery).catch((error) => console.error('记录搜索失败:', error))
+      }
+      lastQueryRef.current = ""
       setSearchQuery("")
       setServerResults({ notes: [], files: [], links: [] })
       setIsSearching(false)
     }
-  }, [open])
+  }, [open, user])
 
   // 合并本地和服务端搜索结果
   const searchResults = useMemo(() => {
@@ -202,6 +245,12 @@ export function SearchDialog({ open, onOpenChange }: SearchDialogProps) {
     }
   }, [searchQuery, serverResults])
 
+  // 需要高亮的关键词（不含筛选条件和排除词）
+  const highlightTerms = useMemo(
+    () => buildSearchCriteria(parseSearchQuery(searchQuery)).terms,
+    [searchQuery]
+  )
+
   // 条件检查 - 基于认证状态
   if (!isAuthenticated || !user) {
     return null
@@ -210,6 +259,49 @@ export function SearchDialog({ open, onOpenChange }: SearchDialogProps) {
   // 从SyncContext获取便签操作函数（保持现有功能）
   const { saveNote, deleteNote } = syncContext || {}
 
+  const savedSearches = syncContext?.savedSearches || []
+  const trimmedQuery = searchQuery.trim()
+  const isQuerySaved = savedSearches.some((item) => item.query === trimmedQuery)
+
+  const openSaveDialog = () => {
+    setSaveName(trimmedQuery)
+    setSavePinned(false)
+    setIsSaveDialogOpen(true)
+  }
+
+  const handleSaveSearch = async () => {
+    if (!syncContext || !saveName.trim() || !trimmedQuery) return
+    const saved = await syncContext.saveSearch(saveName, trimmedQuery, savePinned)
+    if (saved) {
+      setIsSaveDialogOpen(false)
+      toast({
+        title: "搜索已保存",
+        description: savePinned ? "已固定到便签分组列表" : "打开搜索时可在建议中找到",
+        duration: 2000,
+      })
+    } else {
+      toast({ title: "保存失败", description: "请稍后再试", variant: "destructive" })
+    }
+  }
+
+  const handleDeleteHistory = async (id: number) => {
+    setSearchHistory((prev) => prev.filter((item) => item.id !== id))
+    try {
+      await deleteSearchHistoryEntry(id, user.id)
+    } catch (error) {
+      console.error('删除搜索记录失败:', error)
+    }
+  }
+
+  const handleClearHistory = async () => {
+    setSearchHistory([])
+    try {
+      await clearSearchHistory(user.id)
+    } catch (error) {
+      console.error('清除搜索记录失败:', error)
+    }
+  }
+
   // 处理便签点击
   const handleNoteClick = (note: any) => {
     // TODO: 实现跳转到便签的逻辑
@@ -246,18 +338,19 @@ export function SearchDialog({ open, onOpenChange }: SearchDialogProps) {
     return preview
   }
 
-  // 高亮文本 - 返回 JSX 元素
-  const renderHighlightedText = (text: string, highlight?: string) => {
-    if (!highlight || !highlight.trim()) return text
+  // 高亮文本 - 返回 JSX 元素（每个关键词都高亮）
+  const renderHighlightedText = (text: string, terms: string[]) => {
+    if (!text || terms.length === 0) return text
 
-    const escapedHighlight = highlight.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
-    const regex = new RegExp(`(${escapedHighlight})`, 'gi')
+    const escapedTerms = terms.map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    const regex = new RegExp(`(${escapedTerms.join('|')})`, 'gi')
+    const lowerTerms = terms.map((term) => term.toLowerCase())
     const parts = text.split(regex)
 
     return (
       <>
         {parts.map((part, index) => {
-          const isMatch = part.toLowerCase() === highlight.trim().toLowerCase()
+          const isMatch = lowerTerms.includes(part.toLowerCase())
           return isMatch ? (
             <mark key={index} className="bg-yellow-200 dark:bg-yellow-800 px-0.5 rounded">
               {part}
@@ -283,13 +376,28 @@ export function SearchDialog({ open, onOpenChange }: SearchDialogProps) {
     <CommandDialog
       open={open}
       onOpenChange={onOpenChange}
+      shouldFilter={false}
       aria-label="搜索便签、文件和链接"
     >
       <CommandInput
-        placeholder="搜索便签、文件、链接..."
+        placeholder="搜索便签、文件、链接，支持 group: type: after: -排除"
         value={searchQuery}
         onValueChange={setSearchQuery}
       />
+      <SearchFilterBar
+        query={searchQuery}
+        onQueryChange={setSearchQuery}
+        groups={syncContext?.groups || []}
+        tags={syncContext?.tags || []}
+        actions={
+          trimmedQuery && !isQuerySaved ? (
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs text-muted-foreground" onClick={openSaveDialog}>
+              <BookmarkPlus className="h-3 w-3 mr-1" />
+              保存搜索
+            </Button>
+          ) : null
+        }
+      />
       <CommandList className="relative h-[300px] max-h-[300px]">
         {isSearching && (
           <div className="pointer-events-none absolute inset-0 z-10 flex items-center justify-center bg-background/70">
@@ -298,6 +406,18 @@ export function SearchDialog({ open, onOpenChange }: SearchDialogProps) {
           </div>
         )}
 
+        {!trimmedQuery && (
+          <SearchSuggestions
+            savedSearches={savedSearches}
+            history={searchHistory}
+            onSelectQuery={setSearchQuery}
+            onTogglePin={(id, pinned) => syncContext?.updateSavedSearch(id, { pinned })}
+            onDeleteSavedSearch={(id) => syncContext?.deleteSavedSearch(id)}
+            onDeleteHistory={handleDeleteHistory}
+            onClearHistory={handleClearHistory}
+          />
+        )}
+
         {searchQuery.trim() && (
           <>
             {/* 便签结果 */}
@@ -334,13 +454,12 @@ export function SearchDialog({ open, onOpenChange }: SearchDialogProps) {
                   return (
                     <CommandItem
                       key={`note-${note.id}`}
-                      value={`${note.title ?? ''} ${note.content || ''} ${note.id}`}
+                      value={`${note.title ?? ''} ${note.snippet || ''} ${note.id}`}
                       onSelect={() => {}} // 禁用默认选择行为
                       className="p-0 h-auto cursor-pointer"
                     >
                       <SearchResultNoteItem
                         note={note}
-                        searchQuery={searchQuery}
                         onSaveNote={handleSaveNote}
                         onDeleteNote={handleDeleteNote}
                         onClose={() => onOpenChange(false)}
@@ -364,7 +483,7 @@ export function SearchDialog({ open, onOpenChange }: SearchDialogProps) {
                     <File className="mr-2 h-4 w-4 text-green-500" />
                     <div className="flex-1">
                       <div className="font-medium">
-                        {renderHighlightedText(file.name, searchQuery)}
+                        {renderHighlightedText(file.name, highlightTerms)}
                       </div>
                       <div className="text-sm text-muted-foreground">
                         {formatFileSize(file.size)} • {file.type}
@@ -387,10 +506,10 @@ export function SearchDialog({ open, onOpenChange }: SearchDialogProps) {
                     <LinkIcon className="mr-2 h-4 w-4 text-purple-500" />
                     <div className="flex-1">
                       <div className="font-medium">
-                        {renderHighlightedText(link.title, searchQuery)}
+                        {renderHighlightedText(link.title, highlightTerms)}
                       </div>
                       <div className="text-sm text-muted-foreground truncate">
-                        {renderHighlightedText(link.url, searchQuery)}
+                        {renderHighlightedText(link.url, highlightTerms)}
                       </div>
                     </div>
                   </CommandItem>
@@ -405,6 +524,37 @@ export function SearchDialog({ open, onOpenChange }: SearchDialogProps) {
           </>
         )}
       </CommandList>
+
+      <Dialog open={isSaveDialogOpen} onOpenChange={setIsSaveDialogOpen}>
+        <DialogContent className="sm:max-w-[420px]">
+          <DialogHeader>
+            <DialogTitle>保存搜索</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <Input
+              value={saveName}
+              onChange={(e) => setSaveName(e.target.value)}
+              placeholder="名称"
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault()
+                  handleSaveSearch()
+                }
+              }}
+            />
+            <p className="text-xs text-muted-foreground break-all">{trimmedQuery}</p>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="save-search-pinned" className="text-sm font-normal">固定到便签分组列表</Label>
+              <Switch id="save-search-pinned" checked={savePinned} onCheckedChange={setSavePinned} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button onClick={handleSaveSearch} disabled={!saveName.trim()}>
+              保存
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </CommandDialog>
   )
 }
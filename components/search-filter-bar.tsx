@@ -0,0 +1,198 @@
+"use client"
+
+import { useMemo, useCallback } from "react"
+import type { ReactNode } from "react"
+import { SlidersHorizontal, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { cn } from "@/lib/utils"
+import {
+  parseSearchQuery,
+  serializeSearchQuery,
+  createFilterToken,
+  describeSearchToken,
+  SearchToken,
+  SearchFilterKey,
+  SEARCH_TYPES,
+  SEARCH_TYPE_LABELS,
+  UNGROUPED_FILTER_VALUE,
+} from "@/lib/search-query"
+
+interface SearchFilterBarProps {
+  query: string
+  onQueryChange: (query: string) => void
+  groups: { id: string; name: string }[]
+  tags?: { id: string; name: string }[]
+  actions?: ReactNode // 显示在标签栏右侧的操作按钮
+}
+
+// 只能有一个值的筛选条件，追加时替换已有条件
+const SINGLE_VALUE_KEYS: SearchFilterKey[] = ["before", "after"]
+
+// 本地日期，格式 YYYY-MM-DD
+const formatDateValue = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, "0")
+  const day = String(date.getDate()).padStart(2, "0")
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+const daysAgo = (days: number) => {
+  const date = new Date()
+  date.setDate(date.getDate() - days)
+  return formatDateValue(date)
+}
+
+/**
+ * SearchFilterBar - 搜索筛选标签栏
+ *
+ * 将查询文本中的筛选条件、短语和排除词显示为标签，删除标签或从菜单添加条件时
+ * 直接改写查询文本，文本与标签始终一致
+ */
+export function SearchFilterBar({ query, onQueryChange, groups, tags = [], actions }: SearchFilterBarProps) {
+  const tokens = useMemo(() => parseSearchQuery(query), [query])
+
+  // 普通关键词保留在输入框中，其他 token 显示为标签
+  const chips = useMemo(
+    () =>
+      tokens
+        .map((token, index) => ({ token, index }))
+        .filter(({ token }) => token.kind === "filter" || token.quoted || token.negated),
+    [tokens],
+  )
+
+  const removeToken = useCallback((index: number) => {
+    onQueryChange(serializeSearchQuery(tokens.filter((_, i) => i !== index)))
+  }, [tokens, onQueryChange])
+
+  const addTokens = useCallback((added: SearchToken[]) => {
+    const replacedKeys = added
+      .filter((token) => token.kind === "filter" && SINGLE_VALUE_KEYS.includes(token.key))
+      .map((token) => (token.kind === "filter" ? token.key : null))
+    const kept = tokens.filter((token) => {
+      if (token.kind !== "filter") return true
+      if (replacedKeys.includes(token.key)) return false
+      // 已存在相同条件时不重复添加
+      return !added.some((item) => serializeSearchQuery([item]) === serializeSearchQuery([token]))
+    })
+    const next = serializeSearchQuery([...kept, ...added])
+    // 末尾留空格，方便继续输入关键词
+    onQueryChange(`${next} `)
+  }, [tokens, onQueryChange])
+
+  const addFilter = useCallback((key: SearchFilterKey, value: string) => {
+    addTokens([createFilterToken(key, value)])
+  }, [addTokens])
+
+  const currentYear = new Date().getFullYear()
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 border-b px-3 py-2">
+      {chips.map(({ token, index }) => (
+        <span
+          key={`${index}-${serializeSearchQuery([token])}`}
+          title={token.kind === "filter" && token.error ? token.error : serializeSearchQuery([token])}
+          className={cn(
+            "inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs",
+            token.kind === "filter" && token.error
+              ? "border-destructive/50 text-destructive"
+              : token.negated
+                ? "border-border text-muted-foreground line-through decoration-muted-foreground/60"
+                : "border-border bg-muted/50 text-foreground",
+          )}
+        >
+          {describeSearchToken(token)}
+          <button
+            type="button"
+            className="opacity-60 hover:opacity-100"
+            aria-label="移除筛选条件"
+            onClick={() => removeToken(index)}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </span>
+      ))}
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs text-muted-foreground">
+            <SlidersHorizontal className="h-3 w-3 mr-1" />
+            筛选
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-44">
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>类型</DropdownMenuSubTrigger>
+            <DropdownMenuSubContent>
+              {SEARCH_TYPES.map((type) => (
+                <DropdownMenuItem key={type} onSelect={() => addFilter("type", type)}>
+                  {SEARCH_TYPE_LABELS[type]}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>分组</DropdownMenuSubTrigger>
+            <DropdownMenuSubContent className="max-h-64 overflow-y-auto">
+              <DropdownMenuItem onSelect={() => addFilter("group", UNGROUPED_FILTER_VALUE)}>
+                {UNGROUPED_FILTER_VALUE}
+              </DropdownMenuItem>
+              {groups.length > 0 && <DropdownMenuSeparator />}
+              {groups.map((group) => (
+                <DropdownMenuItem key={group.id} onSelect={() => addFilter("group", group.name)}>
+                  {group.name}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+
+          {tags.length > 0 && (
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger>标签</DropdownMenuSubTrigger>
+              <DropdownMenuSubContent className="max-h-64 overflow-y-auto">
+                {tags.map((tag) => (
+                  <DropdownMenuItem key={tag.id} onSelect={() => addFilter("tag", tag.name)}>
+                    #{tag.name}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+          )}
+
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>时间</DropdownMenuSubTrigger>
+            <DropdownMenuSubContent>
+              <DropdownMenuItem onSelect={() => addFilter("after", daysAgo(7))}>最近 7 天</DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => addFilter("after", daysAgo(30))}>最近 30 天</DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => addFilter("after", String(currentYear))}>今年</DropdownMenuItem>
+              <DropdownMenuItem
+                onSelect={() =>
+                  addTokens([
+                    createFilterToken("after", String(currentYear - 1)),
+                    createFilterToken("before", String(currentYear)),
+                  ])
+                }
+              >
+                去年
+              </DropdownMenuItem>
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => addFilter("has", "link")}>包含链接</DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {actions && <div className="ml-auto">{actions}</div>}
+    </div>
+  )
+}
@@ -9,20 +9,23 @@ import { useTime } from '@/hooks/use-time'
 import { useToast } from '@/hooks/use-toast'
 import { useMobile } from '@/hooks/use-mobile'
 import { htmlToText, isActualHtml } from '@/components/note-editor/NoteEditorState'
+import { getNote } from '@/app/actions/db-actions'
 import { cn } from '@/lib/utils'
 
+// 搜索接口只返回匹配片段和片段内的高亮区间，完整内容在复制、编辑、查看时按需加载
 interface Note {
   id: string
-  content: string
   title?: string
   user_id: string
   created_at: Date | string
   updated_at: Date | string
+  version?: number
+  snippet: string
+  highlights: [number, number][]
 }
 
 interface SearchResultNoteItemProps {
   note: Note
-  searchQuery?: string
   onSaveNote?: (id: string, content: string, title?: string) => Promise<any>
   onDeleteNote?: (id: string) => Promise<boolean>
   onClose?: () => void
@@ -33,14 +36,13 @@ interface SearchResultNoteItemProps {
  * SearchResultNoteItem - 搜索结果中的便签项组件
  * 
  * 职责：
- * - 显示搜索结果中的便签内容
+ * - 显示搜索结果中匹配位置附近的片段
  * - 支持复制、编辑、删除操作
- * - 支持搜索关键词高亮
+ * - 按服务端返回的区间高亮关键词
  * - 与主便签列表保持一致的交互体验
  */
 export function SearchResultNoteItem({
   note,
-  searchQuery,
   onSaveNote,
   onDeleteNote,
   onClose,
@@ -55,17 +57,48 @@ export function SearchResultNoteItem({
   const [editingContent, setEditingContent] = useState("")
   const [copiedNoteId, setCopiedNoteId] = useState<string | null>(null)
   const [isSaving, setIsSaving] = useState(false)
+  const [isLoadingContent, setIsLoadingContent] = useState(false)
   const editTextareaRef = useRef<HTMLTextAreaElement>(null)
 
+  // 加载便签完整内容（HTML 转为纯文本）
+  const loadFullContent = useCallback(async () => {
+    setIsLoadingContent(true)
+    try {
+      const fullNote = await getNote(Number(note.id), note.user_id)
+      if (!fullNote) {
+        toast({
+          title: "便签不存在",
+          description: "该便签可能已被删除",
+          variant: "destructive",
+        })
+        return null
+      }
+      return {
+        ...fullNote,
+        id: String(fullNote.id),
+        content: isActualHtml(fullNote.content) ? htmlToText(fullNote.content) : fullNote.content,
+      }
+    } catch (error) {
+      console.error("加载便签内容失败:", error)
+      toast({
+        title: "加载失败",
+        description: "网络错误，请稍后再试",
+        variant: "destructive",
+      })
+      return null
+    } finally {
+      setIsLoadingContent(false)
+    }
+  }, [note.id, note.user_id, toast])
+
   // 处理双击编辑
-  const handleDoubleClick = useCallback(() => {
+  const handleDoubleClick = useCallback(async () => {
+    if (isLoadingContent) return
+    const fullNote = await loadFullContent()
+    if (!fullNote) return
+
     setIsEditing(true)
-    
-    // 智能处理内容：如果是HTML格式则转换为纯文本
-    const contentForEdit = isActualHtml(note.content)
-      ? htmlToText(note.content)
-      : note.content
-    setEditingContent(contentForEdit)
+    setEditingContent(fullNote.content)
 
     // 延迟聚焦
     setTimeout(() => {
@@ -75,7 +108,7 @@ export function SearchResultNoteItem({
         editTextareaRef.current.setSelectionRange(length, length)
       }
     }, 100)
-  }, [note.content])
+  }, [isLoadingContent, loadFullContent])
 
   // 保存编辑
   const handleSaveEdit = useCallback(async () => {
@@ -141,31 +174,39 @@ export function SearchResultNoteItem({
   }, [handleSaveEdit, handleCancelEdit])
 
   // 处理复制
-  const handleCopyClick = useCallback((e: React.MouseEvent) => {
+  const handleCopyClick = useCallback(async (e: React.MouseEvent) => {
     e.stopPropagation()
-    
-    const textContent = isActualHtml(note.content)
-      ? htmlToText(note.content)
-      : note.content
+    if (!navigator.clipboard || !navigator.clipboard.writeText) return
 
-    if (navigator.clipboard && navigator.clipboard.writeText) {
-      navigator.clipboard.writeText(textContent).then(() => {
-        setCopiedNoteId(note.id)
-        toast({
-          title: "已复制到剪贴板",
-          description: "便签内容已成功复制",
-          duration: 2000,
-        })
-        setTimeout(() => setCopiedNoteId(null), 2000)
-      }).catch(() => {
-        toast({
-          title: "复制失败",
-          description: "无法复制内容到剪贴板",
-          variant: "destructive",
-        })
+    const fullNote = await loadFullContent()
+    if (!fullNote) return
+
+    navigator.clipboard.writeText(fullNote.content).then(() => {
+      setCopiedNoteId(note.id)
+      toast({
+        title: "已复制到剪贴板",
+        description: "便签内容已成功复制",
+        duration: 2000,
       })
-    }
-  }, [note.content, note.id, toast])
+      setTimeout(() => setCopiedNoteId(null), 2000)
+    }).catch(() => {
+      toast({
+        title: "复制失败",
+        description: "无法复制内容到剪贴板",
+        variant: "destructive",
+      })
+    })
+  }, [loadFullContent, note.id, toast])
+
+  // 在编辑器中查看完整内容
+  const handleViewClick = useCallback(async (e: React.MouseEvent) => {
+    e.stopPropagation()
+    const fullNote = await loadFullContent()
+    if (!fullNote) return
+
+    window.dispatchEvent(new CustomEvent('pwa-note:edit-note', { detail: fullNote }))
+    onClose?.()
+  }, [loadFullContent, onClose])
 
   // 处理删除
   const handleDeleteClick = useCallback((e: React.MouseEvent) => {
@@ -191,108 +232,32 @@ export function SearchResultNoteItem({
     handleDoubleClick()
   }, [handleDoubleClick])
 
-  // 格式化内容并高亮搜索关键词
-  const formatContentWithHighlight = useCallback((content: string) => {
-    const textContent = isActualHtml(content)
-      ? htmlToText(content)
-      : content
-
-    if (!searchQuery || !searchQuery.trim()) {
-      return { text: textContent, hasHighlight: false }
-    }
-
-    // 创建高亮版本的内容
-    const regex = new RegExp(`(${searchQuery.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})`, 'gi')
-    const parts = textContent.split(regex)
-
-    return {
-      text: textContent,
-      parts: parts,
-      hasHighlight: regex.test(textContent)
+  // 按高亮区间渲染片段
+  const renderSnippet = useCallback(() => {
+    const { snippet, highlights } = note
+    if (!highlights || highlights.length === 0) {
+      return snippet
     }
-  }, [searchQuery])
-
-  // 智能提取包含搜索关键词的内容片段
-  const getSmartPreview = useCallback((content: string, maxLength: number = 200) => {
-    const textContent = isActualHtml(content)
-      ? htmlToText(content)
-      : content
-
-    if (!searchQuery || !searchQuery.trim()) {
-      return textContent.length > maxLength
-        ? textContent.substring(0, maxLength) + "..."
-        : textContent
-    }
-
-    const query = searchQuery.trim().toLowerCase()
-    const lines = textContent.split('\n').filter(line => line.trim())
-
-    // 查找包含搜索关键词的行
-    const matchingLines = lines.filter(line =>
-      line.toLowerCase().includes(query)
-    )
-
-    if (matchingLines.length > 0) {
-      // 如果有匹配的行，尝试显示更多上下文
-      let preview = ''
 
-      // 如果只有一行匹配，尝试添加前后行作为上下文
-      if (matchingLines.length === 1) {
-        const matchingLine = matchingLines[0]
-        const matchIndex = lines.indexOf(matchingLine)
-
-        // 添加前一行（如果存在）
-        if (matchIndex > 0) {
-          preview += lines[matchIndex - 1] + '\n'
-        }
-
-        // 添加匹配行
-        preview += matchingLine
-
-        // 添加后一行（如果存在且总长度不超限）
-        if (matchIndex < lines.length - 1 && preview.length < maxLength * 0.7) {
-          preview += '\n' + lines[matchIndex + 1]
-        }
-      } else {
-        // 如果有多行匹配，显示前2行
-        preview = matchingLines.slice(0, 2).join('\n')
-      }
-
-      if (preview.length > maxLength) {
-        preview = preview.substring(0, maxLength) + "..."
+    const parts: React.ReactNode[] = []
+    let cursor = 0
+    highlights.forEach(([start, end], index) => {
+      if (start > cursor) {
+        parts.push(<span key={`text-${index}`}>{snippet.slice(cursor, start)}</span>)
       }
-      return preview
+      parts.push(
+        <mark key={`mark-${index}`} className="bg-yellow-200 dark:bg-yellow-800 px-0.5 rounded">
+          {snippet.slice(start, end)}
+        </mark>
+      )
+      cursor = end
+    })
+    if (cursor < snippet.length) {
+      parts.push(<span key="text-end">{snippet.slice(cursor)}</span>)
     }
 
-    // 如果没有匹配的行，显示开头内容
-    return textContent.length > maxLength
-      ? textContent.substring(0, maxLength) + "..."
-      : textContent
-  }, [searchQuery])
-
-  // 渲染高亮内容
-  const renderHighlightedContent = useCallback((content: string) => {
-    const result = formatContentWithHighlight(content)
-
-    if (!result.hasHighlight || !result.parts) {
-      return content
-    }
-
-    return (
-      <span>
-        {result.parts.map((part, index) => {
-          const isHighlight = searchQuery && part.toLowerCase().includes(searchQuery.toLowerCase())
-          return isHighlight ? (
-            <mark key={index} className="bg-yellow-200 dark:bg-yellow-800 px-0.5 rounded">
-              {part}
-            </mark>
-          ) : (
-            <span key={index}>{part}</span>
-          )
-        })}
-      </span>
-    )
-  }, [formatContentWithHighlight, searchQuery])
+    return <span>{parts}</span>
+  }, [note])
 
   // 获取显示的时间
   const displayTime = useCallback(() => {
@@ -302,8 +267,6 @@ export function SearchResultNoteItem({
     return getRelativeTime(date)
   }, [note.created_at, getRelativeTime])
 
-  const previewContent = getSmartPreview(note.content, 120)
-
   if (isEditing) {
     return (
       <div className={cn("p-2 border border-primary/20 bg-accent/30 rounded-lg", className)}>
@@ -373,7 +336,7 @@ export function SearchResultNoteItem({
       <div className="flex justify-between gap-2">
         <div className="flex-1 min-w-0">
           <div className="text-sm leading-relaxed text-foreground line-clamp-2 mb-2">
-            {renderHighlightedContent(previewContent)}
+            {renderSnippet()}
           </div>
           <div className="text-xs text-muted-foreground flex items-center gap-2 mt-1">
             <span>{displayTime()}</span>
@@ -404,11 +367,8 @@ export function SearchResultNoteItem({
                   variant="ghost"
                   size="icon"
                   className="h-8 w-8 text-muted-foreground hover:text-primary"
-                  onClick={(e) => {
-                    e.stopPropagation()
-                    window.dispatchEvent(new CustomEvent('pwa-note:edit-note', { detail: note }))
-                    onClose?.()
-                  }}
+                  disabled={isLoadingContent}
+                  onClick={handleViewClick}
                 >
                   <Eye style={{ width: '14px', height: '14px' }} />
                 </Button>
@@ -426,6 +386,7 @@ export function SearchResultNoteItem({
                   variant="ghost"
                   size="icon"
                   className="h-8 w-8 text-muted-foreground hover:text-primary"
+                  disabled={isLoadingContent}
                   onClick={handleCopyClick}
                 >
                   {copiedNoteId === note.id ? (
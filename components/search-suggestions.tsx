@@ -0,0 +1,136 @@
+"use client"
+
+import type { ReactNode } from "react"
+import { Bookmark, History, Pin, PinOff, X, Trash2 } from "lucide-react"
+import { CommandGroup, CommandItem } from "@/components/ui/command"
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
+
+interface SavedSearchSuggestion {
+  id: string
+  name: string
+  query: string
+  pinned: boolean
+}
+
+interface HistorySuggestion {
+  id: number
+  query: string
+}
+
+interface SearchSuggestionsProps {
+  savedSearches: SavedSearchSuggestion[]
+  history: HistorySuggestion[]
+  onSelectQuery: (query: string) => void
+  onTogglePin: (id: string, pinned: boolean) => void
+  onDeleteSavedSearch: (id: string) => void
+  onDeleteHistory: (id: number) => void
+  onClearHistory: () => void
+}
+
+// 列表项右侧的小图标按钮，点击时不触发列表项选择
+function ItemActionButton({
+  label,
+  onClick,
+  children,
+}: {
+  label: string
+  onClick: () => void
+  children: ReactNode
+}) {
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <button
+            type="button"
+            aria-label={label}
+            className="rounded p-1 text-muted-foreground opacity-60 hover:opacity-100 hover:text-foreground"
+            onClick={(e) => {
+              e.stopPropagation()
+              onClick()
+            }}
+          >
+            {children}
+          </button>
+        </TooltipTrigger>
+        <TooltipContent>
+          <p>{label}</p>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  )
+}
+
+/**
+ * SearchSuggestions - 搜索框为空时显示的已保存搜索和最近搜索
+ */
+export function SearchSuggestions({
+  savedSearches,
+  history,
+  onSelectQuery,
+  onTogglePin,
+  onDeleteSavedSearch,
+  onDeleteHistory,
+  onClearHistory,
+}: SearchSuggestionsProps) {
+  if (savedSearches.length === 0 && history.length === 0) {
+    return (
+      <div className="py-6 text-center text-sm text-muted-foreground">
+        输入关键词开始搜索，可使用上方的筛选条件
+      </div>
+    )
+  }
+
+  return (
+    <>
+      {savedSearches.length > 0 && (
+        <CommandGroup heading="已保存的搜索">
+          {savedSearches.map((item) => (
+            <CommandItem
+              key={`saved-${item.id}`}
+              value={`saved-${item.id}`}
+              onSelect={() => onSelectQuery(item.query)}
+            >
+              <Bookmark className="mr-2 h-4 w-4 text-blue-500" />
+              <div className="flex-1 min-w-0">
+                <div className="font-medium truncate">{item.name}</div>
+                <div className="text-xs text-muted-foreground truncate">{item.query}</div>
+              </div>
+              <ItemActionButton
+                label={item.pinned ? "取消固定" : "固定到便签分组"}
+                onClick={() => onTogglePin(item.id, !item.pinned)}
+              >
+                {item.pinned ? <PinOff className="h-3.5 w-3.5" /> : <Pin className="h-3.5 w-3.5" />}
+              </ItemActionButton>
+              <ItemActionButton label="删除" onClick={() => onDeleteSavedSearch(item.id)}>
+                <X className="h-3.5 w-3.5" />
+              </ItemActionButton>
+            </CommandItem>
+          ))}
+        </CommandGroup>
+      )}
+
+      {history.length > 0 && (
+        <CommandGroup heading="最近搜索">
+          {history.map((item) => (
+            <CommandItem
+              key={`history-${item.id}`}
+              value={`history-${item.id}`}
+              onSelect={() => onSelectQuery(item.query)}
+            >
+              <History className="mr-2 h-4 w-4 text-muted-foreground" />
+              <span className="flex-1 min-w-0 truncate">{item.query}</span>
+              <ItemActionButton label="从记录中移除" onClick={() => onDeleteHistory(item.id)}>
+                <X className="h-3.5 w-3.5" />
+              </ItemActionButton>
+            </CommandItem>
+          ))}
+          <CommandItem value="history-clear" onSelect={onClearHistory} className="text-muted-foreground">
+            <Trash2 className="mr-2 h-4 w-4" />
+            清除搜索记录
+          </CommandItem>
+        </CommandGroup>
+      )}
+    </>
+  )
+}
@@ -13,9 +13,17 @@ import {
 } from "@/components/ui/dialog"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
 import { useSettings } from "@/hooks/use-settings"
+import { usePushNotifications } from "@/hooks/use-push-notifications"
+import { useAccountExport } from "@/hooks/use-account-export"
+import { downloadBackup } from "@/lib/backup-client"
+import { BackupRestoreDialog } from "@/components/backup-restore-dialog"
+import { NoteImportDialog } from "@/components/note-import-dialog"
+import { Progress } from "@/components/ui/progress"
+import type { NoteRenderMode } from "@/components/settings-provider"
 import { useTheme } from "next-themes"
-import { Settings, Moon, Sun, Type, Cloud, CloudOff, Loader2, Shuffle, User } from "lucide-react"
+import { Settings, Moon, Sun, Type, Cloud, CloudOff, Loader2, Shuffle, User, Bell, Database, Download, FileJson, ArchiveRestore, FileUp } from "lucide-react"
 import { cn } from "@/lib/utils"
 import { useMobile } from "@/hooks/use-mobile"
 
@@ -41,6 +49,11 @@ export function SettingsDialog() {
   const prevSettingsRef = useRef(settings)
   const isMobile = useMobile()
   const { user } = useAuth()
+  const pushNotifications = usePushNotifications()
+  const accountExport = useAccountExport()
+  const [isDownloadingBackup, setIsDownloadingBackup] = useState(false)
+  const [restoreOpen, setRestoreOpen] = useState(false)
+  const [importOpen, setImportOpen] = useState(false)
 
   // 头像相关状态
   const [tempAvatarConfig, setTempAvatarConfig] = useState<AvatarConfig | null>(null)
@@ -106,6 +119,14 @@ export function SettingsDialog() {
     [],
   )
 
+  const noteRenderModeOptions = useMemo(
+    () => [
+      { value: "plain", label: "纯文本" },
+      { value: "markdown", label: "Markdown" },
+    ],
+    [],
+  )
+
   const syncIntervalOptions = useMemo(
     () => [
       { value: "0", label: "从不", shortLabel: "从不" },
@@ -146,6 +167,13 @@ export function SettingsDialog() {
     [updateSettings, applyFontSettings],
   )
 
+  const handleNoteRenderModeChange = useCallback(
+    (value: string) => {
+      updateSettings({ noteRenderMode: value as NoteRenderMode })
+    },
+    [updateSettings],
+  )
+
   const handleSyncIntervalChange = useCallback(
     (value: string) => {
       updateSettings({ syncInterval: Number.parseInt(value) as 0 | 5 | 10 | 30 | 60 | 300 | 600 })
@@ -153,6 +181,73 @@ export function SettingsDialog() {
     [updateSettings],
   )
 
+  const handlePushToggle = useCallback(
+    async (checked: boolean) => {
+      try {
+        if (checked) {
+          await pushNotifications.enable()
+          toast({ title: "已开启推送通知", description: "便签提醒会推送到这台设备", duration: 2000 })
+        } else {
+          await pushNotifications.disable()
+          toast({ title: "已关闭推送通知", duration: 2000 })
+        }
+      } catch (error) {
+        console.error("切换推送通知失败:", error)
+        toast({
+          title: checked ? "开启推送通知失败" : "关闭推送通知失败",
+          description: error instanceof Error ? error.message : "请稍后再试",
+          variant: "destructive",
+        })
+      }
+    },
+    [pushNotifications],
+  )
+
+  const handleSendTestPush = useCallback(async () => {
+    try {
+      const sent = await pushNotifications.sendTest()
+      toast({ title: "已发送测试通知", description: `已推送到 ${sent} 台设备`, duration: 2000 })
+    } catch (error) {
+      console.error("发送测试通知失败:", error)
+      toast({
+        title: "发送测试通知失败",
+        description: error instanceof Error ? error.message : "请稍后再试",
+        variant: "destructive",
+      })
+    }
+  }, [pushNotifications])
+
+  const handleExportAll = useCallback(async () => {
+    try {
+      await accountExport.exportAll()
+      toast({ title: "导出完成", description: "压缩包已开始下载", duration: 2000 })
+    } catch (error) {
+      console.error("导出全部数据失败:", error)
+      toast({
+        title: "导出失败",
+        description: error instanceof Error ? error.message : "请稍后再试",
+        variant: "destructive",
+      })
+    }
+  }, [accountExport])
+
+  const handleDownloadBackup = useCallback(async () => {
+    if (!user) return
+    setIsDownloadingBackup(true)
+    try {
+      await downloadBackup(user.id)
+    } catch (error) {
+      console.error("下载备份失败:", error)
+      toast({
+        title: "下载备份失败",
+        description: error instanceof Error ? error.message : "请稍后再试",
+        variant: "destructive",
+      })
+    } finally {
+      setIsDownloadingBackup(false)
+    }
+  }, [user])
+
   const handleThemeChange = useCallback(
     (value: string) => {
       setTheme(value)
@@ -813,6 +908,41 @@ export function SettingsDialog() {
                   </>
                 )}
               </div>
+
+              {/* 便签显示方式 */}
+              <div className={cn("grid items-center gap-3", isMobile ? "grid-cols-[auto_1fr]" : "grid-cols-4")}>
+                {isMobile ? (
+                  <>
+                    <Label htmlFor="noteRenderMode" className={cn("font-apply-target", isMobile ? "text-base" : "text-sm")}>便签显示</Label>
+                    <Select value={settings.noteRenderMode} onValueChange={handleNoteRenderModeChange}>
+                      <SelectTrigger id="noteRenderMode" className="h-8">
+                        <SelectValue placeholder="选择显示方式" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {noteRenderModeOptions.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </>
+                ) : (
+                  <>
+                    <Label htmlFor="noteRenderMode" className="text-right font-apply-target">
+                      便签显示
+                    </Label>
+                    <Select value={settings.noteRenderMode} onValueChange={handleNoteRenderModeChange}>
+                      <SelectTrigger id="noteRenderMode" className="col-span-3">
+                        <SelectValue placeholder="选择显示方式" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {noteRenderModeOptions.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </>
+                )}
+              </div>
             </div>
           </div>
 
@@ -861,7 +991,114 @@ export function SettingsDialog() {
                     </>
                   )}
                 </div>
+
+                {/* 推送通知（按设备开启） */}
+                <div className={cn("grid items-center gap-3", isMobile ? "grid-cols-[auto_1fr]" : "grid-cols-4")}>
+                  <Label
+                    htmlFor="push-notifications"
+                    className={cn("font-apply-target", isMobile ? "text-base" : "text-right text-sm")}
+                  >
+                    推送通知
+                  </Label>
+                  <div className={cn("flex items-center gap-2", !isMobile && "col-span-3")}>
+                    <Switch
+                      id="push-notifications"
+                      checked={pushNotifications.enabled}
+                      disabled={!pushNotifications.supported || pushNotifications.isUpdating}
+                      onCheckedChange={(checked) => void handlePushToggle(checked)}
+                    />
+                    {pushNotifications.isUpdating && <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />}
+                    {pushNotifications.enabled && !pushNotifications.isUpdating && (
+                      <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => void handleSendTestPush()}>
+                        <Bell className="h-3 w-3 mr-1" />
+                        发送测试
+                      </Button>
+                    )}
+                    <span className="text-xs text-muted-foreground">
+                      {!pushNotifications.supported
+                        ? "当前浏览器不支持"
+                        : pushNotifications.permission === "denied"
+                          ? "通知权限已被拒绝，请在浏览器设置中允许"
+                          : pushNotifications.enabled
+                            ? ""
+                            : "未开启时仅在应用打开时提醒"}
+                    </span>
+                  </div>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* 数据管理 */}
+          {user && (
+            <div className="space-y-3">
+              <div className="flex items-center gap-2">
+                <Database className="h-4 w-4 text-muted-foreground" />
+                <h3 className={cn("font-apply-target", isMobile ? "text-base" : "text-sm")}>数据管理</h3>
+              </div>
+              <div className="pl-4 space-y-2">
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-8 text-xs"
+                    disabled={accountExport.isExporting}
+                    onClick={() => void handleExportAll()}
+                  >
+                    {accountExport.isExporting ? (
+                      <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                    ) : (
+                      <Download className="h-3 w-3 mr-1" />
+                    )}
+                    导出全部数据
+                  </Button>
+                  <span className="text-xs text-muted-foreground">
+                    {accountExport.progress
+                      ? `正在导出，已下载 ${(accountExport.progress.receivedBytes / 1024 / 1024).toFixed(1)} MB`
+                      : "便签（Markdown）、链接和文件打包为 ZIP"}
+                  </span>
+                </div>
+                {accountExport.progress && (
+                  <Progress
+                    className="h-1.5"
+                    value={
+                      accountExport.progress.estimatedBytes > 0
+                        ? Math.min(99, (accountExport.progress.receivedBytes / accountExport.progress.estimatedBytes) * 100)
+                        : 0
+                    }
+                  />
+                )}
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-8 text-xs"
+                    disabled={isDownloadingBackup}
+                    onClick={() => void handleDownloadBackup()}
+                  >
+                    {isDownloadingBackup ? (
+                      <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                    ) : (
+                      <FileJson className="h-3 w-3 mr-1" />
+                    )}
+                    下载备份
+                  </Button>
+                  <Button variant="outline" size="sm" className="h-8 text-xs" onClick={() => setRestoreOpen(true)}>
+                    <ArchiveRestore className="h-3 w-3 mr-1" />
+                    从备份恢复
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">JSON 备份可导入其他部署，文件只保存地址</p>
+                <div className="flex items-center gap-2">
+                  <Button variant="outline" size="sm" className="h-8 text-xs" onClick={() => setImportOpen(true)}>
+                    <FileUp className="h-3 w-3 mr-1" />
+                    导入笔记
+                  </Button>
+                  <span className="text-xs text-muted-foreground">Google Keep、Evernote、Obsidian</span>
+                </div>
               </div>
+              <BackupRestoreDialog open={restoreOpen} onOpenChange={setRestoreOpen} />
+              <NoteImportDialog open={importOpen} onOpenChange={setImportOpen} />
             </div>
           )}
         </div>
@@ -21,11 +21,17 @@ export type FontFamily =
   | "zcool-qingke-huangyou"
 export type FontSize = "small" | "medium" | "large" | "x-large"
 export type SyncInterval = 0 | 5 | 10 | 30 | 60 | 300 | 600
+// 便签列表和查看时的显示方式：纯文本或渲染 Markdown
+export type NoteRenderMode = "plain" | "markdown"
+// 编辑器布局：仅编辑、编辑与预览分屏、仅预览
+export type EditorView = "edit" | "split" | "preview"
 
 export interface Settings {
   fontFamily: FontFamily
   fontSize: FontSize
   syncInterval: SyncInterval
+  noteRenderMode: NoteRenderMode
+  editorView: EditorView
 }
 
 interface SettingsContextType {
@@ -43,6 +49,8 @@ const defaultSettings: Settings = {
   fontFamily: "zcool-xiaowei",
   fontSize: "medium",
   syncInterval: 5,
+  noteRenderMode: "plain",
+  editorView: "edit",
 }
 
 export const SettingsContext = createContext<SettingsContextType>({
@@ -114,7 +122,8 @@ export function SettingsProvider({ children }: { children: React.ReactNode }) {
     const savedSettings = localStorage.getItem("appSettings")
     if (savedSettings) {
       try {
-        const parsedSettings = JSON.parse(savedSettings)
+        // 旧版本保存的设置可能缺少新增字段，用默认值补齐
+        const parsedSettings: Settings = { ...defaultSettings, ...JSON.parse(savedSettings) }
         console.log("从本地存储成功加载设置:", parsedSettings)
         return parsedSettings
       } catch (error) {
@@ -168,6 +177,8 @@ export function SettingsProvider({ children }: { children: React.ReactNode }) {
           fontFamily: serverSettings.font_family as FontFamily,
           fontSize: serverSettings.font_size as FontSize,
           syncInterval: serverSettings.sync_interval as SyncInterval,
+          noteRenderMode: (serverSettings.note_render_mode ?? defaultSettings.noteRenderMode) as NoteRenderMode,
+          editorView: (serverSettings.editor_view ?? defaultSettings.editorView) as EditorView,
         }
       } else {
         console.log("服务器上没有找到设置")
@@ -230,6 +241,8 @@ export function SettingsProvider({ children }: { children: React.ReactNode }) {
         font_family: settingsToSave.fontFamily,
         font_size: settingsToSave.fontSize,
         sync_interval: settingsToSave.syncInterval,
+        note_render_mode: settingsToSave.noteRenderMode,
+        editor_view: settingsToSave.editorView,
       })
       
       console.log("设置已成功保存到服务器")
@@ -0,0 +1,49 @@
+"use client"
+
+import { useEffect } from "react"
+import { useToast } from "@/hooks/use-toast"
+
+// 分享结果使用的查询参数（见 app/api/share-target/route.ts）
+const SHARE_PARAMS = ["share", "notes", "links", "files", "failed"]
+
+/**
+ * ShareTargetNotifier - 分享结果提示
+ *
+ * 其他应用分享内容后会重定向到 /?share=...，显示保存结果并从地址栏移除这些参数
+ */
+export function ShareTargetNotifier() {
+  const { toast } = useToast()
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search)
+    const share = params.get("share")
+    if (!share) return
+
+    const count = (name: string) => Number(params.get(name)) || 0
+    const failed = count("failed")
+
+    if (share === "done") {
+      const parts = [
+        count("notes") > 0 && `便签 ${count("notes")} 条`,
+        count("links") > 0 && `链接 ${count("links")} 个`,
+        count("files") > 0 && `文件 ${count("files")} 个`,
+      ].filter(Boolean)
+      toast({
+        title: "已保存分享内容",
+        description: `${parts.join("、")}${failed > 0 ? `，${failed} 项保存失败` : ""}`,
+      })
+    } else if (share === "login") {
+      toast({ title: "请先登录", description: "登录后重新分享即可保存", variant: "destructive" })
+    } else if (share === "empty") {
+      toast({ title: "没有可保存的内容", description: "分享的内容为空" })
+    } else {
+      toast({ title: "分享内容保存失败", description: "请稍后再试", variant: "destructive" })
+    }
+
+    SHARE_PARAMS.forEach((name) => params.delete(name))
+    const query = params.toString()
+    window.history.replaceState(null, "", `${window.location.pathname}${query ? `?${query}` : ""}${window.location.hash}`)
+  }, [toast])
+
+  return null
+}
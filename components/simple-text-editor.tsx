@@ -1,7 +1,15 @@
 "use client"
 
-import { useEffect, useRef, useCallback } from "react"
+import { useEffect, useRef, useCallback, useState } from "react"
+import { FileText } from "lucide-react"
 import { cn } from "@/lib/utils"
+import { getOpenWikiLink } from "@/lib/wiki-links"
+
+// [[ 链接自动补全的候选便签
+export interface LinkTargetSuggestion {
+  id: number | string
+  title: string
+}
 
 interface SimpleTextEditorProps {
   value: string
@@ -9,6 +17,47 @@ interface SimpleTextEditorProps {
   onSave?: () => void
   placeholder?: string
   className?: string
+  // 输入 [[ 后按标题搜索便签，不提供时不显示自动补全
+  onSearchLinkTargets?: (query: string) => Promise<LinkTargetSuggestion[]>
+}
+
+interface LinkCompletionState {
+  query: string
+  start: number // [[ 在文本中的位置
+  top: number // 候选列表相对编辑器的位置
+  left: number
+}
+
+// 影响文字排版的样式，用于复制到镜像元素中计算光标位置
+const MIRROR_STYLE_PROPERTIES = [
+  'boxSizing', 'width', 'paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft',
+  'borderTopWidth', 'borderRightWidth', 'borderBottomWidth', 'borderLeftWidth',
+  'fontFamily', 'fontSize', 'fontWeight', 'fontStyle', 'letterSpacing', 'lineHeight',
+  'textTransform', 'wordSpacing', 'tabSize',
+] as const
+
+// 计算 textarea 中某个字符位置的坐标（相对 textarea 左上角）
+function getCaretCoordinates(textarea: HTMLTextAreaElement, position: number): { top: number; left: number; height: number } {
+  const mirror = document.createElement('div')
+  const computed = window.getComputedStyle(textarea)
+  for (const property of MIRROR_STYLE_PROPERTIES) {
+    mirror.style[property] = computed[property]
+  }
+  mirror.style.position = 'absolute'
+  mirror.style.visibility = 'hidden'
+  mirror.style.whiteSpace = 'pre-wrap'
+  mirror.style.overflowWrap = 'break-word'
+  mirror.textContent = textarea.value.slice(0, position)
+
+  const marker = document.createElement('span')
+  marker.textContent = textarea.value.slice(position) || '.'
+  mirror.appendChild(marker)
+  document.body.appendChild(mirror)
+
+  const lineHeight = parseFloat(computed.lineHeight) || parseFloat(computed.fontSize) * 1.6
+  const coordinates = { top: marker.offsetTop, left: marker.offsetLeft, height: lineHeight }
+  document.body.removeChild(mirror)
+  return coordinates
 }
 
 /**
@@ -18,6 +67,7 @@ interface SimpleTextEditorProps {
  * - 提供纯文本编辑功能
  * - 支持自动高度调整
  * - 应用字体设置
+ * - 输入 [[ 时按标题补全便签链接
  * - 保持与富文本编辑器相同的接口
  */
 export function SimpleTextEditor({
@@ -25,9 +75,13 @@ export function SimpleTextEditor({
   onChange,
   onSave,
   placeholder = "点击此处开始输入",
-  className
+  className,
+  onSearchLinkTargets
 }: SimpleTextEditorProps) {
   const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const [linkCompletion, setLinkCompletion] = useState<LinkCompletionState | null>(null)
+  const [suggestions, setSuggestions] = useState<LinkTargetSuggestion[]>([])
+  const [activeIndex, setActiveIndex] = useState(0)
 
   // 自动调整高度 - textarea自适应内容，由父容器处理滚动
   const adjustHeight = useCallback(() => {
@@ -56,13 +110,106 @@ export function SimpleTextEditor({
     return () => window.removeEventListener('resize', handleResize)
   }, [adjustHeight])
 
+  // 检查光标前是否有未闭合的 [[，有则打开链接自动补全
+  const updateLinkCompletion = useCallback((textarea: HTMLTextAreaElement) => {
+    if (!onSearchLinkTargets || textarea.selectionStart !== textarea.selectionEnd) {
+      setLinkCompletion(null)
+      return
+    }
+
+    const openLink = getOpenWikiLink(textarea.value.slice(0, textarea.selectionStart))
+    if (!openLink) {
+      setLinkCompletion(null)
+      return
+    }
+
+    const caret = getCaretCoordinates(textarea, openLink.start)
+    setLinkCompletion({
+      query: openLink.query,
+      start: openLink.start,
+      top: textarea.offsetTop + caret.top + caret.height,
+      left: textarea.offsetLeft + caret.left,
+    })
+  }, [onSearchLinkTargets])
+
+  // 输入的标题变化时搜索候选便签（短暂防抖）
+  const completionQuery = linkCompletion?.query
+  useEffect(() => {
+    if (completionQuery === undefined || !onSearchLinkTargets) {
+      setSuggestions([])
+      return
+    }
+
+    let cancelled = false
+    const timer = setTimeout(() => {
+      onSearchLinkTargets(completionQuery)
+        .then((results) => {
+          if (cancelled) return
+          setSuggestions(results)
+          setActiveIndex(0)
+        })
+        .catch((error) => {
+          console.warn('搜索链接目标失败:', error)
+          if (!cancelled) setSuggestions([])
+        })
+    }, 150)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [completionQuery, onSearchLinkTargets])
+
+  // 用选中的便签标题补全 [[标题]]，光标移到链接之后
+  const insertLink = useCallback((title: string) => {
+    const textarea = textareaRef.current
+    if (!textarea || !linkCompletion) return
+
+    const caret = textarea.selectionStart
+    // 光标后已经有 ]] 时不重复添加
+    const end = value.startsWith(']]', caret) ? caret + 2 : caret
+    const link = `[[${title}]]`
+    const nextValue = value.slice(0, linkCompletion.start) + link + value.slice(end)
+    const nextCaret = linkCompletion.start + link.length
+
+    onChange(nextValue)
+    setLinkCompletion(null)
+    requestAnimationFrame(() => {
+      textarea.focus()
+      textarea.setSelectionRange(nextCaret, nextCaret)
+    })
+  }, [linkCompletion, onChange, value])
+
   // 处理输入变化
   const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     onChange(e.target.value)
+    updateLinkCompletion(e.target)
   }
 
   // 处理键盘事件
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // 链接自动补全打开时，方向键选择、回车或 Tab 确认、Esc 关闭
+    if (linkCompletion && !e.nativeEvent.isComposing) {
+      if (e.key === 'Escape') {
+        e.preventDefault()
+        setLinkCompletion(null)
+        return
+      }
+      if (suggestions.length > 0) {
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+          e.preventDefault()
+          const offset = e.key === 'ArrowDown' ? 1 : -1
+          setActiveIndex((index) => (index + offset + suggestions.length) % suggestions.length)
+          return
+        }
+        if (e.key === 'Enter' || e.key === 'Tab') {
+          e.preventDefault()
+          insertLink(suggestions[activeIndex]?.title ?? suggestions[0].title)
+          return
+        }
+      }
+    }
+
     // Ctrl+S 或 Cmd+S 保存（由父组件处理）
     if ((e.ctrlKey || e.metaKey) && e.key === 's') {
       e.preventDefault()
@@ -72,12 +219,14 @@ export function SimpleTextEditor({
   }
 
   return (
-    <div className={cn("w-full", className)}>
+    <div className={cn("relative w-full", className)}>
       <textarea
         ref={textareaRef}
         value={value}
         onChange={handleChange}
         onKeyDown={handleKeyDown}
+        onClick={(e) => updateLinkCompletion(e.currentTarget)}
+        onBlur={() => setLinkCompletion(null)}
         placeholder={placeholder}
         className={cn(
           // 基础样式
@@ -121,7 +270,38 @@ export function SimpleTextEditor({
         aria-label="便签内容编辑器"
         role="textbox"
         aria-multiline="true"
+        aria-autocomplete={onSearchLinkTargets ? "list" : undefined}
       />
+
+      {/* [[ 链接自动补全 */}
+      {linkCompletion && suggestions.length > 0 && (
+        <div
+          role="listbox"
+          aria-label="链接到便签"
+          className="absolute z-50 w-64 max-w-[calc(100%-2rem)] rounded-md border bg-popover p-1 text-popover-foreground shadow-md"
+          style={{ top: linkCompletion.top, left: Math.max(0, linkCompletion.left) }}
+        >
+          {suggestions.map((suggestion, index) => (
+            <button
+              key={suggestion.id}
+              type="button"
+              role="option"
+              aria-selected={index === activeIndex}
+              className={cn(
+                "flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-left text-sm",
+                index === activeIndex ? "bg-accent text-accent-foreground" : "hover:bg-accent/50"
+              )}
+              // 阻止按下时 textarea 失焦关闭列表
+              onMouseDown={(e) => e.preventDefault()}
+              onMouseEnter={() => setActiveIndex(index)}
+              onClick={() => insertLink(suggestion.title)}
+            >
+              <FileText className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+              <span className="truncate">{suggestion.title}</span>
+            </button>
+          ))}
+        </div>
+      )}
     </div>
   )
 }
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useMemo } from "react"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { useSync } from "@/hooks/use-sync"
 import { FileUploader } from "@/components/file-uploader"
@@ -8,14 +8,21 @@ import { FileGrid } from "@/components/file-grid"
 import { SyncStatus } from "@/components/sync-status"
 import { useMobile } from "@/hooks/use-mobile"
 import { cn } from "@/lib/utils"
-import { FileText, Image as ImageIcon, Link2, StickyNote, Cloud, CloudOff, MoreVertical, Plus, Sparkles, Loader2 } from "lucide-react"
+import { FileText, Image as ImageIcon, Link2, StickyNote, Cloud, CloudOff, MoreVertical, Plus, Sparkles, Loader2, Trash2, WifiOff, Search, PinOff, Hash, X, Star, FolderTree, Bell } from "lucide-react"
+import { isSavedSearchGroupId, parseSavedSearchGroupId, toSavedSearchGroupId } from "@/lib/search-query"
 import { LinksList } from "@/components/links-list"
 import { LinkForm } from "@/components/link-form"
+import { BookmarksActions } from "@/components/bookmarks-actions"
+import { TrashList } from "@/components/trash-list"
+import { TagSidebar } from "@/components/tag-sidebar"
+import { GroupTreeSidebar } from "@/components/group-tree-sidebar"
+import { UpcomingRemindersDialog } from "@/components/upcoming-reminders-dialog"
+import { buildGroupTree, flattenGroupTree } from "@/lib/group-tree"
 import { Button } from "@/components/ui/button"
 import { useToast } from "@/hooks/use-toast"
 import { VirtualNotesList } from "@/components/virtual-scroll/VirtualNotesList"
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectSeparator, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { DropdownMenu, DropdownMenuCheckboxItem, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
 import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { Input } from "@/components/ui/input"
 import {
@@ -46,14 +53,34 @@ export function SyncPanel({ onExpandChange }: SyncPanelProps) {
     selectedGroupId,
     setSelectedGroupId,
     createGroup,
+    renameGroup,
+    moveGroup,
     deleteGroup,
+    includeSubgroupNotes,
+    setIncludeSubgroupNotes,
     moveNoteToGroup,
+    setNotePinned,
+    setNoteStarred,
+    setNoteReminder,
+    resolveNoteLink,
+    savedSearches,
+    updateSavedSearch,
+    tags,
+    selectedTagId,
+    setSelectedTagId,
+    renameTag,
+    deleteTag,
+    addTagToNote,
+    removeTagFromNote,
     deleteNote,
     saveNote,
+    restoreNoteRevision,
     regenerateAllTitles,
     loadMoreNotesCursor,
     hasMoreNotes,
-    isLoadingMore
+    isLoadingMore,
+    outboxCounts,
+    isOfflineMode
   } = useSync()
   const [activeTab, setActiveTab] = useState("notes")
   const [showLinkForm, setShowLinkForm] = useState(false)
@@ -67,6 +94,9 @@ export function SyncPanel({ onExpandChange }: SyncPanelProps) {
   const [isRegenerateDialogOpen, setIsRegenerateDialogOpen] = useState(false)
   const [isRegeneratingTitles, setIsRegeneratingTitles] = useState(false)
   const [manualSyncRequested, setManualSyncRequested] = useState(false)
+  const [showTagSidebar, setShowTagSidebar] = useState(false)
+  const [showUpcomingReminders, setShowUpcomingReminders] = useState(false)
+  const [showGroupTree, setShowGroupTree] = useState(false)
 
   // 当展开状态变化时通知父组件
   useEffect(() => {
@@ -222,6 +252,15 @@ export function SyncPanel({ onExpandChange }: SyncPanelProps) {
 
 
 
+  // 固定到分组列表的已保存搜索
+  const pinnedSearches = savedSearches.filter((item) => item.pinned)
+  const selectedSavedSearchId = parseSavedSearchGroupId(selectedGroupId)
+  const selectedTag = selectedTagId ? tags.find((tag) => tag.id === selectedTagId) : undefined
+  // 分组下拉框按树的顺序显示，子分组缩进
+  const flatGroups = useMemo(() => flattenGroupTree(buildGroupTree(groups)), [groups])
+  const isConcreteGroupSelected = selectedGroupId !== "all" && selectedGroupId !== "ungrouped" &&
+    selectedGroupId !== "starred" && !isSavedSearchGroupId(selectedGroupId)
+
   // 使用虚拟滚动渲染便签列表（支持9999条便签）
   const renderNotes = () => {
     return (
@@ -234,14 +273,67 @@ export function SyncPanel({ onExpandChange }: SyncPanelProps) {
             <SelectContent>
               <SelectItem value="all">全部便签</SelectItem>
               <SelectItem value="ungrouped">未分组</SelectItem>
-              {groups.map((g) => (
+              <SelectItem value="starred">
+                <span className="flex items-center gap-1.5">
+                  <Star className="h-3 w-3 text-muted-foreground" />
+                  已收藏
+                </span>
+              </SelectItem>
+              {flatGroups.map((g) => (
                 <SelectItem key={g.id} value={g.id}>
-                  {g.name}
+                  <span style={{ paddingLeft: `${g.depth * 12}px` }}>{g.name}</span>
                 </SelectItem>
               ))}
+              {pinnedSearches.length > 0 && (
+                <>
+                  <SelectSeparator />
+                  <SelectGroup>
+                    <SelectLabel className="text-xs text-muted-foreground">已保存的搜索</SelectLabel>
+                    {pinnedSearches.map((item) => (
+                      <SelectItem key={item.id} value={toSavedSearchGroupId(item.id)}>
+                        <span className="flex items-center gap-1.5">
+                          <Search className="h-3 w-3 text-muted-foreground" />
+                          {item.name}
+                        </span>
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                </>
+              )}
             </SelectContent>
           </Select>
 
+          <Button
+            variant={showGroupTree ? "secondary" : "ghost"}
+            size="icon"
+            className="h-9 w-9 shrink-0"
+            onClick={() => setShowGroupTree((prev) => !prev)}
+            title="分组"
+          >
+            <FolderTree className="h-4 w-4" />
+          </Button>
+
+          <Button
+            variant={showTagSidebar || selectedTagId ? "secondary" : "ghost"}
+            size="icon"
+            className="h-9 w-9 shrink-0"
+            onClick={() => setShowTagSidebar((prev) => !prev)}
+            title="标签"
+          >
+            <Hash className="h-4 w-4" />
+          </Button>
+
+          <Button
+            variant={showUpcomingReminders ? "secondary" : "ghost"}
+            size="icon"
+            className="h-9 w-9 shrink-0"
+            onClick={() => setShowUpcomingReminders(true)}
+            title="即将到期"
+          >
+            <Bell className="h-4 w-4" />
+          </Button>
+          <UpcomingRemindersDialog open={showUpcomingReminders} onOpenChange={setShowUpcomingReminders} />
+
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <Button variant="ghost" size="icon" className="h-9 w-9">
@@ -259,7 +351,27 @@ export function SyncPanel({ onExpandChange }: SyncPanelProps) {
                 新建分组
               </DropdownMenuItem>
 
-              {selectedGroupId !== "all" && selectedGroupId !== "ungrouped" && (
+              {selectedSavedSearchId !== null && (
+                <DropdownMenuItem
+                  onClick={() => {
+                    updateSavedSearch(String(selectedSavedSearchId), { pinned: false })
+                  }}
+                >
+                  <PinOff className="mr-2 h-4 w-4" />
+                  取消固定此搜索
+                </DropdownMenuItem>
+              )}
+
+              {isConcreteGroupSelected && (
+                <DropdownMenuCheckboxItem
+                  checked={includeSubgroupNotes}
+                  onCheckedChange={(checked) => setIncludeSubgroupNotes(checked === true)}
+                >
+                  包含子分组的便签
+                </DropdownMenuCheckboxItem>
+              )}
+
+              {isConcreteGroupSelected && (
                 <DropdownMenuItem
                   className="text-destructive"
                   onClick={() => {
@@ -300,18 +412,68 @@ export function SyncPanel({ onExpandChange }: SyncPanelProps) {
           </Dialog>
         </div>
 
-        <div className="flex-1 min-h-0">
-          <VirtualNotesList
-            notes={notes}
-            onLoadMore={loadMoreNotesCursor}
-            hasMore={hasMoreNotes}
-            isLoading={isLoadingMore}
-            onDeleteNote={deleteNote}
-            onSaveNote={saveNote}
-            groups={groups}
-            onMoveNoteToGroup={moveNoteToGroup}
-            containerHeight={0} // 设为0，让组件自动计算高度
-          />
+        {selectedTag && !showTagSidebar && (
+          <div className="pb-2">
+            <span className="inline-flex items-center gap-1 rounded-full border bg-muted/50 px-2 py-0.5 text-xs">
+              #{selectedTag.name}
+              <button
+                type="button"
+                className="opacity-60 hover:opacity-100"
+                aria-label="取消标签筛选"
+                onClick={() => setSelectedTagId(null)}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          </div>
+        )}
+
+        <div className="flex-1 min-h-0 flex gap-2">
+          {showGroupTree && (
+            <GroupTreeSidebar
+              className="w-36 shrink-0 border-r pr-1"
+              groups={groups}
+              selectedGroupId={selectedGroupId}
+              onSelectGroup={setSelectedGroupId}
+              onCreateGroup={createGroup}
+              onRenameGroup={renameGroup}
+              onDeleteGroup={deleteGroup}
+              onMoveGroup={moveGroup}
+              onMoveNoteToGroup={moveNoteToGroup}
+            />
+          )}
+          {showTagSidebar && (
+            <TagSidebar
+              className="w-28 shrink-0 border-r pr-1"
+              tags={tags}
+              selectedTagId={selectedTagId}
+              onSelectTag={setSelectedTagId}
+              onRenameTag={renameTag}
+              onDeleteTag={deleteTag}
+            />
+          )}
+          <div className="flex-1 min-w-0">
+            <VirtualNotesList
+              notes={notes}
+              onLoadMore={loadMoreNotesCursor}
+              hasMore={hasMoreNotes}
+              isLoading={isLoadingMore}
+              onDeleteNote={deleteNote}
+              onSaveNote={saveNote}
+              groups={groups}
+              onMoveNoteToGroup={moveNoteToGroup}
+              onRestoreNoteRevision={restoreNoteRevision}
+              tags={tags}
+              onAddNoteTag={addTagToNote}
+              onRemoveNoteTag={removeTagFromNote}
+              onSelectTag={setSelectedTagId}
+              onSetNotePinned={setNotePinned}
+              onSetNoteStarred={setNoteStarred}
+              onSetNoteReminder={setNoteReminder}
+              onResolveNoteLink={resolveNoteLink}
+              containerHeight={0} // 设为0，让组件自动计算高度
+            />
+          </div>
         </div>
       </div>
     )
@@ -334,6 +496,15 @@ export function SyncPanel({ onExpandChange }: SyncPanelProps) {
           <span className="font-medium text-xl">
             同步面板
           </span>
+          {isOfflineMode && (
+            <span
+              className="ml-2 inline-flex items-center gap-1 rounded-full bg-muted px-2 py-0.5 text-xs text-muted-foreground"
+              title="网络不可用，正在显示本地缓存的数据，修改会在联网后自动同步"
+            >
+              <WifiOff className="h-3 w-3" />
+              离线模式
+            </span>
+          )}
         </div>
         <div className="flex items-center gap-2">
           {isMobile ? (
@@ -391,6 +562,8 @@ export function SyncPanel({ onExpandChange }: SyncPanelProps) {
                 lastSyncTime={lastSync}
                 isEnabled={isSyncEnabled}
                 onToggle={toggleSync}
+                pendingCount={outboxCounts.pending}
+                failedCount={outboxCounts.failed}
               />
             </>
           )}
@@ -466,6 +639,14 @@ export function SyncPanel({ onExpandChange }: SyncPanelProps) {
                   <Link2 className="h-4 w-4 mr-1" />
                   <span className="font-apply-target">链接</span>
                 </TabsTrigger>
+                <TabsTrigger value="trash" className={cn(
+                  "rounded-md font-normal",
+                  "text-base sm:text-sm lg:text-base",
+                  isMobile ? "px-2 py-1" : "px-1 sm:px-2 lg:px-4"
+                )}>
+                  <Trash2 className="h-4 w-4 mr-1" />
+                  <span className="font-apply-target">回收站</span>
+                </TabsTrigger>
               </TabsList>
 
               <div className="flex-1 relative">
@@ -514,9 +695,16 @@ export function SyncPanel({ onExpandChange }: SyncPanelProps) {
                         <LinkForm onComplete={() => setShowLinkForm(false)} />
                       </div>
                     )}
+                    <BookmarksActions />
                     <LinksList />
                   </div>
                 </TabsContent>
+
+                <TabsContent value="trash" className="absolute inset-0 py-0 mt-0 overflow-auto">
+                  <div className="p-3">
+                    <TrashList />
+                  </div>
+                </TabsContent>
               </div>
             </Tabs>
           </div>
@@ -15,12 +15,20 @@ import {
   getNotes as getNotesAction,
   createNote as createNoteAction,
   updateNote as updateNoteAction,
+  updateNoteWithVersion as updateNoteWithVersionAction,
   deleteNote as deleteNoteAction,
   regenerateAllNoteTitles as regenerateAllNoteTitlesAction,
+  restoreNoteRevision as restoreNoteRevisionAction,
   getGroups as getGroupsAction,
   createGroup as createGroupAction,
+  renameGroup as renameGroupAction,
+  moveGroup as moveGroupAction,
   deleteGroup as deleteGroupAction,
   moveNoteToGroup as moveNoteToGroupAction,
+  setNotePinned as setNotePinnedAction,
+  setNoteStarred as setNoteStarredAction,
+  setNoteReminder as setNoteReminderAction,
+  resolveNoteLink as resolveNoteLinkAction,
   getLinks as getLinksAction,
   createLink as createLinkAction,
   deleteLink as deleteLinkAction,
@@ -28,11 +36,47 @@ import {
 
   deleteFile as deleteFileAction,
   updateFileName as updateFileNameAction,
+  restoreNote as restoreNoteAction,
+  restoreLink as restoreLinkAction,
+  restoreFile as restoreFileAction,
+  getSavedSearches as getSavedSearchesAction,
+  createSavedSearch as createSavedSearchAction,
+  updateSavedSearch as updateSavedSearchAction,
+  deleteSavedSearch as deleteSavedSearchAction,
+  getTags as getTagsAction,
+  renameTag as renameTagAction,
+  deleteTag as deleteTagAction,
+  addNoteTag as addNoteTagAction,
+  removeNoteTag as removeNoteTagAction,
   Note as DbNote,
+  NoteTag,
+  Tag as DbTag,
   Group as DbGroup,
   Link as DbLink,
-  File as DbFile
+  File as DbFile,
+  SavedSearch as DbSavedSearch
 } from "@/app/actions/db-actions"
+import type { TrashItemType } from "@/lib/trash"
+import { isOfflineDbSupported } from "@/lib/offline-db"
+import { saveOfflineCache, loadOfflineCache, clearOfflineCache } from "@/lib/offline-cache"
+import {
+  enqueueOperation,
+  getOutboxEntries,
+  getOutboxEntry,
+  removeOutboxEntry,
+  markOutboxEntryFailed,
+  retryFailedEntries,
+  remapOutboxIds,
+  getOutboxCounts,
+  getOutboxLockName,
+  registerOutboxSync,
+  isNetworkError,
+  isTempId,
+  OutboxOperation,
+  OutboxCounts,
+} from "@/lib/offline-queue"
+import { isSavedSearchGroupId, toSavedSearchGroupId } from "@/lib/search-query"
+import { compareGroups, getGroupSubtreeIds } from "@/lib/group-tree"
 
 // Client-side types that match DB types but with string IDs for easier handling
 type Note = {
@@ -43,21 +87,61 @@ type Note = {
   group_id: number | null
   created_at: Date
   updated_at: Date
+  version?: number
+  pinned?: boolean
+  starred?: boolean
+  remind_at?: Date | string | null // 提醒时间，离线缓存中为字符串
+  tags?: NoteTag[]
+}
+
+// 编辑开始时便签的状态，保存时据此检测并发修改并作为三方合并的共同祖先
+type NoteEditBase = {
+  version: number
+  content: string
+  title: string
+}
+
+// 保存时发现便签已在其他设备被修改
+type NoteConflict = {
+  noteId: string
+  base: NoteEditBase
+  mine: { content: string; title: string }
+  server: Note
 }
 
 type Group = {
   id: string
   user_id: string
   name: string
+  parent_id: string | null // 上级分组，离线新建的分组可能是临时ID
+  sort_order: number
+  created_at: Date
+  updated_at: Date
+}
+
+// 已保存的搜索，pinned 的以虚拟分组（search:ID）显示在便签分组列表中
+type SavedSearch = {
+  id: string
+  name: string
+  query: string
+  pinned: boolean
   created_at: Date
   updated_at: Date
 }
 
+// 标签及其便签数量
+type Tag = {
+  id: string
+  name: string
+  note_count: number
+}
+
 type Link = {
   id: string
   url: string
   title: string
   user_id: string
+  group_id?: number | null
   created_at: Date
 }
 
@@ -81,7 +165,24 @@ const mapDbNoteToNote = (dbNote: DbNote): Note => ({
 
 const mapDbGroupToGroup = (dbGroup: DbGroup): Group => ({
   ...dbGroup,
-  id: String(dbGroup.id)
+  id: String(dbGroup.id),
+  parent_id: dbGroup.parent_id === null || dbGroup.parent_id === undefined ? null : String(dbGroup.parent_id),
+  sort_order: dbGroup.sort_order ?? 0,
+})
+
+const mapDbSavedSearchToSavedSearch = (dbSavedSearch: DbSavedSearch): SavedSearch => ({
+  id: String(dbSavedSearch.id),
+  name: dbSavedSearch.name,
+  query: dbSavedSearch.query,
+  pinned: dbSavedSearch.pinned,
+  created_at: new Date(dbSavedSearch.created_at),
+  updated_at: new Date(dbSavedSearch.updated_at),
+})
+
+const mapDbTagToTag = (dbTag: DbTag): Tag => ({
+  id: String(dbTag.id),
+  name: dbTag.name,
+  note_count: dbTag.note_count,
 })
 
 const mapDbLinkToLink = (dbLink: DbLink): Link => ({
@@ -95,6 +196,91 @@ const mapDbFileToFile = (dbFile: DbFile): File => ({
   thumbnail: dbFile.thumbnail || undefined
 })
 
+// 增量同步接口返回的是 JSON，日期字段需要还原为 Date
+const parseSyncedNote = (row: any): Note => mapDbNoteToNote({
+  ...row,
+  created_at: new Date(row.created_at),
+  updated_at: new Date(row.updated_at),
+})
+
+const parseSyncedGroup = (row: any): Group => mapDbGroupToGroup({
+  ...row,
+  created_at: new Date(row.created_at),
+  updated_at: new Date(row.updated_at),
+})
+
+const parseSyncedLink = (row: any): Link => mapDbLinkToLink({
+  ...row,
+  created_at: new Date(row.created_at),
+})
+
+const parseSyncedFile = (row: any): File => mapDbFileToFile({
+  ...row,
+  uploaded_at: new Date(row.uploaded_at),
+})
+
+// 不对应具体分组的视图：全部、已收藏和已保存的搜索（在这些视图中新建的便签不归入任何分组）
+const isVirtualGroupView = (selectedGroupId: string) =>
+  selectedGroupId === "all" || selectedGroupId === "starred" || isSavedSearchGroupId(selectedGroupId)
+
+// 包含子分组便签时，当前分组及其子孙分组的ID；其他视图返回 null
+const getGroupScope = (groups: Group[], selectedGroupId: string, includeSubgroups: boolean) =>
+  includeSubgroups && !isVirtualGroupView(selectedGroupId) && selectedGroupId !== "ungrouped"
+    ? getGroupSubtreeIds(groups, selectedGroupId)
+    : null
+
+// 判断便签是否属于当前选中的分组视图（已保存搜索的条件只能在服务端判断，客户端视为属于）
+const noteMatchesGroup = (
+  note: Pick<Note, "group_id" | "starred">,
+  selectedGroupId: string,
+  groupScope: Set<string> | null = null,
+) => {
+  if (selectedGroupId === "starred") return note.starred === true
+  if (selectedGroupId === "all" || isSavedSearchGroupId(selectedGroupId)) return true
+  if (selectedGroupId === "ungrouped") return note.group_id === null
+  return groupScope ? note.group_id !== null && groupScope.has(String(note.group_id)) : String(note.group_id) === selectedGroupId
+}
+
+// 便签列表排序：置顶的在前，其余按创建时间倒序，与服务端 ORDER BY pinned DESC, created_at DESC, id DESC 一致
+const compareNotes = (a: Note, b: Note) => {
+  if (Boolean(a.pinned) !== Boolean(b.pinned)) return a.pinned ? -1 : 1
+  const timeDiff = new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+  if (timeDiff !== 0) return timeDiff
+  return (parseInt(b.id, 10) || 0) - (parseInt(a.id, 10) || 0)
+}
+
+// 判断便签是否带有当前筛选的标签（未筛选时都符合）
+const noteMatchesTag = (tags: NoteTag[] | undefined, selectedTagId: string | null) =>
+  selectedTagId === null || (tags ?? []).some((tag) => String(tag.id) === selectedTagId)
+
+// 离线缓存键：包含子分组和标签筛选是分组视图之上的附加条件
+const getNotesScope = (selectedGroupId: string, selectedTagId: string | null, includeSubgroups: boolean = false) => {
+  const groupScope = includeSubgroups && !isVirtualGroupView(selectedGroupId) && selectedGroupId !== "ungrouped"
+    ? `${selectedGroupId}+sub`
+    : selectedGroupId
+  return selectedTagId === null ? groupScope : `${groupScope}#tag:${selectedTagId}`
+}
+
+// 比较两组标签是否相同（用于判断保存后是否需要刷新标签计数）
+const sameNoteTags = (a: NoteTag[] | undefined, b: NoteTag[] | undefined) => {
+  const ids = (tags: NoteTag[] | undefined) => (tags ?? []).map((tag) => tag.id).sort((x, y) => x - y).join(",")
+  return ids(a) === ids(b)
+}
+
+// 按ID合并增量变更：删除墓碑、替换已有记录、追加新记录
+function mergeById<T extends { id: string }>(prev: T[], upserted: T[], deletedIds: (string | number)[]): T[] {
+  const deleted = new Set(deletedIds.map(String))
+  const updates = new Map(upserted.map((item) => [item.id, item]))
+  const next = prev
+    .filter((item) => !deleted.has(item.id))
+    .map((item) => {
+      const updated = updates.get(item.id)
+      if (updated) updates.delete(item.id)
+      return updated ?? item
+    })
+  return [...next, ...updates.values()]
+}
+
 type SyncStatus = "idle" | "syncing" | "error" | "success"
 
 interface SyncContextType {
@@ -104,14 +290,37 @@ interface SyncContextType {
   groups: Group[]
   selectedGroupId: string
   setSelectedGroupId: (groupId: string) => void
-  createGroup: (name: string) => Promise<Group | null>
+  createGroup: (name: string, parentId?: string | null) => Promise<Group | null>
+  renameGroup: (id: string, name: string) => Promise<boolean>
+  moveGroup: (id: string, parentId: string | null, index: number) => Promise<boolean>
   deleteGroup: (id: string) => Promise<boolean>
+  includeSubgroupNotes: boolean // 选中具体分组时是否同时显示子孙分组中的便签
+  setIncludeSubgroupNotes: (include: boolean) => void
   moveNoteToGroup: (noteId: string, groupId: string) => Promise<boolean>
+  setNotePinned: (noteId: string, pinned: boolean) => Promise<boolean>
+  setNoteStarred: (noteId: string, starred: boolean) => Promise<boolean>
+  resolveNoteLink: (sourceNoteId: string, title: string) => Promise<Note | null> // 查找 [[标题]] 链接指向的便签
+  setNoteReminder: (noteId: string, remindAt: Date | null) => Promise<boolean>
+  savedSearches: SavedSearch[]
+  refreshSavedSearches: () => Promise<void>
+  saveSearch: (name: string, query: string, pinned?: boolean) => Promise<SavedSearch | null>
+  updateSavedSearch: (id: string, changes: { name?: string; query?: string; pinned?: boolean }) => Promise<boolean>
+  deleteSavedSearch: (id: string) => Promise<boolean>
+  tags: Tag[]
+  selectedTagId: string | null
+  setSelectedTagId: (tagId: string | null) => void
+  refreshTags: () => Promise<void>
+  renameTag: (id: string, name: string) => Promise<boolean>
+  deleteTag: (id: string) => Promise<boolean>
+  addTagToNote: (noteId: string, name: string) => Promise<boolean>
+  removeTagFromNote: (noteId: string, tagId: string) => Promise<boolean>
   links: Link[]
   files: File[]
   user: { id: string; username: string; avatar?: string; avatarConfig?: any; dbAvatarConfig?: any; deviceInfo?: any } | null
   sync: (silent?: boolean) => Promise<void>
-  saveNote: (id: string, content: string, title?: string) => Promise<Note | null>
+  saveNote: (id: string, content: string, title?: string, base?: NoteEditBase) => Promise<Note | null>
+  noteConflict: NoteConflict | null
+  resolveNoteConflict: (content: string | null) => Promise<Note | null>
   deleteNote: (id: string) => Promise<boolean>
   saveLink: (url: string, title?: string) => Promise<Link | null>
   deleteLink: (id: string) => Promise<boolean>
@@ -119,6 +328,10 @@ interface SyncContextType {
   deleteFile: (id: string) => Promise<boolean>
   renameFile: (id: string, newName: string) => Promise<boolean>
   regenerateAllTitles: () => Promise<{ updated: number } | null>
+  restoreNoteRevision: (noteId: string, revisionId: number) => Promise<Note | null>
+  restoreFromTrash: (type: TrashItemType, id: string) => Promise<boolean>
+  outboxCounts: OutboxCounts
+  isOfflineMode: boolean // 网络不可用，正在显示本地缓存的数据
   isInitialized: boolean
   loadMoreNotes: () => Promise<boolean>
   loadMoreNotesCursor: () => Promise<boolean>
@@ -148,8 +361,20 @@ export function SyncProvider({ children }: { children: React.ReactNode }) {
   const [files, setFiles] = useState<File[]>([])
   const [notes, setNotes] = useState<Note[]>([])
   const [groups, setGroups] = useState<Group[]>([])
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([])
+  // 已保存搜索视图无法在客户端合并增量变更，递增后重新加载当前视图
+  const [notesReloadKey, setNotesReloadKey] = useState(0)
   const [selectedGroupId, setSelectedGroupId] = useState<string>("all")
+  const [includeSubgroupNotes, setIncludeSubgroupNotes] = useState(false)
+  // 分组切换时的离线缓存筛选需要最新的分组列表，但分组变化本身不应触发重新加载
+  const groupsRef = useRef<Group[]>([])
+  groupsRef.current = groups
+  const [tags, setTags] = useState<Tag[]>([])
+  const [selectedTagId, setSelectedTagId] = useState<string | null>(null)
+  const [noteConflict, setNoteConflict] = useState<NoteConflict | null>(null)
   const [links, setLinks] = useState<Link[]>([])
+  const [outboxCounts, setOutboxCounts] = useState<OutboxCounts>({ pending: 0, failed: 0 })
+  const [isOfflineMode, setIsOfflineMode] = useState(false)
 
   // 安全的设置便签函数，确保没有重复ID
   const setNotesWithDeduplication = useCallback((newNotes: Note[]) => {
@@ -163,23 +388,150 @@ export function SyncProvider({ children }: { children: React.ReactNode }) {
     setNotes(uniqueNotes)
   }, [])
 
-  const createGroup = async (name: string): Promise<Group | null> => {
+  // 刷新离线队列中待同步和失败的操作数量
+  const refreshOutboxCounts = useCallback(async () => {
+    if (!user?.id || !isOfflineDbSupported()) {
+      setOutboxCounts({ pending: 0, failed: 0 })
+      return
+    }
+    try {
+      setOutboxCounts(await getOutboxCounts(user.id))
+    } catch (error) {
+      console.warn("读取离线队列失败:", error)
+    }
+  }, [user?.id])
+
+  const shouldQueueOffline = () => isOfflineDbSupported() && !navigator.onLine
+
+  // 写入离线队列，网络恢复后由 handlePendingOperations 回放；页面已关闭时由 Service Worker 后台同步回放
+  const queueOperation = async (operation: OutboxOperation): Promise<boolean> => {
+    if (!user || !isOfflineDbSupported()) return false
+    try {
+      await enqueueOperation(user.id, operation)
+      console.log("📥 离线操作已加入同步队列:", operation.type)
+      void registerOutboxSync()
+      void refreshOutboxCounts()
+      return true
+    } catch (error) {
+      console.error("❌ 写入离线队列失败", error)
+      return false
+    }
+  }
+
+  const createGroup = async (name: string, parentId: string | null = null): Promise<Group | null> => {
     if (!user) return null
     const trimmed = name.trim()
     if (!trimmed) return null
 
+    // 离线时用临时ID创建分组，网络恢复后回放
+    const createGroupOffline = async (): Promise<Group | null> => {
+      const now = new Date()
+      const siblingOrders = groups.filter((g) => g.parent_id === parentId).map((g) => g.sort_order)
+      const tempGroup: Group = {
+        id: `temp_${Date.now()}`,
+        user_id: user.id,
+        name: trimmed,
+        parent_id: parentId,
+        sort_order: siblingOrders.length > 0 ? Math.max(...siblingOrders) + 1 : 0,
+        created_at: now,
+        updated_at: now,
+      }
+      const queued = await queueOperation({ type: "createGroup", tempId: tempGroup.id, name: trimmed, parentId })
+      if (!queued) return null
+      setGroups((prev) => [...prev, tempGroup])
+      return tempGroup
+    }
+
+    if (shouldQueueOffline() || isTempId(parentId)) {
+      return createGroupOffline()
+    }
+
+    const parentNumId = parentId === null ? null : parseInt(parentId, 10)
+    if (Number.isNaN(parentNumId)) return null
+
     try {
-      const created = await createGroupAction(user.id, trimmed)
+      const created = await createGroupAction(user.id, trimmed, parentNumId)
       const clientGroup = mapDbGroupToGroup(created)
       setGroups((prev) => [...prev, clientGroup])
       broadcastUpdate()
       return clientGroup
     } catch (error) {
+      if (isNetworkError(error) && isOfflineDbSupported()) {
+        return createGroupOffline()
+      }
       console.error("❌ 创建分组失败", error)
       return null
     }
   }
 
+  const renameGroup = async (id: string, name: string): Promise<boolean> => {
+    if (!user) return false
+    const trimmed = name.trim()
+    const numId = parseInt(id, 10)
+    if (!trimmed || Number.isNaN(numId)) return false
+
+    try {
+      const renamed = mapDbGroupToGroup(await renameGroupAction(numId, user.id, trimmed))
+      setGroups((prev) => prev.map((g) => (g.id === renamed.id ? renamed : g)))
+      broadcastUpdate()
+      return true
+    } catch (error) {
+      console.error("❌ 重命名分组失败", error)
+      return false
+    }
+  }
+
+  /**
+   * 移动分组到 parentId 下（null 为顶层）的第 index 位
+   * 乐观更新同级分组的排序，离线时排队
+   */
+  const moveGroup = async (id: string, parentId: string | null, index: number): Promise<boolean> => {
+    if (!user) return false
+    if (parentId !== null && getGroupSubtreeIds(groups, id).has(parentId)) return false
+
+    const originalGroups = [...groups]
+    const siblings = groups
+      .filter((g) => g.parent_id === parentId && g.id !== id)
+      .sort(compareGroups)
+      .map((g) => g.id)
+    siblings.splice(Math.max(0, Math.min(index, siblings.length)), 0, id)
+    const orders = new Map(siblings.map((groupId, order) => [groupId, order]))
+
+    setGroups((prev) =>
+      prev
+        .map((g) => {
+          const order = orders.get(g.id)
+          if (order === undefined) return g
+          return { ...g, sort_order: order, parent_id: g.id === id ? parentId : g.parent_id }
+        })
+        .sort(compareGroups)
+    )
+
+    broadcastUpdate()
+
+    const queueMove = () => queueOperation({ type: "moveGroup", groupId: id, parentId, index })
+
+    if (shouldQueueOffline() || isTempId(id) || isTempId(parentId)) {
+      if (await queueMove()) return true
+      setGroups(originalGroups)
+      return false
+    }
+
+    try {
+      const updated = (await moveGroupAction(parseInt(id, 10), user.id, parentId === null ? null : parseInt(parentId, 10), index))
+        .map(mapDbGroupToGroup)
+      setGroups((prev) => mergeById(prev, updated, []).sort(compareGroups))
+      return true
+    } catch (error) {
+      if (isNetworkError(error) && await queueMove()) {
+        return true
+      }
+      console.error("❌ 移动分组失败", error)
+      setGroups(originalGroups)
+      return false
+    }
+  }
+
   const deleteGroup = async (id: string): Promise<boolean> => {
     if (!user) return false
 
@@ -188,7 +540,13 @@ export function SyncProvider({ children }: { children: React.ReactNode }) {
 
     try {
       await deleteGroupAction(numId, user.id)
-      setGroups((prev) => prev.filter((g) => g.id !== id))
+      // 与服务端一致：子分组移到被删除分组的上级
+      setGroups((prev) => {
+        const parentId = prev.find((g) => g.id === id)?.parent_id ?? null
+        return prev
+          .filter((g) => g.id !== id)
+          .map((g) => (g.parent_id === id ? { ...g, parent_id: parentId } : g))
+      })
 
       if (selectedGroupId === id) {
         setSelectedGroupId("all")
@@ -202,29 +560,216 @@ export function SyncProvider({ children }: { children: React.ReactNode }) {
     }
   }
 
+  const refreshSavedSearches = useCallback(async () => {
+    if (!user?.id) return
+    try {
+      const data = await getSavedSearchesAction(user.id)
+      setSavedSearches(data.map(mapDbSavedSearchToSavedSearch))
+    } catch (error) {
+      console.error("❌ 加载已保存的搜索失败", error)
+    }
+  }, [user?.id])
+
+  useEffect(() => {
+    refreshSavedSearches()
+  }, [refreshSavedSearches])
+
+  const saveSearch = async (name: string, query: string, pinned: boolean = false): Promise<SavedSearch | null> => {
+    if (!user) return null
+
+    try {
+      const created = mapDbSavedSearchToSavedSearch(await createSavedSearchAction(user.id, name, query, pinned))
+      setSavedSearches((prev) => [...prev, created])
+      return created
+    } catch (error) {
+      console.error("❌ 保存搜索失败", error)
+      return null
+    }
+  }
+
+  const updateSavedSearch = async (
+    id: string,
+    changes: { name?: string; query?: string; pinned?: boolean },
+  ): Promise<boolean> => {
+    if (!user) return false
+
+    const numId = parseInt(id, 10)
+    if (Number.isNaN(numId)) return false
+
+    try {
+      const updated = mapDbSavedSearchToSavedSearch(await updateSavedSearchAction(numId, user.id, changes))
+      setSavedSearches((prev) => prev.map((item) => (item.id === id ? updated : item)))
+
+      const groupId = toSavedSearchGroupId(id)
+      if (selectedGroupId === groupId) {
+        if (!updated.pinned) {
+          setSelectedGroupId("all")
+        } else if (changes.query !== undefined) {
+          setNotesReloadKey((key) => key + 1)
+        }
+      }
+      return true
+    } catch (error) {
+      console.error("❌ 更新已保存的搜索失败", error)
+      return false
+    }
+  }
+
+  const deleteSavedSearch = async (id: string): Promise<boolean> => {
+    if (!user) return false
+
+    const numId = parseInt(id, 10)
+    if (Number.isNaN(numId)) return false
+
+    try {
+      await deleteSavedSearchAction(numId, user.id)
+      setSavedSearches((prev) => prev.filter((item) => item.id !== id))
+
+      if (selectedGroupId === toSavedSearchGroupId(id)) {
+        setSelectedGroupId("all")
+      }
+      return true
+    } catch (error) {
+      console.error("❌ 删除已保存的搜索失败", error)
+      return false
+    }
+  }
+
+  const refreshTags = useCallback(async () => {
+    if (!user?.id) return
+    try {
+      const data = await getTagsAction(user.id)
+      setTags(data.map(mapDbTagToTag))
+    } catch (error) {
+      console.error("❌ 加载标签失败", error)
+    }
+  }, [user?.id])
+
+  useEffect(() => {
+    refreshTags()
+  }, [refreshTags])
+
+  // 用服务器返回的标签列表更新便签；当前按标签筛选且便签不再带有该标签时移出列表
+  const applyNoteTags = (noteId: string, noteTags: NoteTag[]) => {
+    setNotes((prev) =>
+      prev
+        .map((n) => (n.id === noteId ? { ...n, tags: noteTags } : n))
+        .filter((n) => n.id !== noteId || noteMatchesTag(n.tags, selectedTagId))
+    )
+  }
+
+  const renameTag = async (id: string, name: string): Promise<boolean> => {
+    if (!user) return false
+
+    const numId = parseInt(id, 10)
+    if (Number.isNaN(numId) || !name.trim()) return false
+
+    try {
+      // 新名称与已有标签相同时服务器会合并，返回合并后的标签
+      const renamed = await renameTagAction(numId, user.id, name)
+      setNotes((prev) => prev.map((n) => {
+        if (!n.tags?.some((tag) => tag.id === numId)) return n
+        const others = (n.tags ?? []).filter((tag) => tag.id !== numId && tag.id !== renamed.id)
+        const source = n.tags.find((tag) => tag.id === numId)?.source ?? "manual"
+        return { ...n, tags: [...others, { id: renamed.id, name: renamed.name, source }] }
+      }))
+      if (selectedTagId === id) {
+        setSelectedTagId(String(renamed.id))
+      }
+      await refreshTags()
+      return true
+    } catch (error) {
+      console.error("❌ 重命名标签失败", error)
+      return false
+    }
+  }
+
+  const deleteTag = async (id: string): Promise<boolean> => {
+    if (!user) return false
+
+    const numId = parseInt(id, 10)
+    if (Number.isNaN(numId)) return false
+
+    try {
+      await deleteTagAction(numId, user.id)
+      setTags((prev) => prev.filter((tag) => tag.id !== id))
+      setNotes((prev) => prev.map((n) => (
+        n.tags?.some((tag) => tag.id === numId)
+          ? { ...n, tags: n.tags.filter((tag) => tag.id !== numId) }
+          : n
+      )))
+      if (selectedTagId === id) {
+        setSelectedTagId(null)
+      }
+      return true
+    } catch (error) {
+      console.error("❌ 删除标签失败", error)
+      return false
+    }
+  }
+
+  const addTagToNote = async (noteId: string, name: string): Promise<boolean> => {
+    if (!user) return false
+
+    // 离线新建的便签还没有服务器ID，无法添加标签
+    const numId = parseInt(noteId, 10)
+    if (isTempId(noteId) || Number.isNaN(numId) || !name.trim()) return false
+
+    try {
+      applyNoteTags(noteId, await addNoteTagAction(numId, user.id, name))
+      await refreshTags()
+      return true
+    } catch (error) {
+      console.error("❌ 添加标签失败", error)
+      return false
+    }
+  }
+
+  const removeTagFromNote = async (noteId: string, tagId: string): Promise<boolean> => {
+    if (!user) return false
+
+    const numId = parseInt(noteId, 10)
+    const numTagId = parseInt(tagId, 10)
+    if (isTempId(noteId) || Number.isNaN(numId) || Number.isNaN(numTagId)) return false
+
+    try {
+      applyNoteTags(noteId, await removeNoteTagAction(numId, user.id, numTagId))
+      await refreshTags()
+      return true
+    } catch (error) {
+      console.error("❌ 移除标签失败", error)
+      return false
+    }
+  }
+
   const moveNoteToGroup = async (noteId: string, groupId: string): Promise<boolean> => {
     if (!user) return false
 
+    // 离线新建的便签或分组只有临时ID，只能排队等创建操作回放后再移动
+    const isTempNote = isTempId(noteId)
+    const isTempGroup = isTempId(groupId)
+
     const noteNumId = parseInt(noteId, 10)
-    if (Number.isNaN(noteNumId)) return false
+    if (!isTempNote && Number.isNaN(noteNumId)) return false
 
-    const targetGroupId = groupId === "ungrouped" ? null : parseInt(groupId, 10)
-    if (groupId !== "ungrouped" && Number.isNaN(targetGroupId as number)) return false
+    const targetGroupId = groupId === "ungrouped" || isTempGroup ? null : parseInt(groupId, 10)
+    if (groupId !== "ungrouped" && !isTempGroup && Number.isNaN(targetGroupId as number)) return false
 
     const originalNotes = [...notes]
 
     setNotes((prev) => {
       const next = prev.map((n) => (
-        n.id === noteId
+        n.id === noteId && !isTempGroup
           ? { ...n, group_id: targetGroupId }
           : n
       ))
 
-      if (selectedGroupId === "all") return next
+      if (isVirtualGroupView(selectedGroupId)) return next
 
-      const shouldKeep = selectedGroupId === "ungrouped"
-        ? targetGroupId === null
-        : targetGroupId !== null && String(targetGroupId) === selectedGroupId
+      const groupScope = getGroupScope(groups, selectedGroupId, includeSubgroupNotes)
+      const shouldKeep = isTempGroup
+        ? groupScope ? groupScope.has(groupId) : selectedGroupId === groupId
+        : noteMatchesGroup({ group_id: targetGroupId }, selectedGroupId, groupScope)
 
       if (shouldKeep) return next
       return next.filter((n) => n.id !== noteId)
@@ -232,6 +777,18 @@ export function SyncProvider({ children }: { children: React.ReactNode }) {
 
     broadcastUpdate()
 
+    const queueMove = () => queueOperation({
+      type: "moveNoteToGroup",
+      noteId,
+      groupId: groupId === "ungrouped" ? null : groupId,
+    })
+
+    if (shouldQueueOffline() || isTempNote || isTempGroup) {
+      if (await queueMove()) return true
+      setNotes(originalNotes)
+      return false
+    }
+
     try {
       await moveNoteToGroupAction(noteNumId, user.id, targetGroupId)
       const clientNow = new Date()
@@ -240,12 +797,125 @@ export function SyncProvider({ children }: { children: React.ReactNode }) {
       lastContentUpdateRef.current = clientNow
       return true
     } catch (error) {
+      if (isNetworkError(error) && await queueMove()) {
+        return true
+      }
       console.error("❌ 移动便签分组失败", error)
       setNotes(originalNotes)
       return false
     }
   }
 
+  // 置顶或收藏便签：乐观更新并按置顶重新排序，离线时排队
+  const setNoteFlag = async (noteId: string, flag: "pinned" | "starred", value: boolean): Promise<boolean> => {
+    if (!user) return false
+
+    const isTempNote = isTempId(noteId)
+    const noteNumId = parseInt(noteId, 10)
+    if (!isTempNote && Number.isNaN(noteNumId)) return false
+
+    const originalNotes = [...notes]
+
+    setNotes((prev) => {
+      const next = prev.map((n) => (n.id === noteId ? { ...n, [flag]: value } : n))
+      // 在“已收藏”视图中取消收藏时移出列表
+      if (flag === "starred" && !value && selectedGroupId === "starred") {
+        return next.filter((n) => n.id !== noteId)
+      }
+      return flag === "pinned" ? next.sort(compareNotes) : next
+    })
+
+    broadcastUpdate()
+
+    const queueFlag = () => queueOperation({ type: "setNoteFlag", noteId, flag, value })
+
+    if (shouldQueueOffline() || isTempNote) {
+      if (await queueFlag()) return true
+      setNotes(originalNotes)
+      return false
+    }
+
+    try {
+      const setFlagAction = flag === "pinned" ? setNotePinnedAction : setNoteStarredAction
+      await setFlagAction(noteNumId, user.id, value)
+      const clientNow = new Date()
+      setLastSyncTime(clientNow)
+      lastSyncTimeRef.current = clientNow
+      lastContentUpdateRef.current = clientNow
+      return true
+    } catch (error) {
+      if (isNetworkError(error) && await queueFlag()) {
+        return true
+      }
+      console.error(flag === "pinned" ? "❌ 置顶便签失败" : "❌ 收藏便签失败", error)
+      setNotes(originalNotes)
+      return false
+    }
+  }
+
+  const setNotePinned = (noteId: string, pinned: boolean) => setNoteFlag(noteId, "pinned", pinned)
+
+  const setNoteStarred = (noteId: string, starred: boolean) => setNoteFlag(noteId, "starred", starred)
+
+  // 设置或清除便签提醒：乐观更新，离线时排队
+  const setNoteReminder = async (noteId: string, remindAt: Date | null): Promise<boolean> => {
+    if (!user) return false
+
+    const isTempNote = isTempId(noteId)
+    const noteNumId = parseInt(noteId, 10)
+    if (!isTempNote && Number.isNaN(noteNumId)) return false
+
+    const originalNotes = [...notes]
+    setNotes((prev) => prev.map((n) => (n.id === noteId ? { ...n, remind_at: remindAt } : n)))
+    broadcastUpdate()
+
+    const remindAtIso = remindAt ? remindAt.toISOString() : null
+    const queueReminder = () => queueOperation({ type: "setNoteReminder", noteId, remindAt: remindAtIso })
+
+    if (shouldQueueOffline() || isTempNote) {
+      if (await queueReminder()) return true
+      setNotes(originalNotes)
+      return false
+    }
+
+    try {
+      await setNoteReminderAction(noteNumId, user.id, remindAtIso)
+      const clientNow = new Date()
+      setLastSyncTime(clientNow)
+      lastSyncTimeRef.current = clientNow
+      lastContentUpdateRef.current = clientNow
+      return true
+    } catch (error) {
+      if (isNetworkError(error) && await queueReminder()) {
+        return true
+      }
+      console.error("❌ 设置提醒失败", error)
+      setNotes(originalNotes)
+      return false
+    }
+  }
+
+  // 查找 [[标题]] 链接指向的便签；离线或请求失败时在已加载的便签中按标题查找
+  const resolveNoteLink = async (sourceNoteId: string, title: string): Promise<Note | null> => {
+    if (!user) return null
+
+    const findLoadedNote = () => {
+      const key = title.trim().toLowerCase()
+      return notes.find((n) => n.id !== sourceNoteId && (n.title ?? "").trim().toLowerCase() === key) ?? null
+    }
+
+    if (shouldQueueOffline()) return findLoadedNote()
+
+    try {
+      const sourceNumId = isTempId(sourceNoteId) ? null : parseInt(sourceNoteId, 10)
+      const dbNote = await resolveNoteLinkAction(Number.isNaN(sourceNumId) ? null : sourceNumId, user.id, title)
+      return dbNote ? mapDbNoteToNote(dbNote) : findLoadedNote()
+    } catch (error) {
+      console.error("❌ 查找链接便签失败", error)
+      return findLoadedNote()
+    }
+  }
+
   // 游标分页相关状态
   const [nextCursor, setNextCursor] = useState<string | undefined>(undefined)
   const [hasMoreNotes, setHasMoreNotes] = useState(true)
@@ -262,6 +932,14 @@ export function SyncProvider({ children }: { children: React.ReactNode }) {
   const didTriggerHardReloadRef = useRef(false)
   const syncRef = useRef<(silent?: boolean) => Promise<void>>(async () => {})
   const checkForUpdatesRef = useRef<() => Promise<void>>(async () => {})
+  const syncChangesRef = useRef<() => Promise<void>>(async () => {})
+  const syncTokenRef = useRef<string | null>(null)
+  const pushConnectedRef = useRef(false)
+  const outboxReplayingRef = useRef(false)
+  // 当前 notes 对应的分组视图，写入离线缓存时作为缓存键
+  const notesScopeRef = useRef<string>("all")
+  const handlePendingOperationsRef = useRef<(retryFailed?: boolean) => Promise<void>>(async () => {})
+  const hydrateFromOfflineCacheRef = useRef<(userId: string) => Promise<void>>(async () => {})
   const userId = user?.id
 
   // 初始化 - 设置客户端时间
@@ -279,7 +957,10 @@ export function SyncProvider({ children }: { children: React.ReactNode }) {
     if (!userId) {
       setNotesWithDeduplication([])
       setGroups([])
+      setSavedSearches([])
       setSelectedGroupId("all")
+      setTags([])
+      setSelectedTagId(null)
       setLinks([])
       setFiles([])
       setIsInitialized(false)
@@ -287,12 +968,18 @@ export function SyncProvider({ children }: { children: React.ReactNode }) {
       setHasMoreNotes(true)
       setNextCursor(undefined)
       setIsLoadingMore(false)
+      setNoteConflict(null)
+      setIsOfflineMode(false)
+      syncTokenRef.current = null
       return
     }
 
     const loadInitialData = async () => {
       setSyncStatus("syncing")
       try {
+        // 先用离线缓存填充界面，网络请求返回后再替换
+        await hydrateFromOfflineCacheRef.current(userId)
+
         // 初始化时设置客户端时间
         const clientNow = new Date();
         setLastSyncTime(clientNow);
@@ -319,146 +1006,428 @@ export function SyncProvider({ children }: { children: React.ReactNode }) {
     setNextCursor(undefined)
     setIsLoadingMore(false)
 
-    const reload = async () => {
-      try {
-        const [notesData, groupsData] = await Promise.all([
-          getNotesAction(userId, 50, 0, selectedGroupId),
-          getGroupsAction(userId),
-        ])
+    const notesScope = getNotesScope(selectedGroupId, selectedTagId, includeSubgroupNotes)
+
+    const reload = async () => {
+      try {
+        const [notesData, groupsData] = await Promise.all([
+          getNotesAction(userId, 50, 0, selectedGroupId, selectedTagId, includeSubgroupNotes),
+          getGroupsAction(userId),
+        ])
+
+        setNotesWithDeduplication(notesData ? notesData.map(mapDbNoteToNote) : [])
+        notesScopeRef.current = notesScope
+        setGroups(groupsData ? groupsData.map(mapDbGroupToGroup) : [])
+
+        const hasMore = notesData && notesData.length === 50
+        setHasMoreNotes(hasMore)
+      } catch (error) {
+        if (isNetworkError(error) && isOfflineDbSupported()) {
+          // 离线时改用该分组的缓存，没有缓存时从全部便签的缓存中筛选
+          try {
+            // 已保存搜索的条件无法在客户端判断，只使用该视图自己的缓存
+            const cached = await loadOfflineCache<Note>(userId, "notes", notesScope)
+              ?? (isSavedSearchGroupId(selectedGroupId) ? null : await loadOfflineCache<Note>(userId, "notes", "all"))
+            if (cached) {
+              const groupScope = getGroupScope(groupsRef.current, selectedGroupId, includeSubgroupNotes)
+              setNotesWithDeduplication(cached.items.filter((note) =>
+                noteMatchesGroup(note, selectedGroupId, groupScope) && noteMatchesTag(note.tags, selectedTagId)
+              ))
+              notesScopeRef.current = notesScope
+              setHasMoreNotes(false)
+              setIsOfflineMode(true)
+              return
+            }
+          } catch (cacheError) {
+            console.warn("读取离线缓存失败:", cacheError)
+          }
+        }
+        console.error("❌ 分组切换加载失败", error)
+      }
+    }
+
+    reload()
+  }, [selectedGroupId, selectedTagId, includeSubgroupNotes, userId, notesReloadKey, setNotesWithDeduplication])
+
+  // Set up sync timer and update checker
+  useEffect(() => {
+    if (!userId || !autoSync || syncInterval === 0) {
+      if (syncTimerRef.current) {
+        clearInterval(syncTimerRef.current)
+        syncTimerRef.current = null
+      }
+      if (checkUpdatesTimerRef.current) {
+        clearInterval(checkUpdatesTimerRef.current)
+        checkUpdatesTimerRef.current = null
+      }
+      if (syncChannel.current) {
+        syncChannel.current.close()
+        syncChannel.current = null
+      }
+      return
+    }
+
+    // Initialize BroadcastChannel for cross-tab communication
+    if (typeof window !== 'undefined' && 'BroadcastChannel' in window) {
+      syncChannel.current = new BroadcastChannel('sync_channel');
+      
+      // Listen for messages from other tabs
+      syncChannel.current.onmessage = (event) => {
+        const { type, timestamp, userId: messageUserId } = event.data;
+        
+        // Only process updates from the same user
+        if (type === 'content_updated' && messageUserId === userId && timestamp !== lastBroadcastRef.current) {
+          console.log('Received sync broadcast, fetching changes...');
+          // 拉取增量变更
+          checkForUpdatesRef.current();
+        }
+      };
+    }
+
+    // 按同步间隔拉取增量变更（备份方案）
+    const interval = setInterval(() => {
+      if (navigator.onLine) {
+        handlePendingOperationsRef.current().then(() => checkForUpdatesRef.current())
+      }
+    }, syncInterval)
+
+    // 推送通道不可用时，每2分钟检查一次更新（优化频率，减少数据库压力）
+    const checkInterval = setInterval(() => {
+      if (navigator.onLine && !pushConnectedRef.current) {
+        checkForUpdatesRef.current()
+      }
+    }, 2 * 60 * 1000) // 2分钟检查一次
+
+    syncTimerRef.current = interval
+    checkUpdatesTimerRef.current = checkInterval
+
+    return () => {
+      clearInterval(interval)
+      clearInterval(checkInterval)
+      if (syncChannel.current) {
+        syncChannel.current.close();
+      }
+    }
+  }, [userId, autoSync, syncInterval])
+
+  // 订阅服务器推送（SSE），收到变更通知后拉取增量；断开时按指数退避重连，期间由轮询兜底
+  useEffect(() => {
+    if (!userId || typeof window === 'undefined' || !('EventSource' in window)) return
+
+    let source: EventSource | null = null
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null
+    let changeTimer: ReturnType<typeof setTimeout> | null = null
+    let attempts = 0
+    let hasConnected = false
+    let disposed = false
+
+    // 合并短时间内的多条通知
+    const scheduleChanges = () => {
+      if (changeTimer) clearTimeout(changeTimer)
+      changeTimer = setTimeout(() => {
+        changeTimer = null
+        checkForUpdatesRef.current()
+      }, 300)
+    }
+
+    const connect = () => {
+      if (disposed) return
+      source = new EventSource(apiUrl(`/api/sync/events?userId=${encodeURIComponent(userId)}`))
+
+      source.addEventListener('ready', () => {
+        attempts = 0
+        pushConnectedRef.current = true
+        // 重连后补拉断线期间错过的变更
+        if (hasConnected) scheduleChanges()
+        hasConnected = true
+      })
+
+      source.addEventListener('change', (event) => {
+        scheduleChanges()
+        // 到期提醒交给提醒通知组件显示
+        try {
+          const change = JSON.parse((event as MessageEvent<string>).data) as { entity?: string; action?: string; id?: number }
+          if (change.entity === 'note' && change.action === 'reminded' && change.id !== undefined) {
+            window.dispatchEvent(new CustomEvent('pwa-note:reminder', { detail: { noteId: String(change.id) } }))
+          }
+        } catch {
+          // 无法解析的通知只触发增量同步
+        }
+      })
+
+      source.onerror = () => {
+        pushConnectedRef.current = false
+        source?.close()
+        source = null
+        if (disposed) return
+
+        const delay = Math.min(60 * 1000, 1000 * 2 ** attempts)
+        attempts++
+        console.warn(`推送连接断开，${Math.round(delay / 1000)} 秒后重连`)
+        reconnectTimer = setTimeout(connect, delay)
+      }
+    }
+
+    // 网络恢复时立即重连
+    const handleOnline = () => {
+      if (source) return
+      if (reconnectTimer) clearTimeout(reconnectTimer)
+      attempts = 0
+      connect()
+    }
+
+    connect()
+    window.addEventListener('online', handleOnline)
+
+    return () => {
+      disposed = true
+      pushConnectedRef.current = false
+      window.removeEventListener('online', handleOnline)
+      if (reconnectTimer) clearTimeout(reconnectTimer)
+      if (changeTimer) clearTimeout(changeTimer)
+      source?.close()
+    }
+  }, [userId])
+
+  // 网络恢复时回放离线队列，再拉取离线期间的变更
+  useEffect(() => {
+    void refreshOutboxCounts()
+    if (!userId) return
+
+    const handleOnline = () => {
+      handlePendingOperationsRef.current().then(() => checkForUpdatesRef.current())
+    }
+    const handleOffline = () => setIsOfflineMode(true)
+
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+    return () => {
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('offline', handleOffline)
+    }
+  }, [userId, refreshOutboxCounts])
+
+  // Service Worker 在后台回放离线队列后：重新同步以替换临时记录，有冲突时由页面回放并显示冲突对话框
+  useEffect(() => {
+    if (!userId || !("serviceWorker" in navigator)) return
+
+    const handleMessage = (event: MessageEvent) => {
+      const data = event.data
+      if (data?.type !== "OUTBOX_REPLAYED" || data.userId !== userId) return
+
+      console.log("📨 后台同步已回放离线队列:", data)
+      void refreshOutboxCounts()
+      if (data.replayed > 0) {
+        void syncRef.current(true)
+        toast({
+          title: "离线修改已同步",
+          description: `已同步 ${data.replayed} 项离线期间的修改`,
+          duration: 2000,
+        })
+      }
+      if (data.conflicts > 0) {
+        void handlePendingOperationsRef.current()
+      }
+    }
+
+    navigator.serviceWorker.addEventListener("message", handleMessage)
+    return () => navigator.serviceWorker.removeEventListener("message", handleMessage)
+  }, [userId, refreshOutboxCounts, toast])
 
-        setNotesWithDeduplication(notesData ? notesData.map(mapDbNoteToNote) : [])
-        setGroups(groupsData ? groupsData.map(mapDbGroupToGroup) : [])
+  // 用离线缓存填充界面（启动时在网络请求之前调用）
+  const hydrateFromOfflineCache = async (cacheUserId: string) => {
+    if (!isOfflineDbSupported()) return
 
-        const hasMore = notesData && notesData.length === 50
-        setHasMoreNotes(hasMore)
-      } catch (error) {
-        console.error("❌ 分组切换加载失败", error)
+    try {
+      // 切换账号时清除其他用户留下的缓存
+      await clearOfflineCache(cacheUserId)
+
+      const [cachedNotes, cachedGroups, cachedLinks, cachedFiles] = await Promise.all([
+        loadOfflineCache<Note>(cacheUserId, "notes", "all"),
+        loadOfflineCache<Group>(cacheUserId, "groups"),
+        loadOfflineCache<Link>(cacheUserId, "links"),
+        loadOfflineCache<File>(cacheUserId, "files"),
+      ])
+      if (!cachedNotes && !cachedGroups && !cachedLinks && !cachedFiles) return
+
+      if (cachedNotes) {
+        setNotesWithDeduplication(cachedNotes.items)
+        notesScopeRef.current = "all"
       }
+      if (cachedGroups) setGroups(cachedGroups.items)
+      if (cachedLinks) setLinks(cachedLinks.items)
+      if (cachedFiles) setFiles(cachedFiles.items)
+      setIsOfflineMode(!navigator.onLine)
+      console.log("💾 已从离线缓存加载数据:", { notes: cachedNotes?.items.length ?? 0, savedAt: cachedNotes?.savedAt })
+    } catch (error) {
+      console.warn("读取离线缓存失败:", error)
     }
+  }
 
-    reload()
-  }, [selectedGroupId, userId, setNotesWithDeduplication])
+  hydrateFromOfflineCacheRef.current = hydrateFromOfflineCache
 
-  // Set up sync timer and update checker
+  // 数据变化后写入离线缓存（防抖），供下次离线打开时使用
   useEffect(() => {
-    if (!userId || !autoSync || syncInterval === 0) {
-      if (syncTimerRef.current) {
-        clearInterval(syncTimerRef.current)
-        syncTimerRef.current = null
-      }
-      if (checkUpdatesTimerRef.current) {
-        clearInterval(checkUpdatesTimerRef.current)
-        checkUpdatesTimerRef.current = null
-      }
-      if (syncChannel.current) {
-        syncChannel.current.close()
-        syncChannel.current = null
+    if (!userId || !isInitialized || !isOfflineDbSupported()) return
+
+    const timer = setTimeout(() => {
+      Promise.all([
+        saveOfflineCache(userId, "notes", notes, notesScopeRef.current),
+        saveOfflineCache(userId, "groups", groups),
+        saveOfflineCache(userId, "links", links),
+        saveOfflineCache(userId, "files", files),
+      ]).catch((error) => console.warn("写入离线缓存失败:", error))
+    }, 1000)
+
+    return () => clearTimeout(timer)
+  }, [userId, isInitialized, notes, groups, links, files])
+
+  // 获取当前同步令牌（完整同步前调用，之后的变更都能通过增量同步拿到）
+  const fetchSyncToken = async () => {
+    if (!user) return
+
+    try {
+      const response = await fetch(apiUrl(`/api/sync/changes?userId=${encodeURIComponent(user.id)}`))
+      if (!response.ok) {
+        throw new Error(`Error fetching sync token: ${response.statusText}`)
       }
+      const result = await response.json()
+      syncTokenRef.current = result.token ?? null
+    } catch (error) {
+      console.warn('获取同步令牌失败，将在下次检查时完整同步:', error)
+      syncTokenRef.current = null
+    }
+  }
+
+  // 拉取增量变更并合并到当前状态，无令牌或服务器要求时退回完整同步
+  const syncChanges = async () => {
+    if (!user) return
+
+    const since = syncTokenRef.current
+    if (!since) {
+      await sync(true)
       return
     }
 
-    // Initialize BroadcastChannel for cross-tab communication
-    if (typeof window !== 'undefined' && 'BroadcastChannel' in window) {
-      syncChannel.current = new BroadcastChannel('sync_channel');
-      
-      // Listen for messages from other tabs
-      syncChannel.current.onmessage = (event) => {
-        const { type, timestamp, userId: messageUserId } = event.data;
-        
-        // Only process updates from the same user
-        if (type === 'content_updated' && messageUserId === userId && timestamp !== lastBroadcastRef.current) {
-          console.log('Received sync broadcast, performing silent sync...');
-          // Trigger silent sync
-          syncRef.current(true);
-        }
-      };
+    const response = await fetch(
+      apiUrl(`/api/sync/changes?userId=${encodeURIComponent(user.id)}&since=${encodeURIComponent(since)}`)
+    )
+    if (!response.ok) {
+      throw new Error(`Error fetching changes: ${response.statusText}`)
     }
 
-    // 每5分钟执行一次完整同步（备份方案）
-    const interval = setInterval(() => {
-      if (navigator.onLine) {
-        syncRef.current(true)
-      }
-    }, syncInterval)
+    const result = await response.json()
 
-    // 每2分钟检查一次更新（优化频率，减少数据库压力）
-    const checkInterval = setInterval(() => {
-      if (navigator.onLine) {
-        checkForUpdatesRef.current()
-      }
-    }, 2 * 60 * 1000) // 2分钟检查一次
+    // 期间发生了其他同步，丢弃本次结果
+    if (syncTokenRef.current !== since) return
 
-    syncTimerRef.current = interval
-    checkUpdatesTimerRef.current = checkInterval
+    if (result.reset) {
+      console.log('🔄 变更过多或令牌失效，执行完整同步')
+      await sync(true)
+      return
+    }
 
-    return () => {
-      clearInterval(interval)
-      clearInterval(checkInterval)
-      if (syncChannel.current) {
-        syncChannel.current.close();
+    const { notes: noteChanges, groups: groupChanges, links: linkChanges, files: fileChanges } = result.changes
+    const changeCount =
+      noteChanges.upserted.length + noteChanges.deleted.length +
+      groupChanges.upserted.length + groupChanges.deleted.length +
+      linkChanges.upserted.length + linkChanges.deleted.length +
+      fileChanges.upserted.length + fileChanges.deleted.length
+
+    syncTokenRef.current = result.token
+    setIsOfflineMode(false)
+
+    if (changeCount === 0) return
+    console.log('⚡ 合并增量变更:', changeCount, '条')
+
+    const changedNotes: Note[] = noteChanges.upserted.map(parseSyncedNote)
+    // 分组结构可能在同一批变更中调整，按合并后的分组判断子分组范围
+    const groupScope = getGroupScope(
+      mergeById(groups, groupChanges.upserted.map(parseSyncedGroup), groupChanges.deleted),
+      selectedGroupId,
+      includeSubgroupNotes,
+    )
+    if (isSavedSearchGroupId(selectedGroupId)) {
+      // 变更后的便签是否仍符合已保存搜索的条件只能由服务端判断，重新加载当前视图
+      if (noteChanges.upserted.length + noteChanges.deleted.length > 0) {
+        setNotesReloadKey((key) => key + 1)
       }
+    } else {
+      setNotes((prev) => {
+        const lastLoaded = prev.reduce<Note | null>(
+          (last, note) => (last === null || compareNotes(note, last) > 0 ? note : last),
+          null,
+        )
+        const loadedIds = new Set(prev.map((n) => n.id))
+
+        // 只插入属于当前分组、且落在已加载范围内的新便签，其余交给无限滚动加载
+        const visibleChanges = changedNotes.filter((note) => {
+          if (!noteMatchesGroup(note, selectedGroupId, groupScope)) return false
+          if (!noteMatchesTag(note.tags, selectedTagId)) return false
+          if (loadedIds.has(note.id) || !hasMoreNotes || lastLoaded === null) return true
+          return compareNotes(note, lastLoaded) <= 0
+        })
+        const movedOut = changedNotes
+          .filter((note) => !noteMatchesGroup(note, selectedGroupId, groupScope) || !noteMatchesTag(note.tags, selectedTagId))
+          .map((note) => note.id)
+
+        return mergeById(prev, visibleChanges, [...noteChanges.deleted, ...movedOut]).sort(compareNotes)
+      })
     }
-  }, [userId, autoSync, syncInterval])
 
-  // 检查服务器上是否有更新的函数
-  const checkForUpdates = async () => {
-    if (!user) return;
+    // 便签变更可能带来标签变化，刷新标签计数
+    if (noteChanges.upserted.length + noteChanges.deleted.length > 0) {
+      void refreshTags()
+    }
 
-    try {
-      // 获取上次内容更新时间
-      const lastUpdate = lastContentUpdateRef.current || lastSyncTime;
+    setGroups((prev) =>
+      mergeById(prev, groupChanges.upserted.map(parseSyncedGroup), groupChanges.deleted).sort(compareGroups)
+    )
+    if (groupChanges.deleted.map(String).includes(selectedGroupId)) {
+      setSelectedGroupId("all")
+    }
 
-      if (!lastUpdate) {
-        // 如果没有上次更新时间，执行完整同步
-        await sync(true);
-        return;
-      }
+    setLinks((prev) =>
+      mergeById(prev, linkChanges.upserted.map(parseSyncedLink), linkChanges.deleted).sort(
+        (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+      )
+    )
 
-      // 调用轻量级API检查是否有更新，添加重试机制
-      let retryCount = 0;
-      const maxRetries = 2;
+    setFiles((prev) =>
+      mergeById(prev, fileChanges.upserted.map(parseSyncedFile), fileChanges.deleted).sort(
+        (a, b) => new Date(b.uploaded_at).getTime() - new Date(a.uploaded_at).getTime()
+      )
+    )
 
-      while (retryCount <= maxRetries) {
-        try {
-          const response = await fetch(apiUrl('/api/check-updates'), {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              userId: user.id,
-              lastUpdate: lastUpdate.toISOString()
-            })
-          });
+    const clientNow = new Date()
+    setLastSyncTime(clientNow)
+    lastSyncTimeRef.current = clientNow
+    lastContentUpdateRef.current = clientNow
+  }
 
-          if (!response.ok) {
-            if (response.status === 404) {
-              // API路由不存在，跳过检查
-              console.warn("check-updates API not available, skipping update check");
-              return;
-            }
-            throw new Error(`Error checking for updates: ${response.statusText}`);
-          }
+  syncChangesRef.current = syncChanges
 
-          const { hasUpdates } = await response.json();
+  // 检查服务器上是否有更新：直接拉取增量变更
+  const checkForUpdates = async () => {
+    if (!user) return;
 
-          // 如果有更新，执行静默同步
-          if (hasUpdates) {
-            console.log('Updates detected, syncing...');
-            await sync(true);
-          }
+    // 添加重试机制
+    let retryCount = 0;
+    const maxRetries = 2;
 
-          // 成功执行，跳出重试循环
-          break;
-        } catch (fetchError) {
-          if (retryCount === maxRetries) {
-            throw fetchError;
-          }
-          retryCount++;
-          await new Promise(resolve => setTimeout(resolve, 1000));
+    while (retryCount <= maxRetries) {
+      try {
+        await syncChanges();
+        return;
+      } catch (error) {
+        if (retryCount === maxRetries) {
+          // 如果检查更新失败，静默忽略，避免影响用户体验
+          console.error('Failed to check for updates after retries:', error);
+          return;
         }
+        retryCount++;
+        await new Promise(resolve => setTimeout(resolve, 1000));
       }
-    } catch (error) {
-      console.error('Failed to check for updates after retries:', error);
-      // 如果检查更新失败，静默忽略，避免影响用户体验
     }
   };
 
@@ -490,18 +1459,23 @@ export function SyncProvider({ children }: { children: React.ReactNode }) {
     }
 
     try {
-      // Process pending offline operations
+      // 先回放离线队列
       await handlePendingOperations()
 
+      // 先记录同步令牌，加载期间产生的变更会在下次增量同步中补上
+      await fetchSyncToken()
+
       // 第一步：优先加载便签数据（最近50条）
       console.log('🚀 开始优先加载便签...')
       const [notesData, groupsData] = await Promise.all([
-        getNotesAction(user.id, 50, 0, selectedGroupId),
+        getNotesAction(user.id, 50, 0, selectedGroupId, selectedTagId, includeSubgroupNotes),
         getGroupsAction(user.id),
       ])
 
       // 立即显示便签
       setNotesWithDeduplication(notesData ? notesData.map(mapDbNoteToNote) : [])
+      notesScopeRef.current = getNotesScope(selectedGroupId, selectedTagId, includeSubgroupNotes)
+      setIsOfflineMode(false)
       console.log('⚡ 便签优先加载完成，共', notesData?.length || 0, '条')
 
       setGroups(groupsData ? groupsData.map(mapDbGroupToGroup) : [])
@@ -546,6 +1520,13 @@ export function SyncProvider({ children }: { children: React.ReactNode }) {
     } catch (error) {
       console.error("❌ 便签加载失败", error)
 
+      // 离线时继续显示缓存数据，不提示同步失败
+      if (isNetworkError(error)) {
+        setIsOfflineMode(true)
+        setSyncStatus("idle")
+        return
+      }
+
       if (!silent) {
         setSyncStatus("error")
         toast({
@@ -568,18 +1549,23 @@ export function SyncProvider({ children }: { children: React.ReactNode }) {
     }
 
     try {
-      // Process pending offline operations
-      await handlePendingOperations()
+      // 先回放离线队列，手动同步时同时重试失败的操作
+      await handlePendingOperations(!silent)
+
+      // 先记录同步令牌，加载期间产生的变更会在下次增量同步中补上
+      await fetchSyncToken()
 
       // 第一步：优先加载便签数据（最近50条，支持无限滚动）
       console.log('🚀 开始优先加载便签...')
       const [notesData, groupsData] = await Promise.all([
-        getNotesAction(user.id, 50, 0, selectedGroupId),
+        getNotesAction(user.id, 50, 0, selectedGroupId, selectedTagId, includeSubgroupNotes),
         getGroupsAction(user.id),
       ])
 
       // 立即显示便签
       setNotesWithDeduplication(notesData ? notesData.map(mapDbNoteToNote) : [])
+      notesScopeRef.current = getNotesScope(selectedGroupId, selectedTagId, includeSubgroupNotes)
+      setIsOfflineMode(false)
       console.log('⚡ 便签优先加载完成，共', notesData?.length || 0, '条')
 
       setGroups(groupsData ? groupsData.map(mapDbGroupToGroup) : [])
@@ -624,6 +1610,18 @@ export function SyncProvider({ children }: { children: React.ReactNode }) {
     } catch (error) {
       console.error("Sync failed", error)
 
+      if (isNetworkError(error)) {
+        setIsOfflineMode(true)
+        if (!silent) {
+          setSyncStatus("idle")
+          toast({
+            title: "离线模式",
+            description: "网络不可用，正在显示本地缓存的数据",
+          })
+        }
+        return
+      }
+
       if (!silent) {
         setSyncStatus("error")
         toast({
@@ -637,16 +1635,206 @@ export function SyncProvider({ children }: { children: React.ReactNode }) {
 
   syncRef.current = sync
 
-  // 不再支持离线重试机制
-  const handlePendingOperations = async () => {
-    // 离线重试机制已移除
+  // 回放离线队列中的单个操作，成功后把临时记录替换为服务器返回的记录
+  // key 为条目的幂等键，新建操作带上它，Service Worker 已创建过（响应丢失）时服务器返回已创建的记录
+  const replayOperation = async (operation: OutboxOperation, key?: string) => {
+    if (!user) return
+
+    const parseGroupId = (groupId: string | null) => {
+      if (groupId === null) return null
+      if (isTempId(groupId)) throw new Error("所属分组尚未同步")
+      const parsed = parseInt(groupId, 10)
+      if (Number.isNaN(parsed)) throw new Error("无效的分组ID")
+      return parsed
+    }
+
+    switch (operation.type) {
+      case "saveNote": {
+        if (operation.isNew) {
+          const created = mapDbNoteToNote(await createNoteAction(
+            user.id,
+            operation.content,
+            operation.clientTime,
+            parseGroupId(operation.groupId),
+            operation.title,
+            undefined,
+            key,
+          ))
+          await remapOutboxIds(user.id, "note", operation.noteId, created.id)
+          setNotes((prev) => {
+            const deduped = prev.filter((n) => n.id !== created.id)
+            return deduped.map((n) => (n.id === operation.noteId ? created : n))
+          })
+          return
+        }
+
+        if (isTempId(operation.noteId)) throw new Error("便签尚未同步")
+        const numId = parseInt(operation.noteId, 10)
+        if (Number.isNaN(numId)) throw new Error("无效的笔记ID")
+
+        let updated: Note
+        if (operation.base) {
+          const result = await updateNoteWithVersionAction(
+            numId,
+            user.id,
+            operation.content,
+            operation.base.version,
+            operation.clientTime,
+            operation.title,
+          )
+          if (result.status === "conflict") {
+            // 离线期间便签在其他设备被修改，交给冲突对话框处理
+            const serverNote = mapDbNoteToNote(result.note)
+            setNotes((prev) => prev.map((n) => (n.id === serverNote.id ? serverNote : n)))
+            setNoteConflict({
+              noteId: serverNote.id,
+              base: operation.base,
+              mine: { content: operation.content, title: operation.title },
+              server: serverNote,
+            })
+            return
+          }
+          updated = mapDbNoteToNote(result.note)
+        } else {
+          updated = mapDbNoteToNote(await updateNoteAction(numId, user.id, operation.content, operation.clientTime, operation.title))
+        }
+        setNotes((prev) => prev.map((n) => (n.id === updated.id ? updated : n)))
+        return
+      }
+
+      case "saveLink": {
+        const created = mapDbLinkToLink(await createLinkAction(user.id, operation.url, operation.title, operation.clientTime, key))
+        setLinks((prev) => {
+          const deduped = prev.filter((l) => l.id !== created.id)
+          return deduped.map((l) => (l.id === operation.tempId ? created : l))
+        })
+        return
+      }
+
+      case "createGroup": {
+        const created = mapDbGroupToGroup(await createGroupAction(user.id, operation.name, parseGroupId(operation.parentId ?? null), key))
+        await remapOutboxIds(user.id, "group", operation.tempId, created.id)
+        setGroups((prev) => {
+          const deduped = prev.filter((g) => g.id !== created.id)
+          return deduped.map((g) => (
+            g.id === operation.tempId
+              ? created
+              : g.parent_id === operation.tempId ? { ...g, parent_id: created.id } : g
+          ))
+        })
+        setSelectedGroupId((prev) => (prev === operation.tempId ? created.id : prev))
+        return
+      }
+
+      case "moveGroup": {
+        const groupId = parseGroupId(operation.groupId)
+        if (groupId === null) throw new Error("无效的分组ID")
+        const updated = await moveGroupAction(groupId, user.id, parseGroupId(operation.parentId), operation.index)
+        setGroups((prev) => mergeById(prev, updated.map(mapDbGroupToGroup), []).sort(compareGroups))
+        return
+      }
+
+      case "moveNoteToGroup": {
+        if (isTempId(operation.noteId)) throw new Error("便签尚未同步")
+        const numId = parseInt(operation.noteId, 10)
+        if (Number.isNaN(numId)) throw new Error("无效的笔记ID")
+        const groupId = parseGroupId(operation.groupId)
+        await moveNoteToGroupAction(numId, user.id, groupId)
+        setNotes((prev) => prev.map((n) => (n.id === operation.noteId ? { ...n, group_id: groupId } : n)))
+        return
+      }
+
+      case "setNoteFlag": {
+        if (isTempId(operation.noteId)) throw new Error("便签尚未同步")
+        const numId = parseInt(operation.noteId, 10)
+        if (Number.isNaN(numId)) throw new Error("无效的笔记ID")
+        const setFlagAction = operation.flag === "pinned" ? setNotePinnedAction : setNoteStarredAction
+        await setFlagAction(numId, user.id, operation.value)
+        setNotes((prev) => prev.map((n) => (n.id === operation.noteId ? { ...n, [operation.flag]: operation.value } : n)))
+        return
+      }
+      case "setNoteReminder": {
+        if (isTempId(operation.noteId)) throw new Error("便签尚未同步")
+        const numId = parseInt(operation.noteId, 10)
+        if (Number.isNaN(numId)) throw new Error("无效的笔记ID")
+        await setNoteReminderAction(numId, user.id, operation.remindAt)
+        return
+      }
+    }
+  }
+
+  /**
+   * 按入队顺序回放离线队列
+   * 网络错误时停止并保留剩余操作；其他错误计入重试次数，超过上限后标记为失败。
+   * retryFailed 为 true 时（手动同步）先把失败的操作重新放回队列
+   */
+  const handlePendingOperations = async (retryFailed = false) => {
+    if (!user || !isOfflineDbSupported() || !navigator.onLine) return
+    if (outboxReplayingRef.current) return
+    outboxReplayingRef.current = true
+
+    const replay = async () => {
+      if (retryFailed) {
+        await retryFailedEntries(user.id)
+      }
+
+      const entries = await getOutboxEntries(user.id)
+      let replayed = 0
+
+      for (const { id } of entries) {
+        // 前面的创建操作可能已替换了本操作中的临时ID，重新读取
+        const entry = await getOutboxEntry(id)
+        if (!entry || entry.status !== "pending") continue
+
+        try {
+          await replayOperation(entry.operation, entry.key)
+          await removeOutboxEntry(entry.id)
+          replayed++
+        } catch (error) {
+          if (isNetworkError(error)) {
+            console.warn("网络不可用，暂停回放离线队列")
+            void registerOutboxSync()
+            break
+          }
+          console.error("❌ 离线操作回放失败", entry.operation.type, error)
+          await markOutboxEntryFailed(entry, error)
+        }
+      }
+
+      if (replayed > 0) {
+        console.log(`✅ 已回放 ${replayed} 项离线操作`)
+        broadcastUpdate()
+        toast({
+          title: "离线修改已同步",
+          description: `已同步 ${replayed} 项离线期间的修改`,
+          duration: 2000,
+        })
+      }
+    }
+
+    try {
+      // 多个标签页共用同一个队列，用 Web Locks 避免重复回放
+      if (navigator.locks) {
+        await navigator.locks.request(getOutboxLockName(user.id), replay)
+      } else {
+        await replay()
+      }
+    } catch (error) {
+      console.error("❌ 回放离线队列失败", error)
+    } finally {
+      outboxReplayingRef.current = false
+      await refreshOutboxCounts()
+    }
   }
 
+  handlePendingOperationsRef.current = handlePendingOperations
+
   // Save a note
   const saveNote = async (
     id: string,
     content: string,
-    title: string = ""
+    title: string = "",
+    base?: NoteEditBase
   ): Promise<Note | null> => {
     if (!user) {
       console.log("Cannot save note: user not logged in")
@@ -664,9 +1852,17 @@ export function SyncProvider({ children }: { children: React.ReactNode }) {
     const isNewNote = id === "new" || !id;
     const tempId = isNewNote ? `temp_${Date.now()}` : id;
     const now = new Date();
+
+    // 未指定编辑基准时，以当前列表中的便签版本作为基准
+    const existingNote = isNewNote ? undefined : notes.find((n) => n.id === id)
+    const editBase: NoteEditBase | undefined = base ?? (
+      existingNote?.version !== undefined
+        ? { version: existingNote.version, content: existingNote.content, title: existingNote.title ?? "" }
+        : undefined
+    )
     
     // 创建临时笔记对象用于UI显示
-    const targetGroupId = selectedGroupId === "all" || selectedGroupId === "ungrouped"
+    const targetGroupId = isVirtualGroupView(selectedGroupId) || selectedGroupId === "ungrouped"
       ? null
       : parseInt(selectedGroupId, 10)
 
@@ -677,7 +1873,11 @@ export function SyncProvider({ children }: { children: React.ReactNode }) {
       user_id: user.id,
       group_id: Number.isNaN(targetGroupId as number) ? null : targetGroupId,
       created_at: now,
-      updated_at: now
+      updated_at: now,
+      version: existingNote?.version,
+      pinned: existingNote?.pinned,
+      starred: existingNote?.starred,
+      tags: existingNote?.tags
     };
     
     // 存储原始笔记列表，以便操作失败时恢复
@@ -686,8 +1886,8 @@ export function SyncProvider({ children }: { children: React.ReactNode }) {
     // 立即更新UI
     setNotes((prev) => {
       if (isNewNote) {
-        // 添加新笔记到列表顶部
-        return [tempNote, ...prev];
+        // 添加新笔记到置顶便签之后、时间线顶部
+        return [tempNote, ...prev].sort(compareNotes);
       } else {
         // 更新现有笔记
         const existing = prev.findIndex((n) => n.id === tempId);
@@ -705,6 +1905,31 @@ export function SyncProvider({ children }: { children: React.ReactNode }) {
     // 广播更新到其他标签页
     broadcastUpdate();
 
+    // 离线时保留乐观更新的内容并写入队列；离线新建的便签再次编辑时合并到其创建操作
+    const queueSave = () => queueOperation({
+      type: "saveNote",
+      noteId: tempId,
+      isNew: isNewNote,
+      content,
+      title,
+      groupId: isNewNote && !isVirtualGroupView(selectedGroupId) && selectedGroupId !== "ungrouped"
+        ? selectedGroupId
+        : null,
+      clientTime: new Date().toISOString(),
+      base: isNewNote ? undefined : editBase,
+    })
+
+    if (shouldQueueOffline() || isTempId(id)) {
+      if (await queueSave()) return tempNote
+      setNotes(originalNotes)
+      toast({
+        variant: "destructive",
+        title: "保存失败",
+        description: "未能保存笔记，请稍后再试",
+      })
+      return null
+    }
+
     try {
       let result: DbNote;
       let clientNote: Note;
@@ -724,12 +1949,43 @@ export function SyncProvider({ children }: { children: React.ReactNode }) {
           console.error("Invalid note ID:", id);
           throw new Error("无效的笔记ID");
         }
-        // 更新时传递客户端时间
-        result = await updateNoteAction(numId, user.id, content, clientTimeISO, title);
+        if (editBase) {
+          // 带版本号更新：便签在此期间被其他设备修改时服务器拒绝写入
+          const updateResult = await updateNoteWithVersionAction(numId, user.id, content, editBase.version, clientTimeISO, title);
+          if (updateResult.status === "conflict") {
+            const serverNote = mapDbNoteToNote(updateResult.note);
+            console.log("保存便签时发生版本冲突:", { id, baseVersion: editBase.version, serverVersion: serverNote.version });
+
+            setNotes((prev) => prev.map((n) => (n.id === serverNote.id ? serverNote : n)));
+            setNoteConflict({
+              noteId: serverNote.id,
+              base: editBase,
+              mine: { content, title },
+              server: serverNote,
+            });
+            broadcastUpdate();
+
+            toast({
+              title: "编辑冲突",
+              description: "该便签已在其他设备上修改，请选择保留的版本",
+            });
+            return null;
+          }
+          result = updateResult.note;
+        } else {
+          // 更新时传递客户端时间
+          result = await updateNoteAction(numId, user.id, content, clientTimeISO, title);
+        }
       }
       
-      // 将服务器结果转换为客户端笔记
+      // 将服务器结果转换为客户端笔记（识别正文标签失败时沿用原有标签）
       clientNote = mapDbNoteToNote(result);
+      if (!clientNote.tags) {
+        clientNote = { ...clientNote, tags: existingNote?.tags };
+      }
+      if (!sameNoteTags(existingNote?.tags, clientNote.tags)) {
+        void refreshTags();
+      }
       
       // 使用保存时的客户端时间
       setLastSyncTime(clientTimeNow);
@@ -741,12 +1997,14 @@ export function SyncProvider({ children }: { children: React.ReactNode }) {
       // 如果是新笔记，用实际ID更新UI中的临时笔记
       if (isNewNote) {
         setNotes((prev) => {
-          const tempIndex = prev.findIndex((n) => n.id === tempId);
+          // 推送触发的增量同步可能已先插入了真实便签，先去重
+          const deduped = prev.filter((n) => n.id !== clientNote.id);
+          const tempIndex = deduped.findIndex((n) => n.id === tempId);
           if (tempIndex !== -1) {
             return [
-              ...prev.slice(0, tempIndex),
+              ...deduped.slice(0, tempIndex),
               clientNote,
-              ...prev.slice(tempIndex + 1),
+              ...deduped.slice(tempIndex + 1),
             ];
           }
           return prev;
@@ -772,6 +2030,10 @@ export function SyncProvider({ children }: { children: React.ReactNode }) {
       
       return clientNote;
     } catch (error) {
+      if (isNetworkError(error) && await queueSave()) {
+        return tempNote
+      }
+
       console.error("Failed to save note", error);
 
       const errorMessage = error instanceof Error ? error.message : String(error)
@@ -789,8 +2051,6 @@ export function SyncProvider({ children }: { children: React.ReactNode }) {
         setTimeout(() => window.location.reload(), 600)
       }
       
-      // 便签保存失败，不再支持离线重试
-      
       // 如果操作失败，恢复UI
       setNotes(originalNotes);
       
@@ -859,19 +2119,40 @@ export function SyncProvider({ children }: { children: React.ReactNode }) {
     }
   }
 
+  // 处理编辑冲突：content 为 null 时放弃本机修改，保留服务器版本；否则以服务器版本为基准保存合并结果
+  const resolveNoteConflict = async (content: string | null): Promise<Note | null> => {
+    const conflict = noteConflict
+    if (!conflict) return null
+    setNoteConflict(null)
+
+    if (content === null) {
+      return conflict.server
+    }
+
+    // 标题只在本机修改过时才覆盖服务器标题
+    const title = conflict.mine.title !== conflict.base.title
+      ? conflict.mine.title
+      : conflict.server.title ?? ""
+    return saveNote(conflict.noteId, content, title, {
+      version: conflict.server.version ?? conflict.base.version,
+      content: conflict.server.content,
+      title: conflict.server.title ?? "",
+    })
+  }
+
   const regenerateAllTitles = async (): Promise<{ updated: number } | null> => {
     if (!user) return null
 
     try {
       const result = await regenerateAllNoteTitlesAction(user.id)
-      const titleById = new Map<string, { title: string; updatedAt?: Date }>()
+      const titleById = new Map<string, { title: string; updatedAt?: Date; version?: number }>()
 
       for (const item of result.titles || []) {
         const id = String((item as any).id)
         const title = String((item as any).title ?? "")
         const updatedAtRaw = (item as any).updated_at
         const updatedAt = updatedAtRaw ? new Date(updatedAtRaw) : undefined
-        titleById.set(id, { title, updatedAt })
+        titleById.set(id, { title, updatedAt, version: item.version })
       }
 
       if (titleById.size > 0) {
@@ -883,6 +2164,7 @@ export function SyncProvider({ children }: { children: React.ReactNode }) {
               ...note,
               title: next.title,
               updated_at: next.updatedAt ?? note.updated_at,
+              version: next.version ?? note.version,
             }
           }),
         )
@@ -901,6 +2183,90 @@ export function SyncProvider({ children }: { children: React.ReactNode }) {
     }
   }
 
+  // 将便签恢复到某个历史版本
+  const restoreNoteRevision = async (noteId: string, revisionId: number): Promise<Note | null> => {
+    if (!user) return null
+
+    try {
+      const numId = parseInt(noteId, 10)
+      if (isNaN(numId)) {
+        console.error("Invalid note ID:", noteId)
+        throw new Error("无效的笔记ID")
+      }
+
+      const result = await restoreNoteRevisionAction(numId, revisionId, user.id)
+      const clientNote = mapDbNoteToNote(result)
+
+      setNotes((prev) => prev.map((n) => (n.id === clientNote.id ? clientNote : n)))
+
+      const clientNow = new Date()
+      setLastSyncTime(clientNow)
+      lastSyncTimeRef.current = clientNow
+      lastContentUpdateRef.current = clientNow
+
+      broadcastUpdate()
+      return clientNote
+    } catch (error) {
+      console.error(`Failed to restore note ${noteId} to revision ${revisionId}`, error)
+      toast({
+        variant: "destructive",
+        title: "恢复失败",
+        description: "未能恢复历史版本，请稍后再试",
+      })
+      return null
+    }
+  }
+
+  // 从回收站恢复项目，并插回当前列表
+  const restoreFromTrash = async (type: TrashItemType, id: string): Promise<boolean> => {
+    if (!user) return false
+
+    try {
+      const numId = parseInt(id, 10)
+      if (isNaN(numId)) {
+        console.error("Invalid trash item ID:", id)
+        throw new Error("无效的ID")
+      }
+
+      if (type === "note") {
+        const restored = mapDbNoteToNote(await restoreNoteAction(numId, user.id))
+        if (noteMatchesGroup(restored, selectedGroupId, getGroupScope(groups, selectedGroupId, includeSubgroupNotes))) {
+          setNotes((prev) => [...prev.filter((n) => n.id !== restored.id), restored].sort(compareNotes))
+        }
+      } else if (type === "link") {
+        const restored = mapDbLinkToLink(await restoreLinkAction(numId, user.id))
+        setLinks((prev) =>
+          [...prev.filter((l) => l.id !== restored.id), restored].sort(
+            (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+          )
+        )
+      } else {
+        const restored = mapDbFileToFile(await restoreFileAction(numId, user.id))
+        setFiles((prev) =>
+          [...prev.filter((f) => f.id !== restored.id), restored].sort(
+            (a, b) => new Date(b.uploaded_at).getTime() - new Date(a.uploaded_at).getTime()
+          )
+        )
+      }
+
+      const clientNow = new Date()
+      setLastSyncTime(clientNow)
+      lastSyncTimeRef.current = clientNow
+      lastContentUpdateRef.current = clientNow
+
+      broadcastUpdate()
+      return true
+    } catch (error) {
+      console.error(`Failed to restore ${type} ${id} from trash`, error)
+      toast({
+        variant: "destructive",
+        title: "恢复失败",
+        description: "未能从回收站恢复，请稍后再试",
+      })
+      return false
+    }
+  }
+
   // Save a link
   const saveLink = async (
     url: string,
@@ -930,6 +2296,21 @@ export function SyncProvider({ children }: { children: React.ReactNode }) {
     // 广播更新到其他标签页
     broadcastUpdate();
 
+    // 离线时保留临时链接并写入队列
+    const queueLink = () => queueOperation({
+      type: "saveLink",
+      tempId,
+      url,
+      title,
+      clientTime: now.toISOString(),
+    })
+
+    if (shouldQueueOffline()) {
+      if (await queueLink()) return tempLink
+      setLinks(originalLinks)
+      return null
+    }
+
     try {
       // 获取客户端当前时间用于保存
       const clientTimeNow = new Date();
@@ -950,12 +2331,14 @@ export function SyncProvider({ children }: { children: React.ReactNode }) {
       
       // 用实际ID更新UI中的临时链接
       setLinks((prev) => {
-        const tempIndex = prev.findIndex((l) => l.id === tempId);
+        // 推送触发的增量同步可能已先插入了真实链接，先去重
+        const deduped = prev.filter((l) => l.id !== clientLink.id);
+        const tempIndex = deduped.findIndex((l) => l.id === tempId);
         if (tempIndex !== -1) {
           return [
-            ...prev.slice(0, tempIndex),
+            ...deduped.slice(0, tempIndex),
             clientLink,
-            ...prev.slice(tempIndex + 1),
+            ...deduped.slice(tempIndex + 1),
           ];
         }
         return prev;
@@ -966,10 +2349,12 @@ export function SyncProvider({ children }: { children: React.ReactNode }) {
       
       return clientLink;
     } catch (error) {
+      if (isNetworkError(error) && await queueLink()) {
+        return tempLink
+      }
+
       console.error("Failed to save link", error);
       
-      // 链接保存失败，不再支持离线重试
-      
       // 如果操作失败，恢复UI
       setLinks(originalLinks);
       
@@ -1386,7 +2771,7 @@ export function SyncProvider({ children }: { children: React.ReactNode }) {
       lastContentUpdateRef.current = new Date()
 
       // 更新UI
-      setFiles((prev) => [clientFile, ...prev])
+      setFiles((prev) => [clientFile, ...prev.filter((f) => f.id !== clientFile.id)])
       broadcastUpdate()
 
       console.log(`✅ 文件 ${file.name} 上传完成`)
@@ -1526,7 +2911,7 @@ export function SyncProvider({ children }: { children: React.ReactNode }) {
     try {
       console.log('📖 手动加载更多便签...')
       const currentCount = notes.length
-      const moreNotesData = await getNotesAction(user.id, 50, currentCount, selectedGroupId)
+      const moreNotesData = await getNotesAction(user.id, 50, currentCount, selectedGroupId, selectedTagId, includeSubgroupNotes)
 
       if (moreNotesData && moreNotesData.length > 0) {
         const moreNotes = moreNotesData.map(mapDbNoteToNote)
@@ -1558,7 +2943,7 @@ export function SyncProvider({ children }: { children: React.ReactNode }) {
     try {
       console.log('🚀 游标分页加载更多便签...', { nextCursor })
 
-      const response = await fetch(apiUrl(`/api/notes/cursor?userId=${user.id}&limit=50${nextCursor ? `&cursor=${nextCursor}` : ''}&groupId=${encodeURIComponent(selectedGroupId)}`))
+      const response = await fetch(apiUrl(`/api/notes/cursor?userId=${user.id}&limit=50${nextCursor ? `&cursor=${nextCursor}` : ''}&groupId=${encodeURIComponent(selectedGroupId)}${selectedTagId ? `&tagId=${encodeURIComponent(selectedTagId)}` : ''}${includeSubgroupNotes ? '&includeDescendants=true' : ''}`))
       const result = await response.json()
 
       if (result.success && result.data.length > 0) {
@@ -1602,13 +2987,36 @@ export function SyncProvider({ children }: { children: React.ReactNode }) {
         selectedGroupId,
         setSelectedGroupId,
         createGroup,
+        renameGroup,
+        moveGroup,
         deleteGroup,
+        includeSubgroupNotes,
+        setIncludeSubgroupNotes,
         moveNoteToGroup,
+        setNotePinned,
+        setNoteStarred,
+        resolveNoteLink,
+        setNoteReminder,
+        savedSearches,
+        refreshSavedSearches,
+        saveSearch,
+        updateSavedSearch,
+        deleteSavedSearch,
+        tags,
+        selectedTagId,
+        setSelectedTagId,
+        refreshTags,
+        renameTag,
+        deleteTag,
+        addTagToNote,
+        removeTagFromNote,
         links,
         files,
         user,
         sync,
         saveNote,
+        noteConflict,
+        resolveNoteConflict,
         deleteNote,
         saveLink,
         deleteLink,
@@ -1616,6 +3024,10 @@ export function SyncProvider({ children }: { children: React.ReactNode }) {
         deleteFile,
         renameFile,
         regenerateAllTitles,
+        restoreNoteRevision,
+        restoreFromTrash,
+        outboxCounts,
+        isOfflineMode,
         isInitialized,
         loadMoreNotes,
         loadMoreNotesCursor,
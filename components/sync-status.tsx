@@ -12,9 +12,12 @@ interface SyncStatusProps {
   lastSyncTime: Date | null
   isEnabled: boolean
   onToggle: () => void
+  pendingCount?: number // 离线队列中等待同步的操作数
+  failedCount?: number // 离线队列中回放失败的操作数
 }
 
-export function SyncStatus({ status, isEnabled, onToggle }: SyncStatusProps) {
+export function SyncStatus({ status, isEnabled, onToggle, pendingCount = 0, failedCount = 0 }: SyncStatusProps) {
+  const queuedCount = pendingCount + failedCount
 
   return (
     <TooltipProvider>
@@ -36,11 +39,24 @@ export function SyncStatus({ status, isEnabled, onToggle }: SyncStatusProps) {
                 <CloudOff className="h-4 w-4" />
               )}
 
-              {status === "error" && <span className="absolute bottom-0 right-0 h-2 w-2 rounded-full bg-destructive" />}
+              {queuedCount > 0 ? (
+                <span
+                  className={cn(
+                    "absolute -top-0.5 -right-0.5 min-w-[16px] h-4 px-1 rounded-full text-[10px] leading-4 font-medium text-white",
+                    failedCount > 0 ? "bg-destructive" : "bg-amber-500"
+                  )}
+                >
+                  {queuedCount > 99 ? "99+" : queuedCount}
+                </span>
+              ) : (
+                status === "error" && <span className="absolute bottom-0 right-0 h-2 w-2 rounded-full bg-destructive" />
+              )}
             </Button>
           </TooltipTrigger>
           <TooltipContent side="bottom">
-            <p>点击立即同步数据</p>
+            {pendingCount > 0 && <p>{pendingCount} 项离线修改等待同步</p>}
+            {failedCount > 0 && <p>{failedCount} 项修改同步失败，点击重试</p>}
+            {queuedCount === 0 && <p>点击立即同步数据</p>}
           </TooltipContent>
         </Tooltip>
       </div>
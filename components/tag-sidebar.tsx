@@ -0,0 +1,167 @@
+"use client"
+
+import { useState } from "react"
+import { Hash, MoreHorizontal, Pencil, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { useToast } from "@/hooks/use-toast"
+import { cn } from "@/lib/utils"
+
+interface TagItem {
+  id: string
+  name: string
+  note_count: number
+}
+
+interface TagSidebarProps {
+  tags: TagItem[]
+  selectedTagId: string | null
+  onSelectTag: (tagId: string | null) => void
+  onRenameTag: (id: string, name: string) => Promise<boolean>
+  onDeleteTag: (id: string) => Promise<boolean>
+  className?: string
+}
+
+/**
+ * TagSidebar - 标签列表
+ *
+ * 显示所有标签及其便签数量，点击按标签筛选便签，支持重命名（与已有标签同名时合并）和删除
+ */
+export function TagSidebar({ tags, selectedTagId, onSelectTag, onRenameTag, onDeleteTag, className }: TagSidebarProps) {
+  const { toast } = useToast()
+  const [renamingTag, setRenamingTag] = useState<TagItem | null>(null)
+  const [renameValue, setRenameValue] = useState("")
+  const [deletingTag, setDeletingTag] = useState<TagItem | null>(null)
+
+  const handleRename = async () => {
+    if (!renamingTag || !renameValue.trim()) return
+    const renamed = await onRenameTag(renamingTag.id, renameValue)
+    if (renamed) {
+      setRenamingTag(null)
+    } else {
+      toast({ title: "重命名失败", description: "请稍后再试", variant: "destructive" })
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!deletingTag) return
+    const deleted = await onDeleteTag(deletingTag.id)
+    setDeletingTag(null)
+    if (!deleted) {
+      toast({ title: "删除失败", description: "请稍后再试", variant: "destructive" })
+    }
+  }
+
+  const rowClassName = (active: boolean) => cn(
+    "group flex w-full items-center gap-1.5 rounded-md px-2 py-1.5 text-left text-sm transition-colors",
+    active ? "bg-accent text-accent-foreground" : "text-muted-foreground hover:bg-accent/50 hover:text-foreground",
+  )
+
+  return (
+    <div className={cn("flex flex-col gap-0.5 overflow-y-auto", className)}>
+      <button type="button" className={rowClassName(selectedTagId === null)} onClick={() => onSelectTag(null)}>
+        <span className="flex-1 truncate">全部标签</span>
+      </button>
+
+      {tags.length === 0 && (
+        <p className="px-2 py-3 text-xs text-muted-foreground">
+          在便签中输入 #标签 或使用便签上的标签按钮添加
+        </p>
+      )}
+
+      {tags.map((tag) => (
+        <div key={tag.id} className={rowClassName(selectedTagId === tag.id)}>
+          <button
+            type="button"
+            className="flex min-w-0 flex-1 items-center gap-1.5"
+            onClick={() => onSelectTag(selectedTagId === tag.id ? null : tag.id)}
+            title={tag.name}
+          >
+            <Hash className="h-3 w-3 shrink-0 opacity-60" />
+            <span className="flex-1 truncate">{tag.name}</span>
+            <span className="text-xs tabular-nums opacity-70">{tag.note_count}</span>
+          </button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-5 w-5 opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100"
+                aria-label="标签操作"
+              >
+                <MoreHorizontal className="h-3 w-3" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem
+                onSelect={() => {
+                  setRenamingTag(tag)
+                  setRenameValue(tag.name)
+                }}
+              >
+                <Pencil className="mr-2 h-4 w-4" />
+                重命名
+              </DropdownMenuItem>
+              <DropdownMenuItem className="text-destructive" onSelect={() => setDeletingTag(tag)}>
+                <Trash2 className="mr-2 h-4 w-4" />
+                删除
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      ))}
+
+      <Dialog open={renamingTag !== null} onOpenChange={(open) => !open && setRenamingTag(null)}>
+        <DialogContent className="sm:max-w-[380px]">
+          <DialogHeader>
+            <DialogTitle>重命名标签</DialogTitle>
+          </DialogHeader>
+          <Input
+            value={renameValue}
+            onChange={(e) => setRenameValue(e.target.value)}
+            placeholder="标签名称"
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault()
+                handleRename()
+              }
+            }}
+          />
+          <p className="text-xs text-muted-foreground">与已有标签同名时会合并为一个标签</p>
+          <DialogFooter>
+            <Button onClick={handleRename} disabled={!renameValue.trim()}>
+              保存
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deletingTag !== null} onOpenChange={(open) => !open && setDeletingTag(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>删除标签“{deletingTag?.name}”？</AlertDialogTitle>
+            <AlertDialogDescription>
+              便签本身不会被删除，只会移除该标签。正文中仍包含 #{deletingTag?.name} 的便签再次保存时会重新添加。
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>取消</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>删除</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,259 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Card, CardContent } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { useSync } from "@/hooks/use-sync"
+import { useTime } from "@/hooks/use-time"
+import { useToast } from "@/hooks/use-toast"
+import { FileText, Link2, Loader2, RotateCcw, StickyNote, Trash2 } from "lucide-react"
+import { htmlToText, isActualHtml } from "@/components/note-editor/NoteEditorState"
+import {
+  getTrashItems,
+  permanentlyDeleteTrashItem,
+  emptyTrash,
+  TrashItems,
+} from "@/app/actions/db-actions"
+import type { TrashItemType } from "@/lib/trash"
+
+interface TrashEntry {
+  type: TrashItemType
+  id: string
+  title: string
+  subtitle: string
+  deletedAt: Date
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function toEntries(items: TrashItems): TrashEntry[] {
+  const entries: TrashEntry[] = [
+    ...items.notes.map((note) => {
+      const text = isActualHtml(note.content) ? htmlToText(note.content) : note.content
+      return {
+        type: "note" as const,
+        id: String(note.id),
+        title: note.title?.trim() || text.split("\n")[0] || "无标题便签",
+        subtitle: text,
+        deletedAt: new Date(note.deleted_at),
+      }
+    }),
+    ...items.links.map((link) => ({
+      type: "link" as const,
+      id: String(link.id),
+      title: link.title || link.url,
+      subtitle: link.url,
+      deletedAt: new Date(link.deleted_at),
+    })),
+    ...items.files.map((file) => ({
+      type: "file" as const,
+      id: String(file.id),
+      title: file.name,
+      subtitle: file.type,
+      deletedAt: new Date(file.deleted_at),
+    })),
+  ]
+  return entries.sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime())
+}
+
+const typeIcons: Record<TrashItemType, typeof StickyNote> = {
+  note: StickyNote,
+  link: Link2,
+  file: FileText,
+}
+
+/**
+ * TrashList - 回收站列表
+ * 列出已删除的便签、链接和文件，支持恢复、彻底删除和清空
+ */
+export function TrashList() {
+  const { user, restoreFromTrash } = useSync()
+  const { getRelativeTime } = useTime()
+  const { toast } = useToast()
+
+  const [entries, setEntries] = useState<TrashEntry[]>([])
+  const [retentionDays, setRetentionDays] = useState(30)
+  const [isLoading, setIsLoading] = useState(false)
+  const [busyKey, setBusyKey] = useState<string | null>(null)
+  const [isEmptyDialogOpen, setIsEmptyDialogOpen] = useState(false)
+
+  const loadTrash = useCallback(async () => {
+    if (!user) return
+    setIsLoading(true)
+    try {
+      const items = await getTrashItems(user.id)
+      setEntries(toEntries(items))
+      setRetentionDays(items.retention_days)
+    } catch (error) {
+      console.error("加载回收站失败:", error)
+      toast({ variant: "destructive", title: "加载失败", description: "未能加载回收站" })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [user, toast])
+
+  useEffect(() => {
+    void loadTrash()
+  }, [loadTrash])
+
+  const removeEntry = (entry: TrashEntry) => {
+    setEntries((prev) => prev.filter((e) => !(e.type === entry.type && e.id === entry.id)))
+  }
+
+  const handleRestore = async (entry: TrashEntry) => {
+    setBusyKey(`${entry.type}-${entry.id}`)
+    try {
+      if (await restoreFromTrash(entry.type, entry.id)) {
+        removeEntry(entry)
+        toast({ title: "已恢复", duration: 1500 })
+      }
+    } finally {
+      setBusyKey(null)
+    }
+  }
+
+  const handlePermanentDelete = async (entry: TrashEntry) => {
+    if (!user) return
+    setBusyKey(`${entry.type}-${entry.id}`)
+    try {
+      await permanentlyDeleteTrashItem(entry.type, parseInt(entry.id, 10), user.id)
+      removeEntry(entry)
+    } catch (error) {
+      console.error("彻底删除失败:", error)
+      toast({ variant: "destructive", title: "删除失败", description: "未能彻底删除，请稍后再试" })
+    } finally {
+      setBusyKey(null)
+    }
+  }
+
+  const handleEmptyTrash = async () => {
+    if (!user) return
+    setIsEmptyDialogOpen(false)
+    setIsLoading(true)
+    try {
+      await emptyTrash(user.id)
+      toast({ title: "回收站已清空", duration: 1500 })
+    } catch (error) {
+      console.error("清空回收站失败:", error)
+      toast({ variant: "destructive", title: "清空失败", description: "未能清空回收站，请稍后再试" })
+    } finally {
+      await loadTrash()
+    }
+  }
+
+  const getRemainingDays = (deletedAt: Date) =>
+    Math.max(0, Math.ceil((deletedAt.getTime() + retentionDays * DAY_MS - Date.now()) / DAY_MS))
+
+  if (isLoading && entries.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-60 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        <span className="font-apply-target">加载中...</span>
+      </div>
+    )
+  }
+
+  return (
+    <>
+      <div className="flex items-center justify-between mb-3 text-xs text-muted-foreground font-apply-target">
+        <span>删除的项目将在 {retentionDays} 天后自动彻底删除</span>
+        {entries.length > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-xs text-destructive hover:text-destructive"
+            onClick={() => setIsEmptyDialogOpen(true)}
+          >
+            清空回收站
+          </Button>
+        )}
+      </div>
+
+      {entries.length === 0 ? (
+        <div className="flex items-center justify-center h-60 text-muted-foreground text-sm font-apply-target">
+          回收站是空的
+        </div>
+      ) : (
+        <div className="grid gap-2">
+          {entries.map((entry) => {
+            const Icon = typeIcons[entry.type]
+            const isBusy = busyKey === `${entry.type}-${entry.id}`
+            return (
+              <Card key={`${entry.type}-${entry.id}`} className="overflow-hidden">
+                <CardContent className="p-3">
+                  <div className="flex justify-between items-start gap-2">
+                    <Icon className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+                    <div className="flex-1 min-w-0">
+                      <div className="font-medium text-sm truncate font-apply-target">{entry.title}</div>
+                      {entry.subtitle && entry.subtitle !== entry.title && (
+                        <div className="text-xs text-muted-foreground truncate mt-1 font-apply-target">
+                          {entry.subtitle}
+                        </div>
+                      )}
+                      <div className="text-xs text-muted-foreground mt-1 font-apply-target">
+                        {getRelativeTime(entry.deletedAt)}删除 · {getRemainingDays(entry.deletedAt)} 天后彻底删除
+                      </div>
+                    </div>
+
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-muted-foreground hover:text-primary"
+                      disabled={isBusy}
+                      onClick={() => handleRestore(entry)}
+                      title="恢复"
+                    >
+                      {isBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                      disabled={isBusy}
+                      onClick={() => handlePermanentDelete(entry)}
+                      title="彻底删除"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )
+          })}
+        </div>
+      )}
+
+      <AlertDialog open={isEmptyDialogOpen} onOpenChange={setIsEmptyDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>清空回收站？</AlertDialogTitle>
+            <AlertDialogDescription>
+              回收站中的所有便签、链接和文件将被彻底删除，此操作无法撤销。
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>取消</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault()
+                void handleEmptyTrash()
+              }}
+            >
+              确认清空
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  )
+}
@@ -0,0 +1,150 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Bell, Loader2 } from "lucide-react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { useAuth } from "@/hooks/use-auth"
+import { useMobile } from "@/hooks/use-mobile"
+import { useToast } from "@/hooks/use-toast"
+import { cn } from "@/lib/utils"
+import { getUpcomingReminders, type Note } from "@/app/actions/db-actions"
+import { htmlToText, isActualHtml } from "@/components/note-editor/NoteEditorState"
+import { formatReminderTime } from "@/components/note-reminder-dialog"
+
+interface UpcomingRemindersDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+type ReminderSection = { label: string; notes: Note[] }
+
+// 按提醒日期分为已过期、今天、明天、之后
+function groupReminders(notes: Note[]): ReminderSection[] {
+  const now = new Date()
+  const startOfTomorrow = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1).getTime()
+  const startOfDayAfter = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 2).getTime()
+
+  const sections: ReminderSection[] = [
+    { label: "已到期", notes: [] },
+    { label: "今天", notes: [] },
+    { label: "明天", notes: [] },
+    { label: "之后", notes: [] },
+  ]
+  for (const note of notes) {
+    const time = note.remind_at ? new Date(note.remind_at).getTime() : 0
+    if (time <= now.getTime()) sections[0].notes.push(note)
+    else if (time < startOfTomorrow) sections[1].notes.push(note)
+    else if (time < startOfDayAfter) sections[2].notes.push(note)
+    else sections[3].notes.push(note)
+  }
+  return sections.filter((section) => section.notes.length > 0)
+}
+
+const getPreview = (note: Note) => {
+  if (note.title?.trim()) return note.title
+  const text = isActualHtml(note.content) ? htmlToText(note.content) : note.content
+  return text.trim().split("\n")[0] || "（空便签）"
+}
+
+/**
+ * UpcomingRemindersDialog - 即将到期
+ *
+ * 按时间列出尚未提醒的便签，点击在编辑器中打开
+ */
+export function UpcomingRemindersDialog({ open, onOpenChange }: UpcomingRemindersDialogProps) {
+  const { user } = useAuth()
+  const { toast } = useToast()
+  const isMobile = useMobile()
+  const [reminders, setReminders] = useState<Note[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+
+  // 打开时加载
+  useEffect(() => {
+    if (!open || !user?.id) return
+
+    let cancelled = false
+    setIsLoading(true)
+
+    getUpcomingReminders(user.id)
+      .then((list) => {
+        if (!cancelled) setReminders(list)
+      })
+      .catch((error) => {
+        console.error("加载即将到期的提醒失败:", error)
+        if (!cancelled) {
+          toast({ variant: "destructive", title: "加载失败", description: "未能加载即将到期的提醒" })
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [open, user?.id, toast])
+
+  const sections = useMemo(() => groupReminders(reminders), [reminders])
+
+  const openNote = (note: Note) => {
+    window.dispatchEvent(new CustomEvent("pwa-note:edit-note", { detail: { ...note, id: String(note.id) } }))
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className={cn(
+          "sm:max-w-[480px] mx-auto",
+          isMobile && "w-[calc(100%-2rem)] p-4 rounded-2xl",
+        )}
+      >
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Bell className="h-4 w-4" />
+            即将到期
+          </DialogTitle>
+          <DialogDescription>设置了提醒且尚未提醒的便签</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-10 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            加载中...
+          </div>
+        ) : sections.length === 0 ? (
+          <div className="py-10 text-center text-sm text-muted-foreground">暂无即将到期的提醒</div>
+        ) : (
+          <div className="max-h-[420px] overflow-auto space-y-3">
+            {sections.map((section) => (
+              <div key={section.label}>
+                <div className="px-1 pb-1 text-xs font-medium text-muted-foreground">{section.label}</div>
+                <div className="rounded-md border">
+                  {section.notes.map((note) => (
+                    <button
+                      key={note.id}
+                      type="button"
+                      onClick={() => openNote(note)}
+                      className="flex w-full items-center justify-between gap-3 border-b px-3 py-2 text-left text-sm last:border-b-0 hover:bg-accent/50 transition-colors"
+                    >
+                      <span className="truncate">{getPreview(note)}</span>
+                      {note.remind_at && (
+                        <span className="shrink-0 text-xs text-muted-foreground">{formatReminderTime(note.remind_at)}</span>
+                      )}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -5,12 +5,21 @@ import { Card, CardContent } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Textarea } from '@/components/ui/textarea'
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip'
-import { Copy, Check, Trash2, Edit3, Save, X, Folder, Eye } from 'lucide-react'
+import { Copy, Check, Trash2, Edit3, Save, X, Folder, Eye, History, MoreHorizontal, Pin, PinOff, Star, StarOff, ListChecks, Bell } from 'lucide-react'
 import { useTime } from '@/hooks/use-time'
 import { useToast } from '@/hooks/use-toast'
+import { useSettings } from '@/hooks/use-settings'
 import { htmlToText, isActualHtml } from '@/components/note-editor/NoteEditorState'
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu'
 import { cn } from '@/lib/utils'
+import { NoteHistoryDialog } from '@/components/note-history-dialog'
+import { NoteReminderDialog, formatReminderTime } from '@/components/note-reminder-dialog'
+import { NoteTagPicker } from '@/components/note-tag-picker'
+import { NoteBacklinksPopover } from '@/components/note-backlinks-popover'
+import { MarkdownContent } from '@/components/markdown-content'
+import { NOTE_DRAG_TYPE } from '@/lib/group-tree'
+import { splitWikiLinks } from '@/lib/wiki-links'
+import { getChecklistProgress, parseChecklist, toggleChecklistLine } from '@/lib/checklists'
 
 interface Note {
   id: string
@@ -19,6 +28,24 @@ interface Note {
   user_id: string
   created_at: Date
   updated_at: Date
+  version?: number
+  pinned?: boolean
+  starred?: boolean
+  remind_at?: Date | string | null
+  tags?: NoteTag[]
+}
+
+interface NoteTag {
+  id: number
+  name: string
+  source: "manual" | "inline"
+}
+
+// 开始编辑时的便签状态，保存时用于检测并发修改
+interface NoteEditBase {
+  version: number
+  content: string
+  title: string
 }
 
 interface Group {
@@ -26,15 +53,29 @@ interface Group {
   name: string
 }
 
+interface Tag {
+  id: string
+  name: string
+}
+
 interface VirtualNotesListProps {
   notes: Note[]
   onLoadMore?: () => Promise<boolean>
   hasMore?: boolean
   isLoading?: boolean
   onDeleteNote?: (id: string) => Promise<boolean>
-  onSaveNote?: (id: string, content: string, title?: string) => Promise<Note | null>
+  onSaveNote?: (id: string, content: string, title?: string, base?: NoteEditBase) => Promise<Note | null>
   groups?: Group[]
   onMoveNoteToGroup?: (noteId: string, groupId: string) => Promise<boolean>
+  onRestoreNoteRevision?: (noteId: string, revisionId: number) => Promise<Note | null>
+  tags?: Tag[]
+  onAddNoteTag?: (noteId: string, name: string) => Promise<boolean>
+  onRemoveNoteTag?: (noteId: string, tagId: string) => Promise<boolean>
+  onSelectTag?: (tagId: string) => void
+  onSetNotePinned?: (noteId: string, pinned: boolean) => Promise<boolean>
+  onSetNoteStarred?: (noteId: string, starred: boolean) => Promise<boolean>
+  onSetNoteReminder?: (noteId: string, remindAt: Date | null) => Promise<boolean>
+  onResolveNoteLink?: (sourceNoteId: string, title: string) => Promise<Note | null>
   className?: string
   containerHeight?: number
 }
@@ -45,7 +86,14 @@ interface VirtualNotesListProps {
  * 职责：
  * - 使用虚拟滚动渲染大量便签
  * - 支持便签的查看、编辑、删除、复制操作
+ * - 支持查看历史版本并恢复
+ * - 显示便签标签，支持添加、移除标签和按标签筛选
+ * - 支持置顶和收藏便签，可设置提醒时间
+ * - 支持把便签拖到分组树中的分组上移动
+ * - 正文中的 [[标题]] 显示为链接，点击打开对应便签；可查看反向链接
  * - 自动处理HTML内容转换
+ * - 按设置以纯文本或渲染后的 Markdown 显示内容
+ * - 待办项显示为复选框，点击直接保存，并显示完成进度
  * - 支持无限滚动加载更多
  */
 export const VirtualNotesList = memo(function VirtualNotesList({
@@ -56,10 +104,21 @@ export const VirtualNotesList = memo(function VirtualNotesList({
   onDeleteNote,
   onSaveNote,
   groups,
-  onMoveNoteToGroup
+  onMoveNoteToGroup,
+  onRestoreNoteRevision,
+  tags,
+  onAddNoteTag,
+  onRemoveNoteTag,
+  onSelectTag,
+  onSetNotePinned,
+  onSetNoteStarred,
+  onSetNoteReminder,
+  onResolveNoteLink
 }: VirtualNotesListProps) {
   const { getRelativeTime } = useTime()
   const { toast } = useToast()
+  const { settings } = useSettings()
+  const renderMarkdown = settings.noteRenderMode === 'markdown'
   const containerRef = useRef<HTMLDivElement>(null)
 
   const notesById = useMemo(() => new Map(notes.map((note) => [note.id, note])), [notes])
@@ -77,6 +136,9 @@ export const VirtualNotesList = memo(function VirtualNotesList({
   const editTextareaRef = useRef<HTMLTextAreaElement>(null)
   const titleInputRef = useRef<HTMLTextAreaElement>(null)
   const [isLoadingMore, setIsLoadingMore] = useState(false)
+  const [historyNoteId, setHistoryNoteId] = useState<string | null>(null)
+  const [reminderNoteId, setReminderNoteId] = useState<string | null>(null)
+  const editBaseRef = useRef<NoteEditBase | null>(null)
 
   // 处理双击编辑
   const handleDoubleClick = useCallback((note: Note) => {
@@ -92,6 +154,9 @@ export const VirtualNotesList = memo(function VirtualNotesList({
       ? htmlToText(note.content)
       : note.content
     setEditingContent(contentForEdit)
+    editBaseRef.current = note.version !== undefined
+      ? { version: note.version, content: note.content, title: note.title ?? "" }
+      : null
 
     // 延迟聚焦
     setTimeout(() => {
@@ -128,7 +193,12 @@ export const VirtualNotesList = memo(function VirtualNotesList({
     setEditingContent("")
 
     try {
-      const result = await onSaveNote(editingNoteId, trimmedContent, notesById.get(editingNoteId)?.title ?? "")
+      const result = await onSaveNote(
+        editingNoteId,
+        trimmedContent,
+        notesById.get(editingNoteId)?.title ?? "",
+        editBaseRef.current ?? undefined,
+      )
       if (result) {
         toast({
           title: "保存成功",
@@ -220,6 +290,118 @@ export const VirtualNotesList = memo(function VirtualNotesList({
     }
   }, [onDeleteNote])
 
+  const handleAddNoteTag = useCallback(async (noteId: string, name: string) => {
+    if (!onAddNoteTag) return false
+    const added = await onAddNoteTag(noteId, name)
+    if (!added) {
+      toast({
+        title: "添加标签失败",
+        description: "请确认网络连接后再试",
+        variant: "destructive",
+      })
+    }
+    return added
+  }, [onAddNoteTag, toast])
+
+  const handleRemoveNoteTag = useCallback(async (noteId: string, tagId: string) => {
+    if (!onRemoveNoteTag) return false
+    const removed = await onRemoveNoteTag(noteId, tagId)
+    if (!removed) {
+      toast({
+        title: "移除标签失败",
+        description: "请确认网络连接后再试",
+        variant: "destructive",
+      })
+    }
+    return removed
+  }, [onRemoveNoteTag, toast])
+
+  const handleTogglePinned = useCallback(async (note: Note) => {
+    if (!onSetNotePinned) return
+    const updated = await onSetNotePinned(note.id, !note.pinned)
+    if (!updated) {
+      toast({
+        title: note.pinned ? "取消置顶失败" : "置顶失败",
+        description: "请确认网络连接后再试",
+        variant: "destructive",
+      })
+    }
+  }, [onSetNotePinned, toast])
+
+  const handleToggleStarred = useCallback(async (note: Note) => {
+    if (!onSetNoteStarred) return
+    const updated = await onSetNoteStarred(note.id, !note.starred)
+    if (!updated) {
+      toast({
+        title: note.starred ? "取消收藏失败" : "收藏失败",
+        description: "请确认网络连接后再试",
+        variant: "destructive",
+      })
+    }
+  }, [onSetNoteStarred, toast])
+
+  // 打开 [[标题]] 链接指向的便签
+  const handleOpenNoteLink = useCallback(async (sourceNoteId: string, title: string) => {
+    if (!onResolveNoteLink) return
+    const target = await onResolveNoteLink(sourceNoteId, title)
+    if (target) {
+      dispatchEditNote(target)
+    } else {
+      toast({
+        title: `未找到便签“${title}”`,
+        description: "可以新建一条以此为标题的便签",
+        duration: 2000
+      })
+    }
+  }, [onResolveNoteLink, dispatchEditNote, toast])
+
+  // 渲染纯文本内容，其中的 [[标题]] 显示为可点击的链接
+  const renderNoteText = useCallback((noteId: string, text: string): React.ReactNode => {
+    if (!onResolveNoteLink) return text
+    return splitWikiLinks(text).map((segment, index) =>
+      segment.type === 'link' ? (
+        <button
+          key={index}
+          type="button"
+          className="text-primary underline-offset-2 hover:underline"
+          onClick={(e) => {
+            e.stopPropagation()
+            void handleOpenNoteLink(noteId, segment.title)
+          }}
+          onDoubleClick={(e) => e.stopPropagation()}
+        >
+          {segment.text}
+        </button>
+      ) : (
+        <React.Fragment key={index}>{segment.text}</React.Fragment>
+      )
+    )
+  }, [onResolveNoteLink, handleOpenNoteLink])
+
+  // 点击待办复选框：切换对应行的 [ ] / [x] 并直接保存，同一便签的保存完成前忽略重复点击
+  const togglingNoteIdsRef = useRef(new Set<string>())
+  const handleToggleChecklistItem = useCallback(async (note: Note, line: number) => {
+    if (!onSaveNote || togglingNoteIdsRef.current.has(note.id)) return
+
+    const content = isActualHtml(note.content) ? htmlToText(note.content) : note.content
+    const nextContent = toggleChecklistLine(content, line)
+    if (nextContent === content) return
+
+    togglingNoteIdsRef.current.add(note.id)
+    try {
+      await onSaveNote(note.id, nextContent, note.title ?? "")
+    } catch (error) {
+      console.error("更新待办状态失败:", error)
+      toast({
+        title: "保存失败",
+        description: "网络错误，请稍后再试",
+        variant: "destructive",
+      })
+    } finally {
+      togglingNoteIdsRef.current.delete(note.id)
+    }
+  }, [onSaveNote, toast])
+
   // 处理滚动事件，实现无限滚动
   const handleScroll = useCallback((e: React.UIEvent<HTMLDivElement>) => {
     const target = e.currentTarget
@@ -244,7 +426,15 @@ export const VirtualNotesList = memo(function VirtualNotesList({
     const isEditing = editingNoteId === note.id
 
     return (
-      <Card className="mb-3 overflow-hidden rounded-lg">
+      <Card
+        className="mb-3 overflow-hidden rounded-lg"
+        draggable={!isEditing && !!onMoveNoteToGroup}
+        onDragStart={(e) => {
+          // 拖到分组树上的分组即可移动便签
+          e.dataTransfer.setData(NOTE_DRAG_TYPE, note.id)
+          e.dataTransfer.effectAllowed = "move"
+        }}
+      >
         <CardContent className="p-3 flex flex-col">
           <div className="flex justify-between items-start gap-2">
             <div className="flex-1 min-w-0 font-apply-target">
@@ -282,16 +472,110 @@ export const VirtualNotesList = memo(function VirtualNotesList({
                         ? htmlToText(note.content)
                         : note.content
 
+                      // Markdown 模式下限制高度，完整内容在查看时显示
+                      if (renderMarkdown) {
+                        return (
+                          <MarkdownContent
+                            content={content}
+                            className="max-h-48 overflow-hidden"
+                            onOpenNoteLink={onResolveNoteLink ? (title) => void handleOpenNoteLink(note.id, title) : undefined}
+                            onToggleChecklistItem={onSaveNote ? (line) => void handleToggleChecklistItem(note, line) : undefined}
+                          />
+                        )
+                      }
+
+                      // 含待办项时逐行显示，待办行渲染为复选框
+                      const checklistItems = new Map(parseChecklist(content).map((item) => [item.line, item]))
+                      if (checklistItems.size > 0) {
+                        return (
+                          <div className="max-h-48 overflow-hidden">
+                            {content.split('\n').map((text, index) => {
+                              const item = checklistItems.get(index + 1)
+                              if (!item) {
+                                return <div key={index}>{text ? renderNoteText(note.id, text) : '\u00a0'}</div>
+                              }
+                              return (
+                                <label
+                                  key={index}
+                                  className="flex items-start gap-1.5 whitespace-normal"
+                                  onClick={(e) => e.stopPropagation()}
+                                  onDoubleClick={(e) => e.stopPropagation()}
+                                >
+                                  <input
+                                    type="checkbox"
+                                    className="mt-1 cursor-pointer"
+                                    checked={item.checked}
+                                    disabled={!onSaveNote}
+                                    onChange={() => void handleToggleChecklistItem(note, item.line)}
+                                  />
+                                  <span className={cn(item.checked && "line-through text-muted-foreground")}>
+                                    {renderNoteText(note.id, item.text)}
+                                  </span>
+                                </label>
+                              )
+                            })}
+                          </div>
+                        )
+                      }
+
                       // 根据内容长度决定显示行数
                       const isShortContent = content.length <= 20
                       return (
                         <div className={isShortContent ? "line-clamp-1" : "line-clamp-3"}>
-                          {content}
+                          {renderNoteText(note.id, content)}
                         </div>
                       )
                     })()}
                   </div>
+                  {note.tags && note.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mb-2">
+                      {note.tags.map((tag) => (
+                        <button
+                          key={tag.id}
+                          type="button"
+                          className="rounded-full bg-muted px-2 py-0.5 text-xs text-muted-foreground hover:bg-accent hover:text-foreground transition-colors"
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            onSelectTag?.(String(tag.id))
+                          }}
+                          title={onSelectTag ? `只看 #${tag.name}` : undefined}
+                        >
+                          #{tag.name}
+                        </button>
+                      ))}
+                    </div>
+                  )}
                   <div className="text-xs text-muted-foreground flex items-center gap-2">
+                    {note.pinned && <Pin className="h-3 w-3 text-primary" aria-label="已置顶" />}
+                    {note.starred && <Star className="h-3 w-3 fill-yellow-400 text-yellow-500" aria-label="已收藏" />}
+                    {note.remind_at && (
+                      <span
+                        className={cn(
+                          "inline-flex items-center gap-0.5",
+                          new Date(note.remind_at).getTime() > Date.now() ? "text-primary" : "line-through opacity-70"
+                        )}
+                        aria-label={`提醒时间 ${formatReminderTime(note.remind_at)}`}
+                      >
+                        <Bell className="h-3 w-3" />
+                        {formatReminderTime(note.remind_at)}
+                      </span>
+                    )}
+                    {(() => {
+                      const progress = getChecklistProgress(isActualHtml(note.content) ? htmlToText(note.content) : note.content)
+                      if (!progress) return null
+                      return (
+                        <span
+                          className={cn(
+                            "inline-flex items-center gap-0.5",
+                            progress.done === progress.total && "text-green-600 dark:text-green-500"
+                          )}
+                          aria-label={`待办完成 ${progress.done}/${progress.total}`}
+                        >
+                          <ListChecks className="h-3 w-3" />
+                          {progress.done}/{progress.total}
+                        </span>
+                      )
+                    })()}
                     <span>{getRelativeTime(note.created_at)}</span>
                     <TooltipProvider>
                       <Tooltip>
@@ -338,6 +622,40 @@ export const VirtualNotesList = memo(function VirtualNotesList({
                     </Tooltip>
                   </TooltipProvider>
 
+                  {onRestoreNoteRevision && (
+                    <TooltipProvider>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-muted-foreground hover:text-primary"
+                            onClick={(e) => {
+                              e.stopPropagation()
+                              setHistoryNoteId(note.id)
+                            }}
+                          >
+                            <History className="h-4 w-4" />
+                          </Button>
+                        </TooltipTrigger>
+                        <TooltipContent>
+                          <p>历史版本</p>
+                        </TooltipContent>
+                      </Tooltip>
+                    </TooltipProvider>
+                  )}
+
+                  {onResolveNoteLink && <NoteBacklinksPopover noteId={note.id} />}
+
+                  {onAddNoteTag && onRemoveNoteTag && (
+                    <NoteTagPicker
+                      noteTags={note.tags ?? []}
+                      allTags={tags ?? []}
+                      onAddTag={(name) => handleAddNoteTag(note.id, name)}
+                      onRemoveTag={(tagId) => handleRemoveNoteTag(note.id, tagId)}
+                    />
+                  )}
+
                   {onMoveNoteToGroup && (
                     <DropdownMenu>
                       <DropdownMenuTrigger asChild>
@@ -372,6 +690,41 @@ export const VirtualNotesList = memo(function VirtualNotesList({
                     </DropdownMenu>
                   )}
 
+                  {(onSetNotePinned || onSetNoteStarred || onSetNoteReminder) && (
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-muted-foreground hover:text-primary"
+                          aria-label="更多操作"
+                        >
+                          <MoreHorizontal className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        {onSetNotePinned && (
+                          <DropdownMenuItem onClick={() => void handleTogglePinned(note)}>
+                            {note.pinned ? <PinOff className="mr-2 h-4 w-4" /> : <Pin className="mr-2 h-4 w-4" />}
+                            {note.pinned ? "取消置顶" : "置顶"}
+                          </DropdownMenuItem>
+                        )}
+                        {onSetNoteStarred && (
+                          <DropdownMenuItem onClick={() => void handleToggleStarred(note)}>
+                            {note.starred ? <StarOff className="mr-2 h-4 w-4" /> : <Star className="mr-2 h-4 w-4" />}
+                            {note.starred ? "取消收藏" : "收藏"}
+                          </DropdownMenuItem>
+                        )}
+                        {onSetNoteReminder && (
+                          <DropdownMenuItem onClick={() => setReminderNoteId(note.id)}>
+                            <Bell className="mr-2 h-4 w-4" />
+                            {note.remind_at ? "修改提醒…" : "设置提醒…"}
+                          </DropdownMenuItem>
+                        )}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  )}
+
                   <TooltipProvider>
                     <Tooltip>
                       <TooltipTrigger asChild>
@@ -484,7 +837,25 @@ export const VirtualNotesList = memo(function VirtualNotesList({
     dispatchEditNote
     ,
     groups,
-    onMoveNoteToGroup
+    onMoveNoteToGroup,
+    onRestoreNoteRevision,
+    tags,
+    onAddNoteTag,
+    onRemoveNoteTag,
+    onSelectTag,
+    handleAddNoteTag,
+    handleRemoveNoteTag,
+    onSetNotePinned,
+    onSetNoteStarred,
+    onSetNoteReminder,
+    handleTogglePinned,
+    handleToggleStarred,
+    onResolveNoteLink,
+    handleOpenNoteLink,
+    renderMarkdown,
+    renderNoteText,
+    handleToggleChecklistItem,
+    onSaveNote
   ])
 
   if (notes.length === 0) {
@@ -527,6 +898,27 @@ export const VirtualNotesList = memo(function VirtualNotesList({
         )}
       </div>
 
+      {onRestoreNoteRevision && (
+        <NoteHistoryDialog
+          note={historyNoteId ? notesById.get(historyNoteId) ?? null : null}
+          open={historyNoteId !== null}
+          onOpenChange={(open) => {
+            if (!open) setHistoryNoteId(null)
+          }}
+          onRestore={onRestoreNoteRevision}
+        />
+      )}
+
+      {onSetNoteReminder && (
+        <NoteReminderDialog
+          note={reminderNoteId ? notesById.get(reminderNoteId) ?? null : null}
+          open={reminderNoteId !== null}
+          onOpenChange={(open) => {
+            if (!open) setReminderNoteId(null)
+          }}
+          onSetReminder={onSetNoteReminder}
+        />
+      )}
     </div>
   )
 })
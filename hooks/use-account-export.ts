@@ -0,0 +1,30 @@
+"use client"
+
+import { useCallback, useState } from "react"
+import { useAuth } from "@/hooks/use-auth"
+import { downloadAccountExport, type ExportProgress } from "@/lib/account-export-client"
+
+/**
+ * useAccountExport - 导出全部数据
+ *
+ * 返回是否正在导出、下载进度和开始导出的方法
+ */
+export function useAccountExport() {
+  const { user } = useAuth()
+  const [isExporting, setIsExporting] = useState(false)
+  const [progress, setProgress] = useState<ExportProgress | null>(null)
+
+  const exportAll = useCallback(async () => {
+    if (!user) return
+    setIsExporting(true)
+    setProgress({ receivedBytes: 0, estimatedBytes: 0 })
+    try {
+      await downloadAccountExport(user.id, setProgress)
+    } finally {
+      setIsExporting(false)
+      setProgress(null)
+    }
+  }, [user])
+
+  return { isExporting, progress, exportAll }
+}
@@ -0,0 +1,73 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { useAuth } from "@/hooks/use-auth"
+import {
+  getCurrentPushSubscription,
+  isPushEnabledLocally,
+  isPushSupported,
+  sendTestPush,
+  subscribeToPush,
+  unsubscribeFromPush,
+} from "@/lib/push-client"
+
+/**
+ * usePushNotifications - 本设备推送通知的开关状态
+ *
+ * 返回是否支持、通知权限、是否已开启，以及开启、关闭、发送测试通知的方法
+ */
+export function usePushNotifications() {
+  const { user } = useAuth()
+  const [supported, setSupported] = useState(false)
+  const [permission, setPermission] = useState<NotificationPermission>("default")
+  const [enabled, setEnabled] = useState(false)
+  const [isUpdating, setIsUpdating] = useState(false)
+
+  // 读取浏览器当前状态
+  useEffect(() => {
+    if (!isPushSupported()) return
+
+    let cancelled = false
+    setSupported(true)
+    setPermission(Notification.permission)
+    getCurrentPushSubscription()
+      .then((subscription) => {
+        if (!cancelled) setEnabled(Boolean(subscription) && isPushEnabledLocally())
+      })
+      .catch((error) => console.warn("读取推送订阅失败:", error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const enable = useCallback(async () => {
+    if (!user) return
+    setIsUpdating(true)
+    try {
+      await subscribeToPush(user.id)
+      setEnabled(true)
+    } finally {
+      setPermission(Notification.permission)
+      setIsUpdating(false)
+    }
+  }, [user])
+
+  const disable = useCallback(async () => {
+    if (!user) return
+    setIsUpdating(true)
+    try {
+      await unsubscribeFromPush(user.id)
+      setEnabled(false)
+    } finally {
+      setIsUpdating(false)
+    }
+  }, [user])
+
+  const sendTest = useCallback(async () => {
+    if (!user) return 0
+    return sendTestPush(user.id)
+  }, [user])
+
+  return { supported, permission, enabled, isUpdating, enable, disable, sendTest }
+}
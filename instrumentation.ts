@@ -0,0 +1,11 @@
+/**
+ * 服务端启动钩子：在 Node.js 运行时开启便签提醒调度
+ * 设置 REMINDER_SCHEDULER=off 可关闭（例如改用定时任务调用 /api/reminders/dispatch）
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return
+  if (process.env.REMINDER_SCHEDULER === 'off') return
+
+  const { startReminderScheduler } = await import('@/lib/reminders')
+  startReminderScheduler()
+}
@@ -0,0 +1,59 @@
+"use client"
+
+import { apiUrl } from "@/lib/api-utils"
+
+/**
+ * 浏览器端下载账户数据导出（/api/export）
+ * 边读取数据流边报告进度，完成后保存为 ZIP 文件
+ */
+
+export type ExportProgress = {
+  receivedBytes: number
+  estimatedBytes: number // 服务器估算的大小，0 表示未知
+}
+
+// 从 Content-Disposition 中读取文件名
+function getFileName(response: Response): string {
+  const disposition = response.headers.get("Content-Disposition") || ""
+  const match = disposition.match(/filename="?([^";]+)"?/)
+  return match ? decodeURIComponent(match[1]) : "pwa-note-export.zip"
+}
+
+// 用临时链接触发浏览器下载
+export function saveBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  // 部分浏览器在 click 之后才开始读取，延迟释放
+  setTimeout(() => URL.revokeObjectURL(url), 60 * 1000)
+}
+
+export async function downloadAccountExport(
+  userId: string,
+  onProgress?: (progress: ExportProgress) => void,
+): Promise<void> {
+  const response = await fetch(apiUrl(`/api/export?userId=${encodeURIComponent(userId)}`))
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => null)
+    throw new Error(data?.error || data?.message || `导出失败: ${response.status}`)
+  }
+
+  const estimatedBytes = Number(response.headers.get("X-Export-Estimated-Size")) || 0
+  let receivedBytes = 0
+  const counted = response.body.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        receivedBytes += chunk.byteLength
+        onProgress?.({ receivedBytes, estimatedBytes })
+        controller.enqueue(chunk)
+      },
+    }),
+  )
+
+  const blob = await new Response(counted, { headers: { "Content-Type": "application/zip" } }).blob()
+  saveBlob(blob, getFileName(response))
+}
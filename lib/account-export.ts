@@ -0,0 +1,273 @@
+import { Zip, ZipDeflate, ZipPassThrough } from 'fflate'
+import {
+  getFiles,
+  getGroups,
+  getLinks,
+  getNotes,
+  type File as DbFile,
+  type Group,
+  type Link,
+  type Note,
+} from '@/app/actions/db-actions'
+import { downloadFileFromMinio } from '@/lib/minio-utils'
+
+/**
+ * 账户数据导出
+ * 生成 ZIP 压缩包并以流的形式输出，附件逐个从 MinIO 下载后写入：
+ * - notes/<分组>/<子分组>/<标题>.md：每条便签一个 Markdown 文件，开头为 front matter（标题、分组、标签、时间）
+ * - links.md / links.json：所有链接
+ * - files/<文件名>：上传的文件
+ * - export.json：导出时间、数量和下载失败的文件
+ */
+
+export interface AccountExport {
+  stream: ReadableStream<Uint8Array>
+  fileName: string
+  estimatedSize: number // 导出内容的原始大小（字节），压缩包大小与之接近，用于显示进度
+}
+
+// 输出缓冲达到该大小后暂停写入，等待客户端读取
+const STREAM_HIGH_WATER_MARK = 4 * 1024 * 1024
+
+// 文件名的最大长度（不含扩展名）
+const MAX_FILE_NAME_LENGTH = 80
+
+// 分组嵌套的最大深度，防止数据异常时循环
+const MAX_GROUP_DEPTH = 32
+
+const textEncoder = new TextEncoder()
+
+// 去掉文件名中不允许的字符
+function sanitizeFileName(name: string, fallback: string): string {
+  const cleaned = name
+    .replace(/[\\/:*?"<>|\x00-\x1f]/g, '_')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^\.+|\.+$/g, '')
+    .slice(0, MAX_FILE_NAME_LENGTH)
+    .trim()
+  return cleaned || fallback
+}
+
+// 同一目录中文件名重复时追加序号：a.md、a (2).md
+function createPathAllocator() {
+  const used = new Set<string>()
+  return (dir: string, baseName: string, extension: string): string => {
+    for (let index = 1; ; index++) {
+      const name = index === 1 ? `${baseName}${extension}` : `${baseName} (${index})${extension}`
+      const path = dir ? `${dir}/${name}` : name
+      if (!used.has(path.toLowerCase())) {
+        used.add(path.toLowerCase())
+        return path
+      }
+    }
+  }
+}
+
+// 分组的完整路径（上级分组在前）
+function getGroupPath(groupId: number | null, groupsById: Map<number, Group>): Group[] {
+  const path: Group[] = []
+  let current = groupId === null ? undefined : groupsById.get(groupId)
+  while (current && path.length < MAX_GROUP_DEPTH) {
+    path.unshift(current)
+    current = current.parent_id === null ? undefined : groupsById.get(current.parent_id)
+  }
+  return path
+}
+
+// 便签标题：没有标题时使用正文第一行
+function getNoteTitle(note: Note): string {
+  if (note.title.trim()) return note.title.trim()
+  const firstLine = note.content.split('\n').find((line) => line.trim())
+  return firstLine ? firstLine.replace(/^#+\s*/, '').trim() : ''
+}
+
+function toIsoString(value: Date | string): string {
+  return new Date(value).toISOString()
+}
+
+// YAML front matter，字符串使用双引号（JSON 字符串同时是合法的 YAML）
+function buildNoteMarkdown(note: Note, title: string, groupPath: Group[]): string {
+  const lines = [
+    '---',
+    `title: ${JSON.stringify(title)}`,
+    `group: ${groupPath.length > 0 ? JSON.stringify(groupPath.map((group) => group.name).join('/')) : 'null'}`,
+    `tags: [${(note.tags ?? []).map((tag) => JSON.stringify(tag.name)).join(', ')}]`,
+    `created: ${toIsoString(note.created_at)}`,
+    `updated: ${toIsoString(note.updated_at)}`,
+  ]
+  if (note.pinned) lines.push('pinned: true')
+  if (note.starred) lines.push('starred: true')
+  if (note.remind_at) lines.push(`remind_at: ${toIsoString(note.remind_at)}`)
+  lines.push('---', '', note.content)
+  return `${lines.join('\n')}\n`
+}
+
+function buildLinksMarkdown(links: Link[]): string {
+  const lines = ['# 链接', '']
+  for (const link of links) {
+    const title = (link.title || link.url).replace(/[[\]]/g, '\\$&')
+    lines.push(`- [${title}](<${link.url}>) - ${toIsoString(link.created_at).slice(0, 10)}`)
+  }
+  return `${lines.join('\n')}\n`
+}
+
+function addTextFile(zip: Zip, path: string, text: string, mtime?: Date | string) {
+  const file = new ZipDeflate(path, { level: 6 })
+  if (mtime) file.mtime = new Date(mtime)
+  zip.add(file)
+  file.push(textEncoder.encode(text), true)
+}
+
+// 拆分文件名和扩展名，分别去掉不允许的字符
+function splitFileName(name: string, fallback: string): { baseName: string; extension: string } {
+  const dotIndex = name.lastIndexOf('.')
+  const extension = dotIndex > 0 ? sanitizeFileName(name.slice(dotIndex + 1), '').slice(0, 16) : ''
+  return {
+    baseName: sanitizeFileName(dotIndex > 0 ? name.slice(0, dotIndex) : name, fallback),
+    extension: extension ? `.${extension}` : '',
+  }
+}
+
+interface ExportData {
+  notes: Note[]
+  groups: Group[]
+  links: Link[]
+  files: DbFile[]
+  exportedAt: Date
+}
+
+/**
+ * 按顺序写入压缩包内容，每个附件下载前调用 waitForDemand 等待客户端读取
+ */
+async function writeArchive(zip: Zip, data: ExportData, waitForDemand: () => Promise<void>): Promise<void> {
+  const { notes, groups, links, files, exportedAt } = data
+  const groupsById = new Map(groups.map((group) => [group.id, group]))
+  const allocatePath = createPathAllocator()
+
+  for (const note of notes) {
+    const title = getNoteTitle(note)
+    const groupPath = getGroupPath(note.group_id, groupsById)
+    const dir = ['notes', ...groupPath.map((group) => sanitizeFileName(group.name, `分组-${group.id}`))].join('/')
+    const path = allocatePath(dir, sanitizeFileName(title, `便签-${note.id}`), '.md')
+    addTextFile(zip, path, buildNoteMarkdown(note, title, groupPath), note.updated_at)
+  }
+
+  addTextFile(zip, 'links.md', buildLinksMarkdown(links), exportedAt)
+  addTextFile(
+    zip,
+    'links.json',
+    JSON.stringify(links.map((link) => ({ url: link.url, title: link.title, created_at: link.created_at })), null, 2),
+    exportedAt,
+  )
+
+  const failedFiles: { name: string; error: string }[] = []
+  for (const file of files) {
+    await waitForDemand()
+    try {
+      const content = new Uint8Array(await downloadFileFromMinio(file.minio_url))
+      const { baseName, extension } = splitFileName(file.name, `文件-${file.id}`)
+      // 附件大多已是压缩格式，直接存储
+      const entry = new ZipPassThrough(allocatePath('files', baseName, extension))
+      entry.mtime = new Date(file.uploaded_at)
+      zip.add(entry)
+      entry.push(content, true)
+    } catch (error) {
+      console.error(`❌ 导出文件失败: ${file.name}`, error)
+      failedFiles.push({ name: file.name, error: error instanceof Error ? error.message : String(error) })
+    }
+  }
+
+  const info = {
+    exported_at: exportedAt.toISOString(),
+    app_version: process.env.NEXT_PUBLIC_APP_VERSION || null,
+    counts: {
+      notes: notes.length,
+      groups: groups.length,
+      links: links.length,
+      files: files.length - failedFiles.length,
+    },
+    failed_files: failedFiles,
+  }
+  addTextFile(zip, 'export.json', JSON.stringify(info, null, 2), exportedAt)
+  zip.end()
+
+  console.log(`✅ 导出完成: 便签 ${notes.length}, 文件 ${info.counts.files}, 失败 ${failedFiles.length}`)
+}
+
+/**
+ * 读取用户的全部数据，返回 ZIP 压缩包的数据流
+ * 数据库查询在返回前完成（出错时直接抛出）；附件在客户端读取数据流时逐个下载，单个失败记录在 export.json 中
+ */
+export async function createAccountExport(userId: string): Promise<AccountExport> {
+  try {
+    const [notes, groups, links, files] = await Promise.all([
+      getNotes(userId),
+      getGroups(userId),
+      getLinks(userId),
+      getFiles(userId),
+    ])
+    console.log(`📦 开始导出: 用户 ${userId}, 便签 ${notes.length}, 分组 ${groups.length}, 链接 ${links.length}, 文件 ${files.length}`)
+
+    const exportedAt = new Date()
+    const estimatedSize =
+      notes.reduce((sum, note) => sum + textEncoder.encode(note.content).length, 0) +
+      files.reduce((sum, file) => sum + (file.size || 0), 0)
+
+    let resumeWriting: (() => void) | null = null
+    let cancelled = false
+
+    const stream = new ReadableStream<Uint8Array>(
+      {
+        start(controller) {
+          const zip = new Zip((error, chunk, final) => {
+            if (cancelled) return
+            if (error) {
+              controller.error(error)
+              return
+            }
+            controller.enqueue(chunk)
+            if (final) controller.close()
+          })
+
+          // 客户端读取跟不上时暂停，避免把所有附件都缓存在内存中；客户端断开时停止导出
+          const waitForDemand = async () => {
+            while (!cancelled && (controller.desiredSize ?? 1) <= 0) {
+              await new Promise<void>((resolve) => {
+                resumeWriting = resolve
+              })
+            }
+            if (cancelled) throw new Error('导出已取消')
+          }
+
+          // 不等待写入完成：start 返回之前不会调用 pull
+          writeArchive(zip, { notes, groups, links, files, exportedAt }, waitForDemand).catch((error) => {
+            zip.terminate()
+            if (cancelled) {
+              console.log(`⏹️ 导出已取消: 用户 ${userId}`)
+              return
+            }
+            console.error('❌ 生成导出压缩包失败:', error)
+            controller.error(error)
+          })
+        },
+        pull() {
+          resumeWriting?.()
+          resumeWriting = null
+        },
+        cancel() {
+          cancelled = true
+          resumeWriting?.()
+          resumeWriting = null
+        },
+      },
+      new ByteLengthQueuingStrategy({ highWaterMark: STREAM_HIGH_WATER_MARK }),
+    )
+
+    const date = exportedAt.toISOString().slice(0, 10).replace(/-/g, '')
+    return { stream, fileName: `pwa-note-export-${date}.zip`, estimatedSize }
+  } catch (error) {
+    console.error('createAccountExport 错误:', error)
+    throw error
+  }
+}
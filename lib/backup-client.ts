@@ -0,0 +1,53 @@
+"use client"
+
+import { apiUrl } from "@/lib/api-utils"
+import { saveBlob } from "@/lib/account-export-client"
+import type { RestoreMode, RestoreSummary } from "@/lib/backup"
+
+/**
+ * 浏览器端 JSON 备份的下载与恢复（/api/backup）
+ */
+
+// 下载备份文件
+export async function downloadBackup(userId: string): Promise<void> {
+  const response = await fetch(apiUrl(`/api/backup?userId=${encodeURIComponent(userId)}`))
+  if (!response.ok) {
+    const data = await response.json().catch(() => null)
+    throw new Error(data?.error || data?.message || `下载备份失败: ${response.status}`)
+  }
+
+  const disposition = response.headers.get("Content-Disposition") || ""
+  const match = disposition.match(/filename="?([^";]+)"?/)
+  saveBlob(await response.blob(), match ? decodeURIComponent(match[1]) : "pwa-note-backup.json")
+}
+
+// 读取用户选择的备份文件，格式由服务器校验
+export async function readBackupFile(file: File): Promise<unknown> {
+  try {
+    return JSON.parse(await file.text())
+  } catch {
+    throw new Error("无法读取备份文件，请选择下载的 JSON 备份")
+  }
+}
+
+/**
+ * 提交恢复；dryRun 时服务器不会写入，只返回恢复后的统计
+ */
+export async function restoreBackup(
+  userId: string,
+  backup: unknown,
+  options: { mode: RestoreMode; dryRun: boolean },
+): Promise<RestoreSummary> {
+  const response = await fetch(apiUrl("/api/backup/restore"), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ userId, backup, ...options }),
+  })
+  const data = await response.json().catch(() => null)
+  if (!response.ok || !data?.success) {
+    const issues: string[] = Array.isArray(data?.issues) ? data.issues : []
+    const message = data?.error || data?.message || `恢复备份失败: ${response.status}`
+    throw new Error(issues.length > 0 ? `${message}（${issues.join("；")}）` : message)
+  }
+  return data.summary as RestoreSummary
+}
@@ -0,0 +1,659 @@
+import { z } from 'zod'
+import { query, runInTransaction, type TransactionQuery } from '@/lib/db'
+import { notifyChange } from '@/lib/realtime'
+import { getUserObjectUrl } from '@/lib/minio-utils'
+import { NOTE_LINK_SCHEMA_STATEMENTS } from '@/lib/note-link-schema'
+import { NOTE_TAGS_COLUMN } from '@/lib/tag-schema'
+import { ensureTagSchema, MAX_TAG_LENGTH, normalizeTagName } from '@/lib/tags'
+import { extractWikiLinks } from '@/lib/wiki-links'
+
+/**
+ * JSON 备份与恢复，用于在不同的部署之间迁移数据
+ * 备份包含便签（含标签）、分组、链接、文件信息（不含文件内容）、用户设置和头像配置。
+ * 恢复时记录都会重新创建，分组和便签使用新的ID，备份中的分组层级和便签所属分组按新ID重新对应。
+ *
+ * 恢复方式：
+ * - merge：保留现有数据，同名分组（同一上级下）合并，已存在的便签、链接、文件跳过
+ * - replace：现有便签、链接、文件移入回收站，删除所有分组，再导入备份
+ * 整个恢复在一个事务中执行；dryRun 时执行完后回滚，只返回统计结果
+ */
+
+export const BACKUP_FORMAT = 'pwa-note-backup'
+export const BACKUP_VERSION = 1
+
+const MAX_BACKUP_ITEMS = 100000
+
+const timestampSchema = z.string().datetime({ offset: true })
+const idSchema = z.number().int().positive()
+
+const backupGroupSchema = z.object({
+  id: idSchema,
+  name: z.string().trim().min(1),
+  parent_id: idSchema.nullable(),
+  sort_order: z.number().int(),
+  created_at: timestampSchema,
+  updated_at: timestampSchema,
+})
+
+const backupNoteSchema = z.object({
+  id: idSchema,
+  title: z.string(),
+  content: z.string(),
+  group_id: idSchema.nullable(),
+  created_at: timestampSchema,
+  updated_at: timestampSchema,
+  pinned: z.boolean().default(false),
+  starred: z.boolean().default(false),
+  remind_at: timestampSchema.nullable().default(null),
+  tags: z
+    .array(z.object({ name: z.string().min(1).max(MAX_TAG_LENGTH), source: z.enum(['manual', 'inline']) }))
+    .default([]),
+})
+
+const backupLinkSchema = z.object({
+  url: z.string().min(1),
+  title: z.string(),
+  group_id: idSchema.nullable().default(null),
+  created_at: timestampSchema,
+})
+
+const backupFileSchema = z.object({
+  name: z.string().min(1).max(255),
+  type: z.string().max(100),
+  size: z.number().int().nonnegative(),
+  url: z.string().url(),
+  thumbnail_url: z.string().url().nullable(),
+  uploaded_at: timestampSchema,
+})
+
+export const backupSchema = z
+  .object({
+    format: z.literal(BACKUP_FORMAT),
+    version: z.literal(BACKUP_VERSION),
+    exported_at: timestampSchema,
+    app_version: z.string().nullable().optional(),
+    settings: z
+      .object({
+        font_family: z.string().min(1).max(50),
+        font_size: z.string().min(1).max(20),
+        sync_interval: z.number().int().min(0).max(86400),
+        note_render_mode: z.string().min(1).max(20),
+        editor_view: z.string().min(1).max(20),
+      })
+      .nullable(),
+    avatar: z
+      .object({
+        style: z.string().min(1).max(50),
+        seed: z.string().max(200).nullable(),
+      })
+      .nullable(),
+    groups: z.array(backupGroupSchema).max(MAX_BACKUP_ITEMS),
+    notes: z.array(backupNoteSchema).max(MAX_BACKUP_ITEMS),
+    links: z.array(backupLinkSchema).max(MAX_BACKUP_ITEMS),
+    files: z.array(backupFileSchema).max(MAX_BACKUP_ITEMS),
+  })
+  .superRefine((backup, ctx) => {
+    // 分组和便签ID唯一，引用的分组必须在备份中，分组层级不能有循环
+    const groupParents = new Map<number, number | null>()
+    backup.groups.forEach((group, index) => {
+      if (groupParents.has(group.id)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['groups', index, 'id'], message: '分组ID重复' })
+      }
+      groupParents.set(group.id, group.parent_id)
+    })
+
+    backup.groups.forEach((group, index) => {
+      if (group.parent_id !== null && !groupParents.has(group.parent_id)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['groups', index, 'parent_id'], message: '上级分组不存在' })
+        return
+      }
+      const visited = new Set<number>([group.id])
+      let parentId = group.parent_id
+      while (parentId !== null && parentId !== undefined) {
+        if (visited.has(parentId)) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['groups', index, 'parent_id'], message: '分组层级存在循环' })
+          return
+        }
+        visited.add(parentId)
+        parentId = groupParents.get(parentId) ?? null
+      }
+    })
+
+    const noteIds = new Set<number>()
+    backup.notes.forEach((note, index) => {
+      if (noteIds.has(note.id)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['notes', index, 'id'], message: '便签ID重复' })
+      }
+      noteIds.add(note.id)
+      if (note.group_id !== null && !groupParents.has(note.group_id)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['notes', index, 'group_id'], message: '所属分组不存在' })
+      }
+    })
+
+    backup.links.forEach((link, index) => {
+      if (link.group_id !== null && !groupParents.has(link.group_id)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['links', index, 'group_id'], message: '所属分组不存在' })
+      }
+    })
+  })
+
+export type Backup = z.infer<typeof backupSchema>
+type BackupGroup = z.infer<typeof backupGroupSchema>
+
+export type RestoreMode = 'merge' | 'replace'
+
+type RestoreCounts = {
+  created: number
+  skipped: number // merge 时已存在而跳过（分组为合并到同名分组）
+}
+
+export type RestoreSummary = {
+  mode: RestoreMode
+  dryRun: boolean
+  removed: { notes: number; links: number; files: number; groups: number } // replace 时移入回收站或删除的现有数据
+  groups: RestoreCounts
+  notes: RestoreCounts
+  links: RestoreCounts
+  files: RestoreCounts
+  settings: boolean // 是否恢复了用户设置和头像
+  warnings: string[]
+}
+
+// 恢复前确保用到的表和字段都已创建
+const RESTORE_SCHEMA_STATEMENTS: string[] = [
+  ...NOTE_LINK_SCHEMA_STATEMENTS,
+  `CREATE TABLE IF NOT EXISTS user_settings (
+    id SERIAL PRIMARY KEY,
+    user_id TEXT NOT NULL UNIQUE,
+    font_family TEXT NOT NULL DEFAULT 'zcool-xiaowei',
+    font_size TEXT NOT NULL DEFAULT 'medium',
+    sync_interval INTEGER NOT NULL DEFAULT 5,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+  )`,
+  `ALTER TABLE user_settings
+    ADD COLUMN IF NOT EXISTS note_render_mode TEXT NOT NULL DEFAULT 'plain',
+    ADD COLUMN IF NOT EXISTS editor_view TEXT NOT NULL DEFAULT 'edit',
+    ADD COLUMN IF NOT EXISTS avatar_style TEXT DEFAULT 'lorelei',
+    ADD COLUMN IF NOT EXISTS avatar_seed TEXT`,
+]
+
+let restoreSchemaReady: Promise<void> | null = null
+
+function ensureRestoreSchema(): Promise<void> {
+  if (!restoreSchemaReady) {
+    restoreSchemaReady = (async () => {
+      await ensureTagSchema()
+      for (const statement of RESTORE_SCHEMA_STATEMENTS) {
+        await query(statement)
+      }
+    })().catch((error) => {
+      restoreSchemaReady = null
+      throw error
+    })
+  }
+  return restoreSchemaReady
+}
+
+type GroupRow = { id: number; name: string; parent_id: number | null; sort_order: number; created_at: Date; updated_at: Date }
+type NoteRow = {
+  id: number
+  title: string
+  content: string
+  group_id: number | null
+  created_at: Date
+  updated_at: Date
+  pinned: boolean
+  starred: boolean
+  remind_at: Date | null
+  tags: { id: number; name: string; source: 'manual' | 'inline' }[]
+}
+type LinkRow = { url: string; title: string; group_id: number | null; created_at: Date }
+type FileRow = { name: string; type: string; size: number; minio_url: string; thumbnail_url: string | null; uploaded_at: Date }
+
+function toIsoString(value: Date | string): string {
+  return new Date(value).toISOString()
+}
+
+/**
+ * 生成用户的完整备份（回收站中的数据不包含在内）
+ */
+export async function createBackup(userId: string): Promise<Backup> {
+  try {
+    await ensureRestoreSchema()
+    const [settingsResult, groupsResult, notesResult, linksResult, filesResult] = await Promise.all([
+      query('SELECT * FROM user_settings WHERE user_id = $1', [userId]),
+      query(
+        'SELECT id, name, parent_id, sort_order, created_at, updated_at FROM groups WHERE user_id = $1 ORDER BY id',
+        [userId],
+      ),
+      query(
+        `SELECT id, title, content, group_id, created_at, updated_at, pinned, starred, remind_at, ${NOTE_TAGS_COLUMN}
+         FROM notes WHERE user_id = $1 AND deleted_at IS NULL ORDER BY id`,
+        [userId],
+      ),
+      query('SELECT url, title, group_id, created_at FROM links WHERE user_id = $1 AND deleted_at IS NULL ORDER BY id', [userId]),
+      query(
+        `SELECT name, type, size, minio_url, thumbnail_url, uploaded_at
+         FROM files WHERE user_id = $1 AND deleted_at IS NULL ORDER BY id`,
+        [userId],
+      ),
+    ])
+
+    const settingsRow = settingsResult.rows[0]
+    return {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      exported_at: new Date().toISOString(),
+      app_version: process.env.NEXT_PUBLIC_APP_VERSION || null,
+      settings: settingsRow
+        ? {
+            font_family: settingsRow.font_family,
+            font_size: settingsRow.font_size,
+            sync_interval: settingsRow.sync_interval,
+            note_render_mode: settingsRow.note_render_mode,
+            editor_view: settingsRow.editor_view,
+          }
+        : null,
+      avatar: settingsRow?.avatar_style
+        ? { style: settingsRow.avatar_style, seed: settingsRow.avatar_seed ?? null }
+        : null,
+      groups: (groupsResult.rows as GroupRow[]).map((row) => ({
+        id: row.id,
+        name: row.name,
+        parent_id: row.parent_id,
+        sort_order: row.sort_order,
+        created_at: toIsoString(row.created_at),
+        updated_at: toIsoString(row.updated_at),
+      })),
+      notes: (notesResult.rows as NoteRow[]).map((row) => ({
+        id: row.id,
+        title: row.title,
+        content: row.content,
+        group_id: row.group_id,
+        created_at: toIsoString(row.created_at),
+        updated_at: toIsoString(row.updated_at),
+        pinned: row.pinned,
+        starred: row.starred,
+        remind_at: row.remind_at ? toIsoString(row.remind_at) : null,
+        tags: row.tags.map(({ name, source }) => ({ name, source })),
+      })),
+      links: (linksResult.rows as LinkRow[]).map((row) => ({
+        url: row.url,
+        title: row.title,
+        group_id: row.group_id,
+        created_at: toIsoString(row.created_at),
+      })),
+      files: (filesResult.rows as FileRow[]).map((row) => ({
+        name: row.name,
+        type: row.type,
+        size: row.size,
+        url: row.minio_url,
+        thumbnail_url: row.thumbnail_url,
+        uploaded_at: toIsoString(row.uploaded_at),
+      })),
+    }
+  } catch (error) {
+    console.error('createBackup 错误:', error)
+    throw error
+  }
+}
+
+// 上级分组排在子分组之前，同级按 sort_order
+function sortGroupsForInsert(groups: BackupGroup[]): BackupGroup[] {
+  const children = new Map<number | null, BackupGroup[]>()
+  for (const group of groups) {
+    const siblings = children.get(group.parent_id) ?? []
+    siblings.push(group)
+    children.set(group.parent_id, siblings)
+  }
+
+  const ordered: BackupGroup[] = []
+  const visit = (parentId: number | null) => {
+    const siblings = (children.get(parentId) ?? []).sort((a, b) => a.sort_order - b.sort_order || a.id - b.id)
+    for (const group of siblings) {
+      ordered.push(group)
+      visit(group.id)
+    }
+  }
+  visit(null)
+  return ordered
+}
+
+// replace：现有便签、链接、文件移入回收站（备份中也有的文件保留），删除所有分组
+async function removeExistingData(tx: TransactionQuery, userId: string, keptFileUrls: string[], summary: RestoreSummary) {
+  const notes = await tx(
+    'UPDATE notes SET deleted_at = NOW() WHERE user_id = $1 AND deleted_at IS NULL RETURNING id',
+    [userId],
+  )
+  const links = await tx(
+    'UPDATE links SET deleted_at = NOW() WHERE user_id = $1 AND deleted_at IS NULL RETURNING id',
+    [userId],
+  )
+  const files = await tx(
+    `UPDATE files SET deleted_at = NOW()
+     WHERE user_id = $1 AND deleted_at IS NULL AND NOT (minio_url = ANY($2::text[]))
+     RETURNING id`,
+    [userId, keptFileUrls],
+  )
+  // 回收站中的便签不再属于任何分组
+  await tx('UPDATE notes SET group_id = NULL WHERE user_id = $1 AND group_id IS NOT NULL', [userId])
+  const groups = await tx('DELETE FROM groups WHERE user_id = $1 RETURNING id', [userId])
+
+  summary.removed = {
+    notes: notes.rows.length,
+    links: links.rows.length,
+    files: files.rows.length,
+    groups: groups.rows.length,
+  }
+}
+
+// 创建分组，返回备份中的分组ID到新ID的对应关系
+async function restoreGroups(
+  tx: TransactionQuery,
+  userId: string,
+  groups: BackupGroup[],
+  mode: RestoreMode,
+  counts: RestoreCounts,
+): Promise<Map<number, number>> {
+  const groupIdMap = new Map<number, number>()
+
+  for (const group of sortGroupsForInsert(groups)) {
+    const parentId = group.parent_id === null ? null : groupIdMap.get(group.parent_id) ?? null
+
+    if (mode === 'merge') {
+      const existing = await tx(
+        'SELECT id FROM groups WHERE user_id = $1 AND name = $2 AND parent_id IS NOT DISTINCT FROM $3 ORDER BY id LIMIT 1',
+        [userId, group.name, parentId],
+      )
+      if (existing.rows.length > 0) {
+        groupIdMap.set(group.id, existing.rows[0].id)
+        counts.skipped++
+        continue
+      }
+    }
+
+    // merge 时排在同级现有分组之后
+    const result = await tx(
+      `INSERT INTO groups (user_id, name, parent_id, sort_order, created_at, updated_at)
+       VALUES ($1, $2, $3, CASE WHEN $4::boolean THEN (
+         SELECT COALESCE(MAX(sort_order) + 1, 0) FROM groups WHERE user_id = $1 AND parent_id IS NOT DISTINCT FROM $3
+       ) ELSE $5 END, $6, $7)
+       RETURNING id`,
+      [userId, group.name, parentId, mode === 'merge', group.sort_order, new Date(group.created_at), new Date(group.updated_at)],
+    )
+    groupIdMap.set(group.id, result.rows[0].id)
+    counts.created++
+  }
+
+  return groupIdMap
+}
+
+async function restoreNoteTags(tx: TransactionQuery, userId: string, noteId: number, tags: Backup['notes'][number]['tags']) {
+  // 同名标签只保留一个，手动添加优先
+  const byName = new Map<string, { name: string; source: 'manual' | 'inline' }>()
+  for (const tag of tags) {
+    const name = normalizeTagName(tag.name)
+    if (!name) continue
+    const key = name.toLowerCase()
+    const existing = byName.get(key)
+    if (!existing || tag.source === 'manual') byName.set(key, { name, source: tag.source })
+  }
+  if (byName.size === 0) return
+
+  const tagRows = await tx(
+    `INSERT INTO tags (user_id, name) SELECT $1, UNNEST($2::text[])
+     ON CONFLICT (user_id, (LOWER(name))) DO UPDATE SET updated_at = tags.updated_at
+     RETURNING id, name`,
+    [userId, Array.from(byName.values(), (tag) => tag.name)],
+  )
+  const tagIds: number[] = []
+  const sources: string[] = []
+  for (const row of tagRows.rows as { id: number; name: string }[]) {
+    const tag = byName.get(row.name.toLowerCase())
+    if (!tag) continue
+    tagIds.push(row.id)
+    sources.push(tag.source)
+  }
+
+  await tx(
+    `INSERT INTO note_tags (note_id, tag_id, source) SELECT $1, UNNEST($2::int[]), UNNEST($3::text[])
+     ON CONFLICT (note_id, tag_id) DO NOTHING`,
+    [noteId, tagIds, sources],
+  )
+}
+
+async function restoreNotes(
+  tx: TransactionQuery,
+  userId: string,
+  notes: Backup['notes'],
+  groupIdMap: Map<number, number>,
+  mode: RestoreMode,
+  counts: RestoreCounts,
+) {
+  const now = new Date()
+
+  for (const note of notes) {
+    if (mode === 'merge') {
+      // 内容和创建时间都相同视为同一条便签（数据库时间精确到微秒，备份中为毫秒）
+      const existing = await tx(
+        `SELECT id FROM notes
+         WHERE user_id = $1 AND deleted_at IS NULL AND content = $2 AND date_trunc('milliseconds', created_at) = $3::timestamp
+         LIMIT 1`,
+        [userId, note.content, new Date(note.created_at)],
+      )
+      if (existing.rows.length > 0) {
+        counts.skipped++
+        continue
+      }
+    }
+
+    // 已过期的提醒标记为已发出，避免恢复后集中弹出
+    const remindAt = note.remind_at ? new Date(note.remind_at) : null
+    const result = await tx(
+      `INSERT INTO notes (user_id, content, title, group_id, created_at, updated_at, pinned, starred, remind_at, reminder_sent_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       RETURNING id`,
+      [
+        userId,
+        note.content,
+        note.title,
+        note.group_id === null ? null : groupIdMap.get(note.group_id) ?? null,
+        new Date(note.created_at),
+        new Date(note.updated_at),
+        note.pinned,
+        note.starred,
+        remindAt,
+        remindAt && remindAt <= now ? now : null,
+      ],
+    )
+    const noteId: number = result.rows[0].id
+    counts.created++
+
+    await restoreNoteTags(tx, userId, noteId, note.tags)
+
+    const linkTitles = extractWikiLinks(note.content)
+    if (linkTitles.length > 0) {
+      await tx(
+        `INSERT INTO note_links (source_note_id, user_id, target_title)
+         SELECT $1, $2, t.title FROM UNNEST($3::text[]) AS t(title)
+         ON CONFLICT (source_note_id, target_title) DO NOTHING`,
+        [noteId, userId, linkTitles],
+      )
+    }
+  }
+
+  // 所有便签创建后再解析 [[标题]] 链接，同名便签有多条时指向最近修改的一条
+  await tx(
+    `UPDATE note_links nl SET target_note_id = (
+       SELECT n.id FROM notes n
+       WHERE n.user_id = nl.user_id AND n.deleted_at IS NULL AND n.id <> nl.source_note_id
+         AND LOWER(n.title) = LOWER(nl.target_title)
+       ORDER BY n.updated_at DESC, n.id DESC
+       LIMIT 1
+     )
+     WHERE nl.user_id = $1 AND nl.target_note_id IS NULL`,
+    [userId],
+  )
+}
+
+async function restoreLinks(
+  tx: TransactionQuery,
+  userId: string,
+  links: Backup['links'],
+  groupIdMap: Map<number, number>,
+  mode: RestoreMode,
+  counts: RestoreCounts,
+) {
+  for (const link of links) {
+    if (mode === 'merge') {
+      const existing = await tx('SELECT id FROM links WHERE user_id = $1 AND deleted_at IS NULL AND url = $2 LIMIT 1', [userId, link.url])
+      if (existing.rows.length > 0) {
+        counts.skipped++
+        continue
+      }
+    }
+    await tx('INSERT INTO links (user_id, url, title, group_id, created_at) VALUES ($1, $2, $3, $4, $5)', [
+      userId,
+      link.url,
+      link.title,
+      link.group_id === null ? null : groupIdMap.get(link.group_id) ?? null,
+      new Date(link.created_at),
+    ])
+    counts.created++
+  }
+}
+
+// 文件只恢复记录，内容仍在原来的对象存储中；已有同一地址的记录时恢复该记录（包括回收站中的）
+async function restoreFiles(
+  tx: TransactionQuery,
+  userId: string,
+  files: (Backup['files'][number] & { ownedUrl: string })[],
+  counts: RestoreCounts,
+) {
+  for (const file of files) {
+    const existing = await tx('SELECT id FROM files WHERE user_id = $1 AND minio_url = $2 ORDER BY id LIMIT 1', [userId, file.ownedUrl])
+    if (existing.rows.length > 0) {
+      await tx('UPDATE files SET deleted_at = NULL WHERE id = $1 AND deleted_at IS NOT NULL', [existing.rows[0].id])
+      counts.skipped++
+      continue
+    }
+
+    await tx(
+      `INSERT INTO files (user_id, name, type, minio_url, thumbnail_url, size, uploaded_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [
+        userId,
+        file.name,
+        file.type,
+        file.ownedUrl,
+        file.thumbnail_url ? getUserObjectUrl(file.thumbnail_url, userId) : null,
+        file.size,
+        new Date(file.uploaded_at),
+      ],
+    )
+    counts.created++
+  }
+}
+
+// replace 时覆盖设置；merge 时只在还没有设置时写入
+async function restoreSettings(tx: TransactionQuery, userId: string, backup: Backup, mode: RestoreMode): Promise<boolean> {
+  if (!backup.settings && !backup.avatar) return false
+
+  if (mode === 'merge') {
+    const existing = await tx('SELECT id FROM user_settings WHERE user_id = $1', [userId])
+    if (existing.rows.length > 0) return false
+  }
+
+  await tx(
+    `INSERT INTO user_settings (user_id, font_family, font_size, sync_interval, note_render_mode, editor_view, avatar_style, avatar_seed)
+     VALUES ($1, COALESCE($2, 'zcool-xiaowei'), COALESCE($3, 'medium'), COALESCE($4, 5), COALESCE($5, 'plain'), COALESCE($6, 'edit'), $7, $8)
+     ON CONFLICT (user_id) DO UPDATE SET
+       font_family = COALESCE($2, user_settings.font_family),
+       font_size = COALESCE($3, user_settings.font_size),
+       sync_interval = COALESCE($4, user_settings.sync_interval),
+       note_render_mode = COALESCE($5, user_settings.note_render_mode),
+       editor_view = COALESCE($6, user_settings.editor_view),
+       avatar_style = COALESCE($7, user_settings.avatar_style),
+       avatar_seed = CASE WHEN $7::text IS NULL THEN user_settings.avatar_seed ELSE $8 END,
+       updated_at = NOW()`,
+    [
+      userId,
+      backup.settings?.font_family ?? null,
+      backup.settings?.font_size ?? null,
+      backup.settings?.sync_interval ?? null,
+      backup.settings?.note_render_mode ?? null,
+      backup.settings?.editor_view ?? null,
+      backup.avatar?.style ?? null,
+      backup.avatar?.seed ?? null,
+    ],
+  )
+  return true
+}
+
+/**
+ * 恢复备份（backup 须已通过 backupSchema 校验）
+ * 在一个事务中执行，任何一步失败都会整体回滚；dryRun 时执行完也回滚，返回的统计即为实际恢复时的结果
+ */
+export async function restoreBackup(
+  userId: string,
+  backup: Backup,
+  options: { mode: RestoreMode; dryRun: boolean },
+): Promise<RestoreSummary> {
+  const { mode, dryRun } = options
+  console.log(`♻️ 恢复备份: 用户 ${userId}, 方式 ${mode}${dryRun ? '（预览）' : ''}, 便签 ${backup.notes.length}, 分组 ${backup.groups.length}`)
+
+  try {
+    await ensureRestoreSchema()
+
+    // 只恢复当前用户存储空间中的文件，避免记录指向其他用户的文件
+    const files = backup.files.flatMap((file) => {
+      const ownedUrl = getUserObjectUrl(file.url, userId)
+      return ownedUrl ? [{ ...file, ownedUrl }] : []
+    })
+
+    const summary = await runInTransaction(
+      async (tx) => {
+        const result: RestoreSummary = {
+          mode,
+          dryRun,
+          removed: { notes: 0, links: 0, files: 0, groups: 0 },
+          groups: { created: 0, skipped: 0 },
+          notes: { created: 0, skipped: 0 },
+          links: { created: 0, skipped: 0 },
+          files: { created: 0, skipped: 0 },
+          settings: false,
+          warnings: [],
+        }
+
+        if (mode === 'replace') {
+          await removeExistingData(tx, userId, files.map((file) => file.ownedUrl), result)
+        }
+
+        const groupIdMap = await restoreGroups(tx, userId, backup.groups, mode, result.groups)
+        await restoreNotes(tx, userId, backup.notes, groupIdMap, mode, result.notes)
+        await restoreLinks(tx, userId, backup.links, groupIdMap, mode, result.links)
+        await restoreFiles(tx, userId, files, result.files)
+        result.settings = await restoreSettings(tx, userId, backup, mode)
+
+        const rejectedFiles = backup.files.length - files.length
+        if (rejectedFiles > 0) {
+          result.warnings.push(`${rejectedFiles} 个文件不在当前账号的存储空间中，已跳过（可通过“导出全部数据”迁移文件内容）`)
+        }
+        return result
+      },
+      { rollback: dryRun },
+    )
+
+    if (!dryRun) {
+      console.log('✅ 备份已恢复:', summary)
+      await notifyChange({ userId, entity: 'group', action: 'updated' })
+      await notifyChange({ userId, entity: 'note', action: 'created' })
+      await notifyChange({ userId, entity: 'link', action: 'created' })
+      await notifyChange({ userId, entity: 'file', action: 'created' })
+    }
+    return summary
+  } catch (error) {
+    console.error('restoreBackup 错误:', error)
+    throw error
+  }
+}
@@ -0,0 +1,34 @@
+"use client"
+
+import { apiUrl } from "@/lib/api-utils"
+import { saveBlob } from "@/lib/account-export-client"
+import type { BookmarkImportSummary } from "@/lib/bookmarks"
+
+/**
+ * 浏览器端书签文件的导入与导出（/api/bookmarks）
+ */
+
+export async function downloadBookmarks(userId: string): Promise<void> {
+  const response = await fetch(apiUrl(`/api/bookmarks?userId=${encodeURIComponent(userId)}`))
+  if (!response.ok) {
+    const data = await response.json().catch(() => null)
+    throw new Error(data?.error || data?.message || `导出书签失败: ${response.status}`)
+  }
+
+  const disposition = response.headers.get("Content-Disposition") || ""
+  const match = disposition.match(/filename="?([^";]+)"?/)
+  saveBlob(await response.blob(), match ? decodeURIComponent(match[1]) : "pwa-note-bookmarks.html")
+}
+
+export async function importBookmarksFile(userId: string, file: File): Promise<BookmarkImportSummary> {
+  const formData = new FormData()
+  formData.append("userId", userId)
+  formData.append("file", file)
+
+  const response = await fetch(apiUrl("/api/bookmarks"), { method: "POST", body: formData })
+  const data = await response.json().catch(() => null)
+  if (!response.ok || !data?.success) {
+    throw new Error(data?.error || data?.message || `导入书签失败: ${response.status}`)
+  }
+  return data.summary as BookmarkImportSummary
+}
@@ -0,0 +1,253 @@
+import { query } from '@/lib/db'
+import { getGroups, getLinks, type Group, type Link } from '@/app/actions/db-actions'
+import { notifyChange } from '@/lib/realtime'
+import { createGroupPathResolver } from '@/lib/group-paths'
+import { decodeEntities, parseAttributes } from '@/lib/import-formats'
+
+/**
+ * 浏览器书签文件（Netscape Bookmark 格式，Chrome / Firefox / Edge 导出的 bookmarks.html）与链接互相转换
+ * 导入时书签文件夹对应分组，已保存过的网址跳过；导出时分组对应文件夹
+ */
+
+// 单次导入最多处理的书签数
+export const MAX_IMPORT_BOOKMARKS = 20000
+
+// 每条 INSERT 写入的书签数
+const INSERT_BATCH_SIZE = 500
+
+export type ParsedBookmark = {
+  url: string
+  title: string
+  folderPath: string[]
+  addedAt: Date | null
+}
+
+export type BookmarkImportSummary = {
+  created: number
+  duplicates: number // 已保存过或文件中重复的网址
+  invalid: number // 不是 http(s) 网址的书签（如 javascript: 小书签）
+  groups: number // 新建的分组数
+}
+
+// 书签栏、其他书签等浏览器自带的顶层文件夹不对应分组
+const BUILTIN_FOLDER_ATTRIBUTES = ['personal_toolbar_folder', 'unfiled_bookmarks_folder']
+
+function stripTags(html: string): string {
+  return decodeEntities(html.replace(/<[^>]*>/g, '')).replace(/\s+/g, ' ').trim()
+}
+
+function parseUnixTime(value: string | undefined): Date | null {
+  const seconds = Number(value)
+  return Number.isFinite(seconds) && seconds > 0 ? new Date(seconds * 1000) : null
+}
+
+/**
+ * 规范化网址用于判断重复：协议和域名小写，去掉默认端口，无路径时补 /
+ * 无效或非 http(s) 网址返回 null
+ */
+export function normalizeBookmarkUrl(url: string): string | null {
+  try {
+    const parsed = new URL(url.trim())
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return null
+    return parsed.href
+  } catch {
+    return null
+  }
+}
+
+/**
+ * 解析书签文件：<DL> 为一层文件夹，<H3> 为文件夹名称，<A> 为书签
+ */
+export function parseBookmarksHtml(html: string): ParsedBookmark[] {
+  const bookmarks: ParsedBookmark[] = []
+  const folders: (string | null)[] = [] // 每层 <DL> 对应的文件夹，null 表示不对应分组
+  let pendingFolder: string | null = null
+
+  const pattern = /<dl\b[^>]*>|<\/dl\s*>|<h3\b([^>]*)>([\s\S]*?)<\/h3\s*>|<a\b([^>]*)>([\s\S]*?)<\/a\s*>/gi
+  for (const match of html.matchAll(pattern)) {
+    const [token, folderAttributes, folderName, linkAttributes, linkTitle] = match
+
+    if (folderName !== undefined) {
+      const attributes = parseAttributes(folderAttributes)
+      const isBuiltin = BUILTIN_FOLDER_ATTRIBUTES.some((name) => attributes[name] === 'true')
+      pendingFolder = isBuiltin ? null : stripTags(folderName) || null
+      continue
+    }
+
+    if (linkTitle !== undefined) {
+      const attributes = parseAttributes(linkAttributes)
+      bookmarks.push({
+        url: (attributes.href || '').trim(),
+        title: stripTags(linkTitle),
+        folderPath: folders.filter((folder): folder is string => folder !== null),
+        addedAt: parseUnixTime(attributes.add_date),
+      })
+      continue
+    }
+
+    if (token[1] === '/') {
+      folders.pop()
+    } else {
+      folders.push(pendingFolder)
+      pendingFolder = null
+    }
+  }
+
+  return bookmarks
+}
+
+function getDefaultTitle(url: string): string {
+  try {
+    return new URL(url).hostname
+  } catch {
+    return url
+  }
+}
+
+/**
+ * 导入书签为链接
+ */
+export async function importBookmarks(userId: string, html: string): Promise<BookmarkImportSummary> {
+  const bookmarks = parseBookmarksHtml(html)
+  console.log(`🔖 导入书签: 用户 ${userId}, ${bookmarks.length} 个`)
+  if (bookmarks.length === 0) {
+    throw new Error('文件中没有书签，请选择浏览器导出的书签 HTML 文件')
+  }
+  if (bookmarks.length > MAX_IMPORT_BOOKMARKS) {
+    throw new Error(`书签数量超过 ${MAX_IMPORT_BOOKMARKS} 个，请分批导出后再导入`)
+  }
+
+  try {
+    const summary: BookmarkImportSummary = { created: 0, duplicates: 0, invalid: 0, groups: 0 }
+    const existing = await getLinks(userId)
+    const seen = new Set(existing.map((link) => normalizeBookmarkUrl(link.url) ?? link.url))
+    const groups = await createGroupPathResolver(userId)
+
+    const rows: { url: string; title: string; groupId: number | null; createdAt: Date }[] = []
+    const now = new Date()
+    for (const bookmark of bookmarks) {
+      const normalized = normalizeBookmarkUrl(bookmark.url)
+      if (!normalized) {
+        summary.invalid++
+        continue
+      }
+      if (seen.has(normalized)) {
+        summary.duplicates++
+        continue
+      }
+      seen.add(normalized)
+      rows.push({
+        url: bookmark.url,
+        title: bookmark.title || getDefaultTitle(bookmark.url),
+        groupId: await groups.resolve(bookmark.folderPath),
+        createdAt: bookmark.addedAt ?? now,
+      })
+    }
+
+    for (let start = 0; start < rows.length; start += INSERT_BATCH_SIZE) {
+      const batch = rows.slice(start, start + INSERT_BATCH_SIZE)
+      await query(
+        `INSERT INTO links (user_id, url, title, group_id, created_at)
+         SELECT $1, t.url, t.title, t.group_id, t.created_at
+         FROM UNNEST($2::text[], $3::text[], $4::int[], $5::timestamp[]) AS t(url, title, group_id, created_at)`,
+        [
+          userId,
+          batch.map((row) => row.url),
+          batch.map((row) => row.title),
+          batch.map((row) => row.groupId),
+          batch.map((row) => row.createdAt),
+        ],
+      )
+      summary.created += batch.length
+    }
+
+    summary.groups = groups.createdCount()
+    if (summary.created > 0) {
+      await notifyChange({ userId, entity: 'link', action: 'created' })
+    }
+    console.log(`✅ 书签导入完成: 新增 ${summary.created}, 重复 ${summary.duplicates}, 无效 ${summary.invalid}`)
+    return summary
+  } catch (error) {
+    console.error('importBookmarks 错误:', error)
+    throw error
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+function toUnixTime(date: Date | string): number {
+  return Math.floor(new Date(date).getTime() / 1000)
+}
+
+/**
+ * 生成书签文件：分组为文件夹（只包含有链接的分组），未分组的链接在顶层
+ */
+function renderBookmarksHtml(links: Link[], groups: Group[]): string {
+  const linksByGroup = new Map<number | null, Link[]>()
+  const groupIds = new Set(groups.map((group) => group.id))
+  for (const link of links) {
+    // 分组已删除时视为未分组
+    const groupId = link.group_id !== null && groupIds.has(link.group_id) ? link.group_id : null
+    const list = linksByGroup.get(groupId) ?? []
+    list.push(link)
+    linksByGroup.set(groupId, list)
+  }
+
+  const childrenByParent = new Map<number | null, Group[]>()
+  for (const group of groups) {
+    const parentId = group.parent_id !== null && groupIds.has(group.parent_id) ? group.parent_id : null
+    const children = childrenByParent.get(parentId) ?? []
+    children.push(group)
+    childrenByParent.set(parentId, children)
+  }
+
+  const renderFolder = (parentId: number | null, indent: string): string[] => {
+    const lines: string[] = []
+    const children = (childrenByParent.get(parentId) ?? []).sort((a, b) => a.sort_order - b.sort_order || a.id - b.id)
+    for (const group of children) {
+      const content = renderFolder(group.id, `${indent}    `)
+      if (content.length === 0) continue
+      lines.push(
+        `${indent}<DT><H3 ADD_DATE="${toUnixTime(group.created_at)}" LAST_MODIFIED="${toUnixTime(group.updated_at)}">${escapeHtml(group.name)}</H3>`,
+        `${indent}<DL><p>`,
+        ...content,
+        `${indent}</DL><p>`,
+      )
+    }
+    for (const link of linksByGroup.get(parentId) ?? []) {
+      lines.push(`${indent}<DT><A HREF="${escapeHtml(link.url)}" ADD_DATE="${toUnixTime(link.created_at)}">${escapeHtml(link.title)}</A>`)
+    }
+    return lines
+  }
+
+  return [
+    '<!DOCTYPE NETSCAPE-Bookmark-file-1>',
+    '<!-- This is an automatically generated file.',
+    '     It will be read and overwritten.',
+    '     DO NOT EDIT! -->',
+    '<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">',
+    '<TITLE>Bookmarks</TITLE>',
+    '<H1>Bookmarks</H1>',
+    '<DL><p>',
+    ...renderFolder(null, '    '),
+    '</DL><p>',
+    '',
+  ].join('\n')
+}
+
+/**
+ * 导出所有链接为书签文件
+ */
+export async function exportBookmarks(userId: string): Promise<string> {
+  try {
+    const [links, groups] = await Promise.all([getLinks(userId), getGroups(userId)])
+    // 按保存时间从早到晚，与浏览器中的顺序一致
+    const ordered = [...links].sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+    return renderBookmarksHtml(ordered, groups)
+  } catch (error) {
+    console.error('exportBookmarks 错误:', error)
+    throw error
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * 便签中的待办清单（Markdown 任务列表语法 `- [ ] 内容` / `- [x] 内容`）
+ * 客户端用于渲染复选框、切换完成状态和统计进度（不依赖数据库，可在浏览器中使用）
+ */
+
+export type ChecklistItem = {
+  line: number // 所在行号，从 1 开始，与 Markdown 语法树中的位置一致
+  checked: boolean
+  text: string
+}
+
+// 列表标记（- * + 或 1. 1)）后跟 [ ] / [x]，复选框后必须有空白或行尾
+const CHECKLIST_LINE_PATTERN = /^(\s*(?:[-*+]|\d{1,9}[.)])\s+\[)([ xX])(\](?:\s+|$))([^\n]*)$/
+
+// 围栏代码块的开始和结束行
+const CODE_FENCE_PATTERN = /^\s*(```|~~~)/
+
+// 解析一行是否为待办项
+export function parseChecklistLine(line: string): { checked: boolean; text: string } | null {
+  const match = line.match(CHECKLIST_LINE_PATTERN)
+  if (!match) return null
+  return { checked: match[2] !== ' ', text: match[4].replace(/\r$/, '') }
+}
+
+// 按行列出正文中的待办项（跳过代码块中的内容）
+export function parseChecklist(content: string): ChecklistItem[] {
+  const items: ChecklistItem[] = []
+  let fence: string | null = null
+
+  ;(content || '').split('\n').forEach((line, index) => {
+    const fenceMatch = line.match(CODE_FENCE_PATTERN)
+    if (fenceMatch) {
+      if (fence === null) fence = fenceMatch[1]
+      else if (fence === fenceMatch[1]) fence = null
+      return
+    }
+    if (fence !== null) return
+
+    const item = parseChecklistLine(line)
+    if (item) items.push({ line: index + 1, ...item })
+  })
+
+  return items
+}
+
+// 待办完成进度，没有待办项时返回 null
+export function getChecklistProgress(content: string): { done: number; total: number } | null {
+  const items = parseChecklist(content)
+  if (items.length === 0) return null
+  return { done: items.filter((item) => item.checked).length, total: items.length }
+}
+
+// 切换指定行待办项的完成状态，该行不是待办项时原样返回
+export function toggleChecklistLine(content: string, line: number): string {
+  const lines = content.split('\n')
+  const target = lines[line - 1]
+  if (target === undefined) return content
+
+  const match = target.match(CHECKLIST_LINE_PATTERN)
+  if (!match) return content
+
+  lines[line - 1] = `${match[1]}${match[2] === ' ' ? 'x' : ' '}${match[3]}${match[4]}`
+  return lines.join('\n')
+}
@@ -1,4 +1,4 @@
-import { Pool } from 'pg'
+import { Client, Pool } from 'pg'
 
 // 使用环境变量的连接字符串
 const CONNECTION_STRING = process.env.DATABASE_URL || ""
@@ -58,6 +58,14 @@ if (process.env.NODE_ENV !== 'production') {
   globalForPg.__pgPool = pool
 }
 
+// 创建独立连接（用于 LISTEN 等需要长期占用连接的场景，不占用连接池）
+export function createDedicatedClient() {
+  return new Client({
+    connectionString: CONNECTION_STRING,
+    ssl: getSslOption(),
+  })
+}
+
 // 创建 SQL 查询执行器（兼容 neon 的模板字符串语法）
 export const sql = async (strings: TemplateStringsArray, ...values: any[]) => {
   const query = strings.reduce((result, string, i) => {
@@ -167,3 +175,37 @@ export async function query(text: string, params: any[] = [], maxRetries: number
 
   throw lastError
 }
+
+// 事务中使用的查询函数（同一个连接，不重试）
+export type TransactionQuery = (text: string, params?: any[]) => Promise<{ rows: any[] }>
+
+/**
+ * 在一个事务中执行多条查询：fn 正常返回后提交，抛出错误时回滚
+ * rollback 为 true 时执行完成后也回滚，用于预览修改结果而不实际写入
+ */
+export async function runInTransaction<T>(
+  fn: (query: TransactionQuery) => Promise<T>,
+  options: { rollback?: boolean } = {},
+): Promise<T> {
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
+    const result = await fn(async (text, params = []) => {
+      const queryResult = await client.query({
+        text,
+        values: params,
+        query_timeout: 30000,
+      } as any)
+      return { rows: queryResult.rows }
+    })
+    await client.query(options.rollback ? 'ROLLBACK' : 'COMMIT')
+    return result
+  } catch (error) {
+    await client.query('ROLLBACK').catch((rollbackError) => {
+      console.error("❌ 事务回滚失败:", rollbackError)
+    })
+    throw error
+  } finally {
+    client.release()
+  }
+}
@@ -0,0 +1,39 @@
+import { createGroup, getGroups } from '@/app/actions/db-actions'
+
+/**
+ * 按名称路径查找或创建嵌套分组（导入便签、书签时把文件夹对应到分组）
+ * 同一上级下名称相同（不区分大小写）的分组直接使用，不存在时依次创建
+ */
+export type GroupPathResolver = {
+  resolve: (path: string[]) => Promise<number | null> // 返回最下级分组的ID，路径为空时为 null
+  createdCount: () => number
+}
+
+export async function createGroupPathResolver(userId: string): Promise<GroupPathResolver> {
+  const groupKey = (parentId: number | null, name: string) => `${parentId ?? ''}/${name.toLowerCase()}`
+  const groupIds = new Map<string, number>()
+  for (const group of await getGroups(userId)) {
+    const key = groupKey(group.parent_id, group.name)
+    if (!groupIds.has(key)) groupIds.set(key, group.id)
+  }
+
+  let created = 0
+  const resolve = async (path: string[]): Promise<number | null> => {
+    let parentId: number | null = null
+    for (const rawName of path) {
+      const name = rawName.trim()
+      if (!name) continue
+      const key = groupKey(parentId, name)
+      let groupId = groupIds.get(key)
+      if (groupId === undefined) {
+        groupId = (await createGroup(userId, name, parentId)).id
+        groupIds.set(key, groupId)
+        created++
+      }
+      parentId = groupId
+    }
+    return parentId
+  }
+
+  return { resolve, createdCount: () => created }
+}
@@ -0,0 +1,77 @@
+/**
+ * 嵌套分组的树形结构工具（客户端使用，分组ID为字符串）
+ */
+
+export type GroupTreeItem = {
+  id: string
+  name: string
+  parent_id: string | null
+  sort_order: number
+}
+
+export type GroupTreeNode<T extends GroupTreeItem> = T & {
+  depth: number
+  children: GroupTreeNode<T>[]
+}
+
+// 同级分组排序：sort_order 升序，相同时按ID
+export function compareGroups(a: GroupTreeItem, b: GroupTreeItem): number {
+  if (a.sort_order !== b.sort_order) return a.sort_order - b.sort_order
+  return (parseInt(a.id, 10) || 0) - (parseInt(b.id, 10) || 0)
+}
+
+/**
+ * 把扁平的分组列表组装成树
+ * 上级分组不存在（已删除或尚未同步）的分组视为顶层分组
+ */
+export function buildGroupTree<T extends GroupTreeItem>(groups: T[]): GroupTreeNode<T>[] {
+  const ids = new Set(groups.map((group) => group.id))
+  const childrenByParent = new Map<string | null, T[]>()
+
+  for (const group of groups) {
+    const parentId = group.parent_id !== null && ids.has(group.parent_id) && group.parent_id !== group.id
+      ? group.parent_id
+      : null
+    const siblings = childrenByParent.get(parentId) ?? []
+    siblings.push(group)
+    childrenByParent.set(parentId, siblings)
+  }
+
+  // visited 防止异常数据中的循环引用导致无限递归
+  const visited = new Set<string>()
+  const build = (parentId: string | null, depth: number): GroupTreeNode<T>[] =>
+    (childrenByParent.get(parentId) ?? [])
+      .filter((group) => !visited.has(group.id))
+      .sort(compareGroups)
+      .map((group) => {
+        visited.add(group.id)
+        return { ...group, depth, children: build(group.id, depth + 1) }
+      })
+
+  return build(null, 0)
+}
+
+// 按树的先序遍历展开为带层级的列表（用于下拉选择框）
+export function flattenGroupTree<T extends GroupTreeItem>(nodes: GroupTreeNode<T>[]): GroupTreeNode<T>[] {
+  return nodes.flatMap((node) => [node, ...flattenGroupTree(node.children)])
+}
+
+// 分组自身及所有子孙分组的ID
+export function getGroupSubtreeIds(groups: GroupTreeItem[], groupId: string): Set<string> {
+  const result = new Set<string>([groupId])
+  let added = true
+  while (added) {
+    added = false
+    for (const group of groups) {
+      if (group.parent_id !== null && result.has(group.parent_id) && !result.has(group.id)) {
+        result.add(group.id)
+        added = true
+      }
+    }
+  }
+  return result
+}
+
+// 拖放数据类型：便签拖到分组上移动便签，分组拖到分组上调整层级和顺序
+export const NOTE_DRAG_TYPE = 'application/x-pwa-note-id'
+export const GROUP_DRAG_TYPE = 'application/x-pwa-group-id'
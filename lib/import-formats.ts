@@ -0,0 +1,725 @@
+import crypto from 'crypto'
+import { strFromU8, unzipSync } from 'fflate'
+
+/**
+ * 解析其他笔记应用的导出文件，转换为统一的便签结构（不访问数据库，由 lib/note-import.ts 写入）
+ * - keep：Google Takeout 导出的 ZIP，读取 Keep/ 下每条记事的 JSON 和附件
+ * - evernote：Evernote 导出的 .enex 文件，整个文件对应一个笔记本
+ * - obsidian：Obsidian 仓库打包的 ZIP，每个 .md 文件为一条便签
+ *
+ * 正文转换为纯文本 / Markdown；附件在正文中的位置用 attachmentPlaceholder(序号) 占位，
+ * 上传后替换为 Markdown 链接
+ */
+
+export type ImportSource = 'keep' | 'evernote' | 'obsidian'
+
+export const IMPORT_SOURCES: ImportSource[] = ['keep', 'evernote', 'obsidian']
+
+export type ImportedAttachment = {
+  key: string // 同一个附件被多条便签引用时只上传一次
+  name: string
+  type: string
+  data: Uint8Array
+}
+
+export type ImportedNote = {
+  title: string
+  content: string
+  groupPath: string[] // 所属分组，从上级到下级；空数组表示不分组
+  tags: string[]
+  createdAt: string | null
+  updatedAt: string | null
+  attachments: ImportedAttachment[]
+}
+
+export type ParsedImport = {
+  notes: ImportedNote[]
+  warnings: string[]
+}
+
+export function attachmentPlaceholder(index: number): string {
+  return `\u0000attachment:${index}\u0000`
+}
+
+export const ATTACHMENT_PLACEHOLDER_PATTERN = /\u0000attachment:(\d+)\u0000/g
+
+// 按扩展名推断附件类型（Obsidian 仓库中的文件没有类型信息）
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  bmp: 'image/bmp',
+  pdf: 'application/pdf',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ppt: 'application/vnd.ms-powerpoint',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  txt: 'text/plain',
+  csv: 'text/csv',
+  zip: 'application/zip',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  m4a: 'audio/mp4',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  mov: 'video/quicktime',
+}
+
+function getExtension(name: string): string {
+  const dot = name.lastIndexOf('.')
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : ''
+}
+
+function getMimeType(name: string): string {
+  return MIME_TYPES_BY_EXTENSION[getExtension(name)] || 'application/octet-stream'
+}
+
+function getBaseName(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1)
+}
+
+function toIsoString(date: Date): string | null {
+  return isNaN(date.getTime()) ? null : date.toISOString()
+}
+
+/**
+ * 解码 XML / HTML 实体
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10)
+      return Number.isFinite(value) && value > 0 && value <= 0x10ffff ? String.fromCodePoint(value) : entity
+    }
+    const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' }
+    return named[code.toLowerCase()] ?? entity
+  })
+}
+
+// 解析标签中的属性，名称转为小写
+export function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  for (const match of source.matchAll(/([a-zA-Z_:][\w:.-]*)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? '')
+  }
+  return attributes
+}
+
+/**
+ * 把 HTML（Evernote 的 ENML）转换为 Markdown
+ * 只处理笔记中常见的结构：段落、标题、列表、待办、链接、强调、代码和表格，其余标签只保留文字
+ * renderMedia 返回 <en-media> 对应的文字（附件占位）
+ */
+export function htmlToMarkdown(html: string, renderMedia: (attributes: Record<string, string>) => string = () => ''): string {
+  let output = ''
+  const lists: { ordered: boolean }[] = []
+  const links: { href: string; start: number }[] = []
+  let preDepth = 0
+  let skipDepth = 0 // <script> / <style> 中的内容不输出
+
+  const atLineStart = () => output === '' || output.endsWith('\n')
+  const ensureNewline = () => {
+    if (!atLineStart()) output += '\n'
+  }
+  const ensureBlankLine = () => {
+    ensureNewline()
+    if (output !== '' && !output.endsWith('\n\n')) output += '\n'
+  }
+
+  const body = html
+    .replace(/<\?xml[\s\S]*?\?>/gi, '')
+    .replace(/<!DOCTYPE[\s\S]*?>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+
+  for (const match of body.matchAll(/<(\/?)([a-zA-Z][\w:-]*)([^>]*?)(\/?)>|([^<]+)/g)) {
+    const [, closing, rawTag, rawAttributes, selfClosing, text] = match
+
+    if (text !== undefined) {
+      if (skipDepth > 0) continue
+      const decoded = decodeEntities(text)
+      if (preDepth > 0) {
+        output += decoded
+        continue
+      }
+      const collapsed = decoded.replace(/\s+/g, ' ')
+      output += atLineStart() ? collapsed.trimStart() : collapsed
+      continue
+    }
+
+    const tag = rawTag.toLowerCase()
+    const isClosing = closing === '/'
+
+    if (tag === 'script' || tag === 'style') {
+      if (selfClosing) continue
+      skipDepth = Math.max(0, skipDepth + (isClosing ? -1 : 1))
+      continue
+    }
+    if (skipDepth > 0) continue
+
+    switch (tag) {
+      case 'br':
+        output += '\n'
+        break
+      case 'hr':
+        ensureBlankLine()
+        output += '---\n\n'
+        break
+      case 'p':
+      case 'div':
+      case 'blockquote':
+      case 'table':
+      case 'en-note':
+        if (isClosing) ensureNewline()
+        else if (tag === 'p' || tag === 'table') ensureBlankLine()
+        else ensureNewline()
+        break
+      case 'h1':
+      case 'h2':
+      case 'h3':
+      case 'h4':
+      case 'h5':
+      case 'h6':
+        if (isClosing) {
+          output += '\n\n'
+        } else {
+          ensureBlankLine()
+          output += `${'#'.repeat(Number(tag[1]))} `
+        }
+        break
+      case 'ul':
+      case 'ol':
+        if (isClosing) lists.pop()
+        else lists.push({ ordered: tag === 'ol' })
+        ensureNewline()
+        break
+      case 'li':
+        if (!isClosing) {
+          ensureNewline()
+          const list = lists[lists.length - 1]
+          output += `${'  '.repeat(Math.max(0, lists.length - 1))}${list?.ordered ? '1.' : '-'} `
+        }
+        break
+      case 'tr':
+        ensureNewline()
+        break
+      case 'td':
+      case 'th':
+        if (isClosing) output += ' | '
+        break
+      case 'b':
+      case 'strong':
+        output += '**'
+        break
+      case 'i':
+      case 'em':
+        output += '*'
+        break
+      case 's':
+      case 'del':
+      case 'strike':
+        output += '~~'
+        break
+      case 'code':
+        if (preDepth === 0) output += '`'
+        break
+      case 'pre':
+        ensureNewline()
+        if (isClosing) {
+          preDepth = Math.max(0, preDepth - 1)
+          ensureNewline()
+          output += '```\n'
+        } else {
+          preDepth++
+          output += '```\n'
+        }
+        break
+      case 'a':
+        if (isClosing) {
+          const link = links.pop()
+          if (!link) break
+          const text = output.slice(link.start)
+          if (link.href && /^(https?:|mailto:|evernote:)/i.test(link.href)) {
+            output = output.slice(0, link.start) + (text.trim() && text.trim() !== link.href ? `[${text.trim()}](${link.href})` : link.href)
+          }
+        } else if (!selfClosing) {
+          links.push({ href: parseAttributes(rawAttributes).href || '', start: output.length })
+        }
+        break
+      case 'img': {
+        const attributes = parseAttributes(rawAttributes)
+        if (/^https?:/i.test(attributes.src || '')) output += `![${attributes.alt || ''}](${attributes.src})`
+        break
+      }
+      case 'en-todo': {
+        const checkbox = parseAttributes(rawAttributes).checked === 'true' ? '[x] ' : '[ ] '
+        // 列表项中已有列表标记，单独一行的待办补上
+        output += atLineStart() ? `- ${checkbox}` : checkbox
+        break
+      }
+      case 'en-media':
+        if (!isClosing) output += renderMedia(parseAttributes(rawAttributes))
+        break
+    }
+  }
+
+  return output
+    .split('\n')
+    .map((line) => line.replace(/[ \t]+$/, ''))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+/**
+ * 读取 ZIP 中央目录里每个文件的修改时间（优先使用扩展时间戳字段，否则为 DOS 时间，按服务器本地时间解释）
+ * 文件名的解码方式与 fflate 一致；不支持 ZIP64，读取失败时返回空表
+ */
+function readZipModifiedTimes(data: Uint8Array): Map<string, Date> {
+  const times = new Map<string, Date>()
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+
+  let end = -1
+  for (let offset = data.length - 22; offset >= Math.max(0, data.length - 22 - 0xffff); offset--) {
+    if (view.getUint32(offset, true) === 0x06054b50) {
+      end = offset
+      break
+    }
+  }
+  if (end < 0) return times
+
+  const count = view.getUint16(end + 10, true)
+  let offset = view.getUint32(end + 16, true)
+  for (let index = 0; index < count && offset + 46 <= data.length; index++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) break
+    const flags = view.getUint16(offset + 8, true)
+    const dosTime = view.getUint16(offset + 12, true)
+    const dosDate = view.getUint16(offset + 14, true)
+    const nameLength = view.getUint16(offset + 28, true)
+    const extraLength = view.getUint16(offset + 30, true)
+    const commentLength = view.getUint16(offset + 32, true)
+    const name = strFromU8(data.subarray(offset + 46, offset + 46 + nameLength), !(flags & 0x800))
+
+    let time = new Date(
+      (dosDate >> 9) + 1980,
+      ((dosDate >> 5) & 0xf) - 1,
+      dosDate & 0x1f,
+      dosTime >> 11,
+      (dosTime >> 5) & 0x3f,
+      (dosTime & 0x1f) * 2,
+    )
+    // 扩展时间戳（0x5455）为 UTC 秒数
+    const extraStart = offset + 46 + nameLength
+    for (let extra = extraStart; extra + 4 <= extraStart + extraLength; ) {
+      const id = view.getUint16(extra, true)
+      const size = view.getUint16(extra + 2, true)
+      if (id === 0x5455 && size >= 5 && (data[extra + 4] & 1)) {
+        time = new Date(view.getUint32(extra + 5, true) * 1000)
+        break
+      }
+      extra += 4 + size
+    }
+
+    times.set(name, time)
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+  return times
+}
+
+// 解压后单个文件和全部文件的大小上限，防止压缩炸弹占满内存
+const MAX_UNZIPPED_ENTRY_SIZE = 50 * 1024 * 1024
+const MAX_UNZIPPED_TOTAL_SIZE = 500 * 1024 * 1024
+
+/**
+ * 解压 ZIP 中需要的文件
+ * 按中央目录记录的原始大小检查上限（fflate 按该大小分配输出缓冲区，实际解压不会超出），超出时拒绝整个压缩包
+ */
+function unzip(data: Uint8Array, accept: (name: string) => boolean): Record<string, Uint8Array> {
+  let totalSize = 0
+  let sizeError: Error | null = null
+
+  try {
+    return unzipSync(data, {
+      filter: (file) => {
+        if (file.name.endsWith('/') || !accept(file.name)) return false
+        if (file.originalSize > MAX_UNZIPPED_ENTRY_SIZE) {
+          sizeError = new Error(`压缩包中的文件 ${file.name} 解压后超过 ${MAX_UNZIPPED_ENTRY_SIZE / 1024 / 1024}MB，无法导入`)
+          throw sizeError
+        }
+        totalSize += file.originalSize
+        if (totalSize > MAX_UNZIPPED_TOTAL_SIZE) {
+          sizeError = new Error(`压缩包解压后超过 ${MAX_UNZIPPED_TOTAL_SIZE / 1024 / 1024}MB，请分批导出后再导入`)
+          throw sizeError
+        }
+        return true
+      },
+    })
+  } catch (error) {
+    if (sizeError) throw sizeError
+    console.error('解压导入文件失败:', error)
+    throw new Error('无法解压文件，请确认上传的是 ZIP 压缩包')
+  }
+}
+
+// ==================== Google Keep ====================
+
+type KeepNote = {
+  title?: string
+  textContent?: string
+  listContent?: { text?: string; isChecked?: boolean }[]
+  labels?: { name?: string }[]
+  attachments?: { filePath?: string; mimetype?: string }[]
+  annotations?: { url?: string; title?: string }[]
+  createdTimestampUsec?: number
+  userEditedTimestampUsec?: number
+  isTrashed?: boolean
+}
+
+function isKeepNote(value: unknown): value is KeepNote {
+  if (!value || typeof value !== 'object') return false
+  const note = value as KeepNote
+  return typeof note.userEditedTimestampUsec === 'number' && (typeof note.textContent === 'string' || Array.isArray(note.listContent))
+}
+
+function fromUsec(usec: number | undefined): string | null {
+  return typeof usec === 'number' && usec > 0 ? toIsoString(new Date(Math.floor(usec / 1000))) : null
+}
+
+/**
+ * Keep：第一个标签作为分组，其余标签作为便签标签；清单转换为待办列表，回收站中的记事跳过
+ */
+function parseKeep(data: Uint8Array): ParsedImport {
+  const entries = unzip(data, (name) => /(^|\/)Keep\//.test(name))
+  const notes: ImportedNote[] = []
+  const warnings: string[] = []
+
+  // Takeout 中附件的扩展名有时与 JSON 中记录的不同（.jpg / .jpeg），再按不含扩展名的文件名查找
+  const files = new Map<string, string>()
+  const filesWithoutExtension = new Map<string, string>()
+  for (const name of Object.keys(entries)) {
+    const baseName = getBaseName(name)
+    files.set(baseName, name)
+    filesWithoutExtension.set(baseName.replace(/\.[^.]+$/, ''), name)
+  }
+
+  for (const [name, content] of Object.entries(entries)) {
+    if (!name.endsWith('.json')) continue
+
+    let keepNote: unknown
+    try {
+      keepNote = JSON.parse(strFromU8(content))
+    } catch {
+      continue
+    }
+    if (!isKeepNote(keepNote) || keepNote.isTrashed) continue
+
+    const lines: string[] = []
+    if (keepNote.textContent) lines.push(keepNote.textContent.trim())
+    if (keepNote.listContent?.length) {
+      lines.push(keepNote.listContent.map((item) => `- [${item.isChecked ? 'x' : ' '}] ${(item.text ?? '').trim()}`).join('\n'))
+    }
+
+    const attachments: ImportedAttachment[] = []
+    for (const attachment of keepNote.attachments ?? []) {
+      const filePath = attachment.filePath || ''
+      const entryName = files.get(filePath) ?? filesWithoutExtension.get(filePath.replace(/\.[^.]+$/, ''))
+      if (!entryName) {
+        warnings.push(`找不到附件 ${filePath}（${getBaseName(name)}）`)
+        continue
+      }
+      attachments.push({
+        key: entryName,
+        name: getBaseName(entryName),
+        type: attachment.mimetype || getMimeType(entryName),
+        data: entries[entryName],
+      })
+    }
+    if (attachments.length > 0) {
+      lines.push(attachments.map((_, index) => attachmentPlaceholder(index)).join('\n'))
+    }
+
+    const text = lines.join('\n')
+    for (const annotation of keepNote.annotations ?? []) {
+      if (annotation.url && !text.includes(annotation.url)) {
+        lines.push(annotation.title ? `[${annotation.title}](${annotation.url})` : annotation.url)
+      }
+    }
+
+    const labels = (keepNote.labels ?? []).map((label) => (label.name ?? '').trim()).filter(Boolean)
+    const updatedAt = fromUsec(keepNote.userEditedTimestampUsec)
+    notes.push({
+      title: (keepNote.title ?? '').trim(),
+      content: lines.join('\n\n').trim(),
+      groupPath: labels.slice(0, 1),
+      tags: labels.slice(1),
+      createdAt: fromUsec(keepNote.createdTimestampUsec) ?? updatedAt,
+      updatedAt,
+      attachments,
+    })
+  }
+
+  if (notes.length === 0) {
+    throw new Error('压缩包中没有找到 Keep 记事，请上传 Google Takeout 导出的 Keep 压缩包')
+  }
+  return { notes, warnings }
+}
+
+// ==================== Evernote ====================
+
+function getElementText(xml: string, tag: string): string {
+  const match = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`))
+  if (!match) return ''
+  const cdata = match[1].match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/)
+  return cdata ? cdata[1] : decodeEntities(match[1])
+}
+
+// ENEX 的时间格式为 20240102T030405Z
+function parseEnexTime(value: string): string | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/)
+  if (!match) return null
+  const [, year, month, day, hour, minute, second] = match
+  return toIsoString(new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}Z`))
+}
+
+/**
+ * Evernote：整个 .enex 文件为一个笔记本，以文件名作为分组；笔记标签作为便签标签，
+ * 正文中的 <en-media> 按内容的 MD5 对应到笔记的附件
+ */
+function parseEvernote(data: Uint8Array, fileName: string): ParsedImport {
+  const xml = strFromU8(data)
+  if (!/<en-export[\s>]/.test(xml)) {
+    throw new Error('不是有效的 Evernote 导出文件（.enex）')
+  }
+
+  const notebook = fileName.replace(/\.enex$/i, '').trim()
+  const notes: ImportedNote[] = []
+  const warnings: string[] = []
+
+  for (const noteMatch of xml.matchAll(/<note>([\s\S]*?)<\/note>/g)) {
+    let noteXml = noteMatch[1]
+
+    const attachments: ImportedAttachment[] = []
+    const attachmentIndexByHash = new Map<string, number>()
+    noteXml = noteXml.replace(/<resource>([\s\S]*?)<\/resource>/g, (_, resourceXml: string) => {
+      const base64 = getElementText(resourceXml, 'data').replace(/\s+/g, '')
+      if (!base64) return ''
+      const bytes = new Uint8Array(Buffer.from(base64, 'base64'))
+      const hash = crypto.createHash('md5').update(bytes).digest('hex')
+      const type = getElementText(resourceXml, 'mime').trim() || 'application/octet-stream'
+      const name = getElementText(resourceXml, 'file-name').trim() || `${hash}.${type.split('/')[1] || 'bin'}`
+      attachmentIndexByHash.set(hash, attachments.length)
+      attachments.push({ key: `evernote:${hash}`, name, type, data: bytes })
+      return ''
+    })
+
+    const title = getElementText(noteXml, 'title').trim()
+    const usedAttachments = new Set<number>()
+    const content = htmlToMarkdown(getElementText(noteXml, 'content'), (attributes) => {
+      const index = attachmentIndexByHash.get((attributes.hash || '').toLowerCase())
+      if (index === undefined) return ''
+      usedAttachments.add(index)
+      return `\n${attachmentPlaceholder(index)}\n`
+    })
+
+    // 正文中没有引用的附件放在末尾
+    const unused = attachments.map((_, index) => index).filter((index) => !usedAttachments.has(index))
+    const fullContent = [content, ...unused.map(attachmentPlaceholder)].filter(Boolean).join('\n\n')
+
+    const createdAt = parseEnexTime(getElementText(noteXml, 'created'))
+    notes.push({
+      title,
+      content: fullContent.replace(/\n{3,}/g, '\n\n').trim(),
+      groupPath: notebook ? [notebook] : [],
+      tags: Array.from(noteXml.matchAll(/<tag>([\s\S]*?)<\/tag>/g), (match) => decodeEntities(match[1]).trim()).filter(Boolean),
+      createdAt,
+      updatedAt: parseEnexTime(getElementText(noteXml, 'updated')) ?? createdAt,
+      attachments,
+    })
+  }
+
+  if (notes.length === 0) {
+    throw new Error('文件中没有笔记')
+  }
+  return { notes, warnings }
+}
+
+// ==================== Obsidian ====================
+
+type FrontMatter = {
+  tags: string[]
+  created: string | null
+  updated: string | null
+}
+
+function parseFrontMatterValue(value: string): string {
+  return value.trim().replace(/^["']|["']$/g, '')
+}
+
+/**
+ * 读取 YAML front matter 中的标签和时间（只支持常见的简单写法）
+ */
+function parseFrontMatter(source: string): FrontMatter {
+  const result: FrontMatter = { tags: [], created: null, updated: null }
+  const lines = source.split('\n')
+
+  for (let index = 0; index < lines.length; index++) {
+    const match = lines[index].match(/^([\w -]+):\s*(.*)$/)
+    if (!match) continue
+    const key = match[1].trim().toLowerCase()
+    const value = match[2].trim()
+
+    if (key === 'tags' || key === 'tag') {
+      if (value.startsWith('[')) {
+        result.tags.push(...value.replace(/^\[|\]$/g, '').split(','))
+      } else if (value) {
+        result.tags.push(...value.split(/[,\s]+/))
+      } else {
+        // 多行列表：- tag
+        while (index + 1 < lines.length && /^\s*-\s+/.test(lines[index + 1])) {
+          result.tags.push(lines[++index].replace(/^\s*-\s+/, ''))
+        }
+      }
+    } else if (['created', 'date created', 'created_at', 'date'].includes(key) && value) {
+      result.created = result.created ?? toIsoString(new Date(parseFrontMatterValue(value)))
+    } else if (['updated', 'modified', 'date modified', 'updated_at'].includes(key) && value) {
+      result.updated = result.updated ?? toIsoString(new Date(parseFrontMatterValue(value)))
+    }
+  }
+
+  result.tags = result.tags.map((tag) => parseFrontMatterValue(tag).replace(/^#/, '')).filter(Boolean)
+  return result
+}
+
+// 解析相对于便签所在目录的路径
+function resolveVaultPath(directory: string[], target: string): string {
+  const parts = [...directory]
+  for (const part of target.split('/')) {
+    if (!part || part === '.') continue
+    if (part === '..') parts.pop()
+    else parts.push(part)
+  }
+  return parts.join('/')
+}
+
+/**
+ * Obsidian：目录层级对应分组层级，文件名作为标题；front matter 中的标签和时间优先，
+ * 没有时间时使用压缩包中记录的文件修改时间。
+ * 嵌入的附件（![[图片.png]]、![](图片.png)）上传后替换为链接，嵌入其他笔记改为 [[标题]] 链接
+ */
+function parseObsidian(data: Uint8Array): ParsedImport {
+  const isHidden = (name: string) => name.split('/').some((part) => part.startsWith('.') || part === '__MACOSX')
+  const entries = unzip(data, (name) => !isHidden(name))
+  const modifiedTimes = readZipModifiedTimes(data)
+  const warnings: string[] = []
+
+  // 打包时通常包含仓库目录本身，去掉所有文件共同的顶层目录
+  const names = Object.keys(entries)
+  const firstSegments = new Set(names.map((name) => (name.includes('/') ? name.split('/')[0] : '')))
+  const rootPrefix = firstSegments.size === 1 && !firstSegments.has('') ? `${Array.from(firstSegments)[0]}/` : ''
+  const relativeName = (name: string) => name.slice(rootPrefix.length)
+
+  const filesByPath = new Map<string, string>()
+  const filesByName = new Map<string, string>()
+  for (const name of names) {
+    if (name.toLowerCase().endsWith('.md')) continue
+    filesByPath.set(relativeName(name).toLowerCase(), name)
+    if (!filesByName.has(getBaseName(name).toLowerCase())) filesByName.set(getBaseName(name).toLowerCase(), name)
+  }
+
+  const notes: ImportedNote[] = []
+  for (const name of names) {
+    if (!name.toLowerCase().endsWith('.md')) continue
+
+    const path = relativeName(name).split('/')
+    const fileName = path.pop() as string
+    let content = strFromU8(entries[name]).replace(/\r\n/g, '\n').replace(/^\uFEFF/, '')
+
+    let frontMatter: FrontMatter = { tags: [], created: null, updated: null }
+    const frontMatterMatch = content.match(/^---\n([\s\S]*?)\n---(?:\n|$)/)
+    if (frontMatterMatch) {
+      frontMatter = parseFrontMatter(frontMatterMatch[1])
+      content = content.slice(frontMatterMatch[0].length)
+    }
+
+    const attachments: ImportedAttachment[] = []
+    const attachmentIndexByKey = new Map<string, number>()
+    const embedAttachment = (target: string): string | null => {
+      const decoded = (() => {
+        try {
+          return decodeURI(target)
+        } catch {
+          return target
+        }
+      })()
+      const entryName =
+        filesByPath.get(resolveVaultPath(path, decoded).toLowerCase()) ??
+        filesByPath.get(decoded.replace(/^\/+/, '').toLowerCase()) ??
+        filesByName.get(getBaseName(decoded).toLowerCase())
+      if (!entryName) return null
+
+      let index = attachmentIndexByKey.get(entryName)
+      if (index === undefined) {
+        index = attachments.length
+        attachmentIndexByKey.set(entryName, index)
+        attachments.push({ key: entryName, name: getBaseName(entryName), type: getMimeType(entryName), data: entries[entryName] })
+      }
+      return attachmentPlaceholder(index)
+    }
+
+    content = content
+      // ![[文件]]、![[文件|宽度]]、[[文件.pdf]]
+      .replace(/!?\[\[([^[\]|#\n]+)(?:#[^[\]|\n]*)?(?:\|[^[\]\n]*)?\]\]/g, (match, target: string) => {
+        const extension = getExtension(target)
+        if (!extension || extension === 'md') {
+          // 笔记之间的链接（包括嵌入）改为按标题链接的 [[标题]]
+          return `[[${target.trim().replace(/\.md$/i, '').split('/').pop()}]]`
+        }
+        const placeholder = embedAttachment(target.trim())
+        if (!placeholder) {
+          warnings.push(`找不到附件 ${target}（${fileName}）`)
+          return match
+        }
+        return placeholder
+      })
+      // ![说明](相对路径)
+      .replace(/!\[([^\]\n]*)\]\(<?([^)\s>]+)>?(?:\s+"[^"]*")?\)/g, (match, _alt: string, target: string) => {
+        if (/^[a-z][a-z0-9+.-]*:/i.test(target)) return match
+        return embedAttachment(target) ?? match
+      })
+
+    const modifiedAt = modifiedTimes.get(name)
+    const fileTime = modifiedAt ? toIsoString(modifiedAt) : null
+    notes.push({
+      title: fileName.replace(/\.md$/i, ''),
+      content: content.trim(),
+      groupPath: path,
+      tags: frontMatter.tags,
+      createdAt: frontMatter.created ?? fileTime,
+      updatedAt: frontMatter.updated ?? fileTime ?? frontMatter.created,
+      attachments,
+    })
+  }
+
+  if (notes.length === 0) {
+    throw new Error('压缩包中没有 Markdown 笔记，请上传打包后的 Obsidian 仓库')
+  }
+  return { notes, warnings }
+}
+
+/**
+ * 按来源解析导入文件
+ */
+export function parseImportFile(source: ImportSource, data: Uint8Array, fileName: string): ParsedImport {
+  switch (source) {
+    case 'keep':
+      return parseKeep(data)
+    case 'evernote':
+      return parseEvernote(data, fileName)
+    case 'obsidian':
+      return parseObsidian(data)
+  }
+}
@@ -1,5 +1,11 @@
 import { drizzle } from "drizzle-orm/node-postgres"
 import { Pool } from "pg"
+import { SYNC_SCHEMA_STATEMENTS } from "./sync-schema"
+import { SEARCH_SCHEMA_STATEMENTS, SAVED_SEARCH_SCHEMA_STATEMENTS } from "./search-schema"
+import { TAG_SCHEMA_STATEMENTS } from "./tag-schema"
+import { NOTE_LINK_SCHEMA_STATEMENTS } from "./note-link-schema"
+import { PUSH_SCHEMA_STATEMENTS } from "./push-schema"
+import { OUTBOX_SCHEMA_STATEMENTS } from "./outbox-schema"
 
 // This script should be run separately to set up the database
 async function main() {
@@ -29,6 +35,18 @@ async function main() {
       updated_at TIMESTAMP NOT NULL DEFAULT NOW()
     );
 
+    CREATE TABLE IF NOT EXISTS note_revisions (
+      id SERIAL PRIMARY KEY,
+      note_id INTEGER NOT NULL REFERENCES notes(id) ON DELETE CASCADE,
+      user_id VARCHAR(255) NOT NULL,
+      content TEXT NOT NULL,
+      title TEXT NOT NULL DEFAULT '',
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_note_revisions_note_id ON note_revisions(note_id, created_at DESC);
+
     CREATE TABLE IF NOT EXISTS links (
       id SERIAL PRIMARY KEY,
       user_id VARCHAR(255) NOT NULL,
@@ -58,6 +76,27 @@ async function main() {
     ALTER TABLE groups ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP NOT NULL DEFAULT NOW();
     ALTER TABLE notes ADD COLUMN IF NOT EXISTS group_id INTEGER;
     ALTER TABLE notes ADD COLUMN IF NOT EXISTS title TEXT NOT NULL DEFAULT '';
+
+    -- 回收站：软删除时间
+    ALTER TABLE notes ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+    ALTER TABLE links ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+    ALTER TABLE files ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+    CREATE INDEX IF NOT EXISTS idx_notes_deleted_at ON notes(deleted_at) WHERE deleted_at IS NOT NULL;
+    CREATE INDEX IF NOT EXISTS idx_links_deleted_at ON links(deleted_at) WHERE deleted_at IS NOT NULL;
+    CREATE INDEX IF NOT EXISTS idx_files_deleted_at ON files(deleted_at) WHERE deleted_at IS NOT NULL;
+
+    -- 并发编辑：便签内容版本号
+    ALTER TABLE notes ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+    -- 置顶和收藏
+    ALTER TABLE notes ADD COLUMN IF NOT EXISTS pinned BOOLEAN NOT NULL DEFAULT FALSE;
+    ALTER TABLE notes ADD COLUMN IF NOT EXISTS starred BOOLEAN NOT NULL DEFAULT FALSE;
+    CREATE INDEX IF NOT EXISTS idx_notes_user_pinned_created ON notes(user_id, pinned DESC, created_at DESC, id DESC) WHERE deleted_at IS NULL;
+
+    -- 提醒：提醒时间和实际发出提醒的时间
+    ALTER TABLE notes ADD COLUMN IF NOT EXISTS remind_at TIMESTAMP;
+    ALTER TABLE notes ADD COLUMN IF NOT EXISTS reminder_sent_at TIMESTAMP;
+    CREATE INDEX IF NOT EXISTS idx_notes_pending_reminders ON notes(remind_at) WHERE remind_at IS NOT NULL AND reminder_sent_at IS NULL AND deleted_at IS NULL;
     DO $$
     BEGIN
       IF NOT EXISTS (
@@ -70,8 +109,75 @@ async function main() {
           FOREIGN KEY (group_id) REFERENCES groups(id) ON DELETE SET NULL;
       END IF;
     END $$;
+
+    -- 嵌套分组：上级分组和同级排序
+    ALTER TABLE groups ADD COLUMN IF NOT EXISTS parent_id INTEGER;
+    ALTER TABLE groups ADD COLUMN IF NOT EXISTS sort_order INTEGER NOT NULL DEFAULT 0;
+    DO $$
+    BEGIN
+      IF NOT EXISTS (
+        SELECT 1
+        FROM pg_constraint
+        WHERE conname = 'groups_parent_id_fkey'
+      ) THEN
+        ALTER TABLE groups
+          ADD CONSTRAINT groups_parent_id_fkey
+          FOREIGN KEY (parent_id) REFERENCES groups(id) ON DELETE SET NULL;
+      END IF;
+    END $$;
+    CREATE INDEX IF NOT EXISTS idx_groups_parent_id ON groups(parent_id, sort_order);
+
+    -- 链接分组：导入书签时按文件夹对应分组
+    ALTER TABLE links ADD COLUMN IF NOT EXISTS group_id INTEGER;
+    DO $$
+    BEGIN
+      IF NOT EXISTS (
+        SELECT 1
+        FROM pg_constraint
+        WHERE conname = 'links_group_id_fkey'
+      ) THEN
+        ALTER TABLE links
+          ADD CONSTRAINT links_group_id_fkey
+          FOREIGN KEY (group_id) REFERENCES groups(id) ON DELETE SET NULL;
+      END IF;
+    END $$;
   `)
 
+  // 增量同步：sync_version 字段、删除墓碑表和触发器
+  for (const statement of SYNC_SCHEMA_STATEMENTS) {
+    await db.execute(statement)
+  }
+
+  // 全文搜索：search_vector 字段、触发器、全文索引和三元组索引
+  for (const statement of SEARCH_SCHEMA_STATEMENTS) {
+    await db.execute(statement)
+  }
+
+  // 已保存的搜索和最近搜索记录
+  for (const statement of SAVED_SEARCH_SCHEMA_STATEMENTS) {
+    await db.execute(statement)
+  }
+
+  // 便签标签
+  for (const statement of TAG_SCHEMA_STATEMENTS) {
+    await db.execute(statement)
+  }
+
+  // 便签之间的 [[标题]] 链接
+  for (const statement of NOTE_LINK_SCHEMA_STATEMENTS) {
+    await db.execute(statement)
+  }
+
+  // Web Push 推送订阅和 VAPID 密钥
+  for (const statement of PUSH_SCHEMA_STATEMENTS) {
+    await db.execute(statement)
+  }
+
+  // 离线队列回放的幂等键
+  for (const statement of OUTBOX_SCHEMA_STATEMENTS) {
+    await db.execute(statement)
+  }
+
   await pool.end()
   console.log("Migration completed successfully")
 }
@@ -382,6 +382,25 @@ export async function downloadFileFromMinio(fileUrl: string): Promise<ArrayBuffe
   }
 }
 
+/**
+ * 校验文件地址是否为该用户在本存储桶中的对象（对象键以 <userId>/ 开头），返回使用当前 MinIO 地址的 URL
+ * 恢复备份等写入外部提供的文件地址前调用，不属于该用户时返回 null
+ */
+export function getUserObjectUrl(fileUrl: string, userId: string): string | null {
+  try {
+    const prefix = `/${MINIO_CONFIG.bucketName}/`
+    const pathname = new URL(fileUrl).pathname
+    if (!pathname.startsWith(prefix)) return null
+
+    const objectKey = decodeURIComponent(pathname.substring(prefix.length))
+    if (!objectKey.startsWith(`${userId}/`) || objectKey.split('/').includes('..')) return null
+
+    return `${MINIO_CONFIG.endpoint}${pathname}`
+  } catch {
+    return null
+  }
+}
+
 /**
  * 从 MinIO 删除文件
  */
@@ -0,0 +1,22 @@
+"use client"
+
+import { apiUrl } from "@/lib/api-utils"
+import type { ImportSource } from "@/lib/import-formats"
+import type { ImportSummary } from "@/lib/note-import"
+
+/**
+ * 浏览器端上传导入文件（/api/import）
+ */
+export async function importNotesFile(userId: string, source: ImportSource, file: File): Promise<ImportSummary> {
+  const formData = new FormData()
+  formData.append("userId", userId)
+  formData.append("source", source)
+  formData.append("file", file)
+
+  const response = await fetch(apiUrl("/api/import"), { method: "POST", body: formData })
+  const data = await response.json().catch(() => null)
+  if (!response.ok || !data?.success) {
+    throw new Error(data?.error || data?.message || `导入失败: ${response.status}`)
+  }
+  return data.summary as ImportSummary
+}
@@ -0,0 +1,123 @@
+import { addNoteTag, createFile, createNote } from '@/app/actions/db-actions'
+import { createGroupPathResolver } from '@/lib/group-paths'
+import { isFileTypeSupported, uploadFileToMinio, validateFileSizeByNumber } from '@/lib/minio-utils'
+import {
+  ATTACHMENT_PLACEHOLDER_PATTERN,
+  parseImportFile,
+  type ImportedAttachment,
+  type ImportSource,
+} from '@/lib/import-formats'
+
+/**
+ * 导入其他笔记应用的数据（格式解析见 lib/import-formats.ts）
+ * 按分组路径查找或创建分组，附件上传到 MinIO 并保存为文件，
+ * 便签通过 createNote 的 clientTime 保留原来的创建和修改时间
+ */
+
+// 单次导入最多创建的便签数
+export const MAX_IMPORT_NOTES = 5000
+
+// 返回的警告最多条数
+const MAX_IMPORT_WARNINGS = 50
+
+export type ImportSummary = {
+  notes: number
+  groups: number // 新建的分组数
+  attachments: number // 上传的附件数
+  skipped: number // 空白便签
+  failed: number
+  warnings: string[]
+}
+
+export async function importNotes(
+  userId: string,
+  source: ImportSource,
+  data: Uint8Array,
+  fileName: string,
+): Promise<ImportSummary> {
+  console.log(`📥 开始导入: 用户 ${userId}, 来源 ${source}, 文件 ${fileName} (${data.byteLength} 字节)`)
+
+  const parsed = parseImportFile(source, data, fileName)
+  const summary: ImportSummary = { notes: 0, groups: 0, attachments: 0, skipped: 0, failed: 0, warnings: [...parsed.warnings] }
+
+  if (parsed.notes.length > MAX_IMPORT_NOTES) {
+    summary.warnings.push(`只导入了前 ${MAX_IMPORT_NOTES} 条，其余 ${parsed.notes.length - MAX_IMPORT_NOTES} 条未导入`)
+  }
+
+  const groups = await createGroupPathResolver(userId)
+
+  // 同一个附件只上传一次；上传失败时记为 null，正文中改为说明文字
+  const uploadedAttachments = new Map<string, string | null>()
+  const uploadAttachment = async (attachment: ImportedAttachment): Promise<string | null> => {
+    const cached = uploadedAttachments.get(attachment.key)
+    if (cached !== undefined) return cached
+
+    let url: string | null = null
+    try {
+      if (!isFileTypeSupported(attachment.type)) {
+        throw new Error(`不支持的文件类型: ${attachment.type}`)
+      }
+      const sizeValidation = validateFileSizeByNumber(attachment.data.byteLength)
+      if (!sizeValidation.valid) {
+        throw new Error(sizeValidation.error)
+      }
+
+      const file = new File([attachment.data], attachment.name, { type: attachment.type })
+      const uploaded = await uploadFileToMinio(file, userId, 'files')
+      await createFile(userId, {
+        name: attachment.name,
+        type: attachment.type,
+        minio_url: uploaded.url,
+        size: attachment.data.byteLength,
+      })
+      url = uploaded.url
+      summary.attachments++
+    } catch (error) {
+      console.error(`❌ 导入的附件上传失败: ${attachment.name}`, error)
+      summary.warnings.push(`附件 ${attachment.name} 未导入：${error instanceof Error ? error.message : String(error)}`)
+    }
+    uploadedAttachments.set(attachment.key, url)
+    return url
+  }
+
+  for (const note of parsed.notes.slice(0, MAX_IMPORT_NOTES)) {
+    if (!note.content.trim() && note.attachments.length === 0) {
+      summary.skipped++
+      continue
+    }
+
+    try {
+      const links: string[] = []
+      for (const attachment of note.attachments) {
+        const url = await uploadAttachment(attachment)
+        const label = attachment.name.replace(/[[\]]/g, '')
+        if (!url) links.push(`（附件未导入：${label}）`)
+        else links.push(attachment.type.startsWith('image/') ? `![${label}](${url})` : `[${label}](${url})`)
+      }
+      const content = note.content.replace(ATTACHMENT_PLACEHOLDER_PATTERN, (_, index: string) => links[Number(index)] ?? '')
+
+      // 修改时间来自文件时间时可能早于 front matter 中的创建时间
+      const createdAt = note.createdAt ?? note.updatedAt
+      const updatedAt = createdAt && note.updatedAt && note.updatedAt > createdAt ? note.updatedAt : createdAt
+
+      const groupId = await groups.resolve(note.groupPath)
+      const created = await createNote(userId, content, createdAt ?? undefined, groupId, note.title, updatedAt ?? undefined)
+      summary.notes++
+
+      for (const tag of note.tags) {
+        await addNoteTag(created.id, userId, tag).catch((error) => {
+          console.warn(`导入的标签保存失败: ${tag}`, error)
+        })
+      }
+    } catch (error) {
+      console.error(`❌ 导入便签失败: ${note.title}`, error)
+      summary.failed++
+      summary.warnings.push(`「${note.title || '无标题'}」导入失败：${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  summary.groups = groups.createdCount()
+  console.log(`✅ 导入完成: 便签 ${summary.notes}, 分组 ${summary.groups}, 附件 ${summary.attachments}, 失败 ${summary.failed}`)
+  summary.warnings = summary.warnings.slice(0, MAX_IMPORT_WARNINGS)
+  return summary
+}
@@ -0,0 +1,22 @@
+/**
+ * 便签链接（[[标题]]）所需的数据库结构
+ *
+ * 保存便签时把正文中的每个链接记录为一行，target_note_id 是按标题解析到的便签；
+ * 暂时没有同名便签时为 NULL，之后新建或改名出同名便签时再补上。
+ * 已解析的链接按ID指向目标，目标改名后链接仍然有效。
+ */
+
+export const NOTE_LINK_SCHEMA_STATEMENTS: string[] = [
+  `CREATE TABLE IF NOT EXISTS note_links (
+    source_note_id INTEGER NOT NULL REFERENCES notes(id) ON DELETE CASCADE,
+    target_title TEXT NOT NULL,
+    target_note_id INTEGER REFERENCES notes(id) ON DELETE SET NULL,
+    user_id VARCHAR(255) NOT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (source_note_id, target_title)
+  )`,
+
+  `CREATE INDEX IF NOT EXISTS idx_note_links_target ON note_links(target_note_id)`,
+
+  `CREATE INDEX IF NOT EXISTS idx_note_links_unresolved ON note_links(user_id, LOWER(target_title)) WHERE target_note_id IS NULL`,
+]
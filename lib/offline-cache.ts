@@ -0,0 +1,74 @@
+import { CACHE_STORE, requestToPromise, withTransaction } from './offline-db'
+
+/**
+ * 离线数据缓存
+ * 每次同步后把便签、分组、链接和文件元数据写入 IndexedDB，
+ * 应用在无网络时打开也能先显示上次同步的内容。
+ * 便签按分组视图分别缓存（scope 为分组ID、"all" 或 "ungrouped"）。
+ * 缓存按用户保存，退出登录时全部清除，切换账号时清除其他用户的缓存。
+ */
+
+export type OfflineCacheKind = 'notes' | 'groups' | 'links' | 'files'
+
+interface OfflineCacheRecord<T> {
+  key: string
+  userId: string
+  kind: OfflineCacheKind
+  scope: string | null
+  items: T[]
+  savedAt: number
+}
+
+const cacheKey = (userId: string, kind: OfflineCacheKind, scope?: string) =>
+  scope ? `${userId}:${kind}:${scope}` : `${userId}:${kind}`
+
+export async function saveOfflineCache<T>(
+  userId: string,
+  kind: OfflineCacheKind,
+  items: T[],
+  scope?: string,
+): Promise<void> {
+  const record: OfflineCacheRecord<T> = {
+    key: cacheKey(userId, kind, scope),
+    userId,
+    kind,
+    scope: scope ?? null,
+    items,
+    savedAt: Date.now(),
+  }
+  await withTransaction(CACHE_STORE, 'readwrite', (transaction) => {
+    transaction.objectStore(CACHE_STORE).put(record)
+  })
+}
+
+export async function loadOfflineCache<T>(
+  userId: string,
+  kind: OfflineCacheKind,
+  scope?: string,
+): Promise<{ items: T[]; savedAt: Date } | null> {
+  const record = await withTransaction(CACHE_STORE, 'readonly', (transaction) =>
+    requestToPromise(
+      transaction.objectStore(CACHE_STORE).get(cacheKey(userId, kind, scope)) as IDBRequest<OfflineCacheRecord<T> | undefined>,
+    ),
+  )
+  if (!record) return null
+  return { items: record.items, savedAt: new Date(record.savedAt) }
+}
+
+/**
+ * 清除离线缓存：指定 keepUserId 时只保留该用户的缓存，否则全部清除
+ */
+export async function clearOfflineCache(keepUserId?: string): Promise<void> {
+  await withTransaction(CACHE_STORE, 'readwrite', async (transaction) => {
+    const store = transaction.objectStore(CACHE_STORE)
+    if (!keepUserId) {
+      store.clear()
+      return
+    }
+    const keys = await requestToPromise(store.getAllKeys())
+    const records = await requestToPromise(store.getAll() as IDBRequest<OfflineCacheRecord<unknown>[]>)
+    records.forEach((record, index) => {
+      if (record.userId !== keepUserId) store.delete(keys[index])
+    })
+  })
+}
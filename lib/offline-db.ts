@@ -0,0 +1,80 @@
+/**
+ * 浏览器端离线数据库（IndexedDB）
+ * 保存离线期间排队的修改和最近一次同步的数据缓存，仅在客户端使用
+ */
+
+const DB_NAME = 'pwa-note-offline'
+const DB_VERSION = 2
+
+export const OUTBOX_STORE = 'outbox'
+export const CACHE_STORE = 'cache'
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+export function isOfflineDbSupported(): boolean {
+  return typeof window !== 'undefined' && 'indexedDB' in window
+}
+
+export function openOfflineDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          const outbox = db.createObjectStore(OUTBOX_STORE, { keyPath: 'id', autoIncrement: true })
+          outbox.createIndex('userId', 'userId')
+        }
+        if (!db.objectStoreNames.contains(CACHE_STORE)) {
+          const cache = db.createObjectStore(CACHE_STORE, { keyPath: 'key' })
+          cache.createIndex('userId', 'userId')
+        }
+      }
+
+      request.onsuccess = () => {
+        const db = request.result
+        // 其他标签页升级数据库时关闭旧连接，下次使用时重新打开
+        db.onversionchange = () => {
+          db.close()
+          dbPromise = null
+        }
+        resolve(db)
+      }
+      request.onerror = () => reject(request.error)
+      request.onblocked = () => console.warn('离线数据库升级被其他标签页阻塞')
+    }).catch((error) => {
+      dbPromise = null
+      throw error
+    })
+  }
+  return dbPromise
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * 在一个事务中执行操作，事务提交后返回 fn 的结果
+ * fn 内只能同步发起请求或 await 本事务内的请求，不能等待其他异步操作，否则事务会自动提交
+ */
+export async function withTransaction<T>(
+  storeNames: string | string[],
+  mode: IDBTransactionMode,
+  fn: (transaction: IDBTransaction) => Promise<T> | T,
+): Promise<T> {
+  const db = await openOfflineDb()
+  const transaction = db.transaction(storeNames, mode)
+  const completed = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error ?? new Error('离线数据库事务已中止'))
+  })
+  const result = await fn(transaction)
+  await completed
+  return result
+}
@@ -0,0 +1,268 @@
+import { OUTBOX_STORE, requestToPromise, withTransaction } from './offline-db'
+
+/**
+ * 离线修改队列（outbox）
+ * 离线或网络中断时，修改操作按顺序写入 IndexedDB，网络恢复后由 SyncProvider 依次回放。
+ * 离线新建的记录使用临时ID（temp_ 前缀），回放创建操作后把后续操作中引用的临时ID替换为服务器ID。
+ * 同时注册后台同步（Background Sync），页面已关闭时由 Service Worker（public/sw.js）通过 /api/sync/outbox 回放。
+ */
+
+// 编辑开始时的便签状态，回放更新时用于检测并发修改
+export type OutboxNoteBase = {
+  version: number
+  content: string
+  title: string
+}
+
+export type OutboxOperation =
+  | {
+      type: 'saveNote'
+      noteId: string // 已有便签的ID；新建便签时为临时ID
+      isNew: boolean
+      content: string
+      title: string
+      groupId: string | null // 新建便签所在分组，可能是离线新建分组的临时ID
+      clientTime: string
+      base?: OutboxNoteBase
+    }
+  | { type: 'saveLink'; tempId: string; url: string; title: string; clientTime: string }
+  | { type: 'createGroup'; tempId: string; name: string; parentId?: string | null } // parentId 可能是离线新建分组的临时ID
+  | { type: 'moveGroup'; groupId: string; parentId: string | null; index: number }
+  | { type: 'moveNoteToGroup'; noteId: string; groupId: string | null }
+  | { type: 'setNoteFlag'; noteId: string; flag: 'pinned' | 'starred'; value: boolean }
+  | { type: 'setNoteReminder'; noteId: string; remindAt: string | null } // remindAt 为 ISO 时间，null 表示清除提醒
+
+export type OutboxStatus = 'pending' | 'failed'
+
+export interface OutboxEntry {
+  id: number
+  key?: string // 幂等键，新建操作回放时随请求发送，服务器据此不再重复创建（见 lib/outbox-schema.ts）
+  userId: string
+  operation: OutboxOperation
+  status: OutboxStatus
+  attempts: number
+  lastError?: string
+  createdAt: number
+}
+
+export type OutboxCounts = {
+  pending: number
+  failed: number
+}
+
+// 单个操作连续失败（非网络原因）达到该次数后标记为失败，不再自动重试
+export const MAX_OUTBOX_ATTEMPTS = 3
+
+export const TEMP_ID_PREFIX = 'temp_'
+
+// 后台同步标签，与 public/sw.js 一致
+export const OUTBOX_SYNC_TAG = 'pwa-note-outbox'
+
+// 页面和 Service Worker 回放、写入队列时共用的 Web Locks 名称，与 public/sw.js 一致
+export function getOutboxLockName(userId: string): string {
+  return `pwa-note-outbox-${userId}`
+}
+
+// Service Worker 回放单个操作的结果（见 /api/sync/outbox）
+export type OutboxReplayResult = {
+  id: number
+  status: 'done' | 'conflict' | 'failed' | 'skipped' // skipped：已标记为失败的操作，只替换临时ID
+  operation?: OutboxOperation // 未完成的操作，临时ID已替换为本次创建的服务器ID
+  error?: string
+}
+
+export function isTempId(id: string | null | undefined): boolean {
+  return typeof id === 'string' && id.startsWith(TEMP_ID_PREFIX)
+}
+
+// 判断错误是否由网络不可用导致（此类错误保留在队列中等待网络恢复）
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true
+  if (error instanceof TypeError) return true
+  const message = error instanceof Error ? error.message : String(error)
+  return /Failed to fetch|NetworkError|Load failed|Network request failed/i.test(message)
+}
+
+function createOutboxKey(): string {
+  return crypto.randomUUID()
+}
+
+async function getUserEntries(transaction: IDBTransaction, userId: string): Promise<OutboxEntry[]> {
+  const index = transaction.objectStore(OUTBOX_STORE).index('userId')
+  const entries = await requestToPromise(index.getAll(userId) as IDBRequest<OutboxEntry[]>)
+  return entries.sort((a, b) => a.id - b.id)
+}
+
+/**
+ * 将操作加入队列
+ * 同一便签尚未回放的保存操作会合并为一条，只保留最新内容（新建便签仍按新建回放）。
+ * Service Worker 正在回放时等待其完成，避免合并进已发送到服务器的操作
+ */
+export async function enqueueOperation(userId: string, operation: OutboxOperation): Promise<void> {
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    await navigator.locks.request(getOutboxLockName(userId), () => addOperation(userId, operation))
+  } else {
+    await addOperation(userId, operation)
+  }
+}
+
+async function addOperation(userId: string, operation: OutboxOperation): Promise<void> {
+  await withTransaction(OUTBOX_STORE, 'readwrite', async (transaction) => {
+    const store = transaction.objectStore(OUTBOX_STORE)
+
+    if (operation.type === 'saveNote') {
+      const entries = await getUserEntries(transaction, userId)
+      const existing = entries.find(
+        (entry) =>
+          entry.status === 'pending' &&
+          entry.operation.type === 'saveNote' &&
+          entry.operation.noteId === operation.noteId,
+      )
+      if (existing && existing.operation.type === 'saveNote') {
+        store.put({
+          ...existing,
+          // 新建便签保留原幂等键，重复发送时服务端把最新内容写入已创建的便签；其他操作作为新的操作执行
+          key: existing.operation.isNew ? existing.key : createOutboxKey(),
+          operation: {
+            ...existing.operation,
+            content: operation.content,
+            title: operation.title,
+            clientTime: operation.clientTime,
+          },
+        })
+        return
+      }
+    }
+
+    store.add({
+      key: createOutboxKey(),
+      userId,
+      operation,
+      status: 'pending',
+      attempts: 0,
+      createdAt: Date.now(),
+    })
+  })
+}
+
+export async function getOutboxEntries(userId: string): Promise<OutboxEntry[]> {
+  return withTransaction(OUTBOX_STORE, 'readonly', (transaction) => getUserEntries(transaction, userId))
+}
+
+export async function getOutboxEntry(id: number): Promise<OutboxEntry | undefined> {
+  return withTransaction(OUTBOX_STORE, 'readonly', (transaction) =>
+    requestToPromise(transaction.objectStore(OUTBOX_STORE).get(id) as IDBRequest<OutboxEntry | undefined>),
+  )
+}
+
+export async function removeOutboxEntry(id: number): Promise<void> {
+  await withTransaction(OUTBOX_STORE, 'readwrite', (transaction) => {
+    transaction.objectStore(OUTBOX_STORE).delete(id)
+  })
+}
+
+// 记录一次回放失败，达到重试上限后标记为失败
+export async function markOutboxEntryFailed(entry: OutboxEntry, error: unknown): Promise<void> {
+  const attempts = entry.attempts + 1
+  await withTransaction(OUTBOX_STORE, 'readwrite', (transaction) => {
+    transaction.objectStore(OUTBOX_STORE).put({
+      ...entry,
+      attempts,
+      status: attempts >= MAX_OUTBOX_ATTEMPTS ? 'failed' : 'pending',
+      lastError: error instanceof Error ? error.message : String(error),
+    })
+  })
+}
+
+// 将失败的操作重新放回队列（手动同步时调用）
+export async function retryFailedEntries(userId: string): Promise<void> {
+  await withTransaction(OUTBOX_STORE, 'readwrite', async (transaction) => {
+    const store = transaction.objectStore(OUTBOX_STORE)
+    for (const entry of await getUserEntries(transaction, userId)) {
+      if (entry.status === 'failed') {
+        store.put({ ...entry, status: 'pending', attempts: 0 })
+      }
+    }
+  })
+}
+
+/**
+ * 把操作中引用的临时ID替换为服务器ID，没有引用时返回 null
+ */
+export function remapOperationIds(
+  operation: OutboxOperation,
+  kind: 'note' | 'group',
+  tempId: string,
+  realId: string,
+): OutboxOperation | null {
+  if (kind === 'note') {
+    if (
+      (
+        operation.type === 'saveNote' ||
+        operation.type === 'moveNoteToGroup' ||
+        operation.type === 'setNoteFlag' ||
+        operation.type === 'setNoteReminder'
+      ) &&
+      operation.noteId === tempId
+    ) {
+      return { ...operation, noteId: realId }
+    }
+  } else if ((operation.type === 'saveNote' || operation.type === 'moveNoteToGroup') && operation.groupId === tempId) {
+    return { ...operation, groupId: realId }
+  } else if (operation.type === 'createGroup' && operation.parentId === tempId) {
+    return { ...operation, parentId: realId }
+  } else if (operation.type === 'moveGroup' && (operation.groupId === tempId || operation.parentId === tempId)) {
+    return {
+      ...operation,
+      groupId: operation.groupId === tempId ? realId : operation.groupId,
+      parentId: operation.parentId === tempId ? realId : operation.parentId,
+    }
+  }
+  return null
+}
+
+/**
+ * 创建操作回放成功后，把队列中引用该临时ID的操作改为服务器ID
+ */
+export async function remapOutboxIds(
+  userId: string,
+  kind: 'note' | 'group',
+  tempId: string,
+  realId: string,
+): Promise<void> {
+  await withTransaction(OUTBOX_STORE, 'readwrite', async (transaction) => {
+    const store = transaction.objectStore(OUTBOX_STORE)
+    for (const entry of await getUserEntries(transaction, userId)) {
+      const next = remapOperationIds(entry.operation, kind, tempId, realId)
+      if (next) {
+        store.put({ ...entry, operation: next })
+      }
+    }
+  })
+}
+
+export async function getOutboxCounts(userId: string): Promise<OutboxCounts> {
+  const entries = await getOutboxEntries(userId)
+  return {
+    pending: entries.filter((entry) => entry.status === 'pending').length,
+    failed: entries.filter((entry) => entry.status === 'failed').length,
+  }
+}
+
+type SyncRegistration = ServiceWorkerRegistration & {
+  sync?: { register: (tag: string) => Promise<void> }
+}
+
+/**
+ * 注册后台同步：网络恢复时即使页面已关闭，浏览器也会唤醒 Service Worker 回放队列
+ * 不支持 Background Sync 的浏览器仍由页面在网络恢复后回放
+ */
+export async function registerOutboxSync(): Promise<void> {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return
+  try {
+    const registration = (await navigator.serviceWorker.ready) as SyncRegistration
+    await registration.sync?.register(OUTBOX_SYNC_TAG)
+  } catch (error) {
+    console.warn('注册后台同步失败:', error)
+  }
+}
@@ -0,0 +1,186 @@
+import {
+  createGroup,
+  createLink,
+  createNote,
+  moveGroup,
+  moveNoteToGroup,
+  setNotePinned,
+  setNoteReminder,
+  setNoteStarred,
+  updateNote,
+  updateNoteWithVersion,
+} from '@/app/actions/db-actions'
+import {
+  isTempId,
+  remapOperationIds,
+  type OutboxOperation,
+  type OutboxReplayResult,
+  type OutboxStatus,
+} from '@/lib/offline-queue'
+
+/**
+ * 服务端回放离线队列（Service Worker 后台同步时调用，见 /api/sync/outbox）
+ * 与 SyncProvider 的 replayOperation 相同：按入队顺序执行，创建操作成功后把后续操作中的临时ID替换为服务器ID。
+ * 便签并发修改冲突不在这里处理，保留在队列中，下次打开应用时由冲突对话框处理。
+ * 新建操作带上条目的幂等键（与新建记录在同一条 INSERT 中写入），请求超时后重新发送时不再重复创建
+ */
+
+export interface OutboxReplayEntry {
+  id: number
+  key?: string // 幂等键，入队时生成；旧版本入队的条目没有
+  status: OutboxStatus
+  operation: OutboxOperation
+}
+
+const OPERATION_TYPES: OutboxOperation['type'][] = [
+  'saveNote',
+  'saveLink',
+  'createGroup',
+  'moveGroup',
+  'moveNoteToGroup',
+  'setNoteFlag',
+  'setNoteReminder',
+]
+
+// 校验请求中的队列条目，具体字段在执行时由各操作校验
+export function isOutboxReplayEntry(value: unknown): value is OutboxReplayEntry {
+  if (!value || typeof value !== 'object') return false
+  const entry = value as Record<string, unknown>
+  const operation = entry.operation as Record<string, unknown> | null | undefined
+  return (
+    Number.isInteger(entry.id) &&
+    (entry.key === undefined || (typeof entry.key === 'string' && /^[\w-]{1,64}$/.test(entry.key))) &&
+    (entry.status === 'pending' || entry.status === 'failed') &&
+    !!operation &&
+    typeof operation === 'object' &&
+    OPERATION_TYPES.includes(operation.type as OutboxOperation['type'])
+  )
+}
+
+function parseNoteId(noteId: string): number {
+  if (isTempId(noteId)) throw new Error('便签尚未同步')
+  const parsed = parseInt(noteId, 10)
+  if (Number.isNaN(parsed)) throw new Error('无效的笔记ID')
+  return parsed
+}
+
+function parseGroupId(groupId: string | null): number | null {
+  if (groupId === null) return null
+  if (isTempId(groupId)) throw new Error('所属分组尚未同步')
+  const parsed = parseInt(groupId, 10)
+  if (Number.isNaN(parsed)) throw new Error('无效的分组ID')
+  return parsed
+}
+
+type ReplayOutcome =
+  | { status: 'done'; created?: { kind: 'note' | 'group'; tempId: string; id: string } }
+  | { status: 'conflict' }
+
+async function replayOperation(userId: string, operation: OutboxOperation, key?: string): Promise<ReplayOutcome> {
+  switch (operation.type) {
+    case 'saveNote': {
+      if (operation.isNew) {
+        const created = await createNote(
+          userId,
+          operation.content,
+          operation.clientTime,
+          parseGroupId(operation.groupId),
+          operation.title,
+          undefined,
+          key,
+        )
+        return { status: 'done', created: { kind: 'note', tempId: operation.noteId, id: String(created.id) } }
+      }
+
+      const noteId = parseNoteId(operation.noteId)
+      if (operation.base) {
+        const result = await updateNoteWithVersion(
+          noteId,
+          userId,
+          operation.content,
+          operation.base.version,
+          operation.clientTime,
+          operation.title,
+        )
+        return { status: result.status === 'conflict' ? 'conflict' : 'done' }
+      }
+      await updateNote(noteId, userId, operation.content, operation.clientTime, operation.title)
+      return { status: 'done' }
+    }
+
+    case 'saveLink':
+      await createLink(userId, operation.url, operation.title, operation.clientTime, key)
+      return { status: 'done' }
+
+    case 'createGroup': {
+      const created = await createGroup(userId, operation.name, parseGroupId(operation.parentId ?? null), key)
+      return { status: 'done', created: { kind: 'group', tempId: operation.tempId, id: String(created.id) } }
+    }
+
+    case 'moveGroup': {
+      const groupId = parseGroupId(operation.groupId)
+      if (groupId === null) throw new Error('无效的分组ID')
+      await moveGroup(groupId, userId, parseGroupId(operation.parentId), operation.index)
+      return { status: 'done' }
+    }
+
+    case 'moveNoteToGroup':
+      await moveNoteToGroup(parseNoteId(operation.noteId), userId, parseGroupId(operation.groupId))
+      return { status: 'done' }
+
+    case 'setNoteFlag': {
+      const setFlag = operation.flag === 'pinned' ? setNotePinned : setNoteStarred
+      await setFlag(parseNoteId(operation.noteId), userId, operation.value)
+      return { status: 'done' }
+    }
+
+    case 'setNoteReminder':
+      await setNoteReminder(parseNoteId(operation.noteId), userId, operation.remindAt)
+      return { status: 'done' }
+  }
+}
+
+/**
+ * 按顺序回放用户的离线队列，返回每个条目的结果
+ * 已标记为失败的条目不执行，只替换其中的临时ID；未完成的条目返回替换临时ID后的操作，由调用方写回队列
+ */
+export async function replayOutboxEntries(userId: string, entries: OutboxReplayEntry[]): Promise<OutboxReplayResult[]> {
+  const results: OutboxReplayResult[] = []
+  const createdIds: { kind: 'note' | 'group'; tempId: string; id: string }[] = []
+
+  const applyCreatedIds = (operation: OutboxOperation) =>
+    createdIds.reduce(
+      (current, { kind, tempId, id }) => remapOperationIds(current, kind, tempId, id) ?? current,
+      operation,
+    )
+
+  for (const entry of [...entries].sort((a, b) => a.id - b.id)) {
+    const operation = applyCreatedIds(entry.operation)
+    if (entry.status !== 'pending') {
+      results.push({ id: entry.id, status: 'skipped', operation })
+      continue
+    }
+
+    try {
+      const outcome = await replayOperation(userId, operation, entry.key)
+      if (outcome.status === 'conflict') {
+        results.push({ id: entry.id, status: 'conflict', operation })
+        continue
+      }
+      if (outcome.created) {
+        createdIds.push(outcome.created)
+      }
+      results.push({ id: entry.id, status: 'done' })
+    } catch (error) {
+      console.error(`❌ 后台同步回放失败: ${operation.type}`, error)
+      results.push({
+        id: entry.id,
+        status: 'failed',
+        operation,
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+  }
+
+  return results
+}
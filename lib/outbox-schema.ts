@@ -0,0 +1,16 @@
+/**
+ * 离线队列回放的幂等键（见 lib/outbox-replay.ts 和 SyncProvider 的 replayOperation）
+ *
+ * 离线新建的便签、链接和分组把入队时生成的幂等键写入 client_key，与新建记录在同一条 INSERT 中提交。
+ * 请求超时或失败后重新回放同一条目时（Service Worker 或页面），按 (user_id, client_key) 找到已创建的记录，不再重复创建。
+ */
+
+export const OUTBOX_SCHEMA_STATEMENTS: string[] = [
+  `ALTER TABLE notes ADD COLUMN IF NOT EXISTS client_key VARCHAR(64)`,
+  `ALTER TABLE links ADD COLUMN IF NOT EXISTS client_key VARCHAR(64)`,
+  `ALTER TABLE groups ADD COLUMN IF NOT EXISTS client_key VARCHAR(64)`,
+
+  `CREATE UNIQUE INDEX IF NOT EXISTS idx_notes_client_key ON notes(user_id, client_key) WHERE client_key IS NOT NULL`,
+  `CREATE UNIQUE INDEX IF NOT EXISTS idx_links_client_key ON links(user_id, client_key) WHERE client_key IS NOT NULL`,
+  `CREATE UNIQUE INDEX IF NOT EXISTS idx_groups_client_key ON groups(user_id, client_key) WHERE client_key IS NOT NULL`,
+]
@@ -0,0 +1,162 @@
+"use client"
+
+import { apiUrl } from "@/lib/api-utils"
+
+/**
+ * 浏览器端的 Web Push 订阅
+ * 每台设备在 localStorage 中保存一个设备ID，服务器按用户和设备保存订阅；
+ * 是否开启推送也记录在本地，浏览器更换订阅时据此重新订阅。
+ */
+
+const DEVICE_ID_KEY = "pushDeviceId"
+const PUSH_ENABLED_KEY = "pushEnabled"
+
+// 浏览器是否支持推送通知
+export function isPushSupported(): boolean {
+  return (
+    typeof window !== "undefined" &&
+    "serviceWorker" in navigator &&
+    "PushManager" in window &&
+    "Notification" in window
+  )
+}
+
+// 本设备的ID，首次调用时生成
+export function getPushDeviceId(): string {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY)
+  if (!deviceId) {
+    deviceId = crypto.randomUUID()
+    localStorage.setItem(DEVICE_ID_KEY, deviceId)
+  }
+  return deviceId
+}
+
+// 本设备是否开启了推送
+export function isPushEnabledLocally(): boolean {
+  return localStorage.getItem(PUSH_ENABLED_KEY) === "true"
+}
+
+// VAPID 公钥（base64url）转换为 applicationServerKey
+function urlBase64ToUint8Array(base64String: string): Uint8Array<ArrayBuffer> {
+  const padding = "=".repeat((4 - (base64String.length % 4)) % 4)
+  const base64 = (base64String + padding).replace(/-/g, "+").replace(/_/g, "/")
+  const raw = atob(base64)
+  const output = new Uint8Array(new ArrayBuffer(raw.length))
+  for (let i = 0; i < raw.length; i++) {
+    output[i] = raw.charCodeAt(i)
+  }
+  return output
+}
+
+async function getVapidPublicKey(): Promise<string> {
+  const response = await fetch(apiUrl("/api/push/vapid-public-key"))
+  const data = await response.json()
+  if (!response.ok || !data.publicKey) {
+    throw new Error(data.error || "获取推送公钥失败")
+  }
+  return data.publicKey
+}
+
+// 当前浏览器的推送订阅
+export async function getCurrentPushSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null
+  const registration = await navigator.serviceWorker.ready
+  return registration.pushManager.getSubscription()
+}
+
+// 把订阅上报给服务器
+async function saveSubscription(userId: string, subscription: PushSubscription): Promise<void> {
+  const response = await fetch(apiUrl("/api/push/subscribe"), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ userId, deviceId: getPushDeviceId(), subscription: subscription.toJSON() }),
+  })
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}))
+    throw new Error(data.error || "保存推送订阅失败")
+  }
+}
+
+/**
+ * 开启本设备的推送：请求通知权限，订阅并上报服务器
+ * 服务器更换过 VAPID 密钥时先取消旧订阅再重新订阅
+ */
+export async function subscribeToPush(userId: string): Promise<void> {
+  if (!isPushSupported()) {
+    throw new Error("当前浏览器不支持推送通知")
+  }
+
+  const permission = await Notification.requestPermission()
+  if (permission !== "granted") {
+    throw new Error("未获得通知权限")
+  }
+
+  const registration = await navigator.serviceWorker.ready
+  const applicationServerKey = urlBase64ToUint8Array(await getVapidPublicKey())
+
+  let subscription = await registration.pushManager.getSubscription()
+  const currentKey = subscription?.options.applicationServerKey
+  if (subscription && currentKey && !isSameKey(new Uint8Array(currentKey), applicationServerKey)) {
+    await subscription.unsubscribe()
+    subscription = null
+  }
+  if (!subscription) {
+    subscription = await registration.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey })
+  }
+
+  await saveSubscription(userId, subscription)
+  localStorage.setItem(PUSH_ENABLED_KEY, "true")
+}
+
+function isSameKey(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((value, index) => value === b[index])
+}
+
+/**
+ * 关闭本设备的推送：通知服务器删除订阅并取消浏览器订阅
+ */
+export async function unsubscribeFromPush(userId: string): Promise<void> {
+  localStorage.setItem(PUSH_ENABLED_KEY, "false")
+
+  const response = await fetch(apiUrl("/api/push/unsubscribe"), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ userId, deviceId: getPushDeviceId() }),
+  })
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}))
+    throw new Error(data.error || "取消推送订阅失败")
+  }
+
+  const subscription = await getCurrentPushSubscription()
+  await subscription?.unsubscribe()
+}
+
+/**
+ * 同步本设备的订阅：已开启推送时重新上报（订阅被浏览器更换或切换了账号），
+ * 浏览器订阅已失效时重新订阅
+ */
+export async function syncPushSubscription(userId: string): Promise<void> {
+  if (!isPushSupported() || !isPushEnabledLocally() || Notification.permission !== "granted") return
+
+  const subscription = await getCurrentPushSubscription()
+  if (subscription) {
+    await saveSubscription(userId, subscription)
+  } else {
+    await subscribeToPush(userId)
+  }
+}
+
+// 向当前用户的所有设备发送测试通知，返回成功发送的设备数
+export async function sendTestPush(userId: string): Promise<number> {
+  const response = await fetch(apiUrl("/api/push/test"), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ userId }),
+  })
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || "发送测试通知失败")
+  }
+  return data.data.sent
+}
@@ -0,0 +1,267 @@
+import webpush from 'web-push'
+import { query } from '@/lib/db'
+import { PUSH_SCHEMA_STATEMENTS } from '@/lib/push-schema'
+
+/**
+ * Web Push 推送
+ * 保存各设备的浏览器推送订阅，并用 VAPID 签名向用户的所有设备发送通知。
+ *
+ * VAPID 密钥优先读取 VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY 环境变量（可用 npx web-push generate-vapid-keys 生成），
+ * 未配置时自动生成一对并保存在数据库中，多个实例共用。
+ * 请求通过 fetch 直接发往订阅的 endpoint，只接受各浏览器推送服务的域名；本地调试时可设置 PUSH_ALLOW_INSECURE_ENDPOINTS=true
+ * 允许任意 http / https 地址，用 scripts/test-push-endpoint.js 代替浏览器推送服务接收。
+ */
+
+// 推送请求超时
+const PUSH_REQUEST_TIMEOUT_MS = 10 * 1000
+
+// 连续失败达到此次数的订阅会被移除
+const MAX_PUSH_FAILURES = 5
+
+// 默认保留时长：设备离线时推送服务最多保留一天
+const DEFAULT_PUSH_TTL_SECONDS = 24 * 60 * 60
+
+export interface PushPayload {
+  title: string
+  body?: string
+  tag?: string // 相同 tag 的通知互相替换
+  url?: string // 点击通知打开的地址
+  noteId?: number | string // 点击通知时打开的便签
+  skipWhenVisible?: boolean // 应用正在前台显示时不弹出系统通知（由应用内提示处理）
+}
+
+export interface PushSubscriptionInput {
+  endpoint: string
+  keys: {
+    p256dh: string
+    auth: string
+  }
+}
+
+export interface PushSendOptions {
+  ttl?: number // 秒
+  urgency?: 'very-low' | 'low' | 'normal' | 'high'
+}
+
+export interface PushSendResult {
+  sent: number
+  failed: number
+  removed: number
+}
+
+interface VapidKeys {
+  publicKey: string
+  privateKey: string
+}
+
+interface PushSubscriptionRow {
+  id: number
+  endpoint: string
+  p256dh: string
+  auth: string
+}
+
+let pushTablesReady: Promise<void> | null = null
+let vapidKeysReady: Promise<VapidKeys> | null = null
+
+// 确保推送相关表存在（旧数据库可能未执行过初始化）
+function ensurePushTablesExist(): Promise<void> {
+  if (!pushTablesReady) {
+    pushTablesReady = (async () => {
+      for (const statement of PUSH_SCHEMA_STATEMENTS) {
+        await query(statement)
+      }
+    })().catch((error) => {
+      pushTablesReady = null
+      throw error
+    })
+  }
+  return pushTablesReady
+}
+
+/**
+ * 获取 VAPID 密钥：环境变量优先，否则读取或生成保存在数据库中的密钥
+ */
+export function getVapidKeys(): Promise<VapidKeys> {
+  if (!vapidKeysReady) {
+    vapidKeysReady = (async () => {
+      const publicKey = process.env.VAPID_PUBLIC_KEY
+      const privateKey = process.env.VAPID_PRIVATE_KEY
+      if (publicKey || privateKey) {
+        if (!publicKey || !privateKey) {
+          throw new Error('VAPID_PUBLIC_KEY 和 VAPID_PRIVATE_KEY 需要同时配置')
+        }
+        return { publicKey, privateKey }
+      }
+
+      await ensurePushTablesExist()
+      const generated = webpush.generateVAPIDKeys()
+      // 多个实例同时生成时只保留第一对
+      await query(
+        `INSERT INTO push_vapid_keys (id, public_key, private_key) VALUES (1, $1, $2) ON CONFLICT (id) DO NOTHING`,
+        [generated.publicKey, generated.privateKey],
+      )
+      const result = await query(`SELECT public_key, private_key FROM push_vapid_keys WHERE id = 1`)
+      const row = result.rows[0] as { public_key: string; private_key: string }
+      return { publicKey: row.public_key, privateKey: row.private_key }
+    })().catch((error) => {
+      vapidKeysReady = null
+      throw error
+    })
+  }
+  return vapidKeysReady
+}
+
+function getVapidSubject(): string {
+  return process.env.VAPID_SUBJECT || 'mailto:admin@pwa-note.local'
+}
+
+// 浏览器推送服务的域名：FCM（Chrome）、Mozilla autopush（Firefox）、Apple（Safari）、WNS（Edge）
+const PUSH_SERVICE_HOSTS = [
+  'fcm.googleapis.com',
+  'android.googleapis.com',
+  'push.services.mozilla.com',
+  'push.apple.com',
+  'notify.windows.com',
+]
+
+/**
+ * 检查推送 endpoint：只接受上述推送服务的 https 地址（默认端口），避免服务器向任意地址发送请求；
+ * PUSH_ALLOW_INSECURE_ENDPOINTS=true 时接受任意 http / https 地址（本地调试）
+ */
+export function isAllowedPushEndpoint(endpoint: string): boolean {
+  try {
+    const url = new URL(endpoint)
+    if (process.env.PUSH_ALLOW_INSECURE_ENDPOINTS === 'true') {
+      return url.protocol === 'https:' || url.protocol === 'http:'
+    }
+    if (url.protocol !== 'https:' || url.port !== '' || url.username || url.password) return false
+    const hostname = url.hostname.toLowerCase()
+    return PUSH_SERVICE_HOSTS.some((host) => hostname === host || hostname.endsWith(`.${host}`))
+  } catch {
+    return false
+  }
+}
+
+/**
+ * 保存设备的推送订阅；同一设备重新订阅时覆盖，
+ * 该 endpoint 之前属于其他用户或设备时移除旧记录
+ */
+export async function savePushSubscription(
+  userId: string,
+  deviceId: string,
+  subscription: PushSubscriptionInput,
+  userAgent: string | null,
+): Promise<void> {
+  await ensurePushTablesExist()
+
+  await query(
+    `DELETE FROM push_subscriptions WHERE endpoint = $1 AND NOT (user_id = $2 AND device_id = $3)`,
+    [subscription.endpoint, userId, deviceId],
+  )
+  await query(
+    `INSERT INTO push_subscriptions (user_id, device_id, endpoint, p256dh, auth, user_agent)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     ON CONFLICT (user_id, device_id) DO UPDATE SET
+       endpoint = EXCLUDED.endpoint,
+       p256dh = EXCLUDED.p256dh,
+       auth = EXCLUDED.auth,
+       user_agent = EXCLUDED.user_agent,
+       failure_count = 0,
+       updated_at = NOW()`,
+    [userId, deviceId, subscription.endpoint, subscription.keys.p256dh, subscription.keys.auth, userAgent],
+  )
+}
+
+/**
+ * 删除设备的推送订阅，返回是否删除了记录
+ */
+export async function removePushSubscription(userId: string, deviceId: string): Promise<boolean> {
+  await ensurePushTablesExist()
+  const result = await query(
+    `DELETE FROM push_subscriptions WHERE user_id = $1 AND device_id = $2 RETURNING id`,
+    [userId, deviceId],
+  )
+  return result.rows.length > 0
+}
+
+/**
+ * 向用户的所有设备发送推送通知
+ * 推送服务返回 404 / 410（订阅已失效）或连续失败过多的订阅会被移除；单个设备失败不影响其他设备
+ */
+export async function sendPushToUser(
+  userId: string,
+  payload: PushPayload,
+  options: PushSendOptions = {},
+): Promise<PushSendResult> {
+  await ensurePushTablesExist()
+  const result: PushSendResult = { sent: 0, failed: 0, removed: 0 }
+
+  const subscriptions = await query(
+    `SELECT id, endpoint, p256dh, auth FROM push_subscriptions WHERE user_id = $1`,
+    [userId],
+  )
+  if (subscriptions.rows.length === 0) return result
+
+  const vapidKeys = await getVapidKeys()
+  const body = JSON.stringify(payload)
+
+  for (const row of subscriptions.rows as PushSubscriptionRow[]) {
+    // 限制推送服务域名之前保存的订阅可能指向其他地址
+    if (!isAllowedPushEndpoint(row.endpoint)) {
+      console.warn('⚠️ 移除不支持的推送地址:', row.endpoint)
+      result.removed++
+      await query(`DELETE FROM push_subscriptions WHERE id = $1`, [row.id])
+      continue
+    }
+
+    try {
+      const details = webpush.generateRequestDetails(
+        { endpoint: row.endpoint, keys: { p256dh: row.p256dh, auth: row.auth } },
+        body,
+        {
+          vapidDetails: { subject: getVapidSubject(), ...vapidKeys },
+          TTL: options.ttl ?? DEFAULT_PUSH_TTL_SECONDS,
+          urgency: options.urgency ?? 'normal',
+        },
+      )
+
+      const response = await fetch(details.endpoint, {
+        method: details.method,
+        headers: Object.fromEntries(Object.entries(details.headers).map(([key, value]) => [key, String(value)])),
+        body: new Uint8Array(details.body),
+        signal: AbortSignal.timeout(PUSH_REQUEST_TIMEOUT_MS),
+      })
+
+      if (response.ok) {
+        result.sent++
+        await query(
+          `UPDATE push_subscriptions SET failure_count = 0, last_success_at = NOW() WHERE id = $1`,
+          [row.id],
+        )
+        continue
+      }
+
+      if (response.status === 404 || response.status === 410) {
+        result.removed++
+        await query(`DELETE FROM push_subscriptions WHERE id = $1`, [row.id])
+        continue
+      }
+
+      throw new Error(`推送服务返回 ${response.status}: ${await response.text().catch(() => '')}`)
+    } catch (error) {
+      result.failed++
+      console.warn('⚠️ 推送通知发送失败:', row.endpoint, error)
+      const updated = await query(
+        `UPDATE push_subscriptions SET failure_count = failure_count + 1 WHERE id = $1 RETURNING failure_count`,
+        [row.id],
+      )
+      if ((updated.rows[0]?.failure_count ?? 0) >= MAX_PUSH_FAILURES) {
+        result.removed++
+        await query(`DELETE FROM push_subscriptions WHERE id = $1`, [row.id])
+      }
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,34 @@
+/**
+ * Web Push 推送所需的数据库结构
+ *
+ * push_subscriptions 按用户和设备各保存一条浏览器推送订阅，同一设备重新订阅时覆盖；
+ * 同一个 endpoint 只属于一个用户，切换账号订阅时移除旧用户的记录。
+ * push_vapid_keys 保存自动生成的 VAPID 密钥（只有一行），未通过环境变量配置密钥时使用。
+ */
+
+export const PUSH_SCHEMA_STATEMENTS: string[] = [
+  `CREATE TABLE IF NOT EXISTS push_subscriptions (
+    id SERIAL PRIMARY KEY,
+    user_id VARCHAR(255) NOT NULL,
+    device_id VARCHAR(64) NOT NULL,
+    endpoint TEXT NOT NULL,
+    p256dh TEXT NOT NULL,
+    auth TEXT NOT NULL,
+    user_agent TEXT,
+    failure_count INTEGER NOT NULL DEFAULT 0,
+    last_success_at TIMESTAMP,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+  )`,
+
+  `CREATE UNIQUE INDEX IF NOT EXISTS idx_push_subscriptions_user_device ON push_subscriptions(user_id, device_id)`,
+
+  `CREATE UNIQUE INDEX IF NOT EXISTS idx_push_subscriptions_endpoint ON push_subscriptions(endpoint)`,
+
+  `CREATE TABLE IF NOT EXISTS push_vapid_keys (
+    id SMALLINT PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+    public_key TEXT NOT NULL,
+    private_key TEXT NOT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW()
+  )`,
+]
@@ -0,0 +1,131 @@
+import type { Client } from 'pg'
+import { query, createDedicatedClient } from '@/lib/db'
+
+/**
+ * 实时变更通知
+ * 数据变更后通过 Postgres NOTIFY 广播，每个服务进程用一个独立连接 LISTEN，
+ * 再按用户分发给订阅的 SSE 连接。多实例部署时所有实例都能收到通知。
+ */
+
+const CHANGE_CHANNEL = 'pwa_note_changes'
+
+export type ChangeEntity = 'note' | 'group' | 'link' | 'file'
+export type ChangeAction = 'created' | 'updated' | 'deleted' | 'restored' | 'reminded'
+
+export interface ChangeNotification {
+  userId: string
+  entity: ChangeEntity
+  action: ChangeAction
+  id?: number
+}
+
+type ChangeListener = (change: ChangeNotification) => void
+type DisconnectListener = () => void
+
+interface RealtimeState {
+  client: Client | null
+  connecting: Promise<void> | null
+  listeners: Map<string, Set<ChangeListener>>
+  disconnectListeners: Set<DisconnectListener>
+}
+
+type GlobalWithRealtime = typeof globalThis & { __pwaNoteRealtime?: RealtimeState }
+
+// 开发环境热更新时复用同一个监听连接
+const globalForRealtime = globalThis as GlobalWithRealtime
+const state: RealtimeState = globalForRealtime.__pwaNoteRealtime ?? {
+  client: null,
+  connecting: null,
+  listeners: new Map(),
+  disconnectListeners: new Set(),
+}
+globalForRealtime.__pwaNoteRealtime = state
+
+/**
+ * 发送变更通知（失败不影响调用方）
+ */
+export async function notifyChange(change: ChangeNotification): Promise<void> {
+  try {
+    await query('SELECT pg_notify($1, $2)', [CHANGE_CHANNEL, JSON.stringify(change)])
+  } catch (error) {
+    console.warn('发送变更通知失败:', error)
+  }
+}
+
+function handleNotification(payload: string | undefined) {
+  if (!payload) return
+  try {
+    const change = JSON.parse(payload) as ChangeNotification
+    const listeners = state.listeners.get(change.userId)
+    listeners?.forEach((listener) => listener(change))
+  } catch (error) {
+    console.warn('解析变更通知失败:', error)
+  }
+}
+
+// 监听连接断开时通知所有订阅者，由客户端重连后重新建立监听
+function handleDisconnect(client: Client) {
+  if (state.client !== client) return
+  state.client = null
+  state.connecting = null
+  client.removeAllListeners()
+  client.end().catch(() => {})
+  state.disconnectListeners.forEach((listener) => listener())
+}
+
+async function ensureListening(): Promise<void> {
+  if (state.client) return
+  if (!state.connecting) {
+    state.connecting = (async () => {
+      const client = createDedicatedClient()
+      client.on('notification', (message) => {
+        if (message.channel === CHANGE_CHANNEL) {
+          handleNotification(message.payload)
+        }
+      })
+      client.on('error', (error) => {
+        console.error('❌ 变更监听连接错误:', error)
+        handleDisconnect(client)
+      })
+      client.on('end', () => handleDisconnect(client))
+
+      await client.connect()
+      await client.query(`LISTEN ${CHANGE_CHANNEL}`)
+      state.client = client
+      console.log('📡 变更监听已启动')
+    })().catch((error) => {
+      state.connecting = null
+      throw error
+    })
+  }
+  return state.connecting
+}
+
+/**
+ * 订阅某个用户的变更通知，返回取消订阅函数
+ * onDisconnect 在监听连接断开时调用
+ */
+export async function subscribeToChanges(
+  userId: string,
+  listener: ChangeListener,
+  onDisconnect: DisconnectListener,
+): Promise<() => void> {
+  await ensureListening()
+
+  let listeners = state.listeners.get(userId)
+  if (!listeners) {
+    listeners = new Set()
+    state.listeners.set(userId, listeners)
+  }
+  listeners.add(listener)
+  state.disconnectListeners.add(onDisconnect)
+
+  return () => {
+    const current = state.listeners.get(userId)
+    current?.delete(listener)
+    if (current && current.size === 0) {
+      state.listeners.delete(userId)
+    }
+    state.disconnectListeners.delete(onDisconnect)
+  }
+}
@@ -0,0 +1,136 @@
+import { query } from '@/lib/db'
+import { notifyChange } from '@/lib/realtime'
+import { sendPushToUser } from '@/lib/push-notifications'
+import { toSearchPlainText } from '@/lib/search'
+
+/**
+ * 便签提醒调度
+ * 定期领取到期且尚未发出的提醒，标记为已提醒后通知用户：
+ * 打开着应用的设备通过变更推送（SSE）收到 reminded 事件并显示应用内提示，
+ * 订阅了 Web Push 的设备即使没有打开应用也会收到系统通知。
+ */
+
+// 检查到期提醒的间隔
+export const REMINDER_CHECK_INTERVAL_MS = 30 * 1000
+
+// 每批领取的提醒数量
+const REMINDER_BATCH_SIZE = 100
+
+// 通知正文的最大长度
+const REMINDER_BODY_LENGTH = 80
+
+export interface DueReminder {
+  noteId: number
+  userId: string
+  title: string
+  content: string
+  remindAt: Date
+}
+
+interface SchedulerState {
+  timer: ReturnType<typeof setInterval> | null
+  running: boolean
+}
+
+type GlobalWithReminders = typeof globalThis & { __pwaNoteReminders?: SchedulerState }
+
+// 开发环境热更新时复用同一个定时器
+const globalForReminders = globalThis as GlobalWithReminders
+const state: SchedulerState = globalForReminders.__pwaNoteReminders ?? { timer: null, running: false }
+globalForReminders.__pwaNoteReminders = state
+
+/**
+ * 领取到期提醒：在同一条语句中标记为已提醒，
+ * 多个实例同时检查时每条提醒只会被领取一次
+ */
+export async function claimDueReminders(limit: number = REMINDER_BATCH_SIZE): Promise<DueReminder[]> {
+  const result = await query(
+    `UPDATE notes SET reminder_sent_at = NOW()
+     WHERE id IN (
+       SELECT id FROM notes
+       WHERE remind_at <= NOW() AND reminder_sent_at IS NULL AND deleted_at IS NULL
+       ORDER BY remind_at
+       LIMIT $1
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING id, user_id, title, content, remind_at`,
+    [limit],
+  )
+
+  return (result.rows as { id: number; user_id: string; title: string; content: string; remind_at: string }[]).map((row) => ({
+    noteId: row.id,
+    userId: row.user_id,
+    title: row.title,
+    content: row.content,
+    remindAt: new Date(row.remind_at),
+  }))
+}
+
+/**
+ * 通过 Web Push 发送提醒；应用在前台时由应用内提示处理，不再弹出系统通知（失败不影响其他提醒）
+ */
+async function sendReminderPush(reminder: DueReminder): Promise<void> {
+  try {
+    await sendPushToUser(
+      reminder.userId,
+      {
+        title: reminder.title?.trim() || '便签提醒',
+        body: Array.from(toSearchPlainText(reminder.content || '')).slice(0, REMINDER_BODY_LENGTH).join(''),
+        tag: `reminder-${reminder.noteId}`,
+        noteId: reminder.noteId,
+        skipWhenVisible: true,
+      },
+      { urgency: 'high' },
+    )
+  } catch (error) {
+    console.warn('⚠️ 发送提醒推送失败:', error)
+  }
+}
+
+/**
+ * 发出所有到期提醒，返回发出的数量
+ */
+export async function dispatchDueReminders(): Promise<number> {
+  let total = 0
+
+  for (;;) {
+    const reminders = await claimDueReminders()
+    for (const reminder of reminders) {
+      await notifyChange({ userId: reminder.userId, entity: 'note', action: 'reminded', id: reminder.noteId })
+      await sendReminderPush(reminder)
+    }
+    total += reminders.length
+    if (reminders.length < REMINDER_BATCH_SIZE) break
+  }
+
+  if (total > 0) {
+    console.log(`⏰ 已发出 ${total} 条便签提醒`)
+  }
+  return total
+}
+
+/**
+ * 启动进程内的提醒调度（长期运行的服务端进程中调用一次）
+ * 无服务器部署时改由定时任务调用 /api/reminders/dispatch
+ */
+export function startReminderScheduler(): void {
+  if (state.timer) return
+
+  const tick = async () => {
+    // 上一轮尚未结束时跳过，避免数据库较慢时堆积
+    if (state.running) return
+    state.running = true
+    try {
+      await dispatchDueReminders()
+    } catch (error) {
+      console.error('❌ 检查到期提醒失败:', error)
+    } finally {
+      state.running = false
+    }
+  }
+
+  state.timer = setInterval(() => void tick(), REMINDER_CHECK_INTERVAL_MS)
+  // 不阻止进程退出
+  state.timer.unref?.()
+  console.log('⏰ 提醒调度已启动')
+}
@@ -1,4 +1,4 @@
-import { pgTable, serial, text, timestamp, varchar, integer } from "drizzle-orm/pg-core"
+import { pgTable, serial, text, timestamp, varchar, integer, smallint, boolean, unique, primaryKey } from "drizzle-orm/pg-core"
 
 // Notes table
 export const notes = pgTable("notes", {
@@ -9,23 +9,98 @@ export const notes = pgTable("notes", {
   groupId: integer("group_id"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  deletedAt: timestamp("deleted_at"), // 移入回收站的时间，NULL 表示未删除
+  version: integer("version").notNull().default(1), // 内容版本号，每次修改内容或标题时递增，用于检测并发编辑冲突
+  pinned: boolean("pinned").notNull().default(false), // 置顶：列表中排在时间线之前
+  starred: boolean("starred").notNull().default(false), // 收藏：显示在“已收藏”筛选中
+  remindAt: timestamp("remind_at"), // 提醒时间，NULL 表示未设置提醒
+  reminderSentAt: timestamp("reminder_sent_at"), // 已发出提醒的时间，修改提醒时间后清空
+  clientKey: varchar("client_key", { length: 64 }), // 离线新建时的幂等键，重复回放时不再重复创建
+})
+
+// Note revisions table - 每个编辑会话保存一份覆盖前的便签快照
+export const noteRevisions = pgTable("note_revisions", {
+  id: serial("id").primaryKey(),
+  noteId: integer("note_id").notNull(),
+  userId: varchar("user_id", { length: 255 }).notNull(),
+  content: text("content").notNull(),
+  title: text("title").notNull().default(""),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
 })
 
 export const groups = pgTable("groups", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id", { length: 255 }).notNull(),
   name: text("name").notNull(),
+  parentId: integer("parent_id"), // 上级分组，NULL 表示顶层分组
+  sortOrder: integer("sort_order").notNull().default(0), // 同级分组中的显示顺序
+  clientKey: varchar("client_key", { length: 64 }), // 离线新建时的幂等键
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+})
+
+// Saved searches table - 命名的搜索条件，pinned 的显示在便签分组列表中
+export const savedSearches = pgTable("saved_searches", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id", { length: 255 }).notNull(),
+  name: text("name").notNull(),
+  query: text("query").notNull(),
+  pinned: boolean("pinned").notNull().default(false),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 })
 
+// Search history table - 每个用户最近执行过的搜索，相同查询只保留一条
+export const searchHistory = pgTable("search_history", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id", { length: 255 }).notNull(),
+  query: text("query").notNull(),
+  searchedAt: timestamp("searched_at").defaultNow().notNull(),
+}, (table) => ({
+  userQueryUnique: unique().on(table.userId, table.query),
+}))
+
+// Tags table - 每个用户的标签，名称不区分大小写唯一（LOWER(name) 唯一索引在 tag-schema 中创建）
+export const tags = pgTable("tags", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id", { length: 255 }).notNull(),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+})
+
+// Note tags table - 便签与标签的多对多关联，source 为 manual（手动添加）或 inline（正文 #标签）
+export const noteTags = pgTable("note_tags", {
+  noteId: integer("note_id").notNull(),
+  tagId: integer("tag_id").notNull(),
+  source: varchar("source", { length: 10 }).notNull().default("manual"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.noteId, table.tagId] }),
+}))
+
+// Note links table - 便签正文中的 [[标题]] 链接，target_note_id 为解析到的便签（未找到时为 NULL）
+export const noteLinks = pgTable("note_links", {
+  sourceNoteId: integer("source_note_id").notNull(),
+  targetTitle: text("target_title").notNull(),
+  targetNoteId: integer("target_note_id"),
+  userId: varchar("user_id", { length: 255 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.sourceNoteId, table.targetTitle] }),
+}))
+
 // Links table
 export const links = pgTable("links", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id", { length: 255 }).notNull(),
   url: text("url").notNull(),
   title: text("title").notNull(),
+  groupId: integer("group_id"), // 所属分组（导入书签时按文件夹对应），NULL 表示未分组
+  clientKey: varchar("client_key", { length: 64 }), // 离线新建时的幂等键
   createdAt: timestamp("created_at").defaultNow().notNull(),
+  deletedAt: timestamp("deleted_at"),
 })
 
 // Files table - 只支持 Vercel Blob 存储
@@ -39,4 +114,31 @@ export const files = pgTable("files", {
   size: integer("size").notNull(),
   status: varchar("status", { length: 20 }).default("active").notNull(),
   uploadedAt: timestamp("uploaded_at").defaultNow().notNull(),
+  deletedAt: timestamp("deleted_at"),
 })
+
+// Push subscriptions table - 每个用户每台设备一条 Web Push 订阅
+export const pushSubscriptions = pgTable("push_subscriptions", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id", { length: 255 }).notNull(),
+  deviceId: varchar("device_id", { length: 64 }).notNull(),
+  endpoint: text("endpoint").notNull().unique(),
+  p256dh: text("p256dh").notNull(),
+  auth: text("auth").notNull(),
+  userAgent: text("user_agent"),
+  failureCount: integer("failure_count").notNull().default(0),
+  lastSuccessAt: timestamp("last_success_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  userDevice: unique().on(table.userId, table.deviceId),
+}))
+
+// Push VAPID keys table - 自动生成的 VAPID 密钥，只有一行
+export const pushVapidKeys = pgTable("push_vapid_keys", {
+  id: smallint("id").primaryKey().default(1),
+  publicKey: text("public_key").notNull(),
+  privateKey: text("private_key").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+})
+
@@ -0,0 +1,317 @@
+/**
+ * 搜索查询语法
+ *
+ * 支持的写法（可任意组合，空格分隔，所有条件同时满足）：
+ *   关键词 / "带空格的短语"      包含
+ *   -关键词 / -"短语"            排除
+ *   group:工作 / group:未分组     便签和链接所在分组，包含子分组（文件没有分组，使用该条件时不返回）
+ *   tag:读书                     带有该标签的便签（同上，只适用于便签）
+ *   type:note|file|image|video|audio|document|link
+ *   before:2026-01-01            创建时间早于（支持 2026、2026-01、2026-01-01）
+ *   after:2026-01-01             创建时间不早于
+ *   has:link                     正文包含链接的便签（以及所有链接）
+ * 筛选条件前加 - 表示取反，例如 -type:image。
+ *
+ * 查询文本解析为有序的 token 列表，搜索框下方的筛选标签与 token 一一对应，
+ * 增删标签后重新序列化为文本，因此文本和标签可以互相转换。前后端共用此模块。
+ */
+
+export const SEARCH_FILTER_KEYS = ['group', 'tag', 'type', 'before', 'after', 'has'] as const
+export type SearchFilterKey = typeof SEARCH_FILTER_KEYS[number]
+
+export const SEARCH_TYPES = ['note', 'file', 'image', 'video', 'audio', 'document', 'link'] as const
+export type SearchType = typeof SEARCH_TYPES[number]
+
+export const SEARCH_HAS_VALUES = ['link'] as const
+export type SearchHasValue = typeof SEARCH_HAS_VALUES[number]
+
+export const UNGROUPED_FILTER_VALUE = '未分组'
+
+export type SearchToken =
+  | { kind: 'term'; value: string; quoted: boolean; negated: boolean }
+  | { kind: 'filter'; key: SearchFilterKey; value: string; negated: boolean; error?: string }
+
+export interface SearchCriteria {
+  terms: string[]
+  excludes: string[]
+  groups: { include: string[]; exclude: string[] }
+  tags: { include: string[]; exclude: string[] }
+  types: { include: SearchType[]; exclude: SearchType[] }
+  before: string | null // YYYY-MM-DD，不含当天
+  after: string | null // YYYY-MM-DD，含当天
+  has: { include: SearchHasValue[]; exclude: SearchHasValue[] }
+  errors: string[]
+}
+
+export const SEARCH_TYPE_LABELS: Record<SearchType, string> = {
+  note: '便签',
+  file: '文件',
+  image: '图片',
+  video: '视频',
+  audio: '音频',
+  document: '文档',
+  link: '链接',
+}
+
+export const SEARCH_FILTER_LABELS: Record<SearchFilterKey, string> = {
+  group: '分组',
+  tag: '标签',
+  type: '类型',
+  before: '早于',
+  after: '晚于',
+  has: '包含',
+}
+
+const SEARCH_HAS_LABELS: Record<SearchHasValue, string> = {
+  link: '链接',
+}
+
+function isFilterKey(key: string): key is SearchFilterKey {
+  return (SEARCH_FILTER_KEYS as readonly string[]).includes(key)
+}
+
+// 解析日期值，按粒度返回起始日期和下一个区间的起始日期
+function parseDateRange(value: string): { start: string; next: string } | null {
+  const match = value.match(/^(\d{4})(?:[-/.](\d{1,2})(?:[-/.](\d{1,2}))?)?$/)
+  if (!match) return null
+
+  const year = Number(match[1])
+  const month = match[2] ? Number(match[2]) : null
+  const day = match[3] ? Number(match[3]) : null
+
+  const start = new Date(Date.UTC(year, (month ?? 1) - 1, day ?? 1))
+  if (start.getUTCFullYear() !== year || start.getUTCMonth() !== (month ?? 1) - 1 || start.getUTCDate() !== (day ?? 1)) {
+    return null
+  }
+
+  const next = new Date(start)
+  if (day !== null) next.setUTCDate(next.getUTCDate() + 1)
+  else if (month !== null) next.setUTCMonth(next.getUTCMonth() + 1)
+  else next.setUTCFullYear(next.getUTCFullYear() + 1)
+
+  const toDateString = (date: Date) => date.toISOString().slice(0, 10)
+  return { start: toDateString(start), next: toDateString(next) }
+}
+
+function validateFilter(key: SearchFilterKey, value: string, negated: boolean): string | undefined {
+  if (!value) return '缺少筛选值'
+  switch (key) {
+    case 'type':
+      return (SEARCH_TYPES as readonly string[]).includes(value.toLowerCase())
+        ? undefined
+        : `未知类型，可选：${SEARCH_TYPES.join('、')}`
+    case 'has':
+      return (SEARCH_HAS_VALUES as readonly string[]).includes(value.toLowerCase())
+        ? undefined
+        : `未知条件，可选：${SEARCH_HAS_VALUES.join('、')}`
+    case 'before':
+    case 'after':
+      if (negated) return '时间条件不支持取反'
+      return parseDateRange(value) ? undefined : '日期格式应为 2026-01-01'
+    default:
+      return undefined
+  }
+}
+
+// 读取一个值：引号内的内容（允许空格）或到下一个空白为止
+function readValue(input: string, start: number): { value: string; quoted: boolean; end: number } {
+  if (input[start] === '"') {
+    const close = input.indexOf('"', start + 1)
+    const end = close === -1 ? input.length : close + 1
+    return { value: input.slice(start + 1, close === -1 ? input.length : close), quoted: true, end }
+  }
+  let end = start
+  while (end < input.length && !/\s/.test(input[end])) end++
+  return { value: input.slice(start, end), quoted: false, end }
+}
+
+/**
+ * 将查询文本解析为 token 列表
+ * 只有已知的键才作为筛选条件，其他带冒号的内容（如 https://...）按普通关键词处理
+ */
+export function parseSearchQuery(input: string): SearchToken[] {
+  const tokens: SearchToken[] = []
+  let index = 0
+
+  while (index < input.length) {
+    if (/\s/.test(input[index])) {
+      index++
+      continue
+    }
+
+    let negated = false
+    if (input[index] === '-' && index + 1 < input.length && !/\s/.test(input[index + 1])) {
+      negated = true
+      index++
+    }
+
+    const filterMatch = input.slice(index).match(/^([a-zA-Z]+):/)
+    if (filterMatch && isFilterKey(filterMatch[1].toLowerCase())) {
+      const key = filterMatch[1].toLowerCase() as SearchFilterKey
+      const { value, end } = readValue(input, index + filterMatch[0].length)
+      const trimmed = value.trim()
+      tokens.push({ kind: 'filter', key, value: trimmed, negated, error: validateFilter(key, trimmed, negated) })
+      index = end
+      continue
+    }
+
+    const { value, quoted, end } = readValue(input, index)
+    const trimmed = value.trim()
+    if (trimmed) {
+      tokens.push({ kind: 'term', value: trimmed, quoted, negated })
+    }
+    index = end
+  }
+
+  return tokens
+}
+
+function quoteIfNeeded(value: string): string {
+  return /[\s"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value
+}
+
+export function serializeSearchToken(token: SearchToken): string {
+  const prefix = token.negated ? '-' : ''
+  if (token.kind === 'filter') {
+    return `${prefix}${token.key}:${quoteIfNeeded(token.value)}`
+  }
+  return `${prefix}${token.quoted ? `"${token.value.replace(/"/g, '')}"` : token.value}`
+}
+
+export function serializeSearchQuery(tokens: SearchToken[]): string {
+  return tokens.map(serializeSearchToken).join(' ')
+}
+
+// 创建筛选 token（用于筛选菜单追加条件）
+export function createFilterToken(key: SearchFilterKey, value: string, negated: boolean = false): SearchToken {
+  return { kind: 'filter', key, value, negated, error: validateFilter(key, value, negated) }
+}
+
+/**
+ * 汇总 token 为搜索条件，有错误的筛选条件不参与搜索
+ */
+export function buildSearchCriteria(tokens: SearchToken[]): SearchCriteria {
+  const criteria: SearchCriteria = {
+    terms: [],
+    excludes: [],
+    groups: { include: [], exclude: [] },
+    tags: { include: [], exclude: [] },
+    types: { include: [], exclude: [] },
+    before: null,
+    after: null,
+    has: { include: [], exclude: [] },
+    errors: [],
+  }
+
+  for (const token of tokens) {
+    if (token.kind === 'term') {
+      const list = token.negated ? criteria.excludes : criteria.terms
+      if (!list.some((item) => item.toLowerCase() === token.value.toLowerCase())) {
+        list.push(token.value)
+      }
+      continue
+    }
+
+    if (token.error) {
+      criteria.errors.push(`${serializeSearchToken(token)}：${token.error}`)
+      continue
+    }
+
+    const side = token.negated ? 'exclude' : 'include'
+    switch (token.key) {
+      case 'group':
+        criteria.groups[side].push(token.value)
+        break
+      case 'tag':
+        criteria.tags[side].push(token.value.replace(/^#+/, ''))
+        break
+      case 'type':
+        criteria.types[side].push(token.value.toLowerCase() as SearchType)
+        break
+      case 'has':
+        criteria.has[side].push(token.value.toLowerCase() as SearchHasValue)
+        break
+      case 'before': {
+        // 多个条件取最严格的
+        const { start } = parseDateRange(token.value)!
+        if (!criteria.before || start < criteria.before) criteria.before = start
+        break
+      }
+      case 'after': {
+        const { start } = parseDateRange(token.value)!
+        if (!criteria.after || start > criteria.after) criteria.after = start
+        break
+      }
+    }
+  }
+
+  return criteria
+}
+
+// 是否有可执行的搜索条件（只有排除条件时同样执行，返回最近的记录）
+export function hasSearchCriteria(criteria: SearchCriteria): boolean {
+  return (
+    criteria.terms.length > 0 ||
+    criteria.excludes.length > 0 ||
+    criteria.groups.include.length + criteria.groups.exclude.length > 0 ||
+    criteria.tags.include.length + criteria.tags.exclude.length > 0 ||
+    criteria.types.include.length + criteria.types.exclude.length > 0 ||
+    criteria.has.include.length + criteria.has.exclude.length > 0 ||
+    criteria.before !== null ||
+    criteria.after !== null
+  )
+}
+
+// 根据类型条件判断某类结果是否需要搜索
+export function searchIncludesKind(criteria: SearchCriteria, kind: 'note' | 'file' | 'link'): boolean {
+  const { include, exclude } = criteria.types
+  const fileTypes: SearchType[] = ['file', 'image', 'video', 'audio', 'document']
+
+  if (kind === 'file') {
+    if (exclude.includes('file')) return false
+    if (include.length > 0 && !include.some((type) => fileTypes.includes(type))) return false
+    // 分组、标签和 has:link 只适用于便签（has:link 同时包含链接）
+    return criteria.groups.include.length === 0 && criteria.tags.include.length === 0 && criteria.has.include.length === 0
+  }
+
+  if (exclude.includes(kind)) return false
+  if (include.length > 0 && !include.includes(kind)) return false
+  if (kind === 'link') {
+    return criteria.tags.include.length === 0 && !criteria.has.exclude.includes('link')
+  }
+  return true
+}
+
+// 筛选标签显示文本
+export function describeSearchToken(token: SearchToken): string {
+  const prefix = token.negated ? '排除 ' : ''
+  if (token.kind === 'term') {
+    return `${prefix}${token.quoted ? `“${token.value}”` : token.value}`
+  }
+
+  const label = SEARCH_FILTER_LABELS[token.key]
+  let value = token.value
+  if (!token.error) {
+    if (token.key === 'type') value = SEARCH_TYPE_LABELS[token.value.toLowerCase() as SearchType]
+    if (token.key === 'has') value = SEARCH_HAS_LABELS[token.value.toLowerCase() as SearchHasValue]
+  }
+  return `${prefix}${label}：${value}`
+}
+
+// 固定到便签分组列表的已保存搜索使用虚拟分组ID，与真实分组ID（数字）区分
+export const SAVED_SEARCH_GROUP_PREFIX = 'search:'
+
+export function toSavedSearchGroupId(savedSearchId: string | number): string {
+  return `${SAVED_SEARCH_GROUP_PREFIX}${savedSearchId}`
+}
+
+export function isSavedSearchGroupId(groupId: string | null | undefined): boolean {
+  return typeof groupId === 'string' && groupId.startsWith(SAVED_SEARCH_GROUP_PREFIX)
+}
+
+// 解析虚拟分组ID中的已保存搜索ID，无效时返回 null
+export function parseSavedSearchGroupId(groupId: string): number | null {
+  if (!isSavedSearchGroupId(groupId)) return null
+  const id = parseInt(groupId.slice(SAVED_SEARCH_GROUP_PREFIX.length), 10)
+  return Number.isNaN(id) ? null : id
+}
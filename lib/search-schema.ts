@@ -0,0 +1,111 @@
+/**
+ * 全文搜索所需的数据库结构
+ *
+ * notes.search_vector 由触发器在插入和更新时写入：标题权重 A、正文权重 B，正文先去掉 HTML 标签。
+ * 'simple' 配置不做词干和停用词处理，英文按单词切分并转小写；
+ * 中文没有空格分词，连续的中日韩字符切成重叠的二字词（"全文搜索" → "全文 文搜 搜索"），
+ * 查询时用同样的规则切分后做短语匹配，因此任意两个字以上的中文片段都能命中。
+ * 单字或英文单词片段由 pg_trgm 三元组索引支持的 ILIKE 兜底。
+ */
+
+import { SKIP_SYNC_VERSION_SETTING } from './sync-schema'
+
+// 中日韩统一表意文字（含扩展 A 和兼容区）
+export const CJK_CHAR_CLASS = '\\u3400-\\u4dbf\\u4e00-\\u9fff\\uf900-\\ufaff'
+
+export const SEARCH_SCHEMA_STATEMENTS: string[] = [
+  // 没有创建扩展的权限时跳过，三元组索引也随之跳过，ILIKE 仍可用
+  `DO $$
+  BEGIN
+    CREATE EXTENSION IF NOT EXISTS pg_trgm;
+  EXCEPTION WHEN OTHERS THEN
+    RAISE NOTICE 'pg_trgm 扩展不可用: %', SQLERRM;
+  END $$`,
+
+  `CREATE OR REPLACE FUNCTION search_cjk_bigrams(run TEXT) RETURNS TEXT AS $$
+    SELECT CASE
+      WHEN length(run) < 2 THEN run
+      ELSE (SELECT string_agg(substr(run, i, 2), ' ' ORDER BY i) FROM generate_series(1, length(run) - 1) AS i)
+    END
+  $$ LANGUAGE sql IMMUTABLE`,
+
+  `CREATE OR REPLACE FUNCTION search_segment(input TEXT) RETURNS TEXT AS $$
+    SELECT COALESCE(string_agg(
+      CASE WHEN m[1] IS NOT NULL THEN search_cjk_bigrams(m[1]) ELSE m[2] END,
+      ' ' ORDER BY ord
+    ), '')
+    FROM regexp_matches(COALESCE(input, ''), '([${CJK_CHAR_CLASS}]+)|([^${CJK_CHAR_CLASS}]+)', 'g')
+      WITH ORDINALITY AS t(m, ord)
+  $$ LANGUAGE sql IMMUTABLE`,
+
+  `CREATE OR REPLACE FUNCTION notes_search_vector(title TEXT, content TEXT) RETURNS tsvector AS $$
+    SELECT
+      setweight(to_tsvector('simple', search_segment(title)), 'A') ||
+      setweight(to_tsvector('simple', search_segment(regexp_replace(COALESCE(content, ''), '<[^>]+>', ' ', 'g'))), 'B')
+  $$ LANGUAGE sql IMMUTABLE`,
+
+  `CREATE OR REPLACE FUNCTION update_notes_search_vector() RETURNS trigger AS $$
+  BEGIN
+    IF TG_OP = 'INSERT' OR NEW.title IS DISTINCT FROM OLD.title OR NEW.content IS DISTINCT FROM OLD.content THEN
+      NEW.search_vector := notes_search_vector(NEW.title, NEW.content);
+    END IF;
+    RETURN NEW;
+  END;
+  $$ LANGUAGE plpgsql`,
+
+  `ALTER TABLE notes ADD COLUMN IF NOT EXISTS search_vector tsvector`,
+
+  `DO $$
+  BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'notes_search_vector') THEN
+      CREATE TRIGGER notes_search_vector
+        BEFORE INSERT OR UPDATE ON notes
+        FOR EACH ROW EXECUTE FUNCTION update_notes_search_vector();
+    END IF;
+  END $$`,
+
+  // 为已有便签补齐索引内容；内容没有变化，不更新 sync_version，避免所有客户端重新下载全部便签
+  `DO $$
+  BEGIN
+    PERFORM set_config('${SKIP_SYNC_VERSION_SETTING}', 'on', true);
+    UPDATE notes SET search_vector = notes_search_vector(title, content) WHERE search_vector IS NULL;
+  END $$`,
+
+  `CREATE INDEX IF NOT EXISTS idx_notes_search_vector ON notes USING GIN (search_vector)`,
+
+  `DO $$
+  BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_trgm') THEN
+      CREATE INDEX IF NOT EXISTS idx_notes_title_trgm ON notes USING GIN (title gin_trgm_ops);
+      CREATE INDEX IF NOT EXISTS idx_notes_content_trgm ON notes USING GIN (content gin_trgm_ops);
+      CREATE INDEX IF NOT EXISTS idx_files_name_trgm ON files USING GIN (name gin_trgm_ops);
+      CREATE INDEX IF NOT EXISTS idx_links_title_trgm ON links USING GIN (title gin_trgm_ops);
+      CREATE INDEX IF NOT EXISTS idx_links_url_trgm ON links USING GIN (url gin_trgm_ops);
+    END IF;
+  END $$`,
+]
+
+// 已保存的搜索和最近搜索记录（按用户保存在服务器，多设备共用）
+export const SAVED_SEARCH_SCHEMA_STATEMENTS: string[] = [
+  `CREATE TABLE IF NOT EXISTS saved_searches (
+    id SERIAL PRIMARY KEY,
+    user_id VARCHAR(255) NOT NULL,
+    name TEXT NOT NULL,
+    query TEXT NOT NULL,
+    pinned BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+  )`,
+
+  `CREATE INDEX IF NOT EXISTS idx_saved_searches_user_id ON saved_searches(user_id)`,
+
+  `CREATE TABLE IF NOT EXISTS search_history (
+    id SERIAL PRIMARY KEY,
+    user_id VARCHAR(255) NOT NULL,
+    query TEXT NOT NULL,
+    searched_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    UNIQUE (user_id, query)
+  )`,
+
+  `CREATE INDEX IF NOT EXISTS idx_search_history_user_searched_at ON search_history(user_id, searched_at DESC)`,
+]
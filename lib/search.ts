@@ -0,0 +1,226 @@
+import { query } from '@/lib/db'
+import { CJK_CHAR_CLASS, SEARCH_SCHEMA_STATEMENTS } from '@/lib/search-schema'
+import { SearchCriteria, UNGROUPED_FILTER_VALUE } from '@/lib/search-query'
+import { ensureSyncSchema } from '@/lib/sync-changes'
+
+// 单次查询最多使用的关键词数量（包含和排除分别计算）
+export const MAX_SEARCH_TERMS = 8
+
+// 片段中匹配位置前保留的字符数和片段总长度
+const SNIPPET_LEAD = 40
+const SNIPPET_LENGTH = 160
+
+const CJK_RUN_PATTERN = new RegExp(`[${CJK_CHAR_CLASS}]+`, 'g')
+
+export type SearchHighlight = [start: number, end: number]
+
+export interface SearchSnippet {
+  snippet: string
+  highlights: SearchHighlight[]
+}
+
+let searchSchemaReady: Promise<void> | null = null
+
+// 确保全文搜索的字段、触发器和索引已创建
+// 先确保增量同步触发器支持跳过版本号，补齐索引时不会更新 sync_version
+export function ensureSearchSchema(): Promise<void> {
+  if (!searchSchemaReady) {
+    searchSchemaReady = (async () => {
+      await ensureSyncSchema()
+      for (const statement of SEARCH_SCHEMA_STATEMENTS) {
+        await query(statement)
+      }
+    })().catch((error) => {
+      searchSchemaReady = null
+      throw error
+    })
+  }
+  return searchSchemaReady
+}
+
+/**
+ * 与数据库 search_segment 相同的切分规则：连续中日韩字符切成重叠二字词，其余文本保持不变
+ */
+export function segmentSearchText(text: string): string {
+  return text.replace(CJK_RUN_PATTERN, (run) => {
+    const chars = Array.from(run)
+    if (chars.length < 2) return ` ${run} `
+    const bigrams: string[] = []
+    for (let i = 0; i < chars.length - 1; i++) {
+      bigrams.push(chars[i] + chars[i + 1])
+    }
+    return ` ${bigrams.join(' ')} `
+  }).trim()
+}
+
+// 转义 LIKE 通配符，关键词按字面匹配
+export function toLikePattern(term: string): string {
+  return `%${term.replace(/[\\%_]/g, '\\$&')}%`
+}
+
+// 去掉 HTML 标签并合并空白，用于生成片段
+export function toSearchPlainText(content: string): string {
+  return content
+    .replace(/<br\s*\/?>/gi, ' ')
+    .replace(/<\/(?:p|div|li|h[1-6])>/gi, ' ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+// 查找文本中所有关键词出现的位置，合并重叠区间
+export function findHighlights(text: string, terms: string[]): SearchHighlight[] {
+  const lower = text.toLowerCase()
+  const ranges: SearchHighlight[] = []
+
+  for (const term of terms) {
+    const needle = term.toLowerCase()
+    if (!needle) continue
+    let index = lower.indexOf(needle)
+    while (index !== -1) {
+      ranges.push([index, index + needle.length])
+      index = lower.indexOf(needle, index + needle.length)
+    }
+  }
+
+  ranges.sort((a, b) => a[0] - b[0])
+  const merged: SearchHighlight[] = []
+  for (const range of ranges) {
+    const last = merged[merged.length - 1]
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1])
+    } else {
+      merged.push([range[0], range[1]])
+    }
+  }
+  return merged
+}
+
+/**
+ * 截取第一个匹配位置附近的文本作为片段，并返回片段内关键词的高亮区间
+ * 没有字面匹配（例如只命中标题）时取正文开头
+ */
+export function buildSearchSnippet(content: string, terms: string[]): SearchSnippet {
+  const text = toSearchPlainText(content)
+  const firstMatch = findHighlights(text, terms)[0]
+
+  let start = firstMatch ? Math.max(0, firstMatch[0] - SNIPPET_LEAD) : 0
+  const end = Math.min(text.length, start + SNIPPET_LENGTH)
+  start = Math.max(0, Math.min(start, end - SNIPPET_LENGTH))
+
+  const snippet = `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`
+  return { snippet, highlights: findHighlights(snippet, terms) }
+}
+
+// 收集 SQL 参数，add 返回占位符（$1 固定为 userId）
+export function createSqlParams(userId: string) {
+  const params: unknown[] = [userId]
+  const add = (value: unknown) => {
+    params.push(value)
+    return `$${params.length}`
+  }
+  return { params, add }
+}
+
+type AddParam = (value: unknown) => string
+
+// 分组条件（便签和链接共用）：按名称（不区分大小写）匹配，包含各级子分组；"未分组" 匹配没有分组的记录
+function groupCondition(names: string[], add: AddParam): string {
+  const parts: string[] = []
+  const groupNames = names.filter((name) => name !== UNGROUPED_FILTER_VALUE).map((name) => name.toLowerCase())
+  if (names.includes(UNGROUPED_FILTER_VALUE)) {
+    parts.push('group_id IS NULL')
+  }
+  if (groupNames.length > 0) {
+    parts.push(`group_id IN (
+      WITH RECURSIVE matched_groups AS (
+        SELECT id FROM groups WHERE user_id = $1 AND LOWER(name) = ANY(${add(groupNames)}::text[])
+        UNION
+        SELECT g.id FROM groups g JOIN matched_groups m ON g.parent_id = m.id WHERE g.user_id = $1
+      )
+      SELECT id FROM matched_groups
+    )`)
+  }
+  return `(${parts.join(' OR ')})`
+}
+
+// group: 筛选条件（包含和排除）
+export function buildGroupConditions(criteria: SearchCriteria, add: AddParam): string[] {
+  const conditions: string[] = []
+  if (criteria.groups.include.length > 0) {
+    conditions.push(groupCondition(criteria.groups.include, add))
+  }
+  if (criteria.groups.exclude.length > 0) {
+    conditions.push(`NOT COALESCE(${groupCondition(criteria.groups.exclude, add)}, false)`)
+  }
+  return conditions
+}
+
+// 便签标签条件：带有任一指定标签（名称不区分大小写）
+function tagCondition(names: string[], add: AddParam): string {
+  return `EXISTS (
+    SELECT 1 FROM note_tags nt JOIN tags t ON t.id = nt.tag_id
+    WHERE nt.note_id = notes.id AND LOWER(t.name) = ANY(${add(names.map((name) => name.toLowerCase()))}::text[])
+  )`
+}
+
+// 创建时间条件
+export function dateConditions(column: string, criteria: SearchCriteria, add: AddParam): string[] {
+  const conditions: string[] = []
+  if (criteria.after) conditions.push(`${column} >= ${add(criteria.after)}::date`)
+  if (criteria.before) conditions.push(`${column} < ${add(criteria.before)}::date`)
+  return conditions
+}
+
+/**
+ * 生成 notes 表的搜索条件和相关度表达式，搜索接口和已保存搜索的便签列表共用
+ * 关键词同时走全文索引（中文按二字词切分）和三元组索引支持的 ILIKE
+ */
+export function buildNoteSearchConditions(criteria: SearchCriteria, add: AddParam): { conditions: string[]; scores: string[] } {
+  const conditions: string[] = []
+  const scores: string[] = []
+
+  // 关键词的全文匹配和字面匹配条件
+  const termMatch = (term: string) => {
+    const tsQuery = `phraseto_tsquery('simple', ${add(segmentSearchText(term))})`
+    const pattern = add(toLikePattern(term))
+    return {
+      condition: `(COALESCE(search_vector @@ ${tsQuery}, false) OR title ILIKE ${pattern} OR content ILIKE ${pattern})`,
+      // 全文匹配按覆盖密度计分，标题命中额外加分
+      score: `COALESCE(ts_rank_cd(search_vector, ${tsQuery}), 0) + (CASE WHEN title ILIKE ${pattern} THEN 1 ELSE 0 END)`,
+    }
+  }
+
+  for (const term of criteria.terms) {
+    const { condition, score } = termMatch(term)
+    conditions.push(condition)
+    scores.push(score)
+  }
+  for (const term of criteria.excludes) {
+    conditions.push(`NOT ${termMatch(term).condition}`)
+  }
+
+  conditions.push(...buildGroupConditions(criteria, add))
+  // 多个 tag: 条件需同时满足
+  for (const name of criteria.tags.include) {
+    conditions.push(tagCondition([name], add))
+  }
+  if (criteria.tags.exclude.length > 0) {
+    conditions.push(`NOT ${tagCondition(criteria.tags.exclude, add)}`)
+  }
+  if (criteria.has.include.includes('link')) {
+    conditions.push(`content ~* 'https?://'`)
+  }
+  if (criteria.has.exclude.includes('link')) {
+    conditions.push(`content !~* 'https?://'`)
+  }
+  conditions.push(...dateConditions('created_at', criteria, add))
+
+  return { conditions, scores }
+}
@@ -0,0 +1,196 @@
+import { query } from '@/lib/db'
+import { SYNC_SCHEMA_STATEMENTS } from '@/lib/sync-schema'
+import { NOTE_TAGS_COLUMN } from '@/lib/tag-schema'
+import { ensureTagSchema } from '@/lib/tags'
+
+/**
+ * 增量同步查询
+ * 按 sync_version 拉取某个版本之后变更的便签、分组、链接和文件
+ *
+ * 版本号在事务提交前分配，先提交的事务可能拿到较大的版本号，令牌直接推进到最大版本号会漏掉之后提交的较小版本号。
+ * 因此令牌同时记录读取时最早的未结束事务（txid_snapshot_xmin），下次读取时一并返回该事务及之后的事务写入的行，
+ * 重复返回的记录由客户端按ID合并
+ */
+
+// 单次最多返回的变更条数，超过时让客户端执行完整同步
+const MAX_CHANGES_PER_TYPE = 500
+
+export type EntityChanges<T> = {
+  upserted: T[] // 新建或更新的记录
+  deleted: number[] // 已删除（含移入回收站）的记录ID
+}
+
+export type SyncChanges = {
+  notes: EntityChanges<Record<string, unknown>>
+  groups: EntityChanges<Record<string, unknown>>
+  links: EntityChanges<Record<string, unknown>>
+  files: EntityChanges<Record<string, unknown>>
+}
+
+export type SyncChangesResult =
+  | { reset: false; token: string; changes: SyncChanges }
+  | { reset: true; token: string }
+
+let syncSchemaReady: Promise<void> | null = null
+
+// 确保增量同步的序列、字段和触发器已创建
+export function ensureSyncSchema(): Promise<void> {
+  if (!syncSchemaReady) {
+    syncSchemaReady = (async () => {
+      for (const statement of SYNC_SCHEMA_STATEMENTS) {
+        await query(statement)
+      }
+    })().catch((error) => {
+      syncSchemaReady = null
+      throw error
+    })
+  }
+  return syncSchemaReady
+}
+
+export type SyncCursor = {
+  version: bigint // 已返回的最大 sync_version
+  txid: bigint | null // 读取时最早的未结束事务，该事务及之后的事务写入的行下次重新返回；旧令牌没有
+}
+
+export function encodeSyncToken(cursor: SyncCursor): string {
+  const payload: { v: string; x?: string } = { v: cursor.version.toString() }
+  if (cursor.txid !== null) payload.x = cursor.txid.toString()
+  return Buffer.from(JSON.stringify(payload)).toString('base64url')
+}
+
+// 解析同步令牌，无效时返回 null
+export function decodeSyncToken(token: string | null | undefined): SyncCursor | null {
+  if (!token) return null
+  try {
+    const parsed = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'))
+    if (typeof parsed?.v !== 'string' || !/^\d+$/.test(parsed.v)) return null
+    if (parsed.x !== undefined && (typeof parsed.x !== 'string' || !/^\d+$/.test(parsed.x))) return null
+    return { version: BigInt(parsed.v), txid: parsed.x === undefined ? null : BigInt(parsed.x) }
+  } catch {
+    return null
+  }
+}
+
+// 当前版本号和最早的未结束事务（同一快照中读取）
+async function getCurrentCursor(): Promise<SyncCursor> {
+  const result = await query(
+    `SELECT
+       (SELECT CASE WHEN is_called THEN last_value ELSE last_value - 1 END FROM sync_version_seq) AS version,
+       txid_snapshot_xmin(txid_current_snapshot()) AS txid`
+  )
+  return {
+    version: BigInt(result.rows[0]?.version ?? 0),
+    txid: BigInt(result.rows[0]?.txid ?? 0),
+  }
+}
+
+async function getOldestActiveTxid(): Promise<bigint> {
+  const result = await query('SELECT txid_snapshot_xmin(txid_current_snapshot()) AS txid')
+  return BigInt(result.rows[0]?.txid ?? 0)
+}
+
+const maxVersion = (current: bigint, rows: { sync_version: string | number }[]) =>
+  rows.reduce((max, row) => {
+    const version = BigInt(row.sync_version)
+    return version > max ? version : max
+  }, current)
+
+/**
+ * 获取某个同步令牌之后的变更
+ * 没有令牌或令牌无效时只返回当前令牌并要求客户端完整同步
+ */
+export async function getChangesSince(userId: string, sinceToken?: string | null): Promise<SyncChangesResult> {
+  await ensureSyncSchema()
+  await ensureTagSchema()
+
+  const since = decodeSyncToken(sinceToken)
+  if (since === null) {
+    return { reset: true, token: encodeSyncToken(await getCurrentCursor()) }
+  }
+
+  // 在读取变更之前取得，读取时仍未提交的事务一定不早于它
+  const oldestActiveTxid = await getOldestActiveTxid()
+
+  const sinceTxid = since.txid === null ? null : since.txid.toString()
+  const params = [userId, since.version.toString(), MAX_CHANGES_PER_TYPE + 1, sinceTxid]
+  const [notesResult, groupsResult, linksResult, filesResult, tombstonesResult] = await Promise.all([
+    query(
+      `SELECT id, user_id, content, title, group_id, created_at, updated_at, version, pinned, starred, remind_at, deleted_at, sync_version, ${NOTE_TAGS_COLUMN}
+       FROM notes WHERE user_id = $1 AND (sync_version > $2 OR sync_txid >= $4) ORDER BY sync_version ASC LIMIT $3`,
+      params
+    ),
+    query(
+      `SELECT id, user_id, name, parent_id, sort_order, created_at, updated_at, sync_version
+       FROM groups WHERE user_id = $1 AND (sync_version > $2 OR sync_txid >= $4) ORDER BY sync_version ASC LIMIT $3`,
+      params
+    ),
+    query(
+      `SELECT id, user_id, url, title, group_id, created_at, deleted_at, sync_version
+       FROM links WHERE user_id = $1 AND (sync_version > $2 OR sync_txid >= $4) ORDER BY sync_version ASC LIMIT $3`,
+      params
+    ),
+    query(
+      `SELECT id, user_id, name, type, size, minio_url, thumbnail_url, uploaded_at, deleted_at, sync_version
+       FROM files WHERE user_id = $1 AND (sync_version > $2 OR sync_txid >= $4) ORDER BY sync_version ASC LIMIT $3`,
+      params
+    ),
+    query(
+      `SELECT entity_type, entity_id, sync_version
+       FROM sync_tombstones WHERE user_id = $1 AND (sync_version > $2 OR sync_txid >= $4) ORDER BY sync_version ASC LIMIT $3`,
+      [userId, since.version.toString(), MAX_CHANGES_PER_TYPE * 4 + 1, sinceTxid]
+    ),
+  ])
+
+  const tooMany =
+    notesResult.rows.length > MAX_CHANGES_PER_TYPE ||
+    groupsResult.rows.length > MAX_CHANGES_PER_TYPE ||
+    linksResult.rows.length > MAX_CHANGES_PER_TYPE ||
+    filesResult.rows.length > MAX_CHANGES_PER_TYPE ||
+    tombstonesResult.rows.length > MAX_CHANGES_PER_TYPE * 4
+  if (tooMany) {
+    return { reset: true, token: encodeSyncToken(await getCurrentCursor()) }
+  }
+
+  let latest = since.version
+  for (const result of [notesResult, groupsResult, linksResult, filesResult, tombstonesResult]) {
+    latest = maxVersion(latest, result.rows)
+  }
+
+  const tombstoneIds = (entity: string) =>
+    tombstonesResult.rows
+      .filter((row: { entity_type: string }) => row.entity_type === entity)
+      .map((row: { entity_id: number }) => row.entity_id)
+
+  // 软删除的记录对客户端而言等同于删除
+  const split = (rows: Record<string, any>[], entity: string): EntityChanges<Record<string, unknown>> => {
+    const upserted: Record<string, unknown>[] = []
+    const deleted = tombstoneIds(entity)
+    for (const { sync_version: _version, deleted_at: deletedAt, ...row } of rows) {
+      if (deletedAt) {
+        deleted.push(row.id)
+      } else {
+        upserted.push(row)
+      }
+    }
+    return { upserted, deleted }
+  }
+
+  const files = split(filesResult.rows, 'file')
+  files.upserted = files.upserted.map((row) => ({
+    ...row,
+    url: row.minio_url,
+    thumbnail: row.thumbnail_url,
+  }))
+
+  return {
+    reset: false,
+    token: encodeSyncToken({ version: latest, txid: oldestActiveTxid }),
+    changes: {
+      notes: split(notesResult.rows, 'note'),
+      groups: split(groupsResult.rows, 'group'),
+      links: split(linksResult.rows, 'link'),
+      files,
+    },
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * 增量同步所需的数据库结构
+ *
+ * notes / groups / links / files 每行带一个单调递增的 sync_version（由触发器在插入和更新时写入），
+ * 物理删除的行由触发器写入 sync_tombstones，客户端凭上次的同步版本号拉取之后的变更。
+ * 不依赖 updated_at，因为它可能来自客户端时间。
+ *
+ * sync_version 在事务提交前取得，两个事务的提交顺序可能与版本号相反，
+ * 因此每行同时记录写入事务的 sync_txid，读取时重新返回上次读取时尚未结束的事务写入的行（见 lib/sync-changes.ts）。
+ */
+
+// 会话设置：事务内设为 on 时触发器不更新 sync_version，用于不改变记录内容的维护性更新（如补齐搜索索引）
+export const SKIP_SYNC_VERSION_SETTING = 'pwa_note.skip_sync_version'
+
+export const SYNC_TABLES = [
+  { table: 'notes', entity: 'note' },
+  { table: 'groups', entity: 'group' },
+  { table: 'links', entity: 'link' },
+  { table: 'files', entity: 'file' },
+] as const
+
+export const SYNC_SCHEMA_STATEMENTS: string[] = [
+  `CREATE SEQUENCE IF NOT EXISTS sync_version_seq`,
+
+  // 触发器写入 sync_txid 前先确保字段存在；已有的行记为 0
+  ...SYNC_TABLES.map(({ table }) => `ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS sync_txid BIGINT NOT NULL DEFAULT 0`),
+
+  `CREATE OR REPLACE FUNCTION bump_sync_version() RETURNS trigger AS $$
+  BEGIN
+    IF TG_OP = 'UPDATE' AND current_setting('${SKIP_SYNC_VERSION_SETTING}', true) = 'on' THEN
+      RETURN NEW;
+    END IF;
+    NEW.sync_version := nextval('sync_version_seq');
+    NEW.sync_txid := txid_current();
+    RETURN NEW;
+  END;
+  $$ LANGUAGE plpgsql`,
+
+  `CREATE TABLE IF NOT EXISTS sync_tombstones (
+    id SERIAL PRIMARY KEY,
+    entity_type VARCHAR(20) NOT NULL,
+    entity_id INTEGER NOT NULL,
+    user_id VARCHAR(255) NOT NULL,
+    sync_version BIGINT NOT NULL DEFAULT nextval('sync_version_seq'),
+    sync_txid BIGINT NOT NULL DEFAULT txid_current(),
+    deleted_at TIMESTAMP NOT NULL DEFAULT NOW()
+  )`,
+
+  `ALTER TABLE sync_tombstones ADD COLUMN IF NOT EXISTS sync_txid BIGINT NOT NULL DEFAULT txid_current()`,
+
+  `CREATE INDEX IF NOT EXISTS idx_sync_tombstones_user_version ON sync_tombstones(user_id, sync_version)`,
+
+  `CREATE INDEX IF NOT EXISTS idx_sync_tombstones_user_txid ON sync_tombstones(user_id, sync_txid)`,
+
+  `CREATE OR REPLACE FUNCTION record_sync_tombstone() RETURNS trigger AS $$
+  BEGIN
+    INSERT INTO sync_tombstones (entity_type, entity_id, user_id) VALUES (TG_ARGV[0], OLD.id, OLD.user_id);
+    RETURN OLD;
+  END;
+  $$ LANGUAGE plpgsql`,
+
+  ...SYNC_TABLES.flatMap(({ table, entity }) => [
+    `ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS sync_version BIGINT NOT NULL DEFAULT nextval('sync_version_seq')`,
+    `CREATE INDEX IF NOT EXISTS idx_${table}_user_sync_version ON ${table}(user_id, sync_version)`,
+    `CREATE INDEX IF NOT EXISTS idx_${table}_user_sync_txid ON ${table}(user_id, sync_txid)`,
+    `DO $$
+    BEGIN
+      IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = '${table}_sync_version') THEN
+        CREATE TRIGGER ${table}_sync_version
+          BEFORE INSERT OR UPDATE ON ${table}
+          FOR EACH ROW EXECUTE FUNCTION bump_sync_version();
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = '${table}_sync_tombstone') THEN
+        CREATE TRIGGER ${table}_sync_tombstone
+          AFTER DELETE ON ${table}
+          FOR EACH ROW EXECUTE FUNCTION record_sync_tombstone('${entity}');
+      END IF;
+    END $$`,
+  ]),
+]
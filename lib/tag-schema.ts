@@ -0,0 +1,36 @@
+/**
+ * 便签标签所需的数据库结构
+ *
+ * 标签按用户独立，名称不区分大小写唯一；便签与标签多对多，关联记录的 source 区分
+ * 手动添加（manual）和从正文 #标签 识别（inline）。保存正文时只重新计算 inline 关联，
+ * 手动添加的标签不受正文影响。
+ */
+
+export const TAG_SCHEMA_STATEMENTS: string[] = [
+  `CREATE TABLE IF NOT EXISTS tags (
+    id SERIAL PRIMARY KEY,
+    user_id VARCHAR(255) NOT NULL,
+    name TEXT NOT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+  )`,
+
+  `CREATE UNIQUE INDEX IF NOT EXISTS idx_tags_user_name ON tags(user_id, LOWER(name))`,
+
+  `CREATE TABLE IF NOT EXISTS note_tags (
+    note_id INTEGER NOT NULL REFERENCES notes(id) ON DELETE CASCADE,
+    tag_id INTEGER NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+    source VARCHAR(10) NOT NULL DEFAULT 'manual',
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (note_id, tag_id)
+  )`,
+
+  `CREATE INDEX IF NOT EXISTS idx_note_tags_tag_id ON note_tags(tag_id)`,
+]
+
+// 查询便签时附带标签列表的列表达式（要求 FROM notes 未使用别名）
+export const NOTE_TAGS_COLUMN = `COALESCE((
+  SELECT json_agg(json_build_object('id', t.id, 'name', t.name, 'source', nt.source) ORDER BY LOWER(t.name))
+  FROM note_tags nt JOIN tags t ON t.id = nt.tag_id
+  WHERE nt.note_id = notes.id
+), '[]'::json) AS tags`
@@ -0,0 +1,58 @@
+import { query } from '@/lib/db'
+import { TAG_SCHEMA_STATEMENTS } from '@/lib/tag-schema'
+import { toSearchPlainText } from '@/lib/search'
+
+// 标签名称最大长度
+export const MAX_TAG_LENGTH = 50
+
+// 正文中的 #标签：# 前不能是文字、数字或 & / #（排除 URL 片段、HTML 实体和 Markdown 标题），
+// 标签由文字、数字、下划线、连字符和 / 组成
+const INLINE_TAG_PATTERN = /(^|[^\p{L}\p{N}_&/#])#([\p{L}\p{N}_\-/]+)/gu
+
+let tagSchemaReady: Promise<void> | null = null
+
+// 确保标签表已创建
+export function ensureTagSchema(): Promise<void> {
+  if (!tagSchemaReady) {
+    tagSchemaReady = (async () => {
+      for (const statement of TAG_SCHEMA_STATEMENTS) {
+        await query(statement)
+      }
+    })().catch((error) => {
+      tagSchemaReady = null
+      throw error
+    })
+  }
+  return tagSchemaReady
+}
+
+/**
+ * 规范化标签名称：去掉开头的 # 和首尾空白，合并内部空白，超长截断
+ * 无效时返回空字符串
+ */
+export function normalizeTagName(name: string): string {
+  return Array.from(name.trim().replace(/^#+/, '').trim().replace(/\s+/g, ' '))
+    .slice(0, MAX_TAG_LENGTH)
+    .join('')
+}
+
+/**
+ * 识别正文中的 #标签，按出现顺序去重（不区分大小写）
+ * 纯数字（如 #1）不视为标签
+ */
+export function extractInlineTags(content: string): string[] {
+  const text = toSearchPlainText(content || '')
+  const seen = new Set<string>()
+  const tags: string[] = []
+
+  for (const match of text.matchAll(INLINE_TAG_PATTERN)) {
+    const name = normalizeTagName(match[2].replace(/[-/]+$/, ''))
+    if (!name || /^\d+$/.test(name)) continue
+    const key = name.toLowerCase()
+    if (seen.has(key)) continue
+    seen.add(key)
+    tags.push(name)
+  }
+
+  return tags
+}
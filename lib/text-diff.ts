@@ -0,0 +1,113 @@
+/**
+ * 文本行级差异工具
+ * 基于最长公共子序列（LCS）计算两段文本的逐行差异，供历史版本对比使用
+ */
+
+export type DiffLineType = 'equal' | 'add' | 'remove'
+
+export interface DiffLine {
+  type: DiffLineType
+  text: string
+  oldNumber?: number // 旧文本中的行号（从1开始）
+  newNumber?: number // 新文本中的行号（从1开始）
+}
+
+// LCS 表的最大单元格数（约 16MB），中间部分超过时不逐行对比，整体视为删除后新增
+const MAX_LCS_CELLS = 4_000_000
+
+export function splitLines(text: string): string[] {
+  const normalized = String(text ?? '').replace(/\r\n/g, '\n')
+  if (!normalized) return []
+  return normalized.split('\n')
+}
+
+/**
+ * 计算从 oldText 到 newText 的逐行差异
+ * 先裁掉公共前缀和后缀，再对中间部分做 LCS，避免长文本的无谓计算；
+ * 中间部分过大时（见 MAX_LCS_CELLS）整体替换，避免 LCS 表占满内存
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = splitLines(oldText)
+  const b = splitLines(newText)
+
+  let prefix = 0
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++
+  }
+
+  let suffix = 0
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++
+  }
+
+  const midA = a.slice(prefix, a.length - suffix)
+  const midB = b.slice(prefix, b.length - suffix)
+
+  const result: DiffLine[] = []
+
+  for (let i = 0; i < prefix; i++) {
+    result.push({ type: 'equal', text: a[i], oldNumber: i + 1, newNumber: i + 1 })
+  }
+
+  // LCS 长度表：lcs[i][j] 表示 midA[i..] 与 midB[j..] 的最长公共子序列长度
+  const rows = midA.length + 1
+  const cols = midB.length + 1
+  if (rows * cols > MAX_LCS_CELLS) {
+    midA.forEach((text, index) => result.push({ type: 'remove', text, oldNumber: prefix + index + 1 }))
+    midB.forEach((text, index) => result.push({ type: 'add', text, newNumber: prefix + index + 1 }))
+    appendSuffix(result, a, b, suffix)
+    return result
+  }
+  const lcs = new Uint32Array(rows * cols)
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lcs[i * cols + j] = midA[i] === midB[j]
+        ? lcs[(i + 1) * cols + j + 1] + 1
+        : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1])
+    }
+  }
+
+  let i = 0
+  let j = 0
+  while (i < midA.length || j < midB.length) {
+    if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+      result.push({ type: 'equal', text: midA[i], oldNumber: prefix + i + 1, newNumber: prefix + j + 1 })
+      i++
+      j++
+    } else if (i < midA.length && (j >= midB.length || lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1])) {
+      result.push({ type: 'remove', text: midA[i], oldNumber: prefix + i + 1 })
+      i++
+    } else {
+      result.push({ type: 'add', text: midB[j], newNumber: prefix + j + 1 })
+      j++
+    }
+  }
+
+  appendSuffix(result, a, b, suffix)
+  return result
+}
+
+function appendSuffix(result: DiffLine[], a: string[], b: string[], suffix: number) {
+  for (let k = 0; k < suffix; k++) {
+    const oldIndex = a.length - suffix + k
+    const newIndex = b.length - suffix + k
+    result.push({ type: 'equal', text: a[oldIndex], oldNumber: oldIndex + 1, newNumber: newIndex + 1 })
+  }
+}
+
+/**
+ * 统计差异中新增和删除的行数
+ */
+export function summarizeDiff(diff: DiffLine[]): { added: number; removed: number } {
+  let added = 0
+  let removed = 0
+  for (const line of diff) {
+    if (line.type === 'add') added++
+    else if (line.type === 'remove') removed++
+  }
+  return { added, removed }
+}
@@ -0,0 +1,83 @@
+import { diffLines, splitLines } from './text-diff'
+
+/**
+ * 三方文本合并（diff3）
+ * 以共同祖先 base 为基准，分别计算本机修改 mine 和服务器修改 theirs 的逐行差异，
+ * 只有一方改动的区域直接采用改动方，双方改成一样的区域取其一，双方改动不同的区域输出冲突标记
+ */
+
+export const MERGE_MARKER_MINE = '<<<<<<< 本机'
+export const MERGE_MARKER_SEPARATOR = '======='
+export const MERGE_MARKER_THEIRS = '>>>>>>> 服务器'
+
+export interface TextMergeResult {
+  merged: string
+  conflicts: number // 无法自动合并的区域数量，为 0 表示合并干净
+}
+
+// base 行号 -> 另一侧行号（均从0开始），只包含未改动的行
+function matchLines(base: string, other: string): Map<number, number> {
+  const matches = new Map<number, number>()
+  for (const line of diffLines(base, other)) {
+    if (line.type === 'equal' && line.oldNumber && line.newNumber) {
+      matches.set(line.oldNumber - 1, line.newNumber - 1)
+    }
+  }
+  return matches
+}
+
+const sameLines = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((line, index) => line === b[index])
+
+export function mergeText(base: string, mine: string, theirs: string): TextMergeResult {
+  const baseLines = splitLines(base)
+  const mineLines = splitLines(mine)
+  const theirsLines = splitLines(theirs)
+  const mineMatches = matchLines(base, mine)
+  const theirsMatches = matchLines(base, theirs)
+
+  const output: string[] = []
+  let conflicts = 0
+
+  // 合并 base 中两个稳定行（双方都未改动）之间的区域
+  const mergeChunk = (baseChunk: string[], mineChunk: string[], theirsChunk: string[]) => {
+    if (sameLines(mineChunk, baseChunk)) {
+      output.push(...theirsChunk)
+    } else if (sameLines(theirsChunk, baseChunk) || sameLines(mineChunk, theirsChunk)) {
+      output.push(...mineChunk)
+    } else {
+      conflicts++
+      output.push(MERGE_MARKER_MINE, ...mineChunk, MERGE_MARKER_SEPARATOR, ...theirsChunk, MERGE_MARKER_THEIRS)
+    }
+  }
+
+  let b = 0
+  let m = 0
+  let t = 0
+  while (true) {
+    let anchor = b
+    while (anchor < baseLines.length && !(mineMatches.has(anchor) && theirsMatches.has(anchor))) {
+      anchor++
+    }
+
+    // 稳定行之前的区域（包括任一方在稳定行前插入的行）按 diff3 合并
+    const mineEnd = anchor < baseLines.length ? (mineMatches.get(anchor) as number) : mineLines.length
+    const theirsEnd = anchor < baseLines.length ? (theirsMatches.get(anchor) as number) : theirsLines.length
+    mergeChunk(baseLines.slice(b, anchor), mineLines.slice(m, mineEnd), theirsLines.slice(t, theirsEnd))
+
+    if (anchor >= baseLines.length) break
+    output.push(baseLines[anchor])
+    b = anchor + 1
+    m = mineEnd + 1
+    t = theirsEnd + 1
+  }
+
+  return { merged: output.join('\n'), conflicts }
+}
+
+// 合并结果中是否仍残留冲突标记
+export function hasMergeMarkers(text: string): boolean {
+  return splitLines(text).some(
+    (line) => line === MERGE_MARKER_MINE || line === MERGE_MARKER_SEPARATOR || line === MERGE_MARKER_THEIRS
+  )
+}
@@ -0,0 +1,88 @@
+import { query } from '@/lib/db'
+
+/**
+ * 回收站工具
+ * 便签、链接、文件删除时只写入 deleted_at，超过保留期后由清理例程彻底删除
+ */
+
+const DEFAULT_TRASH_RETENTION_DAYS = 30
+
+export type TrashItemType = 'note' | 'link' | 'file'
+
+/**
+ * 回收站保留天数，可通过 TRASH_RETENTION_DAYS 环境变量配置
+ */
+export function getTrashRetentionDays(): number {
+  const raw = parseInt(process.env.TRASH_RETENTION_DAYS || '', 10)
+  return Number.isFinite(raw) && raw > 0 ? raw : DEFAULT_TRASH_RETENTION_DAYS
+}
+
+/**
+ * 彻底删除文件：先删除 MinIO 主文件，再删除数据库记录，最后删除缩略图
+ */
+export async function hardDeleteFile(id: number, userId: string): Promise<boolean> {
+  const fileResult = await query('SELECT minio_url, thumbnail_url FROM files WHERE id = $1 AND user_id = $2', [id, userId])
+
+  if (fileResult.rows.length === 0) {
+    return false
+  }
+
+  const file = fileResult.rows[0]
+  const { deleteFileFromMinio } = await import('@/lib/minio-utils')
+
+  // 先删除 MinIO 存储的主文件（必须成功才继续）
+  if (file.minio_url) {
+    await deleteFileFromMinio(file.minio_url)
+  }
+
+  await query('DELETE FROM files WHERE id = $1 AND user_id = $2', [id, userId])
+
+  // 缩略图删除失败不影响结果
+  if (file.thumbnail_url) {
+    try {
+      await deleteFileFromMinio(file.thumbnail_url)
+    } catch (error) {
+      console.warn('删除 MinIO 缩略图失败（非关键）:', error)
+    }
+  }
+
+  return true
+}
+
+/**
+ * 清理超过保留期的回收站项目
+ * 传入 userId 时只清理该用户，否则清理所有用户
+ */
+export async function purgeExpiredTrash(userId?: string): Promise<{ notes: number; links: number; files: number }> {
+  const retentionDays = getTrashRetentionDays()
+  const params: (string | number)[] = [retentionDays]
+  let userFilter = ''
+  if (userId) {
+    params.push(userId)
+    userFilter = ' AND user_id = $2'
+  }
+
+  const expiredCondition = `deleted_at IS NOT NULL AND deleted_at < NOW() - make_interval(days => $1::int)${userFilter}`
+
+  const notesResult = await query(`DELETE FROM notes WHERE ${expiredCondition} RETURNING id`, params)
+  const linksResult = await query(`DELETE FROM links WHERE ${expiredCondition} RETURNING id`, params)
+
+  // 文件需要逐个删除 MinIO 对象，单个失败时保留记录等待下次清理
+  const expiredFiles = await query(`SELECT id, user_id FROM files WHERE ${expiredCondition}`, params)
+  let purgedFiles = 0
+  for (const row of expiredFiles.rows as { id: number; user_id: string }[]) {
+    try {
+      if (await hardDeleteFile(row.id, row.user_id)) {
+        purgedFiles++
+      }
+    } catch (error) {
+      console.error(`清理过期文件 ${row.id} 失败:`, error)
+    }
+  }
+
+  const summary = { notes: notesResult.rows.length, links: linksResult.rows.length, files: purgedFiles }
+  if (summary.notes + summary.links + summary.files > 0) {
+    console.log('🗑️ 回收站清理完成:', { userId: userId ?? 'all', retentionDays, ...summary })
+  }
+  return summary
+}
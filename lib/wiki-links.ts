@@ -0,0 +1,73 @@
+/**
+ * 便签之间的 [[标题]] 链接语法
+ * 服务端保存时解析并记录链接，客户端用于渲染链接和编辑器自动补全（不依赖数据库，可在浏览器中使用）
+ */
+
+// 链接标题最大长度
+export const MAX_WIKI_LINK_LENGTH = 200
+
+// [[标题]]：标题不能包含方括号和换行
+const WIKI_LINK_PATTERN = /\[\[([^[\]\n]+?)\]\]/g
+
+// 光标前未闭合的 [[，用于触发自动补全
+const OPEN_WIKI_LINK_PATTERN = /\[\[([^[\]\n]*)$/
+
+export type WikiLinkSegment =
+  | { type: 'text'; text: string }
+  | { type: 'link'; text: string; title: string }
+
+// 规范化链接标题：去掉首尾空白并合并内部空白，超长截断；无效时返回空字符串
+export function normalizeWikiLinkTitle(title: string): string {
+  return Array.from(title.trim().replace(/\s+/g, ' '))
+    .slice(0, MAX_WIKI_LINK_LENGTH)
+    .join('')
+}
+
+// 识别正文中的 [[标题]]，按出现顺序去重（不区分大小写）
+export function extractWikiLinks(content: string): string[] {
+  const seen = new Set<string>()
+  const titles: string[] = []
+
+  for (const match of (content || '').matchAll(WIKI_LINK_PATTERN)) {
+    const title = normalizeWikiLinkTitle(match[1])
+    if (!title) continue
+    const key = title.toLowerCase()
+    if (seen.has(key)) continue
+    seen.add(key)
+    titles.push(title)
+  }
+
+  return titles
+}
+
+// 把文本拆分为普通文本和链接片段，用于渲染可点击的链接
+export function splitWikiLinks(text: string): WikiLinkSegment[] {
+  const segments: WikiLinkSegment[] = []
+  let lastIndex = 0
+
+  for (const match of text.matchAll(WIKI_LINK_PATTERN)) {
+    const title = normalizeWikiLinkTitle(match[1])
+    const index = match.index ?? 0
+    if (!title) continue
+    if (index > lastIndex) {
+      segments.push({ type: 'text', text: text.slice(lastIndex, index) })
+    }
+    segments.push({ type: 'link', text: match[0], title })
+    lastIndex = index + match[0].length
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ type: 'text', text: text.slice(lastIndex) })
+  }
+  return segments
+}
+
+/**
+ * 光标前是否正在输入链接
+ * 返回已输入的标题部分和 [[ 的起始位置，不在链接中时返回 null
+ */
+export function getOpenWikiLink(textBeforeCaret: string): { query: string; start: number } | null {
+  const match = textBeforeCaret.match(OPEN_WIKI_LINK_PATTERN)
+  if (!match || match.index === undefined) return null
+  return { query: match[1], start: match.index }
+}
@@ -88,6 +88,15 @@ const nextConfig = {
           },
         ],
       },
+      {
+        source: '/precache-manifest.js',
+        headers: [
+          {
+            key: 'Cache-Control',
+            value: 'public, max-age=0, must-revalidate',
+          },
+        ],
+      },
       {
         source: '/version.json',
         headers: [
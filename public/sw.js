@@ -1,15 +1,32 @@
 // Service Worker for PWA
-// 版本号会在构建时被 scripts/build-version.js 替换为真实版本
-const APP_VERSION = '2916d955'
-const CACHE_PREFIX = 'quick-notes-'
-const CACHE_NAME = `${CACHE_PREFIX}${APP_VERSION}`
-
 const scope = new URL(self.registration.scope)
 const scopePath = scope.pathname.replace(/\/$/, '')
 const withScope = (path) => `${scopePath}${path}`
 
+// 版本号和 _next/static 资源列表由 scripts/build-version.js 在构建时写入；
+// 开发环境未运行构建脚本时清单不存在，使用下面的默认值
+try {
+  importScripts(withScope('/precache-manifest.js'))
+} catch (error) {
+  console.warn('[SW] 预缓存清单不存在，跳过静态资源预缓存', error)
+}
+
+const PRECACHE_MANIFEST = self.__PRECACHE_MANIFEST || { version: 'dev', urls: [] }
+const APP_VERSION = PRECACHE_MANIFEST.version
+const CACHE_PREFIX = 'quick-notes-'
+const CACHE_NAME = `${CACHE_PREFIX}${APP_VERSION}`
+
+// 运行时缓存不随版本删除
+const FONT_CACHE_NAME = `${CACHE_PREFIX}fonts`
+const THUMBNAIL_CACHE_NAME = `${CACHE_PREFIX}thumbnails`
+const RUNTIME_CACHE_NAMES = [FONT_CACHE_NAME, THUMBNAIL_CACHE_NAME]
+const MAX_THUMBNAIL_ENTRIES = 200
+
+const OFFLINE_URL = withScope('/offline.html')
+
 const urlsToCache = [
   withScope('/'),
+  OFFLINE_URL,
   withScope('/favicon.png'),
   withScope('/icons/icon-144x144.png'),
   withScope('/icons/icon-192x192.png'),
@@ -18,9 +35,26 @@ const urlsToCache = [
   withScope('/version.json'),
 ]
 
+// 预缓存 _next/static 资源：文件名带内容哈希，旧版本缓存中已有的直接复用，单个失败不影响安装
+async function precacheStaticAssets(cache) {
+  const results = await Promise.allSettled(
+    PRECACHE_MANIFEST.urls.map(async (url) => {
+      const cached = await caches.match(url)
+      if (cached) return cache.put(url, cached)
+      return cache.add(url)
+    }),
+  )
+  const failed = results.filter((result) => result.status === 'rejected').length
+  if (failed > 0) {
+    console.warn(`[SW] ${failed}/${results.length} 个静态资源预缓存失败`)
+  }
+}
+
 self.addEventListener('install', (event) => {
   event.waitUntil(
-    caches.open(CACHE_NAME).then((cache) => cache.addAll(urlsToCache)).then(() => self.skipWaiting()),
+    caches.open(CACHE_NAME)
+      .then((cache) => cache.addAll(urlsToCache).then(() => precacheStaticAssets(cache)))
+      .then(() => self.skipWaiting()),
   )
 })
 
@@ -29,40 +63,104 @@ self.addEventListener('activate', (event) => {
     caches.keys().then((cacheNames) => (
       Promise.all(
         cacheNames.map((cacheName) => {
-          if (cacheName !== CACHE_NAME && cacheName.startsWith(CACHE_PREFIX)) {
+          if (
+            cacheName !== CACHE_NAME &&
+            cacheName.startsWith(CACHE_PREFIX) &&
+            !RUNTIME_CACHE_NAMES.includes(cacheName)
+          ) {
             return caches.delete(cacheName)
           }
           return undefined
         }),
       )
-    )).then(() => self.clients.claim()),
+    ))
+      // 导航预加载：启动 Service Worker 的同时发出页面请求
+      .then(() => self.registration.navigationPreload?.enable())
+      .then(() => self.clients.claim()),
   )
 })
 
+// 删除最早写入的缓存条目，控制缓存大小
+async function trimCache(cacheName, maxEntries) {
+  const cache = await caches.open(cacheName)
+  const keys = await cache.keys()
+  if (keys.length <= maxEntries) return
+  await Promise.all(keys.slice(0, keys.length - maxEntries).map((key) => cache.delete(key)))
+}
+
+// 有缓存时立即返回，同时在后台更新缓存；跨域图片的 opaque 响应同样缓存
+function staleWhileRevalidate(event, cacheName, maxEntries) {
+  const { request } = event
+  const cachedPromise = caches.open(cacheName).then((cache) => cache.match(request))
+  const networkPromise = fetch(request).then(async (response) => {
+    if (response.ok || response.type === 'opaque') {
+      const cache = await caches.open(cacheName)
+      await cache.put(request, response.clone())
+      if (maxEntries) await trimCache(cacheName, maxEntries)
+    }
+    return response
+  })
+
+  event.waitUntil(networkPromise.then(() => undefined, () => undefined))
+  return cachedPromise.then((cached) => cached || networkPromise)
+}
+
+// 应用外壳：只有首页需要离线打开，搜索、分享等查询参数不影响页面内容，统一缓存为一条
+const APP_SHELL_URL = withScope('/')
+
+function isAppShellNavigation(url) {
+  return url.pathname === APP_SHELL_URL || url.pathname === scopePath
+}
+
+// 页面导航：网络优先（使用导航预加载的响应），离线时返回缓存的应用外壳，没有时返回离线页
+// 只缓存应用外壳，其他页面不写入缓存，缓存中始终只有一份页面
+async function handleNavigation(event) {
+  const { request } = event
+  try {
+    const response = (await event.preloadResponse) || (await fetch(request))
+    if (response.ok && !response.redirected && isAppShellNavigation(new URL(request.url))) {
+      const copy = response.clone()
+      event.waitUntil(caches.open(CACHE_NAME).then((cache) => cache.put(APP_SHELL_URL, copy)).catch(() => {}))
+    }
+    return response
+  } catch {
+    const fallback = (await caches.match(APP_SHELL_URL)) || (await caches.match(OFFLINE_URL))
+    return fallback || Response.error()
+  }
+}
+
+function isFontRequest(request, url) {
+  return request.destination === 'font' || url.hostname === 'fonts.gstatic.com'
+}
+
+// 文件缩略图：MinIO 中 <userId>/thumbnails/ 下的图片
+function isThumbnailRequest(request, url) {
+  return request.destination === 'image' && url.pathname.includes('/thumbnails/')
+}
+
 self.addEventListener('fetch', (event) => {
   const { request } = event
+  if (request.method !== 'GET') return
+
   const url = new URL(request.url)
 
+  if (isFontRequest(request, url)) {
+    event.respondWith(staleWhileRevalidate(event, FONT_CACHE_NAME))
+    return
+  }
+
+  if (isThumbnailRequest(request, url)) {
+    event.respondWith(staleWhileRevalidate(event, THUMBNAIL_CACHE_NAME, MAX_THUMBNAIL_ENTRIES))
+    return
+  }
+
   const isExternalRequest = url.origin !== self.location.origin
-  if (isExternalRequest || request.method !== 'GET') return
+  if (isExternalRequest) return
 
   if (url.pathname.startsWith(withScope('/api/'))) return
 
   if (request.mode === 'navigate') {
-    event.respondWith(
-      fetch(request)
-        .then((response) => {
-          const copy = response.clone()
-          caches.open(CACHE_NAME).then((cache) => cache.put(request, copy)).catch(() => {})
-          return response
-        })
-        .catch(async () => {
-          const cached = await caches.match(request)
-          if (cached) return cached
-          const fallback = await caches.match(withScope('/'))
-          return fallback || Response.error()
-        }),
-    )
+    event.respondWith(handleNavigation(event))
     return
   }
 
@@ -76,3 +174,199 @@ self.addEventListener('message', (event) => {
     self.skipWaiting()
   }
 })
+
+// 后台同步：页面关闭前未能提交的修改保存在 IndexedDB 离线队列中（lib/offline-queue.ts），
+// 网络恢复时由浏览器唤醒 Service Worker，以当前登录用户的 Cookie 调用 /api/sync/outbox 回放
+const OUTBOX_SYNC_TAG = 'pwa-note-outbox'
+const OFFLINE_DB_NAME = 'pwa-note-offline'
+const OUTBOX_STORE = 'outbox'
+// 与 lib/offline-queue.ts 的 MAX_OUTBOX_ATTEMPTS 一致
+const MAX_OUTBOX_ATTEMPTS = 3
+const OUTBOX_REQUEST_TIMEOUT_MS = 30 * 1000
+
+function requestToPromise(request) {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// 打开离线数据库；数据库由页面创建，尚不存在时返回 null
+function openOfflineDb() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(OFFLINE_DB_NAME)
+    request.onupgradeneeded = () => request.transaction.abort()
+    request.onsuccess = () => {
+      const db = request.result
+      db.onversionchange = () => db.close()
+      if (db.objectStoreNames.contains(OUTBOX_STORE)) {
+        resolve(db)
+      } else {
+        db.close()
+        resolve(null)
+      }
+    }
+    request.onerror = () => (request.error && request.error.name === 'AbortError' ? resolve(null) : reject(request.error))
+  })
+}
+
+async function getUserOutboxEntries(db, userId) {
+  const store = db.transaction(OUTBOX_STORE, 'readonly').objectStore(OUTBOX_STORE)
+  const entries = await requestToPromise(store.index('userId').getAll(userId))
+  return entries.sort((a, b) => a.id - b.id)
+}
+
+// 把回放结果写回队列：完成的删除，失败的累计重试次数，其余写回替换临时ID后的操作
+function applyOutboxResults(db, entries, results) {
+  const entriesById = new Map(entries.map((entry) => [entry.id, entry]))
+  const transaction = db.transaction(OUTBOX_STORE, 'readwrite')
+  const store = transaction.objectStore(OUTBOX_STORE)
+
+  for (const result of results) {
+    const entry = entriesById.get(result.id)
+    if (!entry) continue
+
+    if (result.status === 'done') {
+      store.delete(entry.id)
+    } else if (result.status === 'failed') {
+      const attempts = entry.attempts + 1
+      store.put({
+        ...entry,
+        operation: result.operation || entry.operation,
+        attempts,
+        status: attempts >= MAX_OUTBOX_ATTEMPTS ? 'failed' : 'pending',
+        lastError: result.error,
+      })
+    } else if (result.operation) {
+      store.put({ ...entry, operation: result.operation })
+    }
+  }
+
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+async function getCurrentUserId() {
+  const response = await fetch(withScope('/api/auth/me'), { cache: 'no-store' })
+  const data = await response.json()
+  return data.authenticated ? data.user.id : null
+}
+
+async function notifyClients(message) {
+  const windowClients = await self.clients.matchAll({ type: 'window', includeUncontrolled: true })
+  windowClients.forEach((client) => client.postMessage(message))
+}
+
+// 回放当前登录用户的离线队列；网络错误时抛出，由浏览器稍后重试
+async function replayOutbox(userId, db) {
+  const entries = await getUserOutboxEntries(db, userId)
+  if (!entries.some((entry) => entry.status === 'pending')) return
+
+  const response = await fetch(withScope('/api/sync/outbox'), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      userId,
+      entries: entries.map(({ id, key, status, operation }) => ({ id, key, status, operation })),
+    }),
+    signal: AbortSignal.timeout(OUTBOX_REQUEST_TIMEOUT_MS),
+  })
+  // 登录失效时保留队列，等用户重新登录后由页面回放
+  if (response.status === 401 || response.status === 403) return
+  if (!response.ok) throw new Error(`回放离线队列失败: ${response.status}`)
+
+  const { results } = await response.json()
+  await applyOutboxResults(db, entries, results)
+
+  const count = (status) => results.filter((result) => result.status === status).length
+  console.log(`[SW] 后台同步完成: 成功 ${count('done')}，冲突 ${count('conflict')}，失败 ${count('failed')}`)
+  await notifyClients({
+    type: 'OUTBOX_REPLAYED',
+    userId,
+    replayed: count('done'),
+    conflicts: count('conflict'),
+    failed: count('failed'),
+  })
+}
+
+async function handleOutboxSync() {
+  const db = await openOfflineDb()
+  if (!db) return
+
+  try {
+    const userId = await getCurrentUserId()
+    if (!userId) return
+
+    // 与页面共用锁，避免重复回放或在回放期间合并新的修改
+    if (self.navigator.locks) {
+      await self.navigator.locks.request(`pwa-note-outbox-${userId}`, () => replayOutbox(userId, db))
+    } else {
+      await replayOutbox(userId, db)
+    }
+  } finally {
+    db.close()
+  }
+}
+
+self.addEventListener('sync', (event) => {
+  if (event.tag === OUTBOX_SYNC_TAG) {
+    event.waitUntil(handleOutboxSync())
+  }
+})
+
+// 推送通知：data 为 JSON { title, body, tag, url, noteId, skipWhenVisible }
+self.addEventListener('push', (event) => {
+  let payload = {}
+  try {
+    payload = event.data ? event.data.json() : {}
+  } catch {
+    payload = { body: event.data ? event.data.text() : '' }
+  }
+
+  const title = payload.title || '快速笔记'
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windowClients) => {
+      // 应用正在前台显示时由页面内提示处理
+      if (payload.skipWhenVisible && windowClients.some((client) => client.visibilityState === 'visible')) {
+        return undefined
+      }
+      return self.registration.showNotification(title, {
+        body: payload.body || '',
+        tag: payload.tag,
+        icon: withScope('/icons/icon-192x192.png'),
+        badge: withScope('/icons/icon-144x144.png'),
+        data: { url: payload.url || withScope('/'), noteId: payload.noteId },
+      })
+    }),
+  )
+})
+
+// 推送订阅被浏览器更换或失效：通知打开着的页面重新订阅并上报服务器
+self.addEventListener('pushsubscriptionchange', (event) => {
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windowClients) => {
+      windowClients.forEach((client) => client.postMessage({ type: 'PUSH_SUBSCRIPTION_CHANGED' }))
+    }),
+  )
+})
+
+// 点击通知：已打开的页面直接打开对应便签，否则打开新窗口
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close()
+  const { url, noteId } = event.notification.data || {}
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windowClients) => {
+      const client = windowClients[0]
+      if (client) {
+        if (noteId) client.postMessage({ type: 'OPEN_NOTE', noteId: String(noteId) })
+        return client.focus()
+      }
+      const target = noteId ? `${withScope('/')}?note=${encodeURIComponent(noteId)}` : url || withScope('/')
+      return self.clients.openWindow(target)
+    }),
+  )
+})
@@ -3,6 +3,9 @@
 /**
  * 构建时版本号注入脚本
  * 自动获取 Git 提交哈希并注入到应用中
+ *
+ * 同时生成 Service Worker 的预缓存清单 public/precache-manifest.js（版本号和 _next/static 资源列表）：
+ * 构建前运行时只写入版本号，构建完成后带 --precache 运行时写入完整的资源列表
  */
 
 const fs = require('fs')
@@ -51,25 +54,53 @@ function replaceVersionInFile(filePath, version) {
   }
 }
 
+// 预缓存时跳过的资源：source map 和字体（字体按 unicode-range 拆分成大量子集，由 Service Worker 在使用时缓存）
+const PRECACHE_EXCLUDE_PATTERN = /\.(map|woff2?|ttf|otf|eot)$/i
+
+// 列出目录下的所有文件（相对路径，使用 / 分隔）
+function listFiles(dir, prefix = '') {
+  if (!fs.existsSync(dir)) return []
+
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name
+    if (entry.isDirectory()) {
+      return listFiles(path.join(dir, entry.name), relativePath)
+    }
+    return [relativePath]
+  })
+}
+
+// 生成 Service Worker 预缓存清单
+function writePrecacheManifest(version, includeStaticAssets) {
+  // 与 next.config.js 一致：_next/static 资源使用 assetPrefix，未设置时使用 basePath
+  const assetPrefix = (process.env.ASSET_PREFIX || process.env.BASE_PATH || '').replace(/\/$/, '')
+  const staticDir = path.join(process.cwd(), '.next', 'static')
+
+  const urls = includeStaticAssets
+    ? listFiles(staticDir)
+        .filter((file) => !PRECACHE_EXCLUDE_PATTERN.test(file))
+        .map((file) => `${assetPrefix}/_next/static/${file}`)
+        .sort()
+    : []
+
+  const content = [
+    '// 由 scripts/build-version.js 在构建时生成，请勿手动修改',
+    `self.__PRECACHE_MANIFEST = ${JSON.stringify({ version, urls }, null, 2)}`,
+    '',
+  ].join('\n')
+
+  fs.writeFileSync(path.join(process.cwd(), 'public', 'precache-manifest.js'), content, 'utf8')
+  console.log(`✅ 预缓存清单已写入 public/precache-manifest.js（${urls.length} 个静态资源）`)
+}
+
 // 主函数
 function main() {
   const version = getAppVersion()
   console.log(`🔄 构建版本: ${version}`)
   
-  // 需要替换版本号的文件列表
-  const filesToUpdate = [
-    'public/sw.js',
-    '.next/static/sw.js', // 如果存在的话
-  ]
-  
   // 设置环境变量
   process.env.NEXT_PUBLIC_APP_VERSION = version
   
-  // 替换文件中的版本号
-  filesToUpdate.forEach(file => {
-    replaceVersionInFile(file, version)
-  })
-  
   // 输出版本信息到文件，供运行时使用
   const versionInfo = {
     version,
@@ -90,6 +121,9 @@ function main() {
   )
   
   console.log(`✅ 版本信息已写入 public/version.json`)
+
+  // Service Worker 从预缓存清单读取版本号，清单变化时浏览器会安装新的 Service Worker
+  writePrecacheManifest(version, process.argv.includes('--precache'))
   console.log(`📦 应用版本: ${version}`)
 }
 
@@ -98,4 +132,4 @@ if (require.main === module) {
   main()
 }
 
-module.exports = { getAppVersion, replaceVersionInFile }
+module.exports = { getAppVersion, replaceVersionInFile, writePrecacheManifest }
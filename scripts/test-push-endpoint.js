@@ -0,0 +1,177 @@
+/**
+ * 本地推送服务替身：代替浏览器推送服务接收 Web Push 请求，用于在没有浏览器的环境中测试推送
+ *
+ * 启动后生成一份推送订阅（endpoint 指向本服务），收到推送时校验 VAPID 签名、
+ * 按 RFC 8291（aes128gcm）解密并打印通知内容。
+ *
+ * 用法：
+ *   node scripts/test-push-endpoint.js                 # 只启动替身，打印订阅 JSON
+ *   BASE_URL=http://localhost:3000 USER_ID=xxx AUTH_TOKEN=<auth_token Cookie> \
+ *     node scripts/test-push-endpoint.js --once        # 注册订阅、请求测试通知，收到后退出
+ *
+ * 服务端需设置 PUSH_ALLOW_INSECURE_ENDPOINTS=true 才接受浏览器推送服务以外的 endpoint。
+ * 环境变量：
+ *   PORT            替身监听端口，默认 8790
+ *   RESPONSE_STATUS 替身返回的状态码，默认 201；设为 410 可模拟订阅失效
+ */
+
+const http = require('http')
+const crypto = require('crypto')
+
+const PORT = Number(process.env.PORT || 8790)
+const RESPONSE_STATUS = Number(process.env.RESPONSE_STATUS || 201)
+const BASE_URL = process.env.BASE_URL
+const USER_ID = process.env.USER_ID
+const AUTH_TOKEN = process.env.AUTH_TOKEN
+const ONCE = process.argv.includes('--once')
+const WAIT_TIMEOUT_MS = 60 * 1000
+
+// 模拟浏览器生成的订阅密钥
+const ecdh = crypto.createECDH('prime256v1')
+const userAgentPublicKey = ecdh.generateKeys()
+const authSecret = crypto.randomBytes(16)
+const deviceId = `stand-in-${crypto.randomBytes(4).toString('hex')}`
+
+const subscription = {
+  endpoint: `http://localhost:${PORT}/push/${deviceId}`,
+  keys: {
+    p256dh: userAgentPublicKey.toString('base64url'),
+    auth: authSecret.toString('base64url'),
+  },
+}
+
+/**
+ * 解析 VAPID 请求头：Authorization: vapid t=<JWT>, k=<公钥>
+ */
+function parseVapidHeader(authorization) {
+  const match = /^vapid t=([^,\s]+),\s*k=([^,\s]+)$/.exec(authorization || '')
+  if (!match) return null
+  const [header, claims, signature] = match[1].split('.')
+  const publicKey = crypto.createPublicKey({
+    key: { kty: 'EC', crv: 'P-256', ...pointToJwk(Buffer.from(match[2], 'base64url')) },
+    format: 'jwk',
+  })
+  const valid = crypto.verify(
+    'sha256',
+    Buffer.from(`${header}.${claims}`),
+    { key: publicKey, dsaEncoding: 'ieee-p1363' },
+    Buffer.from(signature, 'base64url'),
+  )
+  return { valid, claims: JSON.parse(Buffer.from(claims, 'base64url').toString()) }
+}
+
+function pointToJwk(point) {
+  return {
+    x: point.subarray(1, 33).toString('base64url'),
+    y: point.subarray(33, 65).toString('base64url'),
+  }
+}
+
+/**
+ * 按 RFC 8291 解密 aes128gcm 消息体（单条记录）
+ */
+function decryptPayload(body) {
+  const salt = body.subarray(0, 16)
+  const idLength = body.readUInt8(20)
+  const serverPublicKey = body.subarray(21, 21 + idLength)
+  const ciphertext = body.subarray(21 + idLength)
+
+  const sharedSecret = ecdh.computeSecret(serverPublicKey)
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), userAgentPublicKey, serverPublicKey])
+  const ikm = Buffer.from(crypto.hkdfSync('sha256', sharedSecret, authSecret, keyInfo, 32))
+  const contentKey = Buffer.from(crypto.hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16))
+  const nonce = Buffer.from(crypto.hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12))
+
+  const decipher = crypto.createDecipheriv('aes-128-gcm', contentKey, nonce)
+  decipher.setAuthTag(ciphertext.subarray(ciphertext.length - 16))
+  const padded = Buffer.concat([decipher.update(ciphertext.subarray(0, ciphertext.length - 16)), decipher.final()])
+
+  // 去掉填充：末尾的 0x00 和分隔符 0x02
+  let end = padded.length - 1
+  while (end >= 0 && padded[end] === 0) end--
+  return padded.subarray(0, end).toString('utf8')
+}
+
+let resolveReceived
+const received = new Promise((resolve) => {
+  resolveReceived = resolve
+})
+
+const server = http.createServer((req, res) => {
+  const chunks = []
+  req.on('data', (chunk) => chunks.push(chunk))
+  req.on('end', () => {
+    console.log(`\n📨 收到推送 ${req.method} ${req.url}`)
+    console.log('   TTL:', req.headers.ttl, ' Urgency:', req.headers.urgency || '(未设置)', ' Encoding:', req.headers['content-encoding'])
+
+    try {
+      const vapid = parseVapidHeader(req.headers.authorization)
+      if (!vapid) {
+        console.log('❌ 缺少或无法解析 VAPID 签名')
+      } else {
+        console.log(vapid.valid ? '✅ VAPID 签名有效' : '❌ VAPID 签名无效', vapid.claims)
+      }
+
+      const body = Buffer.concat(chunks)
+      if (body.length > 0) {
+        const payload = decryptPayload(body)
+        console.log('✅ 解密成功:', payload)
+      } else {
+        console.log('ℹ️ 无消息体')
+      }
+    } catch (error) {
+      console.log('❌ 处理推送失败:', error.message)
+    }
+
+    res.writeHead(RESPONSE_STATUS)
+    res.end()
+    resolveReceived()
+  })
+})
+
+async function registerAndRequestTest() {
+  const headers = {
+    'Content-Type': 'application/json',
+    Cookie: `auth_token=${AUTH_TOKEN}`,
+  }
+
+  console.log('\n🔔 注册订阅...')
+  const subscribeResponse = await fetch(`${BASE_URL}/api/push/subscribe`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ userId: USER_ID, deviceId, subscription }),
+  })
+  console.log(subscribeResponse.ok ? '✅ 订阅已保存' : '❌ 保存订阅失败:', await subscribeResponse.text())
+  if (!subscribeResponse.ok) return false
+
+  console.log('\n🧪 请求测试通知...')
+  const testResponse = await fetch(`${BASE_URL}/api/push/test`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ userId: USER_ID }),
+  })
+  console.log(testResponse.ok ? '✅ 服务端已发送' : '❌ 发送失败:', await testResponse.text())
+  return testResponse.ok
+}
+
+server.listen(PORT, async () => {
+  console.log(`🚀 推送服务替身已启动: http://localhost:${PORT}`)
+  console.log('📋 订阅 JSON:')
+  console.log(JSON.stringify(subscription, null, 2))
+
+  let ok = true
+  if (BASE_URL && USER_ID && AUTH_TOKEN) {
+    ok = await registerAndRequestTest().catch((error) => {
+      console.log('❌ 请求失败:', error.message)
+      return false
+    })
+  }
+
+  if (!ONCE) return
+
+  const timeout = new Promise((resolve) => setTimeout(() => resolve('timeout'), WAIT_TIMEOUT_MS).unref())
+  const result = ok ? await Promise.race([received, timeout]) : 'failed'
+  if (result === 'timeout') console.log('❌ 等待推送超时')
+  server.close()
+  process.exit(result === undefined ? 0 : 1)
+})